@@ -0,0 +1,120 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    mockStorage.delete(key);
+    return Promise.resolve();
+  }),
+  multiRemove: jest.fn((keys: string[]) => {
+    keys.forEach((key) => mockStorage.delete(key));
+    return Promise.resolve();
+  }),
+}));
+
+import axios from 'axios';
+import { apiClient } from '../lib/api-client';
+import { authEventEmitter } from '../lib/auth-event-emitter';
+import { createMockBackend } from '../scripts/mock-backend/backend';
+import { installMockBackend } from '../scripts/mock-backend/axios-adapter';
+
+const backend = createMockBackend();
+let restoreAdapters: () => void;
+
+const refreshRequests = () => backend.requests.filter((request) => request.path === '/api/auth/refresh-token');
+
+function signIn() {
+  const session = backend.signIn('user-1');
+  mockStorage.set('talynk_token', session.accessToken);
+  mockStorage.set('talynk_refresh_token', session.refreshToken);
+  mockStorage.set('talynk_user', JSON.stringify(session.user));
+  return session;
+}
+
+describe('apiClient 401 handling', () => {
+  const onUnauthorized = jest.fn();
+  const onAccountSuspended = jest.fn();
+
+  beforeAll(() => {
+    restoreAdapters = installMockBackend(backend, apiClient, axios);
+    authEventEmitter.onUnauthorized(onUnauthorized);
+    authEventEmitter.onAccountSuspended(onAccountSuspended);
+  });
+
+  afterAll(() => {
+    authEventEmitter.offUnauthorized(onUnauthorized);
+    authEventEmitter.offAccountSuspended(onAccountSuspended);
+    restoreAdapters();
+  });
+
+  beforeEach(() => {
+    backend.reset();
+    mockStorage.clear();
+    onUnauthorized.mockClear();
+    onAccountSuspended.mockClear();
+  });
+
+  it('shares one refresh between concurrent 401s and replays each request', async () => {
+    const session = signIn();
+    backend.expireAccessTokens();
+
+    const responses = await Promise.all([
+      apiClient.get('/api/user/profile'),
+      apiClient.get('/api/user/profile'),
+      apiClient.get('/api/user/profile'),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(refreshRequests()).toHaveLength(1);
+    expect(mockStorage.get('talynk_token')).not.toBe(session.accessToken);
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+
+  it('signs out exactly once when the refresh fails', async () => {
+    signIn();
+    backend.expireAccessTokens();
+    backend.failNext({ path: '/api/auth/refresh-token', mode: 'unauthorized' });
+
+    const results = await Promise.allSettled([
+      apiClient.get('/api/user/profile'),
+      apiClient.get('/api/user/profile'),
+      apiClient.get('/api/user/profile'),
+    ]);
+
+    expect(results.every((result) => result.status === 'rejected')).toBe(true);
+    expect(refreshRequests()).toHaveLength(1);
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    expect(mockStorage.has('talynk_token')).toBe(false);
+
+    // A straggler sent with the old token does not sign out again
+    await expect(apiClient.get('/api/user/profile', { headers: { Authorization: 'Bearer stale' } }))
+      .rejects.toMatchObject({ response: { status: 401 } });
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a refresh refused for a suspended account as a suspension', async () => {
+    signIn();
+    backend.expireAccessTokens();
+    backend.failNext({ path: '/api/auth/refresh-token', mode: 'suspended', reason: 'Spam' });
+
+    await expect(apiClient.get('/api/user/profile')).rejects.toMatchObject({ response: { status: 401 } });
+
+    expect(onAccountSuspended).toHaveBeenCalledTimes(1);
+    expect(onAccountSuspended).toHaveBeenCalledWith('Spam');
+    expect(onUnauthorized).not.toHaveBeenCalled();
+    expect(mockStorage.has('talynk_token')).toBe(false);
+  });
+
+  it('does not refresh or sign out for requests sent without a session', async () => {
+    await expect(apiClient.get('/api/user/profile')).rejects.toMatchObject({ response: { status: 401 } });
+
+    expect(refreshRequests()).toHaveLength(0);
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+});
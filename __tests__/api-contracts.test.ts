@@ -0,0 +1,64 @@
+import { describe, expect, it, afterEach, beforeEach, jest } from '@jest/globals';
+import {
+  AppealListSchema,
+  ChallengeWinnerSchema,
+  array,
+  clearContractViolations,
+  getContractViolationReport,
+  parseApiData,
+  parseApiResponse,
+  readLegacyCount,
+} from '../lib/api-contracts';
+
+describe('API contracts', () => {
+  beforeEach(() => {
+    clearContractViolations();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps legacy field names onto the declared ones', () => {
+    const response = parseApiResponse('GET /api/reports/appeals/my', AppealListSchema, {
+      status: 'success',
+      data: {
+        appeals: [{ id: 'a1', post_id: 'p1', appeal_reason: 'Not spam', admin_notes: 'Restored', status: 'approved' }],
+        pagination: { currentPage: 1, totalCount: 1, hasNext: false },
+      },
+    });
+
+    expect(response.data.appeals[0]).toMatchObject({
+      id: 'a1',
+      postId: 'p1',
+      reason: 'Not spam',
+      adminResponse: 'Restored',
+      status: 'approved',
+    });
+    expect(response.data.pagination).toMatchObject({ page: 1, total: 1, hasMore: false });
+    expect(getContractViolationReport()).toEqual([]);
+  });
+
+  it('reads counters under any of their historical names', () => {
+    expect(readLegacyCount({ like_count: 4 }, 'likes')).toBe(4);
+    expect(readLegacyCount({ likesCount: '7' }, 'likes')).toBe(7);
+    expect(readLegacyCount({ comments: [] }, 'comments')).toBeUndefined();
+  });
+
+  it('fills fallbacks and reports each broken field once per endpoint', () => {
+    const rows = [
+      { user_id: 'u1', total_winner_posts: 'lots', posts: null },
+      { user_id: 'u2', total_winner_posts: 'many' },
+    ];
+
+    const winners = parseApiData('GET /api/challenges/:id/winners', array(ChallengeWinnerSchema), rows);
+    parseApiData('GET /api/challenges/:id/winners', array(ChallengeWinnerSchema), rows);
+
+    expect(winners[0]).toMatchObject({ user_id: 'u1', total_winner_posts: 0, posts: [], is_winner: false });
+    expect(getContractViolationReport()).toEqual([
+      expect.objectContaining({ path: 'data[].total_winner_posts', expected: 'number', received: 'string', count: 4 }),
+    ]);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+jest.mock('../lib/config', () => ({ API_BASE_URL: 'https://api.test' }));
+
+import { loadCaptionTrack } from '../lib/captions';
+
+const mockFetch = jest.fn<(url: string) => Promise<any>>();
+const respond = (body: string) => Promise.resolve({ ok: true, text: () => Promise.resolve(body) });
+
+const hlsPost = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  type: 'video',
+  hlsReady: true,
+  hls_url: `https://cdn.test/${id}/master.m3u8`,
+  ...extra,
+});
+
+describe('caption tracks', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(() => respond('#EXTM3U\n'));
+    (global as any).fetch = mockFetch;
+  });
+
+  it('does not fetch the HLS master when the post says it has no captions', async () => {
+    await expect(loadCaptionTrack(hlsPost('no-captions', { subtitle_url: null }))).resolves.toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('looks for a subtitle rendition when the payload leaves the caption field out', async () => {
+    await expect(loadCaptionTrack(hlsPost('legacy'))).resolves.toBeNull();
+    expect(mockFetch).toHaveBeenCalledWith('https://cdn.test/legacy/master.m3u8', { method: 'GET' });
+  });
+
+  it('loads the sidecar track when there is one', async () => {
+    mockFetch.mockImplementation(() => respond('WEBVTT\n\n00:00.000 --> 00:02.000\nHello\n'));
+
+    const track = await loadCaptionTrack(hlsPost('sidecar', {
+      subtitle_url: 'https://cdn.test/sidecar/captions.vtt',
+      subtitle_language: 'en',
+    }));
+
+    expect(track).toEqual({ cues: [expect.objectContaining({ text: 'Hello' })], language: 'en' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
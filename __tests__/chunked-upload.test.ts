@@ -0,0 +1,101 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { uploadPreparedVideoInChunks } from '../lib/utils/video-upload';
+
+jest.mock('expo-file-system', () => ({
+  File: jest.fn(() => ({
+    open: () => {
+      const handle = {
+        offset: 0 as number | null,
+        readBytes: (length: number) => new Uint8Array(length),
+        close: jest.fn(),
+      };
+      return handle;
+    },
+  })),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  getInfoAsync: jest.fn(() => Promise.resolve({ exists: true, size: 0 })),
+}));
+
+jest.mock('react-native-compressor', () => ({}));
+jest.mock('../lib/utils/android-media-codec-guard', () => ({}));
+jest.mock('../lib/data-saver', () => ({ dataSaver: {} }));
+
+const sentParts: string[] = [];
+let failNextPartTwo = true;
+
+class MockXMLHttpRequest {
+  status = 0;
+  upload: { onprogress: ((event: { loaded: number }) => void) | null } = { onprogress: null };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+  private url = '';
+
+  open(_method: string, url: string) {
+    this.url = url;
+  }
+
+  abort() {
+    this.onabort?.();
+  }
+
+  send(body: Uint8Array) {
+    setTimeout(() => {
+      if (this.url.endsWith('/2') && failNextPartTwo) {
+        failNextPartTwo = false;
+        this.onerror?.();
+        return;
+      }
+      this.upload.onprogress?.({ loaded: body.length });
+      sentParts.push(`${this.url}:${body.length}`);
+      this.status = 200;
+      this.onload?.();
+    }, 0);
+  }
+}
+
+(globalThis as any).XMLHttpRequest = MockXMLHttpRequest;
+
+describe('chunked video upload', () => {
+  it('skips acknowledged parts, retries only the failed part and reports overall progress', async () => {
+    // Run the retry delay and the mocked requests without waiting
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+      Promise.resolve().then(callback);
+      return 0 as any;
+    }) as any);
+
+    const persisted: number[][] = [];
+    const percents: number[] = [];
+    const retries: number[] = [];
+    const completed = await uploadPreparedVideoInChunks(
+      'file:///cache/video.mp4',
+      { partSize: 10, totalBytes: 35, completedParts: [1] },
+      {
+        getPartUrls: async (partNumbers) => ({
+          urls: Object.fromEntries(partNumbers.map((partNumber) => [partNumber, `https://upload.test/${partNumber}`])),
+          // Part 4 reached the storage before the app was killed, but was never recorded locally
+          uploadedParts: [1, 4],
+        }),
+        onPartUploaded: (_partNumber, completedParts) => {
+          persisted.push(completedParts);
+        },
+      },
+      {
+        onProgress: (snapshot) => percents.push(Math.round(snapshot.overallPercent)),
+        onRetry: (snapshot) => retries.push(snapshot.uploadedBytes),
+      },
+    );
+
+    expect(completed).toEqual([1, 2, 3, 4]);
+    expect(sentParts).toEqual(['https://upload.test/2:10', 'https://upload.test/3:10']);
+    expect(retries).toEqual([15]);
+    expect(persisted).toEqual([[1, 2, 4], [1, 2, 3, 4]]);
+    expect(percents[0]).toBe(29);
+    expect(percents[percents.length - 1]).toBe(100);
+
+    setTimeoutSpy.mockRestore();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { dataSaver } from '../lib/data-saver';
+import { getCappedPlaybackUrl, getHlsVariants, rememberHlsMaster } from '../lib/utils/hls-variants';
+import { getPlaybackSelection } from '../lib/video-quality';
+
+const MASTER_URL = 'https://cdn.test/hls/video-1/master.m3u8';
+const MASTER_PLAYLIST = [
+  '#EXTM3U',
+  '#EXT-X-VERSION:3',
+  '#EXT-X-STREAM-INF:BANDWIDTH=796000,RESOLUTION=854x480,NAME="480p"',
+  '480p/playlist.m3u8',
+  '#EXT-X-STREAM-INF:BANDWIDTH=1728000,RESOLUTION=1280x720,NAME="720p"',
+  '720p/playlist.m3u8',
+].join('\n');
+
+describe('data saver policy', () => {
+  it('resolves the automatic preference from the connection type', () => {
+    dataSaver.setPreference('auto');
+    dataSaver.reportConnection('wifi', false);
+    expect(dataSaver.getPolicy().level).toBe('medium');
+
+    dataSaver.reportConnection('cellular', true);
+    expect(dataSaver.getPolicy().level).toBe('low');
+
+    dataSaver.setPreference('high');
+    expect(dataSaver.getPolicy().level).toBe('high');
+    dataSaver.setPreference('auto');
+  });
+
+  it('tells subscribers when the connection turns metered under a fixed preference', () => {
+    dataSaver.setPreference('high');
+    dataSaver.reportConnection('wifi', false);
+    const seen: boolean[] = [];
+    const unsubscribe = dataSaver.subscribe(() => seen.push(dataSaver.isMeteredConnection()));
+
+    dataSaver.reportConnection('cellular', true);
+    dataSaver.reportConnection('cellular', true);
+    dataSaver.reportConnection('wifi', false);
+
+    expect(seen).toEqual([false, true, false]);
+    expect(dataSaver.getPolicy().level).toBe('high');
+    unsubscribe();
+    dataSaver.setPreference('auto');
+  });
+
+  it('caps HLS playback to the tallest variant within the policy', () => {
+    expect(getCappedPlaybackUrl(MASTER_URL, 480)).toBe(MASTER_URL);
+
+    rememberHlsMaster(MASTER_URL, MASTER_PLAYLIST);
+    expect(getCappedPlaybackUrl(MASTER_URL, 480)).toBe('https://cdn.test/hls/video-1/480p/playlist.m3u8');
+    expect(getCappedPlaybackUrl(MASTER_URL, 360)).toBe('https://cdn.test/hls/video-1/480p/playlist.m3u8');
+    expect(getCappedPlaybackUrl(MASTER_URL, null)).toBe(MASTER_URL);
+    // Every variant fits, so playback stays adaptive
+    expect(getCappedPlaybackUrl(MASTER_URL, 720)).toBe(MASTER_URL);
+  });
+
+  it('pins the rendition the user picked', () => {
+    rememberHlsMaster(MASTER_URL, MASTER_PLAYLIST);
+    expect(getHlsVariants(MASTER_URL)).toEqual([
+      expect.objectContaining({ width: 854, height: 480, bandwidth: 796000, name: '480p' }),
+      expect.objectContaining({ width: 1280, height: 720, bandwidth: 1728000, name: '720p' }),
+    ]);
+
+    dataSaver.setPreference('low');
+    const manual = getPlaybackSelection('1080p');
+    expect(manual).toEqual({ maxHeight: 1080, lock: true });
+    expect(getCappedPlaybackUrl(MASTER_URL, manual.maxHeight, { lock: manual.lock }))
+      .toBe('https://cdn.test/hls/video-1/720p/playlist.m3u8');
+    expect(getPlaybackSelection('auto')).toEqual({ maxHeight: 480, lock: false });
+    dataSaver.setPreference('auto');
+  });
+});
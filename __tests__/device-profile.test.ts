@@ -0,0 +1,58 @@
+import { describe, expect, it, afterEach, jest } from '@jest/globals';
+
+import { deviceProfile } from '../lib/device-profile';
+import { getFeedWarmRadius, shouldPreloadFeedVideo } from '../lib/utils/video-feed';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('expo-device', () => ({
+  totalMemory: 8 * 1024 ** 3,
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+}));
+
+describe('device profile', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('steps down after repeated unclean exits and under memory pressure', async () => {
+    expect(deviceProfile.get().tier).toBe('high');
+
+    // The previous session never reached the background: the second unclean exit in the window
+    mockStorage.set('@talynk/device_profile_history', JSON.stringify({
+      sessionOpen: true,
+      recent: ['clean', 'unclean'],
+    }));
+    await deviceProfile.initialize();
+
+    expect(deviceProfile.get()).toMatchObject({ baseTier: 'high', tier: 'mid', underMemoryPressure: false });
+    expect(JSON.parse(mockStorage.get('@talynk/device_profile_history') ?? '{}')).toEqual({
+      sessionOpen: true,
+      recent: ['clean', 'unclean', 'unclean'],
+    });
+
+    jest.useFakeTimers();
+    const seen: string[] = [];
+    const unsubscribe = deviceProfile.subscribe((profile) => seen.push(profile.tier));
+
+    deviceProfile.reportMemoryWarning();
+    expect(deviceProfile.get()).toMatchObject({ tier: 'low', poolSize: 2, underMemoryPressure: true });
+    expect(getFeedWarmRadius(5, 20)).toEqual({ forward: 2, backward: 0 });
+    expect(shouldPreloadFeedVideo(4, 5)).toBe(false);
+    expect(shouldPreloadFeedVideo(6, 5)).toBe(true);
+
+    jest.advanceTimersByTime(2 * 60_000);
+    expect(deviceProfile.get()).toMatchObject({ tier: 'mid', poolSize: 3, underMemoryPressure: false });
+    expect(shouldPreloadFeedVideo(4, 5)).toBe(true);
+    expect(shouldPreloadFeedVideo(7, 5)).toBe(false);
+    expect(seen).toEqual(['mid', 'low', 'mid']);
+    unsubscribe();
+  });
+});
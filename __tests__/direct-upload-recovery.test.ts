@@ -0,0 +1,110 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { directUploadRecovery } from '../lib/direct-upload-recovery';
+import { postsApi } from '../lib/api';
+import { getPendingDirectUploadSessions, upsertPendingDirectUploadSession } from '../lib/upload-session-store';
+import { uploadPreparedVideo } from '../lib/utils/video-upload';
+import { videoReadyTracker } from '../lib/video-ready-tracker';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  cacheDirectory: 'file:///cache/',
+  getInfoAsync: jest.fn((uri: string) => Promise.resolve({ exists: !uri.includes('missing') })),
+  deleteAsync: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../lib/api', () => ({
+  postsApi: {
+    createUpload: jest.fn(() => Promise.resolve({
+      status: 'success',
+      data: { postId: 'post-2', uploadUrl: 'https://upload.test/post-2', videoUrl: 'https://cdn.test/post-2.mp4', expiresIn: 600 },
+    })),
+    completeUpload: jest.fn(() => Promise.resolve({ status: 'success', data: {} })),
+    getProcessingStatus: jest.fn(() => Promise.resolve({ status: 'success', data: {} })),
+    deletePost: jest.fn(() => Promise.resolve({})),
+  },
+}));
+
+jest.mock('../lib/notification-service', () => ({
+  uploadNotificationService: {
+    showUploadQueued: jest.fn(() => Promise.resolve()),
+    showUploadError: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+jest.mock('../lib/utils/video-upload', () => ({
+  uploadPreparedVideo: jest.fn(() => Promise.resolve({ status: 200 })),
+}));
+
+jest.mock('../lib/video-ready-tracker', () => ({
+  videoReadyTracker: { track: jest.fn(() => Promise.resolve()) },
+}));
+
+describe('direct upload recovery', () => {
+  it('re-uploads under a fresh URL when the old one expired, then completes and tracks the post', async () => {
+    const earlier = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    await upsertPendingDirectUploadSession('user-1', {
+      id: 'user-1:post-1',
+      userId: 'user-1',
+      postId: 'post-1',
+      uploadUrl: 'https://upload.test/post-1',
+      expiresAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+      fileUri: 'file:///cache/compressed.mp4',
+      fileName: 'compressed.mp4',
+      mimeType: 'video/mp4',
+      title: 'Challenge entry',
+      postCategory: 'Dance',
+      status: 'active',
+      destination: 'post',
+      step: 'putting',
+      createdAt: earlier,
+      updatedAt: earlier,
+    });
+
+    await directUploadRecovery.resume('user-1');
+
+    expect(postsApi.createUpload).toHaveBeenCalledWith(expect.objectContaining({ title: 'Challenge entry', status: 'active' }));
+    expect(postsApi.deletePost).toHaveBeenCalledWith('post-1');
+    expect(uploadPreparedVideo).toHaveBeenCalledWith('https://upload.test/post-2', 'file:///cache/compressed.mp4', expect.anything());
+    expect(postsApi.completeUpload).toHaveBeenCalledWith('post-2');
+    expect(videoReadyTracker.track).toHaveBeenCalledWith('user-1', { postId: 'post-2', destination: 'post' });
+    expect(await getPendingDirectUploadSessions('user-1')).toEqual([]);
+    expect(directUploadRecovery.get()).toMatchObject({ postId: 'post-2', status: 'done' });
+  });
+
+  it('leaves sessions started in this run to the create screen', async () => {
+    const now = new Date().toISOString();
+    await upsertPendingDirectUploadSession('user-2', {
+      id: 'user-2:post-3',
+      userId: 'user-2',
+      postId: 'post-3',
+      uploadUrl: 'https://upload.test/post-3',
+      expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+      fileUri: 'file:///cache/live.mp4',
+      fileName: 'live.mp4',
+      mimeType: 'video/mp4',
+      title: 'Live upload',
+      postCategory: 'Dance',
+      status: 'active',
+      destination: 'post',
+      step: 'putting',
+      createdAt: now,
+      updatedAt: now,
+    });
+    jest.mocked(uploadPreparedVideo).mockClear();
+
+    await directUploadRecovery.resume('user-2');
+
+    expect(uploadPreparedVideo).not.toHaveBeenCalled();
+    expect(await getPendingDirectUploadSessions('user-2')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { getImageCacheKey, imageCache } from '../lib/utils/image-cache';
+
+const mockFiles = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  removeItem: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  cacheDirectory: 'file:///cache/',
+  makeDirectoryAsync: jest.fn(() => Promise.resolve()),
+  deleteAsync: jest.fn((uri: string) => {
+    [...mockFiles.keys()].filter((key) => key.startsWith(uri)).forEach((key) => mockFiles.delete(key));
+    return Promise.resolve();
+  }),
+  downloadAsync: jest.fn((url: string, uri: string) => {
+    mockFiles.set(uri, url);
+    return Promise.resolve({ uri, status: 200 });
+  }),
+  readAsStringAsync: jest.fn((uri: string) => Promise.resolve(mockFiles.get(uri) ?? '')),
+  readDirectoryAsync: jest.fn((uri: string) => Promise.resolve(
+    [...mockFiles.keys()].filter((key) => key.startsWith(uri)).map((key) => key.slice(uri.length)),
+  )),
+  writeAsStringAsync: jest.fn((uri: string, text: string) => {
+    mockFiles.set(uri, text);
+    return Promise.resolve();
+  }),
+  getInfoAsync: jest.fn((uri: string) => Promise.resolve({ exists: mockFiles.has(uri), size: 40 * 1024 * 1024 })),
+}));
+
+describe('image cache', () => {
+  it('names files after the URL and evicts the least recently used images over budget', async () => {
+    const key = getImageCacheKey('https://cdn.test/a.jpg');
+    expect(key).toMatch(/^[0-9a-f]{16}$/);
+    expect(getImageCacheKey('https://cdn.test/a.jpg')).toBe(key);
+    expect(getImageCacheKey('https://cdn.test/b.jpg')).not.toBe(key);
+
+    let now = 1_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => (now += 1));
+
+    // Each mocked image is 40 MB against the 100 MB default budget
+    await imageCache.prefetch('https://cdn.test/a.jpg');
+    await imageCache.prefetch('https://cdn.test/b.png');
+    expect(imageCache.getCachedUri('https://cdn.test/a.jpg')).toBe(`file:///cache/image-cache/${key}.jpg`);
+    await imageCache.prefetch('https://cdn.test/c.jpg');
+
+    expect(imageCache.isCached('https://cdn.test/a.jpg')).toBe(true);
+    expect(imageCache.isCached('https://cdn.test/b.png')).toBe(false);
+    expect(imageCache.getStats()).toMatchObject({ count: 2, bytes: 80 * 1024 * 1024 });
+
+    await imageCache.clearAll();
+    expect(imageCache.getStats().count).toBe(0);
+    expect(JSON.parse(mockFiles.get('file:///cache/image-cache/index.json') ?? '{}').entries).toEqual({});
+  });
+
+  it('discards downloads that finish after the cache was cleared', async () => {
+    const downloadAsync = jest.mocked(FileSystem.downloadAsync);
+    let finishDownload: () => void = () => {};
+    downloadAsync.mockImplementationOnce((url: string, uri: string) => new Promise((resolve) => {
+      finishDownload = () => {
+        mockFiles.set(uri, url);
+        resolve({ uri, status: 200 } as any);
+      };
+    }));
+
+    const pending = imageCache.prefetch('https://cdn.test/slow.jpg');
+    await new Promise((resolve) => setImmediate(resolve));
+    await imageCache.clearAll();
+    finishDownload();
+
+    await expect(pending).resolves.toBe(false);
+    expect(imageCache.isCached('https://cdn.test/slow.jpg')).toBe(false);
+    expect([...mockFiles.keys()].filter((file) => file.endsWith('.jpg'))).toEqual([]);
+
+    await expect(imageCache.prefetch('https://cdn.test/slow.jpg')).resolves.toBe(true);
+    expect(imageCache.isCached('https://cdn.test/slow.jpg')).toBe(true);
+    await imageCache.clearAll();
+  });
+
+  it('forgets images whose file is gone', async () => {
+    await imageCache.prefetch('https://cdn.test/evicted.jpg');
+    expect(imageCache.evict('https://cdn.test/evicted.jpg')).toBe(true);
+    expect(imageCache.getCachedUri('https://cdn.test/evicted.jpg')).toBeNull();
+    expect(imageCache.evict('https://cdn.test/evicted.jpg')).toBe(false);
+    await imageCache.clearAll();
+
+    // Purged by the OS while the app was closed
+    const keptKey = getImageCacheKey('https://cdn.test/kept.jpg');
+    const purgedKey = getImageCacheKey('https://cdn.test/purged.jpg');
+    const entry = (file: string) => ({ uri: '', file, size: 1, createdAt: Date.now(), lastAccessedAt: Date.now() });
+    mockFiles.set(`file:///cache/image-cache/${keptKey}.jpg`, 'https://cdn.test/kept.jpg');
+    mockFiles.set('file:///cache/image-cache/index.json', JSON.stringify({
+      budgetBytes: 100 * 1024 * 1024,
+      entries: {
+        [keptKey]: entry(`file:///cache/image-cache/${keptKey}.jpg`),
+        [purgedKey]: entry(`file:///cache/image-cache/${purgedKey}.jpg`),
+      },
+    }));
+
+    let freshCache: typeof imageCache = imageCache;
+    jest.isolateModules(() => {
+      freshCache = require('../lib/utils/image-cache').imageCache;
+    });
+    await freshCache.initialize();
+
+    expect(freshCache.isCached('https://cdn.test/kept.jpg')).toBe(true);
+    expect(freshCache.getCachedUri('https://cdn.test/purged.jpg')).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { localDrafts, type LocalDraftInput } from '../lib/local-drafts';
+import { uploadQueue } from '../lib/upload-queue';
+
+const mockStorage = new Map<string, string>();
+const mockFiles = new Set<string>();
+let mockQueueListener: ((items: any[]) => void) | null = null;
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///documents/',
+  makeDirectoryAsync: jest.fn(() => Promise.resolve()),
+  copyAsync: jest.fn(({ to }: { to: string }) => {
+    mockFiles.add(to);
+    return Promise.resolve();
+  }),
+  readDirectoryAsync: jest.fn((dir: string) => Promise.resolve(
+    [...mockFiles].filter((uri) => uri.startsWith(dir)).map((uri) => uri.slice(dir.length)),
+  )),
+  deleteAsync: jest.fn((uri: string) => {
+    [...mockFiles].filter((file) => file.startsWith(uri)).forEach((file) => mockFiles.delete(file));
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('../lib/upload-queue', () => ({
+  uploadQueue: {
+    load: jest.fn(() => Promise.resolve()),
+    list: jest.fn(() => []),
+    enqueue: jest.fn(() => Promise.resolve({ id: 'upload-1' })),
+    subscribe: jest.fn((listener: (items: any[]) => void) => {
+      mockQueueListener = listener;
+      return () => {};
+    }),
+  },
+}));
+
+const input = (overrides: Partial<LocalDraftInput> = {}): LocalDraftInput => ({
+  videoUri: 'file:///cache/Camera/recording.mp4',
+  thumbnailUri: 'file:///cache/thumb.jpg',
+  captionFile: null,
+  title: 'Sunset',
+  caption: 'Sunset',
+  categoryGroup: 'Arts',
+  categoryId: '12',
+  categoryName: 'Photography',
+  challengeId: 'challenge-1',
+  challengeName: 'Golden Hour',
+  ...overrides,
+});
+
+describe('local drafts', () => {
+  it('keeps media in app storage and replaces the video when an edited one is saved', async () => {
+    const draft = await localDrafts.save('user-1', input());
+    const dir = `file:///documents/local-drafts/${draft.id}/`;
+
+    expect(draft.videoUri.startsWith(`${dir}video-`)).toBe(true);
+    expect(draft.thumbnailUri?.startsWith(`${dir}thumbnail-`)).toBe(true);
+    expect(JSON.parse(mockStorage.get('@local_drafts:user-1') ?? '[]')).toHaveLength(1);
+
+    const edited = await localDrafts.save(
+      'user-1',
+      input({ videoUri: 'file:///cache/edited.mov', thumbnailUri: draft.thumbnailUri, caption: 'Sunset, trimmed' }),
+      draft.id,
+    );
+
+    expect(edited.id).toBe(draft.id);
+    expect(edited.videoUri.endsWith('.mov')).toBe(true);
+    expect([...mockFiles].filter((uri) => uri.startsWith(dir)).sort()).toEqual(
+      [edited.videoUri, draft.thumbnailUri].sort(),
+    );
+    expect(localDrafts.list()).toHaveLength(1);
+
+    await localDrafts.remove(draft.id);
+  });
+
+  it('uploads through the queue and is deleted once the video reaches the server', async () => {
+    const draft = await localDrafts.save('user-1', input());
+
+    await localDrafts.upload(draft.id, 'draft');
+    expect(uploadQueue.enqueue).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      sourceUri: draft.videoUri,
+      postCategory: 'Photography',
+      categoryId: 12,
+      postStatus: 'draft',
+      challengeId: null,
+    }));
+    expect(localDrafts.get(draft.id)?.uploadItemId).toBe('upload-1');
+    await expect(localDrafts.upload(draft.id)).rejects.toThrow('already uploading');
+
+    mockQueueListener?.([{ id: 'upload-1', status: 'failed' }]);
+    expect(localDrafts.get(draft.id)?.uploadItemId).toBe('upload-1');
+
+    mockQueueListener?.([{ id: 'upload-1', status: 'processing' }]);
+    expect(localDrafts.get(draft.id)).toBeNull();
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith(`file:///documents/local-drafts/${draft.id}/`, { idempotent: true });
+  });
+
+  it('needs a caption and category before uploading', async () => {
+    const draft = await localDrafts.save('user-1', input({ caption: ' ', categoryName: '' }));
+
+    await expect(localDrafts.upload(draft.id)).rejects.toThrow('Add a caption and category');
+    expect(localDrafts.get(draft.id)?.uploadItemId).toBeNull();
+  });
+
+  it('stays linked to an upload that recovery resumes after a relaunch', async () => {
+    const savedAt = new Date().toISOString();
+    mockStorage.set('@local_drafts:user-2', JSON.stringify([{
+      ...input(),
+      id: 'draft-7',
+      userId: 'user-2',
+      uploadItemId: 'upload-7',
+      createdAt: savedAt,
+      updatedAt: savedAt,
+    }]));
+    (uploadQueue.list as jest.Mock).mockReturnValueOnce([{ id: 'upload-7', status: 'resuming' }]);
+
+    await localDrafts.load('user-2');
+    expect(localDrafts.get('draft-7')?.uploadItemId).toBe('upload-7');
+    await expect(localDrafts.upload('draft-7')).rejects.toThrow('already uploading');
+
+    mockQueueListener?.([{ id: 'upload-7', status: 'processing' }]);
+    expect(localDrafts.get('draft-7')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    mockStorage.delete(key);
+    return Promise.resolve();
+  }),
+  multiRemove: jest.fn((keys: string[]) => {
+    keys.forEach((key) => mockStorage.delete(key));
+    return Promise.resolve();
+  }),
+}));
+
+import axios from 'axios';
+import { apiClient } from '../lib/api-client';
+import { feedApi, notificationsApi, viewsApi } from '../lib/api';
+import { authEventEmitter } from '../lib/auth-event-emitter';
+import { createMockBackend } from '../scripts/mock-backend/backend';
+import { installMockBackend } from '../scripts/mock-backend/axios-adapter';
+
+const backend = createMockBackend();
+let restoreAdapters: () => void;
+
+async function signIn(userId = 'user-1') {
+  const session = backend.signIn(userId);
+  mockStorage.set('talynk_token', session.accessToken);
+  mockStorage.set('talynk_refresh_token', session.refreshToken);
+  mockStorage.set('talynk_user', JSON.stringify(session.user));
+  return session;
+}
+
+describe('mock backend through apiClient', () => {
+  beforeAll(() => {
+    restoreAdapters = installMockBackend(backend, apiClient, axios);
+  });
+
+  afterAll(() => {
+    restoreAdapters();
+  });
+
+  beforeEach(() => {
+    backend.reset();
+    mockStorage.clear();
+  });
+
+  it('pages the public feed with opaque cursors', async () => {
+    const first = await feedApi.getPublic({ limit: 5 });
+    expect(first.status).toBe('success');
+    const cursor = first.data?.nextCursor;
+    expect(cursor).toEqual(expect.any(String));
+
+    const second = await feedApi.getPublic({ limit: 5, cursor });
+    const firstIds = first.data?.posts?.map((post) => post.id) ?? [];
+    const secondIds = second.data?.posts?.map((post) => post.id) ?? [];
+    expect(secondIds).toHaveLength(5);
+    expect(secondIds.some((id) => firstIds.includes(id))).toBe(false);
+  });
+
+  it('refreshes an expired access token and replays the request', async () => {
+    const session = await signIn();
+    backend.expireAccessTokens();
+
+    const response = await notificationsApi.getAll();
+
+    expect(response.data.notifications.length).toBeGreaterThan(0);
+    expect(mockStorage.get('talynk_token')).not.toBe(session.accessToken);
+    expect(backend.requests.filter((request) => request.path === '/api/auth/refresh-token')).toHaveLength(1);
+  });
+
+  it('signs out on 403 account_suspended', async () => {
+    await signIn();
+    const onSuspended = jest.fn();
+    authEventEmitter.onAccountSuspended(onSuspended);
+    backend.failNext({ path: '/api/feed/personalized', mode: 'suspended', reason: 'Spam' });
+
+    await expect(feedApi.getPersonalized({ limit: 5 })).rejects.toMatchObject({ response: { status: 403 } });
+
+    expect(onSuspended).toHaveBeenCalledWith('Spam');
+    expect(mockStorage.has('talynk_token')).toBe(false);
+    authEventEmitter.offAccountSuspended(onSuspended);
+  });
+
+  it('surfaces scripted timeouts as retryable network errors', async () => {
+    backend.failNext({ path: '/api/views/posts/', mode: 'timeout' });
+
+    const response = await viewsApi.recordView('post-1', 4, 100);
+
+    expect(response.status).toBe('error');
+    expect(response.data.retryable).toBe(true);
+  });
+});
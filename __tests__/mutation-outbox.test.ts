@@ -0,0 +1,99 @@
+import { describe, expect, it, beforeEach, jest } from '@jest/globals';
+
+const mockStorage = new Map<string, string>();
+const mockGetStatus = jest.fn<(...args: any[]) => Promise<any>>();
+const mockToggle = jest.fn<(...args: any[]) => Promise<any>>();
+const mockFollow = jest.fn<(...args: any[]) => Promise<any>>();
+const mockLikeCounts: Record<string, number> = {};
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    mockStorage.delete(key);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('../lib/api', () => ({
+  likesApi: {
+    getStatus: (...args: any[]) => mockGetStatus(...args),
+    toggle: (...args: any[]) => mockToggle(...args),
+  },
+  followsApi: {
+    follow: (...args: any[]) => mockFollow(...args),
+    unfollow: jest.fn(),
+    checkFollowing: jest.fn(),
+  },
+  postsApi: { addComment: jest.fn() },
+}));
+
+jest.mock('../lib/store', () => ({ store: { dispatch: jest.fn() } }));
+
+jest.mock('../lib/store/slices/likesSlice', () => ({
+  addLikedPost: jest.fn(),
+  removeLikedPost: jest.fn(),
+  setPostLikeCount: ({ postId, count }: { postId: string; count: number }) => {
+    mockLikeCounts[postId] = count;
+  },
+}));
+
+import { collapseOutbox, mutationOutbox, type OutboxEntry } from '../lib/mutation-outbox';
+
+const like = (postId: string, liked: boolean): OutboxEntry => ({ kind: 'like', postId, liked, queuedAt: 0 });
+
+describe('mutation-outbox', () => {
+  beforeEach(() => {
+    mockStorage.clear();
+    mockStorage.set('talynk_user', JSON.stringify({ id: 'viewer-1' }));
+    mockGetStatus.mockReset();
+    mockToggle.mockReset();
+    mockFollow.mockReset();
+    jest.useFakeTimers();
+  });
+
+  it('cancels contradictory likes and ignores repeats', () => {
+    const queued = collapseOutbox([], like('post-1', true));
+    expect(collapseOutbox(queued, like('post-1', true))).toHaveLength(1);
+    expect(collapseOutbox(queued, like('post-1', false))).toEqual([]);
+
+    // Never cancel against the entry that is already being replayed
+    expect(collapseOutbox(queued, like('post-1', false), queued[0])).toHaveLength(2);
+  });
+
+  it('replays in order and reconciles like counts from the server', async () => {
+    await mutationOutbox.enqueue({ kind: 'like', postId: 'post-1', liked: true });
+    await mutationOutbox.enqueue({ kind: 'follow', userId: 'user-2', following: true });
+    await mutationOutbox.enqueue({ kind: 'like', postId: 'post-2', liked: true });
+    expect(JSON.parse(mockStorage.get('@mutation_outbox:viewer-1') ?? '[]')).toHaveLength(3);
+
+    // post-1 was already liked from another device: no toggle, adopt the server count
+    mockGetStatus.mockImplementation(async (postId: string) => ({
+      status: 'success',
+      message: '',
+      data: postId === 'post-1' ? { isLiked: true, likeCount: 12 } : { isLiked: false, likeCount: 4 },
+    }));
+    mockToggle.mockResolvedValue({ status: 'success', message: '', data: { isLiked: true, likeCount: 5 } });
+    mockFollow.mockResolvedValue({ status: 'success', message: '', data: {} });
+
+    await mutationOutbox.replay();
+
+    expect(mockToggle).toHaveBeenCalledTimes(1);
+    expect(mockToggle.mock.calls[0][0]).toBe('post-2');
+    expect(mockFollow).toHaveBeenCalledWith('user-2', { queueOffline: false });
+    expect(mockLikeCounts).toMatchObject({ 'post-1': 12, 'post-2': 5 });
+    expect(mockStorage.has('@mutation_outbox:viewer-1')).toBe(false);
+  });
+
+  it('keeps the queue when the server is still unreachable', async () => {
+    await mutationOutbox.enqueue({ kind: 'follow', userId: 'user-3', following: true });
+    mockFollow.mockResolvedValue({ status: 'error', message: 'Network Error', data: { retryable: true } });
+
+    await mutationOutbox.replay();
+
+    expect(JSON.parse(mockStorage.get('@mutation_outbox:viewer-1') ?? '[]')).toHaveLength(1);
+  });
+});
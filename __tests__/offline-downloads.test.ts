@@ -0,0 +1,121 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { dataSaver } from '../lib/data-saver';
+import { offlineDownloads, type OfflineDownload } from '../lib/offline-downloads';
+
+const mockStorage = new Map<string, string>();
+const mockFiles = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///docs/',
+  makeDirectoryAsync: jest.fn(() => Promise.resolve()),
+  deleteAsync: jest.fn((uri: string) => {
+    [...mockFiles.keys()].filter((key) => key.startsWith(uri)).forEach((key) => mockFiles.delete(key));
+    return Promise.resolve();
+  }),
+  downloadAsync: jest.fn((url: string, uri: string) => {
+    mockFiles.set(uri, url);
+    return Promise.resolve({ uri, status: 200 });
+  }),
+  writeAsStringAsync: jest.fn((uri: string, text: string) => {
+    mockFiles.set(uri, text);
+    return Promise.resolve();
+  }),
+  getInfoAsync: jest.fn(() => Promise.resolve({ exists: true, size: 400 })),
+  createDownloadResumable: jest.fn(),
+}));
+
+jest.mock('../lib/post-video-assets-cache', () => ({
+  getPostVideoAssetsCached: jest.fn(() => Promise.resolve(null)),
+}));
+
+const PLAYLISTS: Record<string, string> = {
+  master: [
+    '#EXTM3U',
+    '#EXT-X-STREAM-INF:BANDWIDTH=796000,RESOLUTION=854x480',
+    '480p/playlist.m3u8',
+    '#EXT-X-STREAM-INF:BANDWIDTH=4000000,RESOLUTION=1920x1080',
+    '1080p/playlist.m3u8',
+  ].join('\n'),
+  media: [
+    '#EXTM3U',
+    '#EXT-X-TARGETDURATION:4',
+    '#EXTINF:4.0,',
+    'segment0.ts',
+    '#EXTINF:4.0,',
+    'segment1.ts',
+    '#EXT-X-ENDLIST',
+  ].join('\n'),
+};
+
+(global as any).fetch = jest.fn((url: string) => Promise.resolve({
+  ok: true,
+  status: 200,
+  text: () => Promise.resolve(url.endsWith('master.m3u8') ? PLAYLISTS.master : PLAYLISTS.media),
+}));
+
+const makePost = (id: string) => ({
+  id,
+  type: 'video',
+  processing_status: 'completed',
+  hls_url: `https://cdn.test/hls/${id}/master.m3u8`,
+}) as any;
+
+function waitForIdle() {
+  return new Promise<OfflineDownload[]>((resolve) => {
+    const check = (downloads: OfflineDownload[]) => {
+      if (downloads.every((entry) => entry.status === 'ready' || entry.status === 'failed')) {
+        unsubscribe();
+        resolve(downloads);
+      }
+    };
+    const unsubscribe = offlineDownloads.subscribe(check);
+    check(offlineDownloads.list());
+  });
+}
+
+describe('offline downloads', () => {
+  it('saves the HLS rendition closest to 720p with a local playlist', async () => {
+    await offlineDownloads.enqueue(makePost('p1'));
+    await waitForIdle();
+
+    const download = offlineDownloads.get('p1');
+    expect(download).toMatchObject({ status: 'ready', kind: 'hls', localUri: 'file:///docs/offline/p1/index.m3u8', bytes: 1200 });
+    expect(mockFiles.get('file:///docs/offline/p1/seg_0.ts')).toBe('https://cdn.test/hls/p1/480p/segment0.ts');
+    expect(mockFiles.get('file:///docs/offline/p1/index.m3u8')).toContain('seg_1.ts');
+    expect(JSON.parse(mockStorage.get('@offline_downloads') ?? '[]')).toHaveLength(1);
+  });
+
+  it('evicts the least recently played download when over budget', async () => {
+    await offlineDownloads.updateSettings({ budgetBytes: 2500 });
+    await offlineDownloads.enqueue(makePost('p2'));
+    await waitForIdle();
+
+    offlineDownloads.markPlayed('p1');
+    await offlineDownloads.enqueue(makePost('p3'));
+    await waitForIdle();
+
+    expect(offlineDownloads.list().map((entry) => entry.postId).sort()).toEqual(['p1', 'p3']);
+    expect(offlineDownloads.getUsedBytes()).toBe(2400);
+    expect(mockFiles.has('file:///docs/offline/p2/index.m3u8')).toBe(false);
+  });
+
+  it('starts auto downloads queued on cellular once the connection moves to Wi-Fi', async () => {
+    await offlineDownloads.updateSettings({ budgetBytes: 100_000 });
+    dataSaver.reportConnection('cellular', true);
+    await offlineDownloads.enqueue(makePost('p4'), 'auto');
+    expect(offlineDownloads.get('p4')?.status).toBe('queued');
+
+    dataSaver.reportConnection('wifi', false);
+    await waitForIdle();
+    expect(offlineDownloads.get('p4')?.status).toBe('ready');
+  });
+});
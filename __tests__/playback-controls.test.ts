@@ -0,0 +1,28 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { playbackControls, shouldAdvanceOnEnd } from '../lib/playback-controls';
+
+describe('playback-controls', () => {
+  it('advances at the end of a video with play-next or auto-scroll, and loops otherwise', () => {
+    expect(shouldAdvanceOnEnd({ rate: 1, endAction: 'loop', autoScroll: false })).toBe(false);
+    expect(shouldAdvanceOnEnd({ rate: 1, endAction: 'advance', autoScroll: false })).toBe(true);
+    expect(shouldAdvanceOnEnd({ rate: 1.5, endAction: 'loop', autoScroll: true })).toBe(true);
+  });
+
+  it('notifies subscribers only when a setting changes', () => {
+    const listener = jest.fn();
+    const unsubscribe = playbackControls.subscribe(listener);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    playbackControls.update({ rate: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    playbackControls.update({ endAction: 'advance' });
+    expect(listener).toHaveBeenLastCalledWith({ rate: 1, endAction: 'advance', autoScroll: false });
+    expect(shouldAdvanceOnEnd()).toBe(true);
+
+    unsubscribe();
+    playbackControls.update({ endAction: 'loop' });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
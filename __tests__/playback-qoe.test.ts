@@ -0,0 +1,182 @@
+import { describe, expect, it, afterEach, beforeEach, jest } from '@jest/globals';
+
+import { logsApi } from '../lib/api';
+import { playbackQoe } from '../lib/playback-qoe';
+
+jest.mock('../lib/api', () => ({
+  logsApi: { postClientEvent: jest.fn() },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+
+let mockNetworkStatus: 'online' | 'offline' = 'online';
+
+jest.mock('../lib/network-status', () => ({
+  networkStatus: {
+    getStatus: () => mockNetworkStatus,
+    subscribe: jest.fn(() => () => {}),
+  },
+}));
+
+const ok = { status: 'success' as const, message: '', data: {} };
+
+function play(postId: string, ttffMs: number) {
+  const session = playbackQoe.startPlay({
+    postId,
+    screenName: 'feed',
+    streamType: 'hls',
+    sourceMode: 'direct',
+    preloaded: false,
+  });
+  jest.advanceTimersByTime(ttffMs);
+  session.firstFrame();
+  session.end();
+}
+
+function sentBatches() {
+  return jest.mocked(logsApi.postClientEvent).mock.calls.map(([, details]) => details?.meta as any);
+}
+
+describe('playback QoE telemetry', () => {
+  beforeEach(() => {
+    mockNetworkStatus = 'online';
+    jest.mocked(logsApi.postClientEvent).mockReset();
+    jest.mocked(logsApi.postClientEvent).mockResolvedValue(ok);
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('aggregates plays into one batched client event', async () => {
+    const postClientEvent = jest.mocked(logsApi.postClientEvent);
+
+    playbackQoe.recordWarmup(['post-1']);
+    playbackQoe.recordPoolLookup('hit');
+    playbackQoe.recordPoolLookup('cold');
+
+    const warmPlay = playbackQoe.startPlay({
+      postId: 'post-1',
+      screenName: 'feed',
+      streamType: 'hls',
+      sourceMode: 'direct',
+      preloaded: true,
+    });
+    jest.advanceTimersByTime(200);
+    warmPlay.firstFrame();
+    jest.advanceTimersByTime(1_000);
+    warmPlay.status('loading');
+    jest.advanceTimersByTime(500);
+    warmPlay.status('readyToPlay');
+    warmPlay.seeked();
+    warmPlay.status('loading');
+    jest.advanceTimersByTime(300);
+    warmPlay.status('readyToPlay');
+    warmPlay.end();
+
+    const coldPlay = playbackQoe.startPlay({
+      postId: 'post-2',
+      screenName: 'feed',
+      streamType: 'raw',
+      sourceMode: 'android_cache',
+      preloaded: false,
+    });
+    coldPlay.error();
+    coldPlay.end();
+
+    await playbackQoe.flush();
+
+    expect(postClientEvent).toHaveBeenCalledTimes(1);
+    const [eventType, details] = postClientEvent.mock.calls[0];
+    expect(eventType).toBe('playback_qoe');
+    expect(details?.meta).toMatchObject({
+      deviceClass: expect.any(String),
+      summary: {
+        plays: 2,
+        ttffP50Ms: 200,
+        neverStarted: 1,
+        rebufferCount: 1,
+        rebufferMs: 500,
+        seekStallCount: 1,
+        errorsByStream: { 'raw:unknown': 1 },
+        pool: { hits: 1, cold: 1 },
+        warmup: { warmedPlays: 1, coldPlays: 1, warmedTtffP50Ms: 200, coldTtffP50Ms: null },
+        preloadedPlays: 1,
+      },
+    });
+
+    await playbackQoe.flush();
+    expect(postClientEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('splits time to first frame between warmed and cold posts and resets pool counts per batch', async () => {
+    playbackQoe.recordWarmup(['warm-1', 'warm-2']);
+    play('warm-1', 100);
+    play('warm-2', 300);
+    play('cold-1', 700);
+    play('cold-2', 900);
+
+    await playbackQoe.flush();
+
+    expect(sentBatches()[0].summary).toMatchObject({
+      plays: 4,
+      pool: { hits: 0, cold: 0 },
+      warmup: { warmedPlays: 2, coldPlays: 2, warmedTtffP50Ms: 300, coldTtffP50Ms: 900 },
+    });
+    expect(sentBatches()[0].plays.map((record: any) => record.warmed)).toEqual([true, true, false, false]);
+  });
+
+  it('samples percentiles over the batch and ships small batches on the flush timer', async () => {
+    for (let i = 1; i <= 10; i += 1) {
+      play(`sampled-${i}`, i * 100);
+    }
+    expect(logsApi.postClientEvent).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(5 * 60_000);
+
+    expect(sentBatches()).toHaveLength(1);
+    expect(sentBatches()[0].summary).toMatchObject({ plays: 10, ttffP50Ms: 600, ttffP90Ms: 1000, neverStarted: 0 });
+  });
+
+  it('flushes as soon as a full batch is buffered and retries retryable failures', async () => {
+    jest.mocked(logsApi.postClientEvent)
+      .mockResolvedValueOnce({ status: 'error', message: 'Network error', data: { retryable: true } });
+
+    for (let i = 0; i < 20; i += 1) {
+      play(`batched-${i}`, 100);
+    }
+    await playbackQoe.flush();
+    expect(sentBatches()).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(5 * 60_000);
+    expect(sentBatches()).toHaveLength(2);
+    expect(sentBatches()[1].plays.map((record: any) => record.postId)).toEqual(sentBatches()[0].plays.map((record: any) => record.postId));
+    expect(sentBatches()[1].summary.plays).toBe(20);
+
+    await jest.advanceTimersByTimeAsync(5 * 60_000);
+    expect(sentBatches()).toHaveLength(2);
+  });
+
+  it('keeps only the newest plays while offline and drains them in capped batches', async () => {
+    mockNetworkStatus = 'offline';
+    for (let i = 0; i < 120; i += 1) {
+      play(`offline-${i}`, 100);
+    }
+    await playbackQoe.flush();
+    expect(logsApi.postClientEvent).not.toHaveBeenCalled();
+
+    mockNetworkStatus = 'online';
+    await playbackQoe.flush();
+    await jest.advanceTimersByTimeAsync(5 * 60_000);
+    await jest.advanceTimersByTimeAsync(5 * 60_000);
+
+    expect(sentBatches().map((meta) => meta.plays.length)).toEqual([40, 40, 20]);
+    expect(sentBatches()[0].plays[0].postId).toBe('offline-20');
+    expect(sentBatches()[2].plays[19].postId).toBe('offline-119');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it, afterEach, beforeEach, jest } from '@jest/globals';
+
+class MockWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: MockWebSocket[] = [];
+
+  readyState = MockWebSocket.CONNECTING;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  send(payload: string) {
+    this.sent.push(JSON.parse(payload));
+  }
+
+  close() {
+    this.readyState = MockWebSocket.CLOSED;
+  }
+
+  serverAccept() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.();
+    this.onmessage?.({ data: JSON.stringify({ type: 'auth:ok', data: { protocolVersion: 2 } }) });
+  }
+
+  serverDrop() {
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.();
+  }
+}
+
+(global as any).WebSocket = MockWebSocket;
+
+import apiClient from '../lib/api-client';
+import realtimeTransport from '../lib/realtime-transport';
+
+jest.mock('../lib/api-client', () => ({
+  __esModule: true,
+  default: { get: jest.fn() },
+  refreshAccessToken: jest.fn(),
+}));
+
+const latestSocket = () => MockWebSocket.instances[MockWebSocket.instances.length - 1];
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i += 1) await Promise.resolve();
+};
+
+describe('realtime transport fallback', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    MockWebSocket.instances = [];
+  });
+
+  afterEach(() => {
+    realtimeTransport.disconnect();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('falls back to polling when the websocket keeps failing and upgrades once it recovers', async () => {
+    const get = jest.mocked(apiClient.get);
+    get
+      .mockResolvedValueOnce({
+        data: {
+          status: 'success',
+          data: {
+            cursor: '41',
+            events: [{ type: 'challenge:updated', data: { challengeId: 'c1', status: 'active' } }],
+          },
+        },
+      })
+      .mockImplementation(() => new Promise(() => {}));
+    const challengeUpdates = jest.fn();
+    const unsubscribe = realtimeTransport.subscribe('challengeUpdated', challengeUpdates);
+
+    realtimeTransport.connect('user-1', 'token-1');
+    latestSocket().serverDrop();
+    jest.advanceTimersByTime(1_000);
+    latestSocket().serverDrop();
+    expect(realtimeTransport.getActiveTransport()).toBe('websocket');
+    jest.advanceTimersByTime(2_000);
+    latestSocket().serverDrop();
+
+    expect(realtimeTransport.getActiveTransport()).toBe('polling');
+    await flushPromises();
+    expect(get).toHaveBeenCalledWith('/api/realtime/poll', expect.objectContaining({ params: expect.any(Object) }));
+    expect(challengeUpdates).toHaveBeenCalledWith(expect.objectContaining({ challengeId: 'c1', status: 'active' }));
+    expect(realtimeTransport.getConnectionState()).toBe('connected');
+    expect(get.mock.calls[1][1]).toMatchObject({ params: { cursor: '41' } });
+
+    jest.advanceTimersByTime(4_000);
+    latestSocket().serverAccept();
+    expect(realtimeTransport.getActiveTransport()).toBe('websocket');
+    expect(realtimeTransport.getConnectionState()).toBe('connected');
+    const abortSignal = get.mock.calls[1][1]?.signal as AbortSignal;
+    expect(abortSignal.aborted).toBe(true);
+    unsubscribe();
+  });
+});
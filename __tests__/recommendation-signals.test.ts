@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const mockStorage = new Map<string, string>();
+const mockRecordInteraction = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+}));
+
+jest.mock('react-native', () => ({
+  AppState: { addEventListener: jest.fn(() => ({ remove: jest.fn() })) },
+}));
+
+jest.mock('../lib/network-status', () => ({
+  networkStatus: {
+    getStatus: () => 'online',
+    subscribe: jest.fn(() => () => {}),
+  },
+}));
+
+jest.mock('../lib/api', () => ({
+  feedApi: {
+    recordRecommendationInteraction: (...args: any[]) => mockRecordInteraction(...args),
+  },
+}));
+
+import { recommendationSignals } from '../lib/recommendation-signals';
+
+const ok = { status: 'success', message: '', data: {} };
+const sentTypes = () => mockRecordInteraction.mock.calls.map(([postId, payload]) => `${postId}:${(payload as any).interactionType}`);
+
+describe('recommendation-signals', () => {
+  beforeEach(() => {
+    mockStorage.clear();
+    mockStorage.set('talynk_token', 'token');
+    mockRecordInteraction.mockReset();
+    mockRecordInteraction.mockResolvedValue(ok);
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  it('buffers signals with their feed attribution and flushes them on the timer', async () => {
+    recommendationSignals.registerFeedAttribution(['post-1'], { endpoint: 'foryou', pipeline: 'personalized', refresh: 2 });
+    recommendationSignals.track('post-1', 'quick_skip', { watchSeconds: 1 });
+    recommendationSignals.track('post-2', 'comment_open');
+    expect(mockRecordInteraction).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(sentTypes()).toEqual(['post-1:skip', 'post-2:comment_open']);
+    expect(mockRecordInteraction.mock.calls[0][1]).toEqual(expect.objectContaining({
+      signal: 'quick_skip',
+      pipeline: 'personalized',
+      refresh: 2,
+      endpoint: 'foryou',
+      watchSeconds: 1,
+    }));
+  });
+
+  it('flushes a full batch right away', async () => {
+    for (let i = 0; i < 8; i += 1) {
+      recommendationSignals.track(`post-${i}`, 'full_watch');
+    }
+    await recommendationSignals.flush();
+
+    expect(mockRecordInteraction).toHaveBeenCalledTimes(8);
+  });
+
+  it('keeps retryable failures for the next flush and drops the rest', async () => {
+    mockRecordInteraction
+      .mockResolvedValueOnce({ status: 'error', message: 'Network error', data: { retryable: true } })
+      .mockResolvedValueOnce({ status: 'error', message: 'Unknown interaction type', data: { retryable: false } });
+    recommendationSignals.track('post-1', 'like');
+    recommendationSignals.track('post-2', 'share');
+
+    await recommendationSignals.flush();
+    expect(mockRecordInteraction).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(sentTypes()).toEqual(['post-1:like', 'post-2:share', 'post-1:like']);
+  });
+
+  it('drops buffered signals for guests', async () => {
+    mockStorage.delete('talynk_token');
+    recommendationSignals.track('post-1', 'rewatch');
+    await recommendationSignals.flush();
+
+    mockStorage.set('talynk_token', 'token');
+    await recommendationSignals.flush();
+    expect(mockRecordInteraction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { challengesApi, postsApi } from '../lib/api';
+import { getScheduleTimeError, scheduledPosts } from '../lib/scheduled-posts';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('react-native', () => ({
+  AppState: { addEventListener: jest.fn(() => ({ remove: jest.fn() })) },
+}));
+
+jest.mock('../lib/api', () => ({
+  postsApi: {
+    schedulePost: jest.fn(),
+    unschedulePost: jest.fn(),
+    publishDraft: jest.fn(),
+  },
+  challengesApi: {
+    addPostToChallenge: jest.fn(),
+  },
+}));
+
+const schedulePost = postsApi.schedulePost as jest.MockedFunction<typeof postsApi.schedulePost>;
+const publishDraft = postsApi.publishDraft as jest.MockedFunction<typeof postsApi.publishDraft>;
+const addPostToChallenge = challengesApi.addPostToChallenge as jest.MockedFunction<typeof challengesApi.addPostToChallenge>;
+
+const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+const details = { title: 'Sunset', challengeId: 'challenge-1', challengeName: 'Golden Hour' };
+
+describe('scheduled posts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    addPostToChallenge.mockResolvedValue({ status: 'success', message: 'ok', data: null } as any);
+  });
+
+  it('validates publish times', () => {
+    const now = Date.now();
+    expect(getScheduleTimeError(new Date(now + 60 * 1000), now)).toContain('5 minutes');
+    expect(getScheduleTimeError(new Date(now + 31 * 24 * 60 * 60 * 1000), now)).toContain('30 days');
+    expect(getScheduleTimeError(new Date(now + 60 * 60 * 1000), now)).toBeNull();
+  });
+
+  it('records schedules the server accepted and keeps the rest for the app to publish', async () => {
+    schedulePost.mockResolvedValueOnce({ status: 'success', message: 'ok', data: { post: null } } as any);
+    const serverEntry = await scheduledPosts.schedule('user-1', 'post-1', inMinutes(60), details);
+    expect(schedulePost).toHaveBeenCalledWith('post-1', serverEntry.publishAt, 'challenge-1');
+    expect(serverEntry.serverScheduled).toBe(true);
+
+    schedulePost.mockResolvedValueOnce({ status: 'error', message: 'Not supported', data: null } as any);
+    const localEntry = await scheduledPosts.schedule('user-1', 'post-2', inMinutes(90), { ...details, challengeId: null });
+    expect(localEntry.serverScheduled).toBe(false);
+
+    expect(JSON.parse(mockStorage.get('@scheduled_posts:user-1') ?? '[]').map((entry: any) => entry.postId))
+      .toEqual(['post-1', 'post-2']);
+  });
+
+  it('publishes due drafts and adds competition entries the server did not publish', async () => {
+    mockStorage.set('@scheduled_posts:user-2', JSON.stringify([
+      { postId: 'due', userId: 'user-2', publishAt: inMinutes(-5), serverScheduled: false, createdAt: inMinutes(-60), ...details },
+      { postId: 'server-published', userId: 'user-2', publishAt: inMinutes(-5), serverScheduled: true, createdAt: inMinutes(-60), ...details },
+      { postId: 'offline', userId: 'user-2', publishAt: inMinutes(-5), serverScheduled: false, createdAt: inMinutes(-60), ...details, challengeId: null },
+    ]));
+    publishDraft.mockImplementation((postId: string) => {
+      if (postId === 'due') return Promise.resolve({ status: 'success', message: 'ok', data: null } as any);
+      if (postId === 'server-published') return Promise.resolve({ status: 'error', message: 'Draft post not found', data: null } as any);
+      return Promise.resolve({ status: 'error', message: 'Network error', data: null } as any);
+    });
+
+    await scheduledPosts.load('user-2');
+
+    expect(publishDraft).toHaveBeenCalledTimes(3);
+    expect(addPostToChallenge).toHaveBeenCalledTimes(1);
+    expect(addPostToChallenge).toHaveBeenCalledWith('challenge-1', 'due');
+    expect(scheduledPosts.list().map((entry) => entry.postId)).toEqual(['offline']);
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { uploadQueue, type UploadQueueRequest } from '../lib/upload-queue';
+import { directUploadRecovery } from '../lib/direct-upload-recovery';
+import { postsApi } from '../lib/api';
+import { upsertPendingDirectUploadSession } from '../lib/upload-session-store';
+import { uploadPreparedVideo } from '../lib/utils/video-upload';
+
+const mockStorage = new Map<string, string>();
+const pendingPuts: (() => void)[] = [];
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  cacheDirectory: 'file:///cache/',
+  getInfoAsync: jest.fn(() => Promise.resolve({ exists: true })),
+  deleteAsync: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../lib/config', () => ({ API_BASE_URL: 'https://api.test' }));
+
+jest.mock('../lib/network-status', () => ({
+  networkStatus: { getStatus: () => 'online', subscribe: jest.fn() },
+}));
+
+jest.mock('../lib/api', () => {
+  let nextPostId = 0;
+  return {
+    postsApi: {
+      createUpload: jest.fn(() => {
+        nextPostId += 1;
+        return Promise.resolve({
+          status: 'success',
+          data: { postId: `post-${nextPostId}`, uploadUrl: `https://upload.test/${nextPostId}`, videoUrl: '', expiresIn: 600 },
+        });
+      }),
+      completeUpload: jest.fn(() => Promise.resolve({ status: 'success', data: {} })),
+      getProcessingStatus: jest.fn(() => Promise.resolve({
+        status: 'success',
+        data: { processing: { status: 'processing', statusLabel: 'Transcoding', hlsReady: false } },
+      })),
+      uploadSubtitles: jest.fn(() => Promise.resolve({ status: 'success', data: {} })),
+      deletePost: jest.fn(() => Promise.resolve({})),
+    },
+  };
+});
+
+jest.mock('../lib/notification-service', () => ({
+  uploadNotificationService: {
+    showUploadQueued: jest.fn(() => Promise.resolve()),
+    showUploadError: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+jest.mock('../lib/utils/video-upload', () => ({
+  CHUNKED_UPLOAD_MIN_BYTES: 8 * 1024 * 1024,
+  prepareVideoForUpload: jest.fn((uri: string) => Promise.resolve({
+    uploadUri: uri,
+    fileName: uri.split('/').pop(),
+    uploadSizeBytes: 1024,
+  })),
+  uploadPreparedVideo: jest.fn(() => new Promise<void>((resolve) => {
+    pendingPuts.push(resolve);
+  })),
+  uploadPreparedVideoInChunks: jest.fn(),
+}));
+
+jest.mock('../lib/video-ready-tracker', () => ({
+  videoReadyTracker: { track: jest.fn(() => Promise.resolve()) },
+}));
+
+const request = (name: string): UploadQueueRequest => ({
+  sourceUri: `file:///videos/${name}.mp4`,
+  thumbnailUri: null,
+  title: name,
+  caption: '',
+  postCategory: 'Music',
+  postStatus: 'active',
+  challengeId: null,
+  challengeName: null,
+  captionFile: null,
+});
+
+async function flush() {
+  for (let index = 0; index < 30; index += 1) {
+    await Promise.resolve();
+  }
+}
+
+describe('upload queue', () => {
+  it('uploads two videos at a time and follows finished ones into processing', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask'] });
+
+    await uploadQueue.enqueue('user-1', request('a'));
+    await uploadQueue.enqueue('user-1', request('b'));
+    await uploadQueue.enqueue('user-1', request('c'));
+    await flush();
+
+    expect(uploadPreparedVideo).toHaveBeenCalledTimes(2);
+    expect(uploadQueue.list().find((item) => item.title === 'c')?.status).toBe('queued');
+    expect(uploadQueue.getPendingCount()).toBe(3);
+
+    pendingPuts.shift()?.();
+    await flush();
+
+    const first = uploadQueue.list().find((item) => item.title === 'a');
+    expect(first).toMatchObject({ status: 'processing', postId: 'post-1', processingLabel: 'Transcoding' });
+    expect(postsApi.completeUpload).toHaveBeenCalledWith('post-1');
+    expect(uploadPreparedVideo).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(mockStorage.get('@upload_queue:user-1') ?? '[]')).toHaveLength(3);
+
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('keeps uploads left to recovery on relaunch and follows them to processing', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask'] });
+    const earlier = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const captionFile = { uri: 'file:///documents/captions.vtt', name: 'captions.vtt' };
+    mockStorage.set('@upload_queue:user-2', JSON.stringify([{
+      ...request('interrupted'),
+      captionFile,
+      id: 'item-1',
+      userId: 'user-2',
+      status: 'failed',
+      uploadUri: 'file:///cache/interrupted.mp4',
+      fileName: 'interrupted.mp4',
+      totalBytes: 1024,
+      scheduledPublishAt: null,
+      postId: 'post-9',
+      percent: 40,
+      bytesPerSecond: 0,
+      etaSeconds: 0,
+      processingLabel: null,
+      processingFailed: false,
+      error: 'Network error',
+      createdAt: earlier,
+      updatedAt: earlier,
+    }]));
+    await upsertPendingDirectUploadSession('user-2', {
+      id: 'user-2:post-9',
+      userId: 'user-2',
+      postId: 'post-9',
+      uploadUrl: 'https://upload.test/9',
+      uploadItemId: 'item-1',
+      captionFile,
+      expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+      fileUri: 'file:///cache/interrupted.mp4',
+      fileName: 'interrupted.mp4',
+      mimeType: 'video/mp4',
+      title: 'interrupted',
+      postCategory: 'Music',
+      status: 'active',
+      destination: 'post',
+      step: 'put_done',
+      createdAt: earlier,
+      updatedAt: earlier,
+    });
+
+    await uploadQueue.load('user-2');
+    expect(uploadQueue.get('item-1')).toMatchObject({ status: 'resuming', error: null });
+    expect(uploadQueue.getPendingCount()).toBe(1);
+
+    await directUploadRecovery.resume('user-2');
+    await flush();
+
+    expect(postsApi.completeUpload).toHaveBeenCalledWith('post-9');
+    expect(postsApi.uploadSubtitles).toHaveBeenCalledWith('post-9', captionFile);
+    expect(uploadQueue.get('item-1')).toMatchObject({ status: 'processing', postId: 'post-9' });
+
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('keeps a caption upload failure on the item until the captions are retried', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask'] });
+    const captionFile = { uri: 'file:///documents/subs.vtt', name: 'subs.vtt' };
+    (postsApi.uploadSubtitles as jest.Mock<any>).mockResolvedValueOnce({ status: 'error', message: 'Invalid caption file', data: null });
+
+    await uploadQueue.load('user-3');
+    await uploadQueue.enqueue('user-3', { ...request('subtitled'), captionFile });
+    await flush();
+    pendingPuts.pop()?.();
+    await flush();
+
+    const item = uploadQueue.list().find((entry) => entry.title === 'subtitled')!;
+    expect(item).toMatchObject({ status: 'processing', captionError: 'Invalid caption file' });
+
+    await uploadQueue.retryCaptions(item.id);
+    expect(postsApi.uploadSubtitles).toHaveBeenLastCalledWith(item.postId, captionFile);
+    expect(uploadQueue.get(item.id)?.captionError).toBeNull();
+
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+});
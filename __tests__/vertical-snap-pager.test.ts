@@ -0,0 +1,57 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { useVerticalSnapPager } from '../lib/hooks/use-vertical-snap-pager';
+
+// Runs the hook as a plain function: one render, no effects
+jest.mock('react', () => ({
+  useState: (initial: unknown) => [typeof initial === 'function' ? initial() : initial, () => {}],
+  useEffect: () => {},
+  useMemo: (factory: () => unknown) => factory(),
+  useCallback: (callback: unknown) => callback,
+  useRef: (current: unknown) => ({ current }),
+}));
+
+jest.mock('../lib/feed-telemetry', () => ({
+  feedTelemetry: { trackPageAlignmentError: jest.fn() },
+}));
+
+function renderPager(onIndexSettled: (index: number) => void) {
+  const scrollToOffset = jest.fn();
+  const listRef = { current: { scrollToOffset } } as any;
+  const pager = useVerticalSnapPager<string>({
+    itemCount: 3,
+    pageHeight: 800,
+    listRef,
+    screenName: 'test',
+    onIndexSettled,
+  });
+  return { pager, scrollToOffset };
+}
+
+const momentumEndAt = (offsetY: number) => ({ nativeEvent: { contentOffset: { y: offsetY } } }) as any;
+
+describe('useVerticalSnapPager', () => {
+  it('does not scroll past either end of the feed', () => {
+    const onIndexSettled = jest.fn();
+    const { pager, scrollToOffset } = renderPager(onIndexSettled);
+
+    expect(pager.scrollToIndex(3)).toBe(false);
+    expect(pager.scrollToIndex(-1)).toBe(false);
+    expect(scrollToOffset).not.toHaveBeenCalled();
+    expect(onIndexSettled).not.toHaveBeenCalled();
+  });
+
+  it('settles a programmatic page change once, even when the animated scroll ends with momentum', () => {
+    const onIndexSettled = jest.fn();
+    const { pager, scrollToOffset } = renderPager(onIndexSettled);
+
+    expect(pager.scrollToIndex(1)).toBe(true);
+    expect(scrollToOffset).toHaveBeenCalledWith({ offset: 800, animated: true });
+    pager.handleMomentumScrollEnd(momentumEndAt(800));
+    expect(onIndexSettled.mock.calls).toEqual([[1]]);
+
+    // A later swipe by the user settles as usual
+    pager.handleMomentumScrollEnd(momentumEndAt(1600));
+    expect(onIndexSettled.mock.calls).toEqual([[1], [2]]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it, beforeEach, jest } from '@jest/globals';
+
+const mockStorage = new Map<string, string>();
+const mockRecordView = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    mockStorage.delete(key);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('../lib/api', () => ({
+  viewsApi: {
+    recordView: (...args: any[]) => mockRecordView(...args),
+  },
+}));
+
+import { viewTracker } from '../lib/view-tracker';
+
+function watchFor(postId: string, seconds: number, visibilityPercent = 100) {
+  viewTracker.sample(postId, { watching: true, visibilityPercent });
+  for (let elapsed = 0; elapsed < seconds; elapsed += 0.5) {
+    jest.advanceTimersByTime(500);
+    viewTracker.sample(postId, { watching: true, visibilityPercent });
+  }
+  viewTracker.sample(postId, { watching: false, visibilityPercent });
+}
+
+describe('view-tracker', () => {
+  beforeEach(() => {
+    mockStorage.clear();
+    mockRecordView.mockReset();
+    jest.useFakeTimers().setSystemTime(new Date('2026-06-03T10:00:00.000Z'));
+  });
+
+  it('only qualifies views after 3s of visible playback, once per session', async () => {
+    mockRecordView.mockResolvedValue({ status: 'success', message: '', data: { viewRecorded: true, viewCount: 1 } });
+
+    watchFor('short-post', 2);
+    watchFor('hidden-post', 4, 20);
+    watchFor('post-1', 4);
+    watchFor('post-1', 4);
+
+    expect(viewTracker.hasQualified('short-post')).toBe(false);
+    expect(viewTracker.hasQualified('hidden-post')).toBe(false);
+    expect(viewTracker.hasQualified('post-1')).toBe(true);
+
+    await viewTracker.flush();
+
+    expect(mockRecordView).toHaveBeenCalledTimes(1);
+    const [postId, watchTime, visibilityPercent, sessionId] = mockRecordView.mock.calls[0] as [string, number, number, string];
+    expect(postId).toBe('post-1');
+    expect(watchTime).toBeGreaterThanOrEqual(3);
+    expect(visibilityPercent).toBe(100);
+    expect(sessionId).toBe(viewTracker.getSessionId());
+  });
+
+  it('keeps views queued while unreachable and drops ones the server rejects', async () => {
+    mockRecordView.mockResolvedValueOnce({
+      status: 'error',
+      message: 'Network Error',
+      data: { viewRecorded: false, viewCount: 0, retryable: true },
+    });
+
+    watchFor('post-2', 4);
+    await viewTracker.flush();
+
+    expect(mockRecordView).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(mockStorage.get('talynk_pending_views') ?? '[]')).toHaveLength(1);
+
+    mockRecordView.mockResolvedValue({ status: 'success', message: '', data: { viewRecorded: true, viewCount: 1 } });
+    await viewTracker.flush();
+
+    expect(mockRecordView).toHaveBeenCalledTimes(2);
+    expect(mockStorage.has('talynk_pending_views')).toBe(false);
+
+    mockRecordView.mockResolvedValueOnce({
+      status: 'error',
+      message: 'Post not found',
+      data: { viewRecorded: false, viewCount: 0, retryable: false },
+    });
+    watchFor('removed-post', 4);
+    watchFor('post-3', 4);
+    await viewTracker.flush();
+
+    expect((mockRecordView.mock.calls as any[][]).slice(2).map(([id]) => id)).toEqual(['removed-post', 'post-3']);
+    expect(mockStorage.has('talynk_pending_views')).toBe(false);
+  });
+});
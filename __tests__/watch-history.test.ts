@@ -0,0 +1,45 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { watchHistory } from '../lib/watch-history';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+}));
+
+describe('watch history', () => {
+  it('records progress per user and resumes only longer, unfinished videos', async () => {
+    await watchHistory.record('user-1', { postId: 'long', positionSec: 95, durationSec: 300, username: 'ana' });
+    await watchHistory.record('user-1', { postId: 'short', positionSec: 12, durationSec: 20 });
+    await watchHistory.record('user-1', { postId: 'finished', positionSec: 298, durationSec: 300 });
+    await watchHistory.record('user-1', { postId: 'long', positionSec: 40, durationSec: 300 });
+
+    const state = watchHistory.peek('user-1');
+    expect(state?.entries.map((entry) => entry.postId)).toEqual(['long', 'finished', 'short']);
+    expect(state?.entries[0]).toMatchObject({ positionSec: 40, watchFraction: 0.317, username: 'ana' });
+
+    expect(watchHistory.getResumePosition('user-1', 'long')).toBe(40);
+    expect(watchHistory.getResumePosition('user-1', 'short')).toBeNull();
+    expect(watchHistory.getResumePosition('user-1', 'finished')).toBeNull();
+    expect(watchHistory.getResumePosition('user-2', 'long')).toBeNull();
+
+    await watchHistory.flush();
+    expect(JSON.parse(mockStorage.get('@watch_history:user-1') ?? '{}').entries).toHaveLength(3);
+  });
+
+  it('stops recording while paused and clears on request', async () => {
+    await watchHistory.record('user-3', { postId: 'a', positionSec: 10, durationSec: 120 });
+    await watchHistory.setPaused('user-3', true);
+    await watchHistory.record('user-3', { postId: 'b', positionSec: 10, durationSec: 120 });
+    expect(watchHistory.peek('user-3')?.entries.map((entry) => entry.postId)).toEqual(['a']);
+
+    await watchHistory.clear('user-3');
+    expect(watchHistory.peek('user-3')).toEqual({ paused: true, entries: [] });
+    expect(JSON.parse(mockStorage.get('@watch_history:user-3') ?? '{}')).toEqual({ paused: true, entries: [] });
+  });
+});
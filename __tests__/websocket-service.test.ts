@@ -0,0 +1,250 @@
+import { describe, expect, it, afterEach, beforeEach, jest } from '@jest/globals';
+
+class MockWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: MockWebSocket[] = [];
+
+  readyState = MockWebSocket.CONNECTING;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  send(payload: string) {
+    this.sent.push(JSON.parse(payload));
+  }
+
+  close() {
+    this.readyState = MockWebSocket.CLOSED;
+  }
+
+  serverOpen() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  serverMessage(type: string, data: any = {}) {
+    this.onmessage?.({ data: JSON.stringify({ type, data, timestamp: Date.now() }) });
+  }
+
+  // Open and acknowledge the auth handshake
+  serverAccept() {
+    this.serverOpen();
+    this.serverMessage('auth:ok');
+  }
+
+  serverDrop() {
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.();
+  }
+}
+
+(global as any).WebSocket = MockWebSocket;
+
+import websocketService, { RealtimeConnectionState } from '../lib/websocket-service';
+import { networkStatus } from '../lib/network-status';
+import { authEventEmitter } from '../lib/auth-event-emitter';
+import { refreshAccessToken } from '../lib/api-client';
+
+jest.mock('../lib/api-client', () => ({ refreshAccessToken: jest.fn() }));
+
+const latestSocket = () => MockWebSocket.instances[MockWebSocket.instances.length - 1];
+
+describe('websocket-service reconnection', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    MockWebSocket.instances = [];
+  });
+
+  afterEach(() => {
+    websocketService.disconnect();
+    networkStatus.reportOnline();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('backs off exponentially and keeps retrying past the old two-attempt limit', () => {
+    const states: RealtimeConnectionState[] = [];
+    const unsubscribe = websocketService.subscribeConnectionState((state) => states.push(state));
+
+    websocketService.connect('user-1', 'token-1');
+    latestSocket().serverAccept();
+    latestSocket().serverDrop();
+
+    // Math.random() = 1 puts every delay at its ceiling: 1s, 2s, 4s, 8s
+    [1_000, 2_000, 4_000, 8_000].forEach((delay, attempt) => {
+      jest.advanceTimersByTime(delay - 1);
+      expect(MockWebSocket.instances).toHaveLength(attempt + 1);
+      jest.advanceTimersByTime(1);
+      expect(MockWebSocket.instances).toHaveLength(attempt + 2);
+      latestSocket().serverDrop();
+    });
+
+    expect(websocketService.getConnectionState()).toBe('reconnecting');
+    expect(states.slice(0, 5)).toEqual(['idle', 'connecting', 'authenticating', 'connected', 'reconnecting']);
+    unsubscribe();
+  });
+
+  it('resubscribes posts and flushes queued actions after reconnecting', () => {
+    websocketService.connect('user-1', 'token-1');
+    latestSocket().serverAccept();
+    websocketService.subscribeToPost('post-1');
+    latestSocket().serverDrop();
+
+    websocketService.sendLikeAction('post-1', true);
+    jest.advanceTimersByTime(1_000);
+    latestSocket().serverAccept();
+
+    expect(latestSocket().sent.map((message) => message.type)).toEqual(['auth', 'subscribe', 'like']);
+    expect(latestSocket().sent[1].data.postId).toBe('post-1');
+  });
+
+  it('waits for the network instead of burning retries, then reconnects immediately', () => {
+    websocketService.connect('user-1', 'token-1');
+    latestSocket().serverAccept();
+
+    networkStatus.reportOffline({ source: 'netinfo', immediate: true });
+    latestSocket().serverDrop();
+    jest.advanceTimersByTime(60_000);
+
+    expect(websocketService.getConnectionState()).toBe('waiting_for_network');
+    expect(MockWebSocket.instances).toHaveLength(1);
+
+    networkStatus.reportOnline({ source: 'netinfo' });
+    expect(MockWebSocket.instances).toHaveLength(2);
+    latestSocket().serverAccept();
+    expect(websocketService.getConnectionState()).toBe('connected');
+  });
+});
+
+describe('websocket-service authentication', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    MockWebSocket.instances = [];
+  });
+
+  afterEach(() => {
+    websocketService.disconnect();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('keeps the token out of the URL and holds messages until the server accepts it', () => {
+    websocketService.connect('user-1', 'token-1');
+    const socket = latestSocket();
+    expect(socket.url).not.toContain('token-1');
+
+    socket.serverOpen();
+    websocketService.sendLikeAction('post-1', true);
+    expect(websocketService.getConnectionState()).toBe('authenticating');
+    expect(socket.sent).toEqual([expect.objectContaining({ type: 'auth', data: expect.objectContaining({ token: 'token-1' }) })]);
+
+    socket.serverMessage('auth:ok');
+    expect(websocketService.getConnectionState()).toBe('connected');
+    expect(socket.sent.map((message) => message.type)).toEqual(['auth', 'like']);
+  });
+
+  it('re-authenticates the open socket when the access token rotates', () => {
+    websocketService.connect('user-1', 'token-1');
+    latestSocket().serverAccept();
+
+    authEventEmitter.emitTokenRefreshed('token-2');
+
+    expect(MockWebSocket.instances).toHaveLength(1);
+    expect(latestSocket().sent.at(-1)).toMatchObject({ type: 'auth', data: { token: 'token-2' } });
+    expect(websocketService.getConnectionState()).toBe('connected');
+  });
+
+  it('refreshes a rejected token before reconnecting', async () => {
+    jest.mocked(refreshAccessToken).mockImplementation(async () => {
+      authEventEmitter.emitTokenRefreshed('token-2');
+      return 'token-2';
+    });
+    websocketService.connect('user-1', 'token-1');
+    latestSocket().serverOpen();
+    latestSocket().serverMessage('auth:error', { code: 'token_expired' });
+    latestSocket().serverDrop();
+    await Promise.resolve();
+
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(MockWebSocket.instances).toHaveLength(2);
+    latestSocket().serverOpen();
+    expect(latestSocket().sent[0]).toMatchObject({ type: 'auth', data: { token: 'token-2' } });
+  });
+});
+
+describe('websocket-service event protocol', () => {
+  const serverMessage = (type: string, data: any, seq?: number) =>
+    latestSocket().onmessage?.({ data: JSON.stringify({ type, data, timestamp: Date.now(), seq }) });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    MockWebSocket.instances = [];
+    websocketService.connect('user-1', 'token-1');
+    latestSocket().serverOpen();
+  });
+
+  afterEach(() => {
+    websocketService.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  it('negotiates the protocol version and delivers validated payloads to typed subscribers', () => {
+    expect(latestSocket().sent[0].data).toMatchObject({ protocolVersion: 2 });
+    serverMessage('auth:ok', { protocolVersion: 5 });
+    expect(websocketService.getProtocolVersion()).toBe(2);
+
+    const likes = jest.fn();
+    const posts = jest.fn();
+    const unsubscribeLikes = websocketService.subscribe('likeUpdate', likes);
+    const unsubscribePosts = websocketService.subscribe('postUpdate', posts);
+
+    serverMessage('story:created', { storyId: 's1' });
+    serverMessage('like', { postId: 'p1', isLiked: 'sometimes', likeCount: 3 });
+    serverMessage('post:likeToggled', { postId: 'p1', userId: 'u2', isLiked: true, like_count: '4' });
+
+    expect(likes).toHaveBeenCalledTimes(1);
+    expect(likes).toHaveBeenCalledWith(expect.objectContaining({ postId: 'p1', isLiked: true, likeCount: 4 }));
+    expect(posts).toHaveBeenCalledWith({ postId: 'p1', likes: 4, isLiked: true });
+    unsubscribeLikes();
+    unsubscribePosts();
+  });
+
+  it('drops duplicates and asks for a resync when post events are skipped', () => {
+    serverMessage('auth:ok', { protocolVersion: 2 });
+    const updates = jest.fn();
+    const outOfSync = jest.fn();
+    const unsubscribeUpdates = websocketService.subscribe('postUpdate', updates);
+    const unsubscribeOutOfSync = websocketService.subscribe('postsOutOfSync', outOfSync);
+
+    websocketService.subscribeToPost('p1');
+    serverMessage('subscribed', { postId: 'p1', seq: 7 });
+    serverMessage('postUpdate', { postId: 'p1', likes: 1 }, 8);
+    serverMessage('postUpdate', { postId: 'p1', likes: 1 }, 8);
+    expect(updates).toHaveBeenCalledTimes(1);
+    expect(outOfSync).not.toHaveBeenCalled();
+
+    serverMessage('postUpdate', { postId: 'p1', likes: 5 }, 11);
+    expect(updates).toHaveBeenCalledTimes(2);
+    expect(outOfSync).toHaveBeenCalledWith({ postIds: ['p1'], reason: 'sequence_gap' });
+
+    // After a reconnect the server reports how far the post has moved on
+    serverMessage('subscribed', { postId: 'p1', seq: 14 });
+    expect(outOfSync).toHaveBeenCalledTimes(2);
+    unsubscribeUpdates();
+    unsubscribeOutOfSync();
+  });
+});
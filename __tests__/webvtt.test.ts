@@ -0,0 +1,36 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { parseHlsSubtitleRenditions } from '../lib/utils/hls-variants';
+import { findActiveCue, parseWebVtt } from '../lib/utils/webvtt';
+
+describe('webvtt captions', () => {
+  it('parses cues, strips markup and finds the cue showing at a time', () => {
+    const cues = parseWebVtt(
+      '\uFEFFWEBVTT\r\n\r\nNOTE made by hand\r\n\r\n1\r\n00:00:01.000 --> 00:00:03.500 align:center\r\n<v Ana>Hello &amp; <b>welcome</b></v>\r\n\r\n' +
+      '00:04.000 --> 00:06.000\r\nSecond line\r\nwraps\r\n',
+    );
+
+    expect(cues).toEqual([
+      { start: 1, end: 3.5, text: 'Hello & welcome' },
+      { start: 4, end: 6, text: 'Second line\nwraps' },
+    ]);
+    expect(findActiveCue(cues, 2)?.text).toBe('Hello & welcome');
+    expect(findActiveCue(cues, 3.7)).toBeNull();
+    expect(findActiveCue(cues, 5.9)?.start).toBe(4);
+    expect(parseWebVtt('1\n00:00:01.000 --> 00:00:02.000\nnot vtt')).toEqual([]);
+  });
+
+  it('reads subtitle renditions from an HLS master playlist', () => {
+    const master = [
+      '#EXTM3U',
+      '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",LANGUAGE="en",DEFAULT=YES,URI="subs/en.m3u8"',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="Main",URI="audio.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,SUBTITLES="subs"',
+      '360p.m3u8',
+    ].join('\n');
+
+    expect(parseHlsSubtitleRenditions('https://cdn.test/v/master.m3u8', master)).toEqual([
+      { url: 'https://cdn.test/v/subs/en.m3u8', language: 'en', name: 'English', isDefault: true },
+    ]);
+  });
+});
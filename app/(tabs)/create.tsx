@@ -29,6 +29,7 @@ import { useAuth } from '@/lib/auth-context';
 import { useCreateFocus } from '@/lib/create-focus-context';
 import { API_BASE_URL } from '@/lib/config';
 import * as FileSystem from 'expo-file-system/legacy';
+import { File } from 'expo-file-system';
 import { generateThumbnail } from '@/lib/utils/thumbnail';
 import { CameraView, useCameraPermissions, useMicrophonePermissions } from 'expo-camera';
 import {
@@ -41,15 +42,12 @@ import { useVideoPlayer, VideoView } from 'expo-video';
 import * as ImagePicker from 'expo-image-picker';
 import * as ImageManipulator from 'expo-image-manipulator';
 import Constants from 'expo-constants';
-import { videoReadyTracker } from '@/lib/video-ready-tracker';
-import {
-  cleanupPreparedVideo,
-  estimateWarmupUploadBytesPerSecond,
-  prepareVideoForUpload,
-  PreparedVideoAsset,
-  UploadProgressSnapshot,
-  uploadPreparedVideo,
-} from '@/lib/utils/video-upload';
+import { uploadQueue } from '@/lib/upload-queue';
+import { useUploadQueue } from '@/lib/hooks/use-upload-queue';
+import { localDrafts, type LocalDraftInput } from '@/lib/local-drafts';
+import { SchedulePublishModal } from '@/components/SchedulePublishModal';
+import { formatChallengeDateTime } from '@/lib/utils/challenge';
+import { estimateWarmupUploadBytesPerSecond } from '@/lib/utils/video-upload';
 import { useAppActive } from '@/lib/hooks/use-app-active';
 import { registerVideoPauser } from '@/lib/hooks/use-video-pause-on-blur';
 import { useRefetchOnReconnect } from '@/lib/hooks/use-network-status';
@@ -64,16 +62,11 @@ import {
 import { isChallengeParticipationOpen } from '@/lib/utils/challenge';
 import { getCategoryDisplayName } from '@/lib/utils/category-display';
 import { safeRouterBack } from '@/lib/utils/navigation';
-import websocketService from '@/lib/websocket-service';
+import { parseWebVtt } from '@/lib/utils/webvtt';
+import { useRealtime } from '@/lib/realtime-context';
 import { enterPlaybackMode, enterRecordingMode } from '@/lib/media/audio-session';
 import { addFabricBreadcrumb, captureFabricError } from '@/lib/utils/fabric-diagnostics';
-import {
-  getPendingDirectUploadSessions,
-  PendingDirectUploadSession,
-  removePendingDirectUploadSession,
-  updatePendingDirectUploadSession,
-  upsertPendingDirectUploadSession,
-} from '@/lib/upload-session-store';
+import { directUploadRecovery } from '@/lib/direct-upload-recovery';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const COLORS = {
@@ -107,7 +100,7 @@ const COLORS = {
 const BEAUTY_CONTENT_WARNING =
   'Posting nudity or exposing private parts is not permitted on this platform.';
 
-const MAX_MULTIPART_VIDEO_BYTES = 50 * 1024 * 1024;
+const MAX_CAPTION_FILE_BYTES = 1024 * 1024;
 const IOS_CAMERA_READY_SETTLE_MS = 350;
 const IOS_CAMERA_REMOUNT_DELAY_MS = 320;
 const IOS_CAMERA_SESSION_RESET_MAX_RETRIES = 3;
@@ -307,6 +300,7 @@ async function _legacyMultipartUpload(
 
 export default function CreatePostScreen() {
   const params = useLocalSearchParams();
+  const { subscribe: subscribeRealtime } = useRealtime();
   const forcedChallengeId =
     typeof params.challengeId === 'string' && params.challengeId.trim().length > 0
       ? params.challengeId
@@ -320,7 +314,18 @@ export default function CreatePostScreen() {
       ? params.preferredDestination
       : null;
   const isChallengeOnlyFlow = params.fromChallenge === '1' && !!forcedChallengeId;
+  const localDraftIdParam =
+    typeof params.localDraftId === 'string' && params.localDraftId.trim().length > 0
+      ? params.localDraftId
+      : null;
+  // Changes on every "Edit" tap, so reopening the same draft reloads it even though the tab stayed mounted
+  const localDraftRequestKey = localDraftIdParam ? `${localDraftIdParam}:${params.openedAt ?? ''}` : null;
   const { isAuthenticated, loading: authLoading, user, token } = useAuth();
+  const uploadQueueItems = useUploadQueue();
+  const pendingUploadCount = uploadQueueItems.filter(
+    (item) => item.status !== 'ready' && item.status !== 'failed' && item.status !== 'cancelled',
+  ).length;
+  const failedUploadCount = uploadQueueItems.filter((item) => item.status === 'failed').length;
   const [title, setTitle] = useState('');
   const [caption, setCaption] = useState('');
   const [selectedGroup, setSelectedGroup] = useState('');
@@ -330,6 +335,7 @@ export default function CreatePostScreen() {
   const [capturedImageUri, setCapturedImageUri] = useState<string | null>(null);
   const [editedVideoUri, setEditedVideoUri] = useState<string | null>(null);
   const [thumbnailUri, setThumbnailUri] = useState<string | null>(null);
+  const [captionFile, setCaptionFile] = useState<{ uri: string; name: string } | null>(null);
   const [serverMediaUrl, setServerMediaUrl] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -407,6 +413,10 @@ export default function CreatePostScreen() {
   const [draftReplaceModalVisible, setDraftReplaceModalVisible] = useState(false);
   const [existingDrafts, setExistingDrafts] = useState<any[]>([]);
   const [pendingDraftStatus, setPendingDraftStatus] = useState<'active' | 'draft'>('draft');
+  // Device draft the composer was opened from; saving or uploading updates it instead of adding another
+  const [editingLocalDraftId, setEditingLocalDraftId] = useState<string | null>(null);
+  const openedLocalDraftRequestRef = useRef<string | null>(null);
+  const [scheduleModalVisible, setScheduleModalVisible] = useState(false);
   const effectiveSelectedChallengeId = isChallengeOnlyFlow ? forcedChallengeId : selectedChallengeId;
   const loadingChallengeCountsRef = useRef<Set<string>>(new Set());
   const joinedChallengesRequestIdRef = useRef(0);
@@ -428,8 +438,6 @@ export default function CreatePostScreen() {
   const uploadCancelledRef = useRef(false);
   const uploadAbortControllerRef = useRef<AbortController | null>(null);
   const activeXhrRef = useRef<XMLHttpRequest | null>(null);
-  const directUploadCompleteInFlightRef = useRef<Set<string>>(new Set());
-  const directUploadRecoveryPromptedRef = useRef(false);
 
   useEffect(() => {
     if (!uploading) {
@@ -450,94 +458,12 @@ export default function CreatePostScreen() {
     return () => clearInterval(id);
   }, [uploading]);
 
-  const finalizeDirectUploadSession = useCallback(async (session: PendingDirectUploadSession) => {
-    if (!user?.id || directUploadCompleteInFlightRef.current.has(session.postId)) {
-      return;
-    }
-
-    directUploadCompleteInFlightRef.current.add(session.postId);
-    try {
-      if (session.step === 'put_done') {
-        await updatePendingDirectUploadSession(user.id, session.postId, { step: 'complete_called' });
-        const completeRes = await postsApi.completeUpload(session.postId);
-        if (completeRes.status !== 'success') {
-          const message = String(completeRes.message || '').toLowerCase();
-          if (message.includes('file not found')) {
-            await updatePendingDirectUploadSession(user.id, session.postId, { step: 'put_done' });
-            Alert.alert('Upload Not Finished', 'The server could not find the uploaded video. Please retry the upload from Create.');
-            return;
-          }
-          if (message.includes('expired')) {
-            await removePendingDirectUploadSession(user.id, session.postId);
-            Alert.alert('Upload Expired', 'That upload session expired. Please start the upload again.');
-            return;
-          }
-          await removePendingDirectUploadSession(user.id, session.postId);
-          Alert.alert('Processing Failed', completeRes.message || 'Upload finished, but processing could not be queued. Open your profile to retry processing.');
-          router.replace('/(tabs)/profile');
-          return;
-        }
-      } else if (session.step === 'complete_called') {
-        const statusRes = await postsApi.getProcessingStatus(session.postId);
-        if (statusRes.status !== 'success') {
-          return;
-        }
-      }
-
-      await videoReadyTracker.track(user.id, {
-        postId: session.postId,
-        destination: session.destination,
-      });
-      await updatePendingDirectUploadSession(user.id, session.postId, { step: 'tracking_processing' });
-      await removePendingDirectUploadSession(user.id, session.postId);
-      await uploadNotificationService.showUploadQueued(session.destination);
-    } finally {
-      directUploadCompleteInFlightRef.current.delete(session.postId);
-    }
-  }, [user?.id]);
-
-  const recoverDirectUploadSessions = useCallback(async () => {
-    if (!user?.id) {
-      return;
-    }
-
-    const sessions = await getPendingDirectUploadSessions(user.id);
-    const now = Date.now();
-    for (const session of sessions) {
-      const expiresAt = new Date(session.expiresAt).getTime();
-      if (Number.isFinite(expiresAt) && expiresAt <= now) {
-        await removePendingDirectUploadSession(user.id, session.postId);
-        if (!directUploadRecoveryPromptedRef.current) {
-          directUploadRecoveryPromptedRef.current = true;
-          Alert.alert('Upload Expired', 'An interrupted upload expired. Please start that upload again.');
-        }
-        continue;
-      }
-
-      if (session.step === 'put_done' || session.step === 'complete_called') {
-        await finalizeDirectUploadSession(session);
-        continue;
-      }
-
-      if (!directUploadRecoveryPromptedRef.current) {
-        directUploadRecoveryPromptedRef.current = true;
-        Alert.alert('Upload Interrupted', 'A previous upload was interrupted. Your selected local file must be uploaded again from Create.');
-      }
-    }
-  }, [finalizeDirectUploadSession, user?.id]);
-
-  useEffect(() => {
-    if (!authLoading && isAuthenticated && user?.id) {
-      void recoverDirectUploadSessions();
-    }
-  }, [authLoading, isAuthenticated, recoverDirectUploadSessions, user?.id]);
-
   useFocusEffect(
     useCallback(() => {
       if (!authLoading && isAuthenticated && user?.id) {
-        void recoverDirectUploadSessions();
+        void uploadQueue.load(user.id).then(() => directUploadRecovery.resume(user.id));
       }
-    }, [authLoading, isAuthenticated, recoverDirectUploadSessions, user?.id]),
+    }, [authLoading, isAuthenticated, user?.id]),
   );
 
   useEffect(() => {
@@ -956,11 +882,8 @@ export default function CreatePostScreen() {
       void loadJoinedChallenges({ background: joinedChallengesRef.current.length > 0 });
     };
 
-    websocketService.on('challengeUpdated', handleChallengeUpdated);
-    return () => {
-      websocketService.off('challengeUpdated', handleChallengeUpdated);
-    };
-  }, [loadJoinedChallenges, user?.id]);
+    return subscribeRealtime('challengeUpdated', handleChallengeUpdated);
+  }, [loadJoinedChallenges, subscribeRealtime, user?.id]);
 
   const loadJoinableChallenges = useCallback(async () => {
     if (!user?.id) {
@@ -1394,6 +1317,7 @@ export default function CreatePostScreen() {
     if (authLoading) return;
     if (!isAuthenticated) return;
     if (hasOpenedCameraOnMount) return;
+    if (localDraftIdParam) return;
 
     setHasOpenedCameraOnMount(true);
 
@@ -1404,7 +1328,38 @@ export default function CreatePostScreen() {
     return () => {
       clearTimeout(timeoutId);
     };
-  }, [authLoading, isAuthenticated, hasOpenedCameraOnMount, handleRecordVideo]);
+  }, [authLoading, isAuthenticated, hasOpenedCameraOnMount, handleRecordVideo, localDraftIdParam]);
+
+  // --- REOPEN A DRAFT SAVED ON THIS DEVICE ---
+  useEffect(() => {
+    if (!localDraftIdParam || !user?.id || openedLocalDraftRequestRef.current === localDraftRequestKey) return;
+    openedLocalDraftRequestRef.current = localDraftRequestKey;
+
+    void localDrafts.load(user.id).then(() => {
+      const draft = localDrafts.get(localDraftIdParam);
+      if (!draft || !isMountedRef.current) {
+        if (!draft) showToast('This draft is no longer on this device');
+        return;
+      }
+      setHasOpenedCameraOnMount(true);
+      setShowCamera(false);
+      setIsCameraReady(false);
+      setServerMediaUrl(null);
+      setCapturedImageUri(null);
+      setEditedVideoUri(null);
+      setRecordedVideoUri(draft.videoUri);
+      setThumbnailUri(draft.thumbnailUri);
+      setCaptionFile(draft.captionFile);
+      setCaption(draft.caption);
+      setSelectedGroup(draft.categoryGroup);
+      setSelectedCategoryId(draft.categoryId);
+      if (!isChallengeOnlyFlow) {
+        setSelectedChallengeId(draft.challengeId);
+      }
+      setErrors({});
+      setEditingLocalDraftId(draft.id);
+    });
+  }, [localDraftIdParam, localDraftRequestKey, user?.id, isChallengeOnlyFlow]);
 
   // --- CATEGORY HELPERS ---
   const getCategoriesForGroup = () => {
@@ -2324,13 +2279,145 @@ export default function CreatePostScreen() {
     setRecordedVideoUri(null);
     setEditedVideoUri(null);
     setThumbnailUri(null);
+    setCaptionFile(null);
+    setEditingLocalDraftId(null);
     setIsVideoPlaying(false);
     setUploading(false);
     resetUploadUi();
   }, [resetUploadUi]);
 
+  const handleAttachCaptions = async () => {
+    try {
+      const picked = await File.pickFileAsync();
+      const file = Array.isArray(picked) ? picked[0] : picked;
+      if (!file) return;
+
+      const fileName = decodeURIComponent(file.uri.split('/').pop() || 'captions.vtt');
+      if (!fileName.toLowerCase().endsWith('.vtt') && file.type !== 'text/vtt') {
+        Alert.alert('Unsupported file', 'Captions must be a WebVTT (.vtt) file.');
+        return;
+      }
+      if (file.size > MAX_CAPTION_FILE_BYTES) {
+        Alert.alert('File too large', 'Caption files can be up to 1 MB.');
+        return;
+      }
+      if (parseWebVtt(await file.text()).length === 0) {
+        Alert.alert('Invalid captions', 'This file has no WebVTT cues. Check that it starts with "WEBVTT".');
+        return;
+      }
+
+      setCaptionFile({ uri: file.uri, name: fileName.toLowerCase().endsWith('.vtt') ? fileName : `${fileName}.vtt` });
+    } catch (error) {
+      if (!isCancelError(error)) {
+        console.warn('[Upload] Failed to pick caption file:', error);
+        Alert.alert('Error', 'Could not open the caption file.');
+      }
+    }
+  };
+
+  const getLocalDraftInput = (videoUri: string): LocalDraftInput => {
+    const selectedChallenge = joinedChallenges.find((challenge: any) => challenge.id === effectiveSelectedChallengeId);
+    return {
+      videoUri,
+      thumbnailUri,
+      captionFile,
+      title: caption.trim().substring(0, 50),
+      caption,
+      categoryGroup: selectedGroup,
+      categoryId: selectedCategoryId,
+      categoryName: getSelectedCategoryName(),
+      challengeId: effectiveSelectedChallengeId || null,
+      challengeName: effectiveSelectedChallengeId ? selectedChallenge?.name || forcedChallengeName || null : null,
+    };
+  };
+
+  // Keeps the video and composer fields on the device, with no network needed; caption and category can wait
+  const handleSaveLocalDraft = async () => {
+    if (!user?.id) {
+      Alert.alert('Sign in required', 'Sign in to save drafts on this device.');
+      return;
+    }
+    const videoUri = editedVideoUri || recordedVideoUri;
+    if (!videoUri) {
+      showToast('Record or pick a video first');
+      return;
+    }
+
+    try {
+      await localDrafts.save(user.id, getLocalDraftInput(videoUri), editingLocalDraftId);
+    } catch (error: any) {
+      Alert.alert('Could not save draft', error?.message || 'There may not be enough space on this device.');
+      return;
+    }
+
+    resetComposerState();
+    Alert.alert('Saved on this device', 'Open it from the Drafts tab on your profile to edit or upload it later.', [
+      { text: 'View drafts', onPress: () => router.push({ pathname: '/(tabs)/profile', params: { tab: 'draft' } } as any) },
+      { text: 'OK', style: 'cancel' },
+    ]);
+  };
+
+  // Videos are handed to the background upload queue, so the composer is free for the next post right away
+  const enqueueVideoUpload = async (
+    userId: string,
+    videoUri: string,
+    status: 'active' | 'draft',
+    scheduledPublishAt: string | null = null,
+  ) => {
+    const categoryName = getSelectedCategoryName();
+    if (!categoryName || categoryName.trim() === '') {
+      Alert.alert('Category Error', 'Selected category name is missing. Please re-select a category and try again.');
+      return;
+    }
+
+    const challengeId = status !== 'draft' ? effectiveSelectedChallengeId : null;
+    const selectedChallenge = joinedChallenges.find((challenge: any) => challenge.id === challengeId);
+    try {
+      if (editingLocalDraftId) {
+        // Edits are saved into the device draft first; it is deleted once the upload reaches the server
+        const draft = await localDrafts.save(userId, getLocalDraftInput(videoUri), editingLocalDraftId);
+        await localDrafts.upload(draft.id, status, scheduledPublishAt);
+      } else {
+        await uploadQueue.enqueue(userId, {
+          sourceUri: videoUri,
+          thumbnailUri,
+          title: caption.trim().substring(0, 50) || 'My Post',
+          caption,
+          postCategory: categoryName,
+          categoryId: Number(selectedCategoryId) || undefined,
+          postStatus: status,
+          challengeId: challengeId || null,
+          challengeName: challengeId ? selectedChallenge?.name || forcedChallengeName || null : null,
+          captionFile,
+          scheduledPublishAt,
+        });
+      }
+    } catch (error: any) {
+      Alert.alert('Too many uploads', error?.message || 'Wait for an upload to finish and try again.');
+      return;
+    }
+
+    if (challengeId) {
+      // Counted now so the competition limit holds while several entries are still uploading
+      incrementChallengePostCount(challengeId);
+    }
+    resetComposerState();
+    Alert.alert(
+      scheduledPublishAt ? 'Post scheduled' : 'Added to uploads',
+      scheduledPublishAt
+        ? `Your video is uploading now and will be published ${formatChallengeDateTime(scheduledPublishAt, { month: 'short', includeTimeZone: false })}.`
+        : status === 'draft'
+        ? 'Your draft is uploading in the background. You can record your next video now.'
+        : 'Your video is uploading in the background. You can record your next video now.',
+      [
+        { text: 'View uploads', onPress: () => router.push('/uploads' as any) },
+        { text: 'OK', style: 'cancel' },
+      ],
+    );
+  };
+
   // --- SUBMIT ---
-  const handleCreatePost = async (status: 'active' | 'draft' = 'active') => {
+  const handleCreatePost = async (status: 'active' | 'draft' = 'active', scheduledPublishAt: string | null = null) => {
     if (!isAuthenticated || !user) {
       Alert.alert(
         'Authentication Required',
@@ -2352,7 +2439,8 @@ export default function CreatePostScreen() {
     if (status === 'draft') {
       try {
         const draftRes = await postsApi.getDrafts(1, 10);
-        const drafts = draftRes.data?.posts ?? [];
+        // Scheduled drafts are on their way to being published and do not take a draft slot
+        const drafts = (draftRes.data?.posts ?? []).filter((draft: any) => !draft.scheduled_publish_at);
         if (drafts.length >= MAX_DRAFTS) {
           setExistingDrafts(drafts);
           setPendingDraftStatus('draft');
@@ -2378,6 +2466,11 @@ export default function CreatePostScreen() {
       console.log('Notification permissions not granted');
     }
 
+    if (rawVideoUri) {
+      await enqueueVideoUpload(user.id, rawVideoUri, status, scheduledPublishAt);
+      return;
+    }
+
     setUploading(true);
     resetUploadUi();
     uploadSessionStartRef.current = Date.now();
@@ -2385,8 +2478,6 @@ export default function CreatePostScreen() {
     uploadAbortControllerRef.current = new AbortController();
     setUploadElapsedText('0:00');
 
-    let preparedVideo: PreparedVideoAsset | null = null;
-
     try {
       const categoryName = getSelectedCategoryName();
       if (!categoryName || categoryName.trim() === '') {
@@ -2396,90 +2487,36 @@ export default function CreatePostScreen() {
         return;
       }
 
-      let mediaUri = imageUri || rawVideoUri;
+      const mediaUri = imageUri;
       if (!mediaUri) {
         throw new Error('No media file to upload');
       }
 
-      const isVideo = !!rawVideoUri;
-
-      if (!isVideo && imageUri) {
-        let imgBytes = 512 * 1024;
-        try {
-          const fi = await FileSystem.getInfoAsync(imageUri);
-          if (fi.exists && typeof fi.size === 'number' && fi.size > 0) {
-            imgBytes = fi.size;
-          }
-        } catch {
-          /* use default */
-        }
-        const iw = estimateWarmupUploadBytesPerSecond(imgBytes);
-        updateUploadUi(0, {
-          stage: 'Preparing upload...',
-          force: true,
-          filename: 'image',
-          speedBytesPerSecond: iw,
-          etaSeconds: iw > 0 ? imgBytes / iw : 0,
-        });
-      }
-
-      if (isVideo && rawVideoUri) {
-        let approxFileBytes = 5 * 1024 * 1024;
-        try {
-          const fi = await FileSystem.getInfoAsync(rawVideoUri);
-          if (fi.exists && typeof fi.size === 'number' && fi.size > 0) {
-            approxFileBytes = fi.size;
-          }
-        } catch {
-          /* use default */
-        }
-        const prepWarm = estimateWarmupUploadBytesPerSecond(approxFileBytes);
-        const prepEtaSec = approxFileBytes > 0 && prepWarm > 0 ? approxFileBytes / prepWarm : 0;
-        updateUploadUi(0, {
-          stage: 'Preparing upload...',
-          force: true,
-          filename: 'video',
-          speedBytesPerSecond: prepWarm,
-          etaSeconds: prepEtaSec,
-        });
-        updateUploadUi(4, {
-          stage: 'Preparing video...',
-          force: true,
-          filename: 'video',
-          speedBytesPerSecond: prepWarm,
-          etaSeconds: prepEtaSec,
-        });
-        preparedVideo = await prepareVideoForUpload(rawVideoUri, (progress) => {
-          const warm = estimateWarmupUploadBytesPerSecond(approxFileBytes);
-          const remainingBytes = (1 - progress) * approxFileBytes;
-          updateUploadUi(4 + progress * 16, {
-            stage: 'Preparing video...',
-            filename: uploadFileNameRef.current || 'video',
-            speedBytesPerSecond: warm,
-            etaSeconds: warm > 0 ? remainingBytes / warm : 0,
-          });
-        });
-        mediaUri = preparedVideo.uploadUri;
-
-        if (preparedVideo.thumbnailUri) {
-          setThumbnailUri(preparedVideo.thumbnailUri);
-        }
-
-        if (uploadCancelledRef.current) {
-          await cleanupPreparedVideo(preparedVideo);
-          setUploading(false);
-          resetUploadUi();
-          return;
+      let imgBytes = 512 * 1024;
+      try {
+        const fi = await FileSystem.getInfoAsync(mediaUri);
+        if (fi.exists && typeof fi.size === 'number' && fi.size > 0) {
+          imgBytes = fi.size;
         }
+      } catch {
+        /* use default */
       }
+      const iw = estimateWarmupUploadBytesPerSecond(imgBytes);
+      updateUploadUi(0, {
+        stage: 'Preparing upload...',
+        force: true,
+        filename: 'image',
+        speedBytesPerSecond: iw,
+        etaSeconds: iw > 0 ? imgBytes / iw : 0,
+      });
 
       const fileInfo = await FileSystem.getInfoAsync(mediaUri);
       if (!fileInfo.exists) {
         throw new Error('Media file not found');
       }
 
-      const fileName = preparedVideo?.fileName || mediaUri.split('/').pop() || (isVideo ? 'video.mp4' : 'image.jpg');
-      const fileType = preparedVideo?.mimeType || 'image/jpeg';
+      const fileName = mediaUri.split('/').pop() || 'image.jpg';
+      const fileType = 'image/jpeg';
       uploadFileNameRef.current = fileName;
 
       const mediaInfo = await FileSystem.getInfoAsync(mediaUri);
@@ -2492,8 +2529,6 @@ export default function CreatePostScreen() {
         size: mediaInfo.size,
         fileName,
         fileType,
-        preparedFrom: preparedVideo?.originalUri,
-        preparedSize: preparedVideo?.uploadSizeBytes,
       });
 
       let fileData: any = {
@@ -2501,11 +2536,6 @@ export default function CreatePostScreen() {
         name: fileName,
         type: fileType,
       };
-      const selectedChallenge = joinedChallenges.find(
-        (challenge: any) => challenge.id === effectiveSelectedChallengeId,
-      );
-      const selectedChallengeName =
-        selectedChallenge?.name || forcedChallengeName || undefined;
 
       // Note: For React Native, FormData.append(name, file) expects:
       // - file as a Blob/File object with uri property (which RN handles)
@@ -2640,12 +2670,6 @@ export default function CreatePostScreen() {
 
             if (response.status === 'success') {
               const challengeIdToOpen = effectiveSelectedChallengeId;
-              const createdPost = response.data?.post;
-              const createdPostId = createdPost?.id as string | undefined;
-              const createdType = createdPost?.type || createdPost?.mediaType || null;
-
-              // As soon as upload is done, mark it complete in the UI.
-              // For videos, backend will continue HLS processing and send a notification when ready.
               await uploadNotificationService.showUploadComplete(fileName);
 
               if (challengeIdToOpen) {
@@ -2655,6 +2679,7 @@ export default function CreatePostScreen() {
               setRecordedVideoUri(null);
               setEditedVideoUri(null);
               setThumbnailUri(null);
+              setCaptionFile(null);
               setCaption('');
               setSelectedGroup('');
               setSelectedCategoryId('');
@@ -2665,25 +2690,10 @@ export default function CreatePostScreen() {
               setUploading(false);
               resetUploadUi();
 
-              const isImagePost = createdType === 'image' || createdType === 'photo' || !createdType;
-              if (!isImagePost && createdPostId) {
-                await videoReadyTracker.track(user.id, {
-                  postId: createdPostId,
-                  destination: 'challenge',
-                  challengeId: challengeIdToOpen || undefined,
-                  challengeName: selectedChallengeName,
-                });
-                await uploadNotificationService.showUploadQueued('challenge', selectedChallengeName);
-              }
-              const successBody = isImagePost
-                ? 'Post uploaded successfully to the competition and is ready to view.'
-                : 'Video uploaded to the competition. It is being processed for streaming; you will receive a notification when it is ready to watch.';
-
-              Alert.alert('Post uploaded', successBody, [
+              Alert.alert('Post uploaded', 'Post uploaded successfully to the competition and is ready to view.', [
                 {
                   text: 'View challenge',
                   onPress: () => {
-                    void cleanupPreparedVideo(preparedVideo);
                     if (challengeIdToOpen) {
                       router.replace(`/challenges/${challengeIdToOpen}` as any);
                     } else {
@@ -2694,7 +2704,6 @@ export default function CreatePostScreen() {
                 {
                   text: 'Done',
                   onPress: () => {
-                    void cleanupPreparedVideo(preparedVideo);
                     safeRouterBack(router, '/(tabs)/create' as any);
                   },
                 },
@@ -2735,300 +2744,6 @@ export default function CreatePostScreen() {
 
       const autoTitle = caption.trim().substring(0, 50) || 'My Post';
 
-      // ============================================================
-      // VIDEO: Signed URL direct-to-R2 upload flow
-      // Step 1: createUpload → Step 2: PUT to R2 → Step 3: completeUpload
-      // ============================================================
-      if (isVideo) {
-        console.log('[Upload] Using signed URL flow for video');
-
-        if (uploadCancelledRef.current) {
-          await cleanupPreparedVideo(preparedVideo);
-          setUploading(false);
-          resetUploadUi();
-          return;
-        }
-
-        // Step 1: Get signed upload URL from backend
-        {
-          const bytes = preparedVideo?.uploadSizeBytes ?? 0;
-          const warm = estimateWarmupUploadBytesPerSecond(bytes);
-          const etaGuess = bytes > 0 && warm > 0 ? bytes / warm : null;
-          updateUploadUi(22, {
-            stage: 'Requesting secure upload slot...',
-            force: true,
-            filename: fileName,
-            speedBytesPerSecond: warm,
-            etaSeconds: etaGuess,
-          });
-        }
-
-        const createRes = await postsApi.createUpload({
-          title: autoTitle,
-          caption: caption,
-          post_category: categoryName,
-          category_id: Number(selectedCategoryId) || undefined,
-          status: status,
-        });
-
-        if (createRes.status !== 'success' || !createRes.data?.uploadUrl) {
-          addFabricBreadcrumb('video_signed_upload_session_failed_falling_back', {
-            message: createRes.message || 'Upload service is currently unavailable',
-            categoryName,
-            selectedCategoryId,
-            hasChallenge: false,
-          });
-          const uploadBytes = Number(mediaInfo.size ?? preparedVideo?.uploadSizeBytes ?? 0);
-          if (uploadBytes > MAX_MULTIPART_VIDEO_BYTES) {
-            setUploading(false);
-            resetUploadUi();
-            await uploadNotificationService.showUploadError('Direct upload is temporarily unavailable.', fileName);
-            Alert.alert(
-              'Upload Unavailable',
-              'Large videos need direct upload, but that service is temporarily unavailable. Please try again later or choose a smaller video.',
-            );
-            await cleanupPreparedVideo(preparedVideo);
-            return;
-          }
-          updateUploadUi(24, {
-            stage: 'Opening backup upload path...',
-            force: true,
-            filename: fileName,
-          });
-          await _legacyMultipartUpload(
-            mediaUri,
-            fileName,
-            fileType,
-            autoTitle,
-            categoryName,
-            status,
-            fileData,
-            getSelectedCategoryId(),
-            uploadNotificationService,
-            setUploading,
-            setUploadProgress,
-            setServerMediaUrl,
-            setCaption,
-            setSelectedGroup,
-            setSelectedCategoryId as any,
-            setRecordedVideoUri,
-            setEditedVideoUri,
-            setThumbnailUri,
-            setIsVideoPlaying,
-            setCapturedImageUri,
-            (xhr) => {
-              activeXhrRef.current = xhr;
-            },
-            () => uploadCancelledRef.current,
-            ({ loaded, total, startedAt, percent }) => {
-              const elapsedSec = Math.max((Date.now() - startedAt) / 1000, 0.001);
-              const bps = loaded / elapsedSec;
-              const etaSec = bps > 0 && total > loaded ? (total - loaded) / bps : 0;
-              updateUploadUi(percent, {
-                stage: 'Uploading through backup path...',
-                filename: fileName,
-                speedBytesPerSecond: bps,
-                etaSeconds: etaSec,
-              });
-            },
-            null,
-          );
-          await cleanupPreparedVideo(preparedVideo);
-          return;
-        }
-
-        if (uploadCancelledRef.current) {
-          await cleanupPreparedVideo(preparedVideo);
-          setUploading(false);
-          resetUploadUi();
-          return;
-        }
-
-        const { postId, uploadUrl } = createRes.data;
-        const expiresIn = Number(createRes.data.expiresIn ?? 600);
-        const expiresAtMs = Date.now() + Math.max(1, expiresIn) * 1000;
-        const directSession: PendingDirectUploadSession = {
-          id: `${user.id}:${postId}`,
-          userId: user.id,
-          postId,
-          uploadUrl,
-          videoUrl: createRes.data.videoUrl,
-          expiresAt: new Date(expiresAtMs).toISOString(),
-          fileUri: mediaUri,
-          fileName,
-          mimeType: 'video/mp4',
-          title: autoTitle,
-          caption,
-          postCategory: categoryName,
-          categoryId: Number(selectedCategoryId) || undefined,
-          status,
-          destination: status === 'draft' ? 'draft' : 'post',
-          step: 'created',
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
-        await upsertPendingDirectUploadSession(user.id, directSession);
-        console.log('[Upload] Got signed URL for post:', postId);
-
-        if (uploadCancelledRef.current) {
-          await cleanupPreparedVideo(preparedVideo);
-          setUploading(false);
-          resetUploadUi();
-          return;
-        }
-
-        // Step 2: Upload video directly to R2 via signed URL
-        if (Date.now() >= expiresAtMs) {
-          await removePendingDirectUploadSession(user.id, postId);
-          setUploading(false);
-          resetUploadUi();
-          Alert.alert('Upload Expired', 'The upload session expired before the video upload could start. Please try again.');
-          await cleanupPreparedVideo(preparedVideo);
-          return;
-        }
-
-        await updatePendingDirectUploadSession(user.id, postId, { step: 'putting' });
-        {
-          const bytes = preparedVideo?.uploadSizeBytes ?? 0;
-          const warm = estimateWarmupUploadBytesPerSecond(bytes);
-          const etaGuess = bytes > 0 && warm > 0 ? bytes / warm : null;
-          updateUploadUi(28, {
-            stage: 'Uploading securely...',
-            force: true,
-            filename: fileName,
-            speedBytesPerSecond: warm,
-            etaSeconds: etaGuess,
-          });
-        }
-
-        try {
-          await uploadPreparedVideo(
-            uploadUrl,
-            mediaUri,
-            {
-              onProgress: (snapshot: UploadProgressSnapshot) => {
-                const stageProgress = 28 + snapshot.overallPercent * 0.6;
-                const isSlowConnection = snapshot.bytesPerSecond > 0 && snapshot.bytesPerSecond < 80 * 1024;
-                updateUploadUi(stageProgress, {
-                  stage: snapshot.attempt > 1 ? 'Uploading securely after reconnect...' : 'Uploading securely...',
-                  speedBytesPerSecond: snapshot.bytesPerSecond,
-                  etaSeconds: snapshot.etaSeconds ?? 0,
-                  hint: isSlowConnection
-                    ? 'Low connection detected. Upload will continue, but it may take longer.'
-                    : null,
-                  filename: fileName,
-                });
-              },
-              onRetry: ({ attempt, maxAttempts, uploadedBytes, totalBytes }) => {
-                const retryPercent = totalBytes > 0 ? (uploadedBytes / totalBytes) * 100 : 0;
-                updateUploadUi(28 + retryPercent * 0.6, {
-                  stage: `Reconnecting upload (${attempt + 1}/${maxAttempts})...`,
-                  hint: 'Connection became unstable. Resuming your upload progress...',
-                  force: true,
-                  filename: fileName,
-                });
-              },
-            },
-            uploadAbortControllerRef.current?.signal
-          );
-          console.log('[Upload] R2 upload complete (compressed/native upload)');
-          await updatePendingDirectUploadSession(user.id, postId, { step: 'put_done' });
-        } catch (uploadError: any) {
-          console.error('[Upload] R2 upload failed:', uploadError?.message);
-          if (uploadCancelledRef.current || uploadError?.name === 'AbortError') {
-            await cleanupPreparedVideo(preparedVideo);
-            setUploading(false);
-            resetUploadUi();
-            return;
-          }
-          setUploading(false);
-          resetUploadUi();
-          await uploadNotificationService.showUploadError('Video upload failed: ' + uploadError.message, fileName);
-          Alert.alert('Upload Error', 'Failed to upload video. Please try again.');
-          return;
-        }
-
-        // Step 3: Notify backend upload is complete → queues HLS processing
-        updateUploadUi(92, {
-          stage: 'Finalizing upload...',
-          force: true,
-          filename: fileName,
-        });
-        console.log('[Upload] Notifying backend upload complete for post:', postId);
-
-        if (directUploadCompleteInFlightRef.current.has(postId)) {
-          return;
-        }
-
-        directUploadCompleteInFlightRef.current.add(postId);
-        let completeRes;
-        try {
-          await updatePendingDirectUploadSession(user.id, postId, { step: 'complete_called' });
-          completeRes = await postsApi.completeUpload(postId);
-        } finally {
-          directUploadCompleteInFlightRef.current.delete(postId);
-        }
-
-        if (completeRes.status !== 'success') {
-          console.error('[Upload] Complete upload failed:', completeRes.message);
-          setUploading(false);
-          resetUploadUi();
-          const completeMessage = String(completeRes.message || '').toLowerCase();
-          if (completeMessage.includes('file not found')) {
-            await updatePendingDirectUploadSession(user.id, postId, { step: 'put_done' });
-            await uploadNotificationService.showUploadError('Failed to finish the upload.', fileName);
-            Alert.alert('Finish Upload', 'Video upload finished, but the server could not find it yet. Tap Publish again later to retry finalizing.');
-            return;
-          }
-          if (completeMessage.includes('expired')) {
-            await removePendingDirectUploadSession(user.id, postId);
-            await uploadNotificationService.showUploadError('Upload session expired.', fileName);
-            Alert.alert('Upload Expired', 'The upload session expired. Please start the upload again.');
-            return;
-          }
-          await removePendingDirectUploadSession(user.id, postId);
-          await uploadNotificationService.showUploadError('Processing could not be queued.', fileName);
-          Alert.alert('Processing Failed', completeRes.message || 'Upload finished, but processing could not be queued. Open your profile to retry processing.');
-          router.replace('/(tabs)/profile');
-          return;
-        }
-
-        await videoReadyTracker.track(user.id, {
-          postId,
-          destination: status === 'draft' ? 'draft' : 'post',
-        });
-        await updatePendingDirectUploadSession(user.id, postId, { step: 'tracking_processing' });
-        await removePendingDirectUploadSession(user.id, postId);
-
-        updateUploadUi(100, {
-          stage: 'Upload complete',
-          force: true,
-          filename: fileName,
-        });
-        await uploadNotificationService.showUploadQueued(
-          status === 'draft' ? 'draft' : 'post'
-        );
-
-        const successMessage = status === 'draft'
-          ? 'Draft uploaded. You will be notified when it is ready.'
-          : 'Video uploaded. You will be notified when it is ready.';
-
-        Alert.alert('Upload complete', successMessage, [
-          {
-            text: 'View profile',
-            onPress: () => {
-              void cleanupPreparedVideo(preparedVideo);
-              resetComposerState();
-              router.replace('/(tabs)/profile');
-            }
-          }
-        ]);
-
-        await cleanupPreparedVideo(preparedVideo);
-        resetComposerState();
-        return;
-      }
-
       // ============================================================
       // IMAGE: Legacy multipart upload (images don't need HLS)
       // ============================================================
@@ -3058,7 +2773,6 @@ export default function CreatePostScreen() {
         null,
       );
     } catch (error: any) {
-      await cleanupPreparedVideo(preparedVideo);
       if (uploadCancelledRef.current || error?.name === 'AbortError') {
         setUploading(false);
         resetUploadUi();
@@ -3066,7 +2780,7 @@ export default function CreatePostScreen() {
       }
       setUploading(false);
       resetUploadUi();
-      await uploadNotificationService.showUploadError(error.message || 'Failed to create post', 'video.mp4');
+      await uploadNotificationService.showUploadError(error.message || 'Failed to create post', 'image.jpg');
       Alert.alert('Error', error.message || 'Failed to create post. Please try again.');
     }
   };
@@ -3074,6 +2788,27 @@ export default function CreatePostScreen() {
   const currentVideoUri = editedVideoUri || recordedVideoUri;
   const currentMediaUri = currentVideoUri || capturedImageUri;
 
+  const renderUploadsButton = () => {
+    if (uploadQueueItems.length === 0) return null;
+    const badgeCount = pendingUploadCount || failedUploadCount;
+    return (
+      <TouchableOpacity
+        style={styles.uploadsHeaderButton}
+        onPress={() => router.push('/uploads' as any)}
+        hitSlop={8}
+        accessibilityRole="button"
+        accessibilityLabel={`Uploads, ${pendingUploadCount} in progress`}
+      >
+        <Feather name="upload-cloud" size={22} color={C.text} />
+        {badgeCount > 0 && (
+          <View style={[styles.uploadsHeaderBadge, { backgroundColor: pendingUploadCount > 0 ? C.primary : C.warning }]}>
+            <Text style={styles.uploadsHeaderBadgeText}>{badgeCount}</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
   const handlePlayPause = async () => {
     if (previewPlayer) {
       try {
@@ -3427,8 +3162,9 @@ export default function CreatePostScreen() {
       {/* STAGE 1: FULL STUDIO (CAMERA) – NO FORMS - fixed header so content stays below status bar */}
       {!currentVideoUri && !capturedImageUri && (
         <View style={{ flex: 1, backgroundColor: C.background }}>
-          <View style={[styles.createFixedHeader, { paddingTop: insets.top + 8, paddingBottom: 12, borderBottomColor: C.border, backgroundColor: C.background }]}>
+          <View style={[styles.createFixedHeader, styles.createFixedHeaderRow, { paddingTop: insets.top + 8, paddingBottom: 12, borderBottomColor: C.border, backgroundColor: C.background }]}>
             <Text style={[styles.createFixedHeaderTitle, { color: C.text }]}>Studio</Text>
+            {renderUploadsButton()}
           </View>
           <View style={[styles.studioContainer, { flex: 1 }]}>
             <View style={styles.studioHeader}>
@@ -3477,8 +3213,9 @@ export default function CreatePostScreen() {
       {/* STAGE 2: DETAILS FORM (AFTER MEDIA CONFIRMED) - fixed header so content scrolls under it */}
       {currentMediaUri && (
         <View style={{ flex: 1, backgroundColor: C.background }}>
-          <View style={[styles.createFixedHeader, { paddingTop: insets.top + 8, paddingBottom: 12, borderBottomColor: C.border, backgroundColor: C.background }]}>
+          <View style={[styles.createFixedHeader, styles.createFixedHeaderRow, { paddingTop: insets.top + 8, paddingBottom: 12, borderBottomColor: C.border, backgroundColor: C.background }]}>
             <Text style={[styles.createFixedHeaderTitle, { color: C.text }]}>New Post</Text>
+            {renderUploadsButton()}
           </View>
           <KeyboardAvoidingView
             style={{ flex: 1 }}
@@ -3664,6 +3401,42 @@ export default function CreatePostScreen() {
                 )}
               </View>
 
+              {!!currentVideoUri && (
+                <View style={styles.inputGroup}>
+                  <View style={styles.labelRow}>
+                    <Text style={[styles.label, { color: C.text }]}>Subtitles</Text>
+                    <Text style={[styles.labelHint, { color: C.textSecondary }]}>
+                      Optional WebVTT (.vtt) file
+                    </Text>
+                  </View>
+                  <View style={[styles.captionFileRow, { backgroundColor: C.inputBg, borderColor: C.inputBorder }]}>
+                    <MaterialIcons name="closed-caption" size={22} color={captionFile ? C.primary : C.textSecondary} />
+                    <TouchableOpacity
+                      style={styles.captionFileButton}
+                      onPress={() => void handleAttachCaptions()}
+                      disabled={uploading}
+                      accessibilityLabel="Attach captions"
+                      accessibilityRole="button"
+                    >
+                      <Text style={[styles.captionFileName, { color: C.text }]} numberOfLines={1}>
+                        {captionFile ? captionFile.name : 'Attach captions (.vtt)'}
+                      </Text>
+                    </TouchableOpacity>
+                    {captionFile && (
+                      <TouchableOpacity
+                        onPress={() => setCaptionFile(null)}
+                        disabled={uploading}
+                        hitSlop={10}
+                        accessibilityLabel="Remove captions"
+                        accessibilityRole="button"
+                      >
+                        <Feather name="x" size={18} color={C.textSecondary} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                </View>
+              )}
+
               <View style={styles.inputGroup}>
                 <View style={styles.labelRow}>
                   <Text style={[styles.label, { color: C.text }]}>Category 🏷️</Text>
@@ -4291,6 +4064,43 @@ export default function CreatePostScreen() {
                     </TouchableOpacity>
                   </View>
                 )}
+
+                {currentVideoUri && (
+                  <View style={styles.secondaryActionsRow}>
+                    <TouchableOpacity
+                      style={[styles.secondaryActionButton, (uploading || isMaxPostsReached) && styles.quickActionButtonDisabled]}
+                      onPress={() => {
+                        if (!caption.trim()) {
+                          showToast('Caption is required to schedule');
+                        } else if (!selectedGroup) {
+                          showToast('Please select a category group');
+                        } else if (!selectedCategoryId) {
+                          showToast('Please select a specific category');
+                        } else {
+                          setScheduleModalVisible(true);
+                        }
+                      }}
+                      disabled={uploading || isMaxPostsReached}
+                      accessibilityLabel="Schedule post"
+                      accessibilityRole="button"
+                    >
+                      <MaterialIcons name="schedule" size={18} color={C.primary} />
+                      <Text style={[styles.secondaryActionText, { color: C.primary }]}>Schedule</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.secondaryActionButton, uploading && styles.quickActionButtonDisabled]}
+                      onPress={() => void handleSaveLocalDraft()}
+                      disabled={uploading}
+                      accessibilityLabel="Save draft on this device"
+                      accessibilityRole="button"
+                    >
+                      <MaterialIcons name="phone-android" size={18} color={C.primary} />
+                      <Text style={[styles.secondaryActionText, { color: C.primary }]}>
+                        {editingLocalDraftId ? 'Update on device' : 'Save on device'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
               </View>
 
               <View style={{ height: insets.bottom + 20 }} />
@@ -4453,6 +4263,24 @@ export default function CreatePostScreen() {
         </View>
       </Modal>
 
+      <SchedulePublishModal
+        visible={scheduleModalVisible}
+        subtitle={
+          effectiveSelectedChallengeId
+            ? `Your entry is uploaded now as a draft and joins ${
+                joinedChallenges.find((challenge: any) => challenge.id === effectiveSelectedChallengeId)?.name ||
+                forcedChallengeName ||
+                'the competition'
+              } when it is published.`
+            : 'Your video is uploaded now as a draft and published at this time.'
+        }
+        onConfirm={(publishAt) => {
+          setScheduleModalVisible(false);
+          void handleCreatePost('active', publishAt.toISOString());
+        }}
+        onCancel={() => setScheduleModalVisible(false)}
+      />
+
       <Modal visible={draftReplaceModalVisible} transparent animationType="slide">
         <TouchableOpacity
           style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' }}
@@ -4554,6 +4382,30 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '700',
   },
+  createFixedHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  uploadsHeaderButton: {
+    padding: 4,
+  },
+  uploadsHeaderBadge: {
+    position: 'absolute',
+    top: -2,
+    right: -4,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  uploadsHeaderBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+  },
   studioContainer: {
     flex: 1,
     paddingHorizontal: 20,
@@ -5213,6 +5065,22 @@ const styles = StyleSheet.create({
     includeFontPadding: false,
     textAlignVertical: 'top',
   },
+  captionFileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  captionFileButton: {
+    flex: 1,
+  },
+  captionFileName: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
   captionFooter: {
     paddingHorizontal: 16,
     paddingBottom: 12,
@@ -5576,6 +5444,23 @@ const styles = StyleSheet.create({
   quickActionButtonDisabled: {
     opacity: 0.5,
   },
+  secondaryActionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 24,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  secondaryActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+  },
+  secondaryActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   maxPostsBanner: {
     flexDirection: 'row',
     alignItems: 'center',
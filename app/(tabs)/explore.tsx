@@ -677,6 +677,16 @@ export default function ExploreScreen() {
           ListHeaderComponent={
             <>
               <View style={styles.filterSection}>
+                <TouchableOpacity
+                  style={styles.trendingButton}
+                  onPress={() => router.push('/trending' as any)}
+                  activeOpacity={0.8}
+                >
+                  <Feather name="trending-up" size={18} color="#f59e0b" />
+                  <Text style={styles.filterButtonText}>Trending now</Text>
+                  <Feather name="chevron-right" size={16} color="#666" />
+                </TouchableOpacity>
+
                 <TouchableOpacity
                   style={styles.filterButton}
                   onPress={() => setShowCountryPicker(true)}
@@ -1100,6 +1110,15 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     gap: 8,
   },
+  trendingButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(245, 158, 11, 0.12)',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    gap: 8,
+  },
   filterButtonText: {
     flex: 1,
     color: '#fff',
@@ -39,13 +39,12 @@ import { useResumeRefresh } from '@/lib/hooks/use-resume-refresh';
 import { useVerticalSnapPager } from '@/lib/hooks/use-vertical-snap-pager';
 import { prefetchFollowingFeed, removeUserFromFollowingFeedCache, seedFollowingFeedCache } from '@/lib/following-feed-cache';
 import { warmFeedWindow } from '@/lib/feed-window-warmup';
+import { offlineDownloads } from '@/lib/offline-downloads';
+import { useDeviceProfile } from '@/lib/hooks/use-device-profile';
 import { runQuerySafely } from '@/lib/utils/query-cancellation';
 import {
   shouldPreloadFeedVideo,
-  VIDEO_FEED_INITIAL_NUM_TO_RENDER,
-  VIDEO_FEED_MAX_TO_RENDER_PER_BATCH,
   VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS,
-  VIDEO_FEED_WINDOW_SIZE,
 } from '@/lib/utils/video-feed';
 import { pauseAllVideos } from '@/lib/hooks/use-video-pause-on-blur';
 import { useFeedPlaybackBlocked } from '@/lib/feed-playback-block';
@@ -141,6 +140,7 @@ export default function FeedScreen() {
   const lastHandledHomeRefreshRequestRef = useRef(0);
   const { user } = useAuth();
   const { isCreateFocused } = useCreateFocus();
+  const { videoFeedList } = useDeviceProfile();
   const { isOffline } = useNetworkStatus();
   const isAppActive = useAppActive();
   const feedPlaybackBlocked = useFeedPlaybackBlocked();
@@ -515,6 +515,7 @@ export default function FeedScreen() {
     getItemLayout,
     handleScroll: handlePagerScroll,
     handleMomentumScrollEnd: handlePagerMomentumScrollEnd,
+    scrollToIndex: scrollPagerToIndex,
   } = useVerticalSnapPager<Post>({
     itemCount: visiblePosts.length,
     pageHeight: availableHeight,
@@ -529,6 +530,7 @@ export default function FeedScreen() {
     onTransitionEnd: () => {},
   });
   verticalPageHeightRef.current = verticalPageHeight;
+  const advanceFromIndex = useCallback((index: number) => scrollPagerToIndex(index + 1), [scrollPagerToIndex]);
 
   useResumeRefresh({
     enabled: isScreenFocused && activeTab !== 'challenges',
@@ -714,7 +716,7 @@ export default function FeedScreen() {
           return;
         }
 
-        const retry = await likesApi.toggle(postId);
+        const retry = await likesApi.toggle(postId, { desiredLiked });
         if (retry.status === 'success' && retry.data) {
           const nextLiked = retry.data.isLiked;
           const nextCount = retry.data.likeCount;
@@ -802,7 +804,7 @@ export default function FeedScreen() {
     updateLikeInCache(postId, newIsLiked, newCount);
 
     try {
-      const response = await likesApi.toggle(postId);
+      const response = await likesApi.toggle(postId, { desiredLiked: newIsLiked });
       if (response.status === 'success' && response.data) {
         const serverLiked = response.data.isLiked;
         const serverCount = response.data.likeCount;
@@ -1193,9 +1195,10 @@ export default function FeedScreen() {
         suspendPlayback={commentsModalVisible || reportModalVisible || feedPlaybackBlocked}
         shouldPreload={shouldPreload}
         availableHeight={verticalPageHeight}
+        onPlaybackEnded={advanceFromIndex}
       />
     );
-  }, [activePlayIndex, activeTab, feedPlaybackBlocked, isScreenFocused, currentIndex, isCreateFocused, likedPosts, followedUsers, userFollowStatus, commentsModalVisible, reportModalVisible, handleLike, handleComment, handleShare, handleReport, handleFollow, handleUnfollow, verticalPageHeight]);
+  }, [activePlayIndex, activeTab, feedPlaybackBlocked, isScreenFocused, currentIndex, isCreateFocused, likedPosts, followedUsers, userFollowStatus, commentsModalVisible, reportModalVisible, handleLike, handleComment, handleShare, handleReport, handleFollow, handleUnfollow, verticalPageHeight, advanceFromIndex]);
 
   const renderListFooter = useCallback(() => {
     if (isFetchingNextPage) {
@@ -1281,6 +1284,15 @@ export default function FeedScreen() {
     warmFeedWindow(visiblePosts, Math.max(0, warmCenter));
   }, [activeTab, activePlayIndex, currentIndex, visiblePosts]);
 
+  // Offline auto-download only follows For You; the module itself checks the setting and Wi-Fi.
+  React.useEffect(() => {
+    if (activeTab !== 'foryou' || visiblePosts.length === 0) {
+      return;
+    }
+
+    void offlineDownloads.autoDownload(visiblePosts.slice(Math.max(0, currentIndex) + 1));
+  }, [activeTab, currentIndex, visiblePosts]);
+
   // Eager-warm the first videos the moment feed data arrives (before scroll / skeleton dismiss).
   React.useEffect(() => {
     if (activeTab === 'challenges' || posts.length === 0) {
@@ -1355,9 +1367,9 @@ export default function FeedScreen() {
                 disableIntervalMomentum
                 decelerationRate="fast"
                 showsVerticalScrollIndicator={false}
-                windowSize={VIDEO_FEED_WINDOW_SIZE}
-                maxToRenderPerBatch={VIDEO_FEED_MAX_TO_RENDER_PER_BATCH}
-                initialNumToRender={VIDEO_FEED_INITIAL_NUM_TO_RENDER}
+                windowSize={videoFeedList.windowSize}
+                maxToRenderPerBatch={videoFeedList.maxToRenderPerBatch}
+                initialNumToRender={videoFeedList.initialNumToRender}
                 removeClippedSubviews={VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS}
                 scrollEventThrottle={16}
                 scrollEnabled
@@ -34,13 +34,13 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { getFileUrl, getThumbnailUrl, getProfilePictureUrl, getPlaybackUrl } from '@/lib/utils/file-url';
 import { sharePost } from '@/lib/post-share';
 import { Avatar } from '@/components/Avatar';
+import { PostThumbnailImage } from '@/components/PostThumbnailImage';
 import { getChallengePostMeta } from '@/lib/utils/challenge-post';
 import { isChallengeParticipationOpen } from '@/lib/utils/challenge';
 import { localNotificationEvents } from '@/lib/local-notification-events';
 import { normalizePost } from '@/lib/utils/normalize-post';
 import { getCachedPostDetail, getPostDetailsCached, primePostDetailsCache } from '@/lib/post-details-cache';
 import { getPostVideoAssetsBatchCached } from '@/lib/post-video-assets-cache';
-import { getPostVideoAssetsCached } from '@/lib/post-video-assets-cache';
 import { setProfileFeedLaunchCache } from '@/lib/profile-feed-launch-cache';
 import { PostAppealModal } from '@/components/PostAppealModal';
 import {
@@ -52,6 +52,13 @@ import { shouldHideOutsideForYou } from '@/lib/utils/post-filter';
 import { useResumeRefresh } from '@/lib/hooks/use-resume-refresh';
 import { feedTelemetry } from '@/lib/feed-telemetry';
 import { videoReadyTracker } from '@/lib/video-ready-tracker';
+import { localDrafts, type LocalDraft } from '@/lib/local-drafts';
+import { useLocalDrafts } from '@/lib/hooks/use-local-drafts';
+import { useUploadQueue } from '@/lib/hooks/use-upload-queue';
+import { scheduledPosts } from '@/lib/scheduled-posts';
+import { useScheduledPosts } from '@/lib/hooks/use-scheduled-posts';
+import { SchedulePublishModal } from '@/components/SchedulePublishModal';
+import { formatChallengeDateTime } from '@/lib/utils/challenge';
 
 const { width: screenWidth } = Dimensions.get('window');
 const POST_ITEM_SIZE = (screenWidth - 4) / 3; // 3 columns with 2px gaps
@@ -70,10 +77,12 @@ interface VideoThumbnailProps {
   onUseContentPress?: () => void;
   onViewsPress?: () => void;
   onRetryProcessingPress?: () => void;
+  /** Publish time of a scheduled draft; shown instead of the draft buttons */
+  scheduledPublishAt?: string | null;
+  onSchedulePress?: () => void;
 }
 
-const VideoThumbnail = ({ post, isActive, onPress, onOptionsPress, onPublishPress, onSubmitToCompetitionPress, onUseContentPress, onViewsPress, onRetryProcessingPress }: VideoThumbnailProps) => {
-  const [imageError, setImageError] = useState(false);
+const VideoThumbnail = ({ post, isActive, onPress, onOptionsPress, onPublishPress, onSubmitToCompetitionPress, onUseContentPress, onViewsPress, onRetryProcessingPress, scheduledPublishAt, onSchedulePress }: VideoThumbnailProps) => {
   const [showAppealModal, setShowAppealModal] = useState(false);
   const isSuspended = (post.status as string) === 'suspended' || (post.status as string) === 'rejected' || (post.status as string) === 'reported';
 
@@ -121,40 +130,6 @@ const VideoThumbnail = ({ post, isActive, onPress, onOptionsPress, onPublishPres
     '';
   const imageUrl = getFileUrl(postImage || '') || null;
   const thumbnailUrl = serverThumbnail || (!isVideo ? imageUrl : null);
-  const [resolvedThumbnailUrl, setResolvedThumbnailUrl] = useState<string | null>(thumbnailUrl);
-
-  useEffect(() => {
-    setImageError(false);
-    setResolvedThumbnailUrl(thumbnailUrl);
-  }, [thumbnailUrl]);
-
-  useEffect(() => {
-    let cancelled = false;
-
-    if (!isVideo || resolvedThumbnailUrl || !post?.id) {
-      return () => {
-        cancelled = true;
-      };
-    }
-
-    getPostVideoAssetsCached(post.id)
-      .then((assets) => {
-        if (cancelled || !assets) return;
-        const repairedThumbnail =
-          getFileUrl(assets.thumbnail_url || assets.thumbnailUrl || '') ||
-          getFileUrl((assets as any).image || (assets as any).thumbnail || '');
-        if (repairedThumbnail) {
-          setResolvedThumbnailUrl(repairedThumbnail);
-        }
-      })
-      .catch(() => {
-        // Best-effort thumbnail repair only.
-      });
-
-    return () => {
-      cancelled = true;
-    };
-  }, [isVideo, post?.id, resolvedThumbnailUrl]);
 
   return (
     <TouchableOpacity
@@ -164,21 +139,12 @@ const VideoThumbnail = ({ post, isActive, onPress, onOptionsPress, onPublishPres
       activeOpacity={0.9}
     >
       {/* Static thumbnail image only — NO video player */}
-      {resolvedThumbnailUrl && !imageError ? (
-        <ExpoImage
-          source={{ uri: resolvedThumbnailUrl }}
-          style={styles.postMedia}
-          contentFit="cover"
-          cachePolicy="memory-disk"
-          transition={0}
-          onError={() => setImageError(true)}
-          recyclingKey={post.id}
-        />
-      ) : (
-        <View style={[styles.postMedia, styles.noMediaPlaceholder]}>
-          <MaterialIcons name={isVideo ? "video-library" : "image"} size={28} color="#666" />
-        </View>
-      )}
+      <PostThumbnailImage
+        postId={post.id}
+        thumbnailUrl={thumbnailUrl}
+        isVideo={isVideo}
+        style={styles.postMedia}
+      />
 
       {/* Overlay with stats */}
       <View style={styles.postOverlay}>
@@ -295,6 +261,22 @@ const VideoThumbnail = ({ post, isActive, onPress, onOptionsPress, onPublishPres
           </TouchableOpacity>
         )}
 
+      {scheduledPublishAt && (
+        <TouchableOpacity
+          style={styles.scheduledPublishButton}
+          onPress={(e) => {
+            e.stopPropagation();
+            onSchedulePress?.();
+          }}
+          activeOpacity={0.8}
+        >
+          <Feather name="clock" size={12} color="#fff" />
+          <Text style={styles.scheduledPublishButtonText} numberOfLines={1}>
+            {formatChallengeDateTime(scheduledPublishAt, { month: 'short', includeTimeZone: false })}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Suspended post appeal button */}
       {isSuspended && (
         <TouchableOpacity
@@ -363,6 +345,7 @@ const filterProfileSurfacePosts = (items: Post[]) =>
 const persistentProfilePostsCache: Record<string, Post[]> = {
   active: [],
   draft: [],
+  scheduled: [],
   suspended: [],
 };
 
@@ -465,9 +448,19 @@ const getStatusIcon = (status: string) => {
 const PROFILE_TABS = [
   { key: 'active', label: 'Active Posts', icon: 'check-circle' },
   { key: 'draft', label: 'Drafts', icon: 'drafts' },
+  { key: 'scheduled', label: 'Scheduled', icon: 'schedule' },
   { key: 'suspended', label: 'Suspended', icon: 'cancel' },
 ];
 
+// What the schedule picker is open for: an uploaded draft, or a draft still on the device
+type ScheduleTarget =
+  | { kind: 'post'; postId: string; title: string; publishAt: string | null; challengeId: string | null; challengeName: string | null }
+  | { kind: 'local'; draft: LocalDraft };
+
+/** Publish time of a scheduled draft; this device's schedule wins over the server's copy. */
+const getScheduledPublishAt = (post: any): string | null =>
+  scheduledPosts.get(post?.id)?.publishAt ?? post?.scheduled_publish_at ?? null;
+
 export default function ProfileScreen() {
   const { user, logout } = useAuth();
   const dispatch = useAppDispatch();
@@ -503,6 +496,11 @@ export default function ProfileScreen() {
   const [joinedChallengesForSubmit, setJoinedChallengesForSubmit] = useState<any[]>([]);
   const [loadingJoinedChallenges, setLoadingJoinedChallenges] = useState(false);
   const [submittingDraftToChallenge, setSubmittingDraftToChallenge] = useState(false);
+  // Drafts saved on this device, listed above the server drafts
+  const deviceDrafts = useLocalDrafts();
+  const uploadQueueItems = useUploadQueue();
+  const scheduledEntries = useScheduledPosts();
+  const [scheduleTarget, setScheduleTarget] = useState<ScheduleTarget | null>(null);
 
 
   // Error and loading states
@@ -524,6 +522,7 @@ export default function ProfileScreen() {
   const postsCacheRef = useRef<Record<string, Post[]>>({
     active: persistentProfilePostsCache.active,
     draft: persistentProfilePostsCache.draft,
+    scheduled: persistentProfilePostsCache.scheduled,
     suspended: persistentProfilePostsCache.suspended,
   });
   const loadPostsRequestIdRef = useRef(0);
@@ -549,7 +548,7 @@ export default function ProfileScreen() {
 
   // Auto-switch to tab from notification deep-link (e.g. tab=suspended)
   useEffect(() => {
-    if (searchParams.tab && ['active', 'draft', 'suspended'].includes(searchParams.tab)) {
+    if (searchParams.tab && ['active', 'draft', 'scheduled', 'suspended'].includes(searchParams.tab)) {
       setActiveTab(searchParams.tab);
     }
   }, [searchParams.tab]);
@@ -751,9 +750,9 @@ export default function ProfileScreen() {
         console.log('📥 [loadPosts] Loading posts for tab:', activeTab);
       }
 
-      // Fetch drafts separately if draft tab is active
+      // Fetch drafts separately if the draft or scheduled tab is active
       let response;
-      if (activeTab === 'draft') {
+      if (activeTab === 'draft' || activeTab === 'scheduled') {
         if (__DEV__) {
           console.log('📥 [loadPosts] Fetching drafts...');
         }
@@ -777,16 +776,22 @@ export default function ProfileScreen() {
             response.data.posts.filter((post: any) => post.status === 'draft' || post.status === 'Draft')
           );
           const draftById = new Map<string, any>();
-          draftList.forEach((p: any) => { if (p?.id) draftById.set(p.id, p); });
-          const visibleDrafts = sortPostsNewestFirst(Array.from(draftById.values()));
-          postsCacheRef.current.draft = visibleDrafts;
-          persistentProfilePostsCache.draft = visibleDrafts;
+          draftList.forEach((p: any) => {
+            // Scheduled drafts have their own tab
+            if (p?.id && !!getScheduledPublishAt(p) === (activeTab === 'scheduled')) draftById.set(p.id, p);
+          });
+          const visibleDrafts = activeTab === 'scheduled'
+            ? Array.from(draftById.values()).sort((left, right) =>
+              String(getScheduledPublishAt(left)).localeCompare(String(getScheduledPublishAt(right))))
+            : sortPostsNewestFirst(Array.from(draftById.values()));
+          postsCacheRef.current[activeTab] = visibleDrafts;
+          persistentProfilePostsCache[activeTab] = visibleDrafts;
           setPosts(visibleDrafts);
           setTotalLikes(0);
           void enrichVisiblePosts(visibleDrafts).then((enrichedDrafts) => {
             if (loadPostsRequestIdRef.current !== requestId) return;
-            postsCacheRef.current.draft = enrichedDrafts;
-            persistentProfilePostsCache.draft = enrichedDrafts;
+            postsCacheRef.current[activeTab] = enrichedDrafts;
+            persistentProfilePostsCache[activeTab] = enrichedDrafts;
             setPosts(enrichedDrafts);
           });
           return;
@@ -840,7 +845,10 @@ export default function ProfileScreen() {
             );
             break;
           case 'draft':
-            filteredPosts = filteredPosts.filter((p: any) => p.status === 'draft');
+            filteredPosts = filteredPosts.filter((p: any) => p.status === 'draft' && !getScheduledPublishAt(p));
+            break;
+          case 'scheduled':
+            filteredPosts = filteredPosts.filter((p: any) => p.status === 'draft' && !!getScheduledPublishAt(p));
             break;
           case 'suspended':
             filteredPosts = filteredPosts.filter((p: any) =>
@@ -1091,7 +1099,7 @@ export default function ProfileScreen() {
 
     // Background API call
     try {
-      const response = await likesApi.toggle(postId);
+      const response = await likesApi.toggle(postId, { desiredLiked: newIsLiked });
 
       if (response.status === 'success' && response.data) {
         // Update with server response
@@ -1339,6 +1347,168 @@ export default function ProfileScreen() {
     );
   };
 
+  const openScheduleForPost = (post: any) => {
+    const entry = scheduledPosts.get(post.id);
+    setScheduleTarget({
+      kind: 'post',
+      postId: post.id,
+      title: post.title || post.caption || '',
+      publishAt: getScheduledPublishAt(post),
+      challengeId: entry?.challengeId ?? null,
+      challengeName: entry?.challengeName ?? null,
+    });
+  };
+
+  const handleScheduledPostPress = (post: any) => {
+    const publishAt = getScheduledPublishAt(post);
+    const entry = scheduledPosts.get(post.id);
+    Alert.alert(
+      'Scheduled post',
+      [
+        `Publishes ${formatChallengeDateTime(publishAt, { month: 'short', includeTimeZone: false })}.`,
+        entry?.challengeId ? `It joins ${entry.challengeName || 'the competition'} when it goes live.` : null,
+      ].filter(Boolean).join(' '),
+      [
+        { text: 'Change time', onPress: () => openScheduleForPost(post) },
+        {
+          text: 'Cancel schedule',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await scheduledPosts.cancel(post.id);
+              await loadPosts(false);
+            } catch (error: any) {
+              Alert.alert('Could not cancel', error?.message || 'Please try again.');
+            }
+          },
+        },
+        { text: 'Close', style: 'cancel' },
+      ]
+    );
+  };
+
+  const handleConfirmSchedule = async (publishAt: Date) => {
+    const target = scheduleTarget;
+    setScheduleTarget(null);
+    if (!target || !user?.id) return;
+    const when = formatChallengeDateTime(publishAt, { month: 'short', includeTimeZone: false });
+
+    if (target.kind === 'local') {
+      try {
+        await localDrafts.upload(target.draft.id, 'active', publishAt.toISOString());
+        Alert.alert('Post scheduled', `Your draft is uploading now and will be published ${when}.`);
+      } catch (error: any) {
+        Alert.alert('Could not schedule draft', error?.message || 'Please try again.');
+      }
+      return;
+    }
+
+    const entry = await scheduledPosts.schedule(user.id, target.postId, publishAt.toISOString(), {
+      title: target.title,
+      challengeId: target.challengeId,
+      challengeName: target.challengeName,
+    });
+    Alert.alert(
+      'Post scheduled',
+      entry.serverScheduled
+        ? `It will be published ${when}.`
+        : `It will be published the first time you open the app after ${when}.`
+    );
+    await loadPosts(false);
+  };
+
+  const openLocalDraft = (draft: LocalDraft) => {
+    router.push({
+      pathname: '/(tabs)/create',
+      params: { localDraftId: draft.id, openedAt: String(Date.now()) },
+    } as any);
+  };
+
+  const uploadLocalDraft = async (draft: LocalDraft, status: 'active' | 'draft') => {
+    try {
+      await localDrafts.upload(draft.id, status);
+    } catch (error: any) {
+      Alert.alert('Could not upload draft', error?.message || 'Please try again.');
+    }
+  };
+
+  const handleUploadLocalDraft = (draft: LocalDraft) => {
+    if (!draft.caption.trim() || !draft.categoryName) {
+      Alert.alert('Finish your draft', 'Add a caption and category before uploading.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Edit draft', onPress: () => openLocalDraft(draft) },
+      ]);
+      return;
+    }
+
+    Alert.alert('Upload draft', 'The video uploads in the background and is removed from this device once it is done.', [
+      {
+        text: draft.challengeId ? `Post to ${draft.challengeName || 'competition'}` : 'Publish now',
+        onPress: () => void uploadLocalDraft(draft, 'active'),
+      },
+      { text: 'Upload as draft', onPress: () => void uploadLocalDraft(draft, 'draft') },
+      { text: 'Schedule publishing', onPress: () => setScheduleTarget({ kind: 'local', draft }) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleDeleteLocalDraft = (draft: LocalDraft) => {
+    Alert.alert('Delete draft?', 'The video saved on this device will be deleted.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => void localDrafts.remove(draft.id) },
+    ]);
+  };
+
+  const getLocalDraftStatus = (draft: LocalDraft) => {
+    const upload = draft.uploadItemId ? uploadQueueItems.find((item) => item.id === draft.uploadItemId) : null;
+    if (upload?.status === 'failed') return 'Upload failed · retry from Uploads';
+    if (upload?.status === 'resuming') return 'Resuming upload...';
+    if (upload) return upload.status === 'uploading' ? `Uploading ${Math.round(upload.percent)}%` : 'Uploading...';
+    return `Saved ${new Date(draft.updatedAt).toLocaleDateString()}`;
+  };
+
+  const renderLocalDrafts = () => (
+    <View style={styles.localDraftsSection}>
+      <Text style={styles.localDraftsTitle}>ON THIS DEVICE</Text>
+      {deviceDrafts.map((draft) => (
+        <TouchableOpacity
+          key={draft.id}
+          style={styles.localDraftRow}
+          onPress={() => (draft.uploadItemId ? router.push('/uploads' as any) : openLocalDraft(draft))}
+          activeOpacity={0.7}
+        >
+          {draft.thumbnailUri ? (
+            <ExpoImage source={{ uri: draft.thumbnailUri }} style={styles.localDraftThumbnail} contentFit="cover" />
+          ) : (
+            <View style={[styles.localDraftThumbnail, styles.localDraftThumbnailPlaceholder]}>
+              <Feather name="film" size={18} color="#666" />
+            </View>
+          )}
+          <View style={styles.localDraftText}>
+            <Text style={styles.localDraftCaption} numberOfLines={1}>
+              {draft.caption.trim() || 'No caption yet'}
+            </Text>
+            <Text style={styles.localDraftMeta} numberOfLines={1}>
+              {[draft.categoryName, draft.challengeName].filter(Boolean).join(' · ') || 'No category yet'}
+            </Text>
+            <Text style={styles.localDraftMeta} numberOfLines={1}>{getLocalDraftStatus(draft)}</Text>
+          </View>
+          {!draft.uploadItemId && (
+            <>
+              <TouchableOpacity onPress={() => handleUploadLocalDraft(draft)} hitSlop={8} style={styles.localDraftAction}>
+                <Feather name="upload-cloud" size={18} color="#60a5fa" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDeleteLocalDraft(draft)} hitSlop={8} style={styles.localDraftAction}>
+                <Feather name="trash-2" size={18} color="#666" />
+              </TouchableOpacity>
+            </>
+          )}
+        </TouchableOpacity>
+      ))}
+      <Text style={styles.localDraftsTitle}>UPLOADED</Text>
+    </View>
+  );
+
   const handleRetryProcessing = async (postId: string) => {
     if (!user?.id) {
       return;
@@ -1458,14 +1628,16 @@ export default function ProfileScreen() {
               activeTab,
             });
           }
-          setProfileFeedLaunchCache(user?.id || '', activeTab, posts);
+          // Scheduled posts are drafts to the profile feed
+          const feedStatus = activeTab === 'scheduled' ? 'draft' : activeTab;
+          setProfileFeedLaunchCache(user?.id || '', feedStatus, posts);
           // Navigate to full-screen profile feed with current post as initial
           router.push({
             pathname: '/profile-feed/[userId]',
             params: {
               userId: user?.id || '',
               initialPostId: item.id,
-              status: activeTab,
+              status: feedStatus,
               initialPostData: JSON.stringify(item) // CRITICAL: Pass data for instant loading
             }
           });
@@ -1502,9 +1674,9 @@ export default function ProfileScreen() {
           setSelectedPost(item);
           setPostOptionsModalVisible(true);
         }}
-        onPublishPress={() => handlePublishDraft(item.id)}
+        onPublishPress={activeTab === 'scheduled' ? undefined : () => handlePublishDraft(item.id)}
         onRetryProcessingPress={() => handleRetryProcessing(item.id)}
-        onUseContentPress={() => {
+        onUseContentPress={activeTab === 'scheduled' ? undefined : () => {
           Alert.alert(
             'Use Content',
             'Choose what to do with this draft.',
@@ -1512,9 +1684,12 @@ export default function ProfileScreen() {
               { text: 'Cancel', style: 'cancel' },
               { text: 'Publish the content to the Main Feed', onPress: () => handlePublishDraft(item.id) },
               { text: 'Submit the content to a competition', onPress: () => openSubmitDraftToCompetition(item.id) },
+              { text: 'Schedule publishing', onPress: () => openScheduleForPost(item) },
             ]
           );
         }}
+        scheduledPublishAt={activeTab === 'scheduled' ? getScheduledPublishAt(item) : null}
+        onSchedulePress={() => handleScheduledPostPress(item)}
       />
     );
   };
@@ -1765,12 +1940,16 @@ export default function ProfileScreen() {
                 </TouchableOpacity>
               ))}
             </View>
+
+            {activeTab === 'draft' && deviceDrafts.length > 0 && renderLocalDrafts()}
           </>
         }
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <MaterialIcons name="video-library" size={48} color="#666" />
-            <Text style={styles.emptyText}>No {activeTab} posts</Text>
+            <Text style={styles.emptyText}>
+              {activeTab === 'draft' && deviceDrafts.length > 0 ? 'No uploaded drafts' : `No ${activeTab} posts`}
+            </Text>
             {activeTab === 'active' && (
               <TouchableOpacity
                 style={styles.createButton}
@@ -1783,6 +1962,21 @@ export default function ProfileScreen() {
         }
       />
 
+      <SchedulePublishModal
+        visible={!!scheduleTarget}
+        initialPublishAt={scheduleTarget?.kind === 'post' ? scheduleTarget.publishAt : null}
+        subtitle={
+          scheduleTarget?.kind === 'local'
+            ? 'The draft is uploaded now and published at this time.'
+            : scheduleTarget?.challengeId
+              ? `The post is published and joins ${scheduleTarget.challengeName || 'the competition'} at this time.`
+              : 'The draft is published to the main feed at this time.'
+        }
+        confirmLabel={scheduleTarget?.kind === 'post' && scheduleTarget.publishAt ? 'Update schedule' : 'Schedule'}
+        onConfirm={(publishAt) => void handleConfirmSchedule(publishAt)}
+        onCancel={() => setScheduleTarget(null)}
+      />
+
       {/* Menu Modal */}
       <Modal visible={menuVisible} transparent animationType="fade">
         <TouchableOpacity
@@ -1802,6 +1996,28 @@ export default function ProfileScreen() {
               <Text style={styles.menuItemText}>Edit Profile</Text>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuVisible(false);
+                router.push('/watch-history' as any);
+              }}
+            >
+              <Feather name="clock" size={20} color="#fff" />
+              <Text style={styles.menuItemText}>Watch History</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuVisible(false);
+                router.push('/uploads' as any);
+              }}
+            >
+              <Feather name="upload-cloud" size={20} color="#fff" />
+              <Text style={styles.menuItemText}>Uploads</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={styles.menuItem}
               onPress={() => {
@@ -2749,6 +2965,72 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '700',
   },
+  scheduledPublishButton: {
+    position: 'absolute',
+    bottom: 4,
+    left: 4,
+    right: 4,
+    backgroundColor: 'rgba(139, 92, 246, 0.9)',
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    paddingVertical: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  scheduledPublishButtonText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+    flexShrink: 1,
+  },
+  localDraftsSection: {
+    paddingHorizontal: 12,
+  },
+  localDraftsTitle: {
+    color: '#666',
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.8,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  localDraftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 8,
+    gap: 12,
+  },
+  localDraftThumbnail: {
+    width: 44,
+    height: 60,
+    borderRadius: 6,
+  },
+  localDraftThumbnailPlaceholder: {
+    backgroundColor: '#262626',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  localDraftText: {
+    flex: 1,
+  },
+  localDraftCaption: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  localDraftMeta: {
+    color: '#999',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  localDraftAction: {
+    padding: 4,
+  },
   emptyContainer: {
     alignItems: 'center',
     paddingVertical: 60,
@@ -25,8 +25,14 @@ import { MuteProvider } from '@/lib/mute-context';
 import { CreateFocusProvider } from '@/lib/create-focus-context';
 import { VideoReadyWatcher } from '@/components/VideoReadyWatcher';
 import NetworkBanner from '@/components/NetworkBanner';
+import { UploadRecoveryBanner } from '@/components/UploadRecoveryBanner';
 import { API_BASE_URL } from '@/lib/config';
 import { networkStatus } from '@/lib/network-status';
+import { dataSaver } from '@/lib/data-saver';
+import { deviceProfile } from '@/lib/device-profile';
+import { directUploadRecovery } from '@/lib/direct-upload-recovery';
+import { uploadQueue } from '@/lib/upload-queue';
+import { scheduledPosts } from '@/lib/scheduled-posts';
 import { RealtimeProvider } from '@/lib/realtime-context';
 import { NotificationBadgeProvider } from '@/lib/notification-badge-context';
 import { useAuth } from '@/lib/auth-context';
@@ -213,6 +219,20 @@ function RootLayoutInner() {
   return <RootLayoutNav />;
 }
 
+/**
+ * Picks up what the signed-in viewer left running in the last session: queued
+ * and interrupted uploads, and scheduled drafts that came due while the app was
+ * closed. The queue is loaded first so items waiting on recovery see its progress.
+ */
+async function resumeSignedInWork() {
+  const raw = await AsyncStorage.getItem('talynk_user');
+  const userId = raw ? JSON.parse(raw)?.id : null;
+  if (!userId) return;
+
+  void uploadQueue.load(String(userId)).then(() => directUploadRecovery.resume(String(userId)));
+  void scheduledPosts.load(String(userId));
+}
+
 function RootLayoutNav() {
   const theme = DarkTheme;
   const [onboardingChecked, setOnboardingChecked] = useState(false);
@@ -221,6 +241,8 @@ function RootLayoutNav() {
   useEffect(() => {
     initializeStore().catch(() => {});
     initGlobalVideoPauseListener();
+    deviceProfile.initialize().catch(() => {});
+    resumeSignedInWork().catch(() => {});
 
     if (IOS_LAUNCH_SAFE_MODE || (Platform.OS === 'ios' && !IOS_STARTUP_FLAGS.enableStartupNotificationPermissionPrompt)) {
       captureSentryBootBreadcrumb('iOS launch-safe mode enabled: deferred notification permission prompt');
@@ -249,6 +271,7 @@ function RootLayoutNav() {
     const unsubscribe = NetInfo.addEventListener((state) => {
       const isOnline = Boolean(state.isConnected) && state.isInternetReachable !== false;
       onlineManager.setOnline(isOnline);
+      dataSaver.reportConnection(state.type, state.details?.isConnectionExpensive);
 
       if (isOnline) {
         networkStatus.reportOnline({ source: 'netinfo' });
@@ -264,6 +287,7 @@ function RootLayoutNav() {
     void NetInfo.fetch().then((state) => {
       const isOnline = Boolean(state.isConnected) && state.isInternetReachable !== false;
       onlineManager.setOnline(isOnline);
+      dataSaver.reportConnection(state.type, state.details?.isConnectionExpensive);
       if (isOnline) {
         networkStatus.reportOnline({ source: 'netinfo' });
       } else {
@@ -320,7 +344,7 @@ function RootLayoutNav() {
   useEffect(() => {
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
       if (nextAppState === 'background') {
-        // Trigger garbage collection hints by clearing old cache entries
+        // Drop long-unused images and persist the cache index
         imageCache.cleanupExpired();
       }
     };
@@ -445,6 +469,7 @@ function RootLayoutNav() {
                 <SharedVideoLinkListener />
                 <VideoReadyWatcher />
                 <NetworkBanner />
+                <UploadRecoveryBanner />
                 <SuspensionModal />
                 <Stack
                   screenOptions={{
@@ -461,6 +486,9 @@ function RootLayoutNav() {
                   <Stack.Screen name="user/[id]" options={{ headerShown: false }} />
                   <Stack.Screen name="profile-feed/[userId]" options={{ headerShown: false }} />
                   <Stack.Screen name="search" options={{ headerShown: false }} />
+                  <Stack.Screen name="trending" options={{ headerShown: false }} />
+                  <Stack.Screen name="watch-history" options={{ headerShown: false }} />
+                  <Stack.Screen name="uploads" options={{ headerShown: false }} />
                   <Stack.Screen name="category/[name]" options={{ headerShown: false }} />
                   <Stack.Screen name="challenges/[id]" options={{ headerShown: false }} />
                   <Stack.Screen name="challenges/[id]/posts" options={{ headerShown: false }} />
@@ -468,6 +496,10 @@ function RootLayoutNav() {
                   <Stack.Screen name="settings/change-password" options={{ headerShown: false }} />
                   <Stack.Screen name="settings/delete-account" options={{ headerShown: false }} />
                   <Stack.Screen name="settings/sessions" options={{ headerShown: false }} />
+                  <Stack.Screen name="settings/data-usage" options={{ headerShown: false }} />
+                  <Stack.Screen name="settings/downloads" options={{ headerShown: false }} />
+                  <Stack.Screen name="settings/storage" options={{ headerShown: false }} />
+                  <Stack.Screen name="settings/captions" options={{ headerShown: false }} />
                   <Stack.Screen name="settings/help-center" options={{ headerShown: false }} />
                   <Stack.Screen name="settings/report-problem" options={{ headerShown: false }} />
                   <Stack.Screen name="settings/about" options={{ headerShown: false }} />
@@ -33,7 +33,7 @@ import { useAppSelector } from '@/lib/store/hooks';
 import { useLikesManager } from '@/lib/hooks/use-likes-manager';
 import { Share } from 'react-native';
 import { useRealtime } from '@/lib/realtime-context';
-import websocketService from '@/lib/websocket-service';
+import type { ChallengeUpdatedEvent } from '@/lib/websocket-service';
 import {
   formatChallengeDateTime,
   formatOrganizerPhoneForDetail,
@@ -57,13 +57,11 @@ import { filterChallengeSurfacePosts, filterSecondarySurfacePosts } from '@/lib/
 import { prefetchFollowingFeed, removeUserFromFollowingFeedCache, seedFollowingFeedCache } from '@/lib/following-feed-cache';
 import {
   shouldPreloadFeedVideo,
-  VIDEO_FEED_INITIAL_NUM_TO_RENDER,
-  VIDEO_FEED_MAX_TO_RENDER_PER_BATCH,
   VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS,
-  VIDEO_FEED_WINDOW_SIZE,
 } from '@/lib/utils/video-feed';
 import { primePostDetailsCache } from '@/lib/post-details-cache';
 import { warmFeedWindow } from '@/lib/feed-window-warmup';
+import { useDeviceProfile } from '@/lib/hooks/use-device-profile';
 import { safeRouterBack } from '@/lib/utils/navigation';
 import { pauseAllVideos } from '@/lib/hooks/use-video-pause-on-blur';
 import { useResumeRefresh } from '@/lib/hooks/use-resume-refresh';
@@ -119,6 +117,7 @@ const WINNER_MEDALS = {
 export default function ChallengeDetailScreen() {
   const { id } = useLocalSearchParams();
   const { user, isAuthenticated } = useAuth();
+  const { videoFeedList } = useDeviceProfile();
   const C = COLORS.dark;
 
   const [challenge, setChallenge] = useState<any>(null);
@@ -149,7 +148,7 @@ export default function ChallengeDetailScreen() {
   const { followedUsers, updateFollowedUsers, syncFollowedUsersFromServer } = useCache();
   const likesManager = useLikesManager();
   const likedPosts = useAppSelector(state => state.likes.likedPosts);
-  const { onChallengeLikesUpdated } = useRealtime();
+  const { onChallengeLikesUpdated, subscribe: subscribeRealtime } = useRealtime();
   const localTimeZoneLabel = useMemo(() => getCurrentTimeZoneLabel(), []);
   const challengeEnded = useMemo(() => isChallengeOver(challenge), [challenge]);
   const organizerPhoneDisplay = useMemo(() => {
@@ -201,6 +200,7 @@ export default function ChallengeDetailScreen() {
     getItemLayout: getFullscreenItemLayout,
     handleScroll: handleFullscreenPagerScroll,
     handleMomentumScrollEnd: handleFullscreenPagerMomentumEnd,
+    scrollToIndex: scrollFullscreenPagerToIndex,
   } = useVerticalSnapPager<Post>({
     itemCount: posts.length,
     pageHeight: fullscreenAvailableHeight,
@@ -216,6 +216,7 @@ export default function ChallengeDetailScreen() {
     },
     onTransitionEnd: () => {},
   });
+  const advanceFullscreenFromIndex = useCallback((index: number) => scrollFullscreenPagerToIndex(index + 1), [scrollFullscreenPagerToIndex]);
 
   useRefetchOnReconnect(() => {
     fetchChallenge({ showLoader: false });
@@ -501,18 +502,7 @@ export default function ChallengeDetailScreen() {
       const response = await challengesApi.getWinners(id as string, 1, 100);
 
       if (response?.status === 'success') {
-        const winnersList = Array.isArray(response.data?.winners) ? response.data.winners : [];
-        const normalizedWinners = winnersList.map((winner: any) => ({
-          ...winner,
-          winner_rank: winner?.winner_rank != null ? Number(winner.winner_rank) : null,
-          total_winner_posts: Number(winner?.total_winner_posts ?? winner?.posts?.length ?? 0),
-          total_likes_during_challenge: Number(winner?.total_likes_during_challenge ?? 0),
-          latest_submission_at: winner?.latest_submission_at ?? null,
-          posts: Array.isArray(winner?.posts) ? winner.posts : [],
-          is_winner: winner?.is_winner === true,
-        }));
-
-        setWinners(normalizedWinners);
+        setWinners(response.data.winners);
         setWinnersVisible(response.data?.winners_visible === true);
         setWinnersConfirmedAt(response.data?.winners_confirmed_at ?? null);
         setWinnersFetched(true);
@@ -655,7 +645,7 @@ export default function ChallengeDetailScreen() {
       return;
     }
 
-    const handleChallengeUpdated = (update: { challengeId?: string }) => {
+    const handleChallengeUpdated = (update: ChallengeUpdatedEvent) => {
       if (String(update?.challengeId) !== String(id)) {
         return;
       }
@@ -671,11 +661,8 @@ export default function ChallengeDetailScreen() {
       }
     };
 
-    websocketService.on('challengeUpdated', handleChallengeUpdated);
-    return () => {
-      websocketService.off('challengeUpdated', handleChallengeUpdated);
-    };
-  }, [activeTab, fetchYourPostCount, id]);
+    return subscribeRealtime('challengeUpdated', handleChallengeUpdated);
+  }, [activeTab, fetchYourPostCount, id, subscribeRealtime]);
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -1949,6 +1936,7 @@ export default function ChallengeDetailScreen() {
                   challengeName={challenge?.name}
                   bottomFooterHeight={fullscreenFooterHeight}
                   showBottomFooter
+                  onPlaybackEnded={advanceFullscreenFromIndex}
                 />
               );
             }}
@@ -1961,9 +1949,9 @@ export default function ChallengeDetailScreen() {
             decelerationRate="fast"
             scrollEventThrottle={16}
             showsVerticalScrollIndicator={false}
-            windowSize={VIDEO_FEED_WINDOW_SIZE}
-            initialNumToRender={VIDEO_FEED_INITIAL_NUM_TO_RENDER}
-            maxToRenderPerBatch={VIDEO_FEED_MAX_TO_RENDER_PER_BATCH}
+            windowSize={videoFeedList.windowSize}
+            initialNumToRender={videoFeedList.initialNumToRender}
+            maxToRenderPerBatch={videoFeedList.maxToRenderPerBatch}
             removeClippedSubviews={VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS}
             onViewableItemsChanged={fullscreenViewableHandler}
             viewabilityConfig={fullscreenViewabilityConfig}
@@ -45,12 +45,10 @@ import { useVerticalSnapPager } from '@/lib/hooks/use-vertical-snap-pager';
 import { prefetchFollowingFeed, removeUserFromFollowingFeedCache, seedFollowingFeedCache } from '@/lib/following-feed-cache';
 import {
   shouldPreloadFeedVideo,
-  VIDEO_FEED_INITIAL_NUM_TO_RENDER,
-  VIDEO_FEED_MAX_TO_RENDER_PER_BATCH,
   VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS,
-  VIDEO_FEED_WINDOW_SIZE,
 } from '@/lib/utils/video-feed';
 import { warmFeedWindow } from '@/lib/feed-window-warmup';
+import { useDeviceProfile } from '@/lib/hooks/use-device-profile';
 import { openFullscreenWithSafeScroll } from '@/lib/utils/fabric-diagnostics';
 import { feedTelemetry } from '@/lib/feed-telemetry';
 
@@ -129,6 +127,7 @@ export default function ChallengePostsScreen() {
   const [isChallengeEnded, setIsChallengeEnded] = useState(false);
   const [emptyMessage, setEmptyMessage] = useState('No posts in this challenge yet');
   const { user } = useAuth();
+  const { videoFeedList } = useDeviceProfile();
   const { followedUsers, updateFollowedUsers, syncFollowedUsersFromServer } = useCache();
   const likesManager = useLikesManager();
   const expectedPostsCount = Number(expectedPosts ?? 0) || 0;
@@ -161,6 +160,7 @@ export default function ChallengePostsScreen() {
     getItemLayout: getFullscreenItemLayout,
     handleScroll: handleFullscreenPagerScroll,
     handleMomentumScrollEnd: handleFullscreenPagerMomentumEnd,
+    scrollToIndex: scrollFullscreenPagerToIndex,
   } = useVerticalSnapPager<Post>({
     itemCount: posts.length,
     pageHeight: fullscreenAvailableHeight,
@@ -176,6 +176,7 @@ export default function ChallengePostsScreen() {
     },
     onTransitionEnd: () => {},
   });
+  const advanceFullscreenFromIndex = useCallback((index: number) => scrollFullscreenPagerToIndex(index + 1), [scrollFullscreenPagerToIndex]);
 
   useRefetchOnReconnect(() => loadPosts(1, true));
 
@@ -311,8 +312,7 @@ export default function ChallengePostsScreen() {
           return;
         }
 
-        const pagination = response.data?.pagination || {};
-        const hasMoreData = pagination.hasNextPage !== false && postsList.length === limit;
+        const hasMoreData = response.data?.pagination.hasMore !== false && postsList.length === limit;
         setHasMore(hasMoreData);
 
         if (page === 1 || refresh) {
@@ -735,6 +735,7 @@ export default function ChallengePostsScreen() {
                   isChallengeEnded={isChallengeEnded}
                   bottomFooterHeight={fullscreenFooterHeight}
                   showBottomFooter
+                  onPlaybackEnded={advanceFullscreenFromIndex}
                 />
               );
             }}
@@ -747,9 +748,9 @@ export default function ChallengePostsScreen() {
             decelerationRate="fast"
             scrollEventThrottle={16}
             showsVerticalScrollIndicator={false}
-            windowSize={VIDEO_FEED_WINDOW_SIZE}
-            initialNumToRender={VIDEO_FEED_INITIAL_NUM_TO_RENDER}
-            maxToRenderPerBatch={VIDEO_FEED_MAX_TO_RENDER_PER_BATCH}
+            windowSize={videoFeedList.windowSize}
+            initialNumToRender={videoFeedList.initialNumToRender}
+            maxToRenderPerBatch={videoFeedList.maxToRenderPerBatch}
             removeClippedSubviews={VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS}
             onViewableItemsChanged={fullscreenViewableHandler}
             viewabilityConfig={fullscreenViewabilityConfig}
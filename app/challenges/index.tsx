@@ -21,7 +21,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Avatar } from '@/components/Avatar';
 import CreateChallengeModal from '@/components/CreateChallengeModal';
-import websocketService from '@/lib/websocket-service';
+import { useRealtime } from '@/lib/realtime-context';
 import {
   formatChallengeDateTime,
   getChallengeDateInfo,
@@ -68,6 +68,7 @@ const TABS_GUEST: Array<{ key: 'live_upcoming' | 'ended'; label: string }> = [
 
 export default function ChallengesScreen() {
   const { user, isAuthenticated } = useAuth();
+  const { subscribe: subscribeRealtime } = useRealtime();
   const colorScheme = useColorScheme() || 'dark';
   const C = COLORS[colorScheme];
 
@@ -156,11 +157,8 @@ export default function ChallengesScreen() {
       void fetchChallenges();
     };
 
-    websocketService.on('challengeUpdated', handleChallengeUpdated);
-    return () => {
-      websocketService.off('challengeUpdated', handleChallengeUpdated);
-    };
-  }, [isAuthenticated]);
+    return subscribeRealtime('challengeUpdated', handleChallengeUpdated);
+  }, [isAuthenticated, subscribeRealtime]);
 
   const visibleChallenges = useMemo(() => {
     const now = new Date();
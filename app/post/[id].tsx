@@ -20,6 +20,7 @@ import {
   useWindowDimensions,
 } from 'react-native';
 import { useLocalSearchParams, router, useFocusEffect } from 'expo-router';
+import { useIsFocused } from '@react-navigation/native';
 import { useVideoPlayer, VideoView } from 'expo-video';
 import { MaterialIcons, Feather } from '@expo/vector-icons';
 import { sharePost } from '@/lib/post-share';
@@ -32,6 +33,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import ReportModal from '@/components/ReportModal';
 import { getPostMediaUrl, getProfilePictureUrl, getThumbnailUrl, getPlaybackUrl } from '@/lib/utils/file-url';
 import { getVideoSource } from '@/lib/utils/video-source';
+import { getCappedPlaybackUrl } from '@/lib/utils/hls-variants';
+import { useVideoQuality } from '@/lib/hooks/use-video-quality';
+import { VideoQualitySheet } from '@/components/VideoQualitySheet';
 import { Avatar } from '@/components/Avatar';
 import { useVideoMute } from '@/lib/hooks/use-video-mute';
 import { useAppActive } from '@/lib/hooks/use-app-active';
@@ -41,8 +45,25 @@ import { safeRouterBack } from '@/lib/utils/navigation';
 import { prefetchFollowingFeed, removeUserFromFollowingFeedCache, seedFollowingFeedCache } from '@/lib/following-feed-cache';
 import { registerVideoPauser } from '@/lib/hooks/use-video-pause-on-blur';
 import { enterPlaybackMode } from '@/lib/media/audio-session';
+import { useViewTracking } from '@/lib/hooks/use-view-tracking';
+import { watchHistory } from '@/lib/watch-history';
+import { offlineDownloads, getOfflineVideoSource, isOfflineDownloadable } from '@/lib/offline-downloads';
+import { useOfflineDownload } from '@/lib/hooks/use-offline-downloads';
 
 const POST_ANIMATION_USES_NATIVE_DRIVER = false;
+const WATCH_HISTORY_RECORD_INTERVAL_MS = 15_000;
+
+const isVideoPost = (post: any) => {
+  const mediaUrl = getPostMediaUrl(post)?.toLowerCase();
+  return (
+    post.type === 'video' ||
+    (!!mediaUrl &&
+      (mediaUrl.includes('.mp4') ||
+        mediaUrl.includes('.mov') ||
+        mediaUrl.includes('.webm') ||
+        mediaUrl.includes('.m3u8')))
+  );
+};
 
 const timeAgo = (dateString?: string | null) => {
   if (!dateString) return '';
@@ -97,7 +118,10 @@ export default function PostDetailScreen() {
   const [commentLoading, setCommentLoading] = useState(false);
   const [menuVisible, setMenuVisible] = useState(false);
   const [reportModalVisible, setReportModalVisible] = useState(false);
+  const [qualitySheetVisible, setQualitySheetVisible] = useState(false);
   const [followLoading, setFollowLoading] = useState(false);
+  const { selection: qualitySelection } = useVideoQuality();
+  const offlineDownload = useOfflineDownload(id as string);
 
   useEffect(() => {
     // Only fetch if we don't have initialPost
@@ -134,14 +158,26 @@ export default function PostDetailScreen() {
       if (cachedPost) {
         primePostDetailsCache([cachedPost]);
         setPost(cachedPost);
+      } else {
+        await showOfflineCopy();
       }
     } catch (error) {
       console.error('Error fetching post:', error);
+      await showOfflineCopy();
     } finally {
       setLoading(false);
     }
   };
 
+  // Without a connection a downloaded post still opens from its stored snapshot
+  const showOfflineCopy = async () => {
+    await offlineDownloads.load();
+    const saved = offlineDownloads.get(id as string);
+    if (saved?.status === 'ready') {
+      setPost((current: any) => current ?? saved.post);
+    }
+  };
+
   const fetchComments = async () => {
     try {
       const response = await postsApi.getComments(id as string);
@@ -166,7 +202,7 @@ export default function PostDetailScreen() {
     updateLikedPosts(post.id, !isCurrentlyLiked);
 
     try {
-      const response = await likesApi.toggle(post.id);
+      const response = await likesApi.toggle(post.id, { desiredLiked: !isCurrentlyLiked });
 
       if (response.status === 'success' && response.data) {
         setPost((prev: any) => ({
@@ -279,6 +315,28 @@ export default function PostDetailScreen() {
     }
   };
 
+  const handleOfflineToggle = () => {
+    if (!offlineDownload || offlineDownload.status === 'failed') {
+      void offlineDownloads.enqueue(post);
+      return;
+    }
+    void offlineDownloads.remove(post.id);
+  };
+
+  // Declared ahead of the loading / not-found returns so the hook order never changes
+  const isScreenFocused = useIsFocused();
+  const hasOfflineSource = !!offlineDownload && !!getOfflineVideoSource(offlineDownload);
+  useViewTracking(post?.id, {
+    active: !!post && isScreenFocused && isAppActive && post.status !== 'draft',
+    watching: isScreenFocused && isAppActive && (post && isVideoPost(post) ? isPlaying : true),
+  });
+
+  useEffect(() => {
+    if (hasOfflineSource) {
+      offlineDownloads.markPlayed(id as string);
+    }
+  }, [hasOfflineSource, id]);
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -305,18 +363,19 @@ export default function PostDetailScreen() {
 
   const mediaUrl = getMediaUrl();
   const hasValidMedia = mediaUrl && mediaUrl.trim() !== '';
-  const isVideo =
-    post.type === 'video' ||
-    (!!mediaUrl &&
-      (mediaUrl.toLowerCase().includes('.mp4') ||
-        mediaUrl.toLowerCase().includes('.mov') ||
-        mediaUrl.toLowerCase().includes('.webm') ||
-        mediaUrl.toLowerCase().includes('.m3u8')));
+  const isVideo = isVideoPost(post);
 
   // HLS-ONLY: Get playback URL — returns .m3u8 only when processing is complete
-  const playbackUrl = getPlaybackUrl(post);
+  const masterPlaybackUrl = getPlaybackUrl(post);
+  const isHlsPlayback = !!masterPlaybackUrl?.toLowerCase().includes('.m3u8');
+  const playbackUrl = masterPlaybackUrl
+    ? getCappedPlaybackUrl(masterPlaybackUrl, qualitySelection.maxHeight, { lock: qualitySelection.lock })
+    : null;
   const hlsReady = !!playbackUrl;
-  const videoPlayerSource = isVideo && hlsReady && playbackUrl ? getVideoSource(playbackUrl) : null;
+  const offlineSource = offlineDownload ? getOfflineVideoSource(offlineDownload) : null;
+  const videoPlayerSource = isVideo
+    ? offlineSource ?? (hlsReady && playbackUrl ? getVideoSource(playbackUrl) : null)
+    : null;
 
   // expo-video player (HLS only, with caching on Android and HLS proxy on iOS)
   const videoPlayer = useVideoPlayer(
@@ -437,22 +496,60 @@ export default function PostDetailScreen() {
 
   const isDraggingPostRef = useRef(false);
 
-  // Progress tracking: poll currentTime/duration every 250ms
+  // Progress tracking: poll currentTime/duration every 250ms. The same loop
+  // resumes longer videos from watch history and keeps the entry up to date.
   useEffect(() => {
     if (!videoPlayer) return;
+    const userId = user?.id;
+    const postId = post.id;
+    const snapshot = {
+      thumbnailUrl: getThumbnailUrl(post),
+      title: post.title || post.caption || post.description || null,
+      username: post.user?.username ?? null,
+    };
+    let resumeChecked = !userId;
+    let positionSec = 0;
+    let durationSec = 0;
+    let lastRecordedAt = Date.now();
+    if (userId) {
+      void watchHistory.load(userId);
+    }
+
+    const recordProgress = () => {
+      if (!userId || durationSec <= 0) return;
+      lastRecordedAt = Date.now();
+      void watchHistory.record(userId, { postId, positionSec, durationSec, ...snapshot });
+    };
+
     const interval = setInterval(() => {
       if (isDraggingPostRef.current) return; // Don't override during drag
       try {
-        const ct = videoPlayer.currentTime || 0;
+        let ct = videoPlayer.currentTime || 0;
         const dur = videoPlayer.duration || 0;
         if (dur > 0) {
+          if (!resumeChecked && userId && watchHistory.peek(userId)) {
+            resumeChecked = true;
+            const resumeAt = watchHistory.getResumePosition(userId, postId, dur);
+            if (resumeAt !== null && ct < resumeAt) {
+              videoPlayer.currentTime = resumeAt;
+              ct = resumeAt;
+            }
+          }
+          positionSec = ct;
+          durationSec = dur;
           setVideoProgress(ct / dur);
           setVideoDuration(dur);
+          if (Date.now() - lastRecordedAt >= WATCH_HISTORY_RECORD_INTERVAL_MS) {
+            recordProgress();
+          }
         }
       } catch (_) { /* player released */ }
     }, 250);
-    return () => clearInterval(interval);
-  }, [videoPlayer]);
+    return () => {
+      clearInterval(interval);
+      recordProgress();
+    };
+  }, [videoPlayer, user?.id, post.id]);
 
   const handleProgressBarSeek = useCallback((locationX: number) => {
     if (!videoPlayer) return;
@@ -601,6 +698,11 @@ export default function PostDetailScreen() {
                   <TouchableOpacity style={[styles.muteButtonCorner, { top: insets.top + 12 }]} onPress={handleMuteToggle} activeOpacity={0.8}>
                     <Feather name={isMuted ? 'volume-x' : 'volume-2'} size={22} color="rgba(255,255,255,0.9)" />
                   </TouchableOpacity>
+                  {isHlsPlayback && (
+                    <TouchableOpacity style={[styles.muteButtonCorner, { top: insets.top + 60 }]} onPress={() => setQualitySheetVisible(true)} activeOpacity={0.8}>
+                      <Feather name="sliders" size={20} color="rgba(255,255,255,0.9)" />
+                    </TouchableOpacity>
+                  )}
                 </Pressable>
 
                 {/* Instagram-style progress bar — tap/drag to seek */}
@@ -785,6 +887,25 @@ export default function PostDetailScreen() {
               <Text style={styles.menuItemText}>Download</Text>
             </TouchableOpacity>
 
+            {isOfflineDownloadable(post) && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  setMenuVisible(false);
+                  handleOfflineToggle();
+                }}
+              >
+                <Feather name={offlineDownload?.status === 'ready' ? 'trash-2' : 'download-cloud'} size={20} color="#fff" />
+                <Text style={styles.menuItemText}>
+                  {offlineDownload?.status === 'ready'
+                    ? 'Remove offline copy'
+                    : offlineDownload?.status === 'downloading' || offlineDownload?.status === 'queued'
+                      ? 'Cancel offline download'
+                      : 'Save for offline'}
+                </Text>
+              </TouchableOpacity>
+            )}
+
             <TouchableOpacity
               style={styles.menuItem}
               onPress={() => {
@@ -799,6 +920,15 @@ export default function PostDetailScreen() {
         </TouchableOpacity>
       </Modal >
 
+      {/* Video Quality */}
+      {qualitySheetVisible && (
+        <VideoQualitySheet
+          visible
+          playbackUrl={masterPlaybackUrl}
+          onClose={() => setQualitySheetVisible(false)}
+        />
+      )}
+
       {/* Report Modal */}
       < ReportModal
         isVisible={reportModalVisible}
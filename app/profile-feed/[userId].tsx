@@ -47,11 +47,13 @@ import { normalizePost } from '@/lib/utils/normalize-post';
 import { getPostDetailCached, getPostDetailsCached, primePostDetailsCache } from '@/lib/post-details-cache';
 import { getPostVideoAssetsBatchCached } from '@/lib/post-video-assets-cache';
 import { getProfileFeedLaunchCache } from '@/lib/profile-feed-launch-cache';
+import { fetchTrendingPosts, getCachedTrendingPosts, getTrendingLaunchPosts, isTrendingPeriod } from '@/lib/trending-posts-cache';
 import { safeRouterBack } from '@/lib/utils/navigation';
 import { pauseAllVideos } from '@/lib/hooks/use-video-pause-on-blur';
 import { useResumeRefresh } from '@/lib/hooks/use-resume-refresh';
 import { useVerticalSnapPager } from '@/lib/hooks/use-vertical-snap-pager';
 import { warmFeedWindow } from '@/lib/feed-window-warmup';
+import { useDeviceProfile } from '@/lib/hooks/use-device-profile';
 import { prefetchFollowingFeed, removeUserFromFollowingFeedCache, seedFollowingFeedCache } from '@/lib/following-feed-cache';
 import {
   needsChallengeMetaEnrichment,
@@ -59,10 +61,7 @@ import {
 } from '@/lib/utils/post-detail-enrichment';
 import {
   shouldPreloadFeedVideo,
-  VIDEO_FEED_INITIAL_NUM_TO_RENDER,
-  VIDEO_FEED_MAX_TO_RENDER_PER_BATCH,
   VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS,
-  VIDEO_FEED_WINDOW_SIZE,
 } from '@/lib/utils/video-feed';
 import { safeScrollToIndex } from '@/lib/utils/fabric-diagnostics';
 import { feedTelemetry } from '@/lib/feed-telemetry';
@@ -80,6 +79,7 @@ export default function ProfileFeedScreen() {
     subCategoryId?: string;
     countryId?: string;
     postsData?: string;
+    period?: string;
   }>();
   const resolvedUserId = typeof params.userId === 'string' ? params.userId : '';
   const challengeId = typeof params.challengeId === 'string' ? params.challengeId : undefined;
@@ -96,6 +96,7 @@ export default function ProfileFeedScreen() {
         exploreSubCategoryId={params.subCategoryId}
         exploreCountryId={params.countryId}
         explorePostsData={params.postsData}
+        trendingPeriod={params.period}
       />
     </RealtimeProvider>
   );
@@ -111,6 +112,7 @@ interface ProfileFeedContentProps {
   exploreSubCategoryId?: string;
   exploreCountryId?: string;
   explorePostsData?: string;
+  trendingPeriod?: string;
 }
 
 function applyExploreFilters(
@@ -152,12 +154,18 @@ function ProfileFeedContent({
   exploreSubCategoryId,
   exploreCountryId,
   explorePostsData,
+  trendingPeriod,
 }: ProfileFeedContentProps) {
   // Parse initial post data if available for instant loading
   const initialPost = initialPostData ? (() => {
     try { return normalizePost(JSON.parse(initialPostData)); } catch (e) { return null; }
   })() : null;
-  const cachedLaunchPosts = userId === 'explore' ? [] : getProfileFeedLaunchCache(userId, status);
+  const resolvedTrendingPeriod = isTrendingPeriod(trendingPeriod) ? trendingPeriod : '24h';
+  const cachedLaunchPosts = userId === 'explore'
+    ? []
+    : userId === 'trending'
+      ? getTrendingLaunchPosts(resolvedTrendingPeriod)
+      : getProfileFeedLaunchCache(userId, status);
   const initialPosts = useMemo(() => {
     const normalizedCachedPosts = cachedLaunchPosts.map((post) => normalizePost(post));
     if (initialPost && !normalizedCachedPosts.find((post) => post.id === initialPost.id)) {
@@ -192,13 +200,15 @@ function ProfileFeedContent({
   const dispatch = useAppDispatch();
   const likedPosts = useAppSelector(state => state.likes.likedPosts);
   const { isCreateFocused } = useCreateFocus();
+  const { videoFeedList } = useDeviceProfile();
   const insets = useSafeAreaInsets();
   const safeAreaFrame = useSafeAreaFrame();
   const likesManager = useLikesManager();
   const [userFollowStatus, setUserFollowStatus] = useState<Record<string, boolean>>({});
 
   const isExplore = userId === 'explore';
-  const isOwnProfile = !isExplore && !!user && user.id === userId;
+  const isTrending = userId === 'trending';
+  const isOwnProfile = !isExplore && !isTrending && !!user && user.id === userId;
 
   useEffect(() => {
     if (initialPosts.length > 0) {
@@ -258,7 +268,8 @@ function ProfileFeedContent({
 
       const postStatus = status || 'active';
       const isExplore = userId === 'explore';
-      const isOwnProfile = !isExplore && user && user.id === userId;
+      const isTrending = userId === 'trending';
+      const isOwnProfile = !isExplore && !isTrending && user && user.id === userId;
 
       let response;
       let postsArray: Post[] = [];
@@ -321,6 +332,18 @@ function ProfileFeedContent({
         // Explore feed does not depend on response.status
         response = { status: 'success' } as any;
         setHasMore(false);
+      } else if (isTrending) {
+        // Same ranked list the Trending grid showed; refetch only if the cache is gone
+        let trendingPosts = (await getCachedTrendingPosts(resolvedTrendingPeriod))?.data ?? [];
+        if (trendingPosts.length === 0 || refresh) {
+          const trendingRes = await fetchTrendingPosts(resolvedTrendingPeriod);
+          if (trendingRes.status === 'success') {
+            trendingPosts = trendingRes.data;
+          }
+        }
+        postsArray = [...trendingPosts];
+        response = { status: 'success' } as any;
+        setHasMore(false);
       } else if (isOwnProfile) {
         // Use getOwnPosts for current user's posts (has full data including media URLs)
         response = await userApi.getOwnPosts();
@@ -509,7 +532,8 @@ function ProfileFeedContent({
 
         // ─── SINGLE setPosts: posts are now fully enriched with HLS URLs ───
         if (page === 1 || refresh) {
-          const sortedPosts = [...postsArray].sort((a, b) => {
+          // Trending keeps its server rank order; everything else is newest-first
+          const sortedPosts = isTrending ? [...postsArray] : [...postsArray].sort((a, b) => {
             const dateA = new Date(a.createdAt || a.uploadDate || 0).getTime();
             const dateB = new Date(b.createdAt || b.uploadDate || 0).getTime();
             return dateB - dateA;
@@ -616,7 +640,7 @@ function ProfileFeedContent({
       setRefreshing(false);
       setLoadingMore(false);
     }
-  }, [userId, status, user, dispatch, syncLikedPostsFromServer, updateFollowedUsers, initialPostId, initialScrollDone, exploreMainCategoryId, exploreSubCategoryId, exploreCountryId, explorePostsData]);
+  }, [userId, status, user, dispatch, syncLikedPostsFromServer, updateFollowedUsers, initialPostId, initialScrollDone, exploreMainCategoryId, exploreSubCategoryId, exploreCountryId, explorePostsData, resolvedTrendingPeriod]);
 
   const loadMorePosts = useCallback(() => {
     if (!loadingMore && hasMore && !loading) {
@@ -674,6 +698,7 @@ function ProfileFeedContent({
     getItemLayout,
     handleScroll: handlePagerScroll,
     handleMomentumScrollEnd: handlePagerMomentumScrollEnd,
+    scrollToIndex: scrollPagerToIndex,
   } = useVerticalSnapPager<Post>({
     itemCount: posts.length,
     pageHeight: availableHeight,
@@ -694,6 +719,7 @@ function ProfileFeedContent({
     },
     onTransitionEnd: () => {},
   });
+  const advanceFromIndex = useCallback((index: number) => scrollPagerToIndex(index + 1), [scrollPagerToIndex]);
 
   useResumeRefresh({
     enabled: isScreenFocused,
@@ -892,7 +918,7 @@ function ProfileFeedContent({
       <View style={[styles.header, { paddingTop: insets.top }]}>
         <TouchableOpacity
           style={styles.backButton}
-          onPress={() => safeRouterBack(router, '/(tabs)/explore' as any)}
+          onPress={() => safeRouterBack(router, (isTrending ? '/trending' : '/(tabs)/explore') as any)}
           accessibilityLabel="Go back"
           accessibilityRole="button"
         >
@@ -900,7 +926,7 @@ function ProfileFeedContent({
         </TouchableOpacity>
 
         <Text style={styles.headerTitle}>
-          {userId === 'explore' ? 'Explore' : username ? `@${username}'s Posts` : 'Posts'}
+          {userId === 'explore' ? 'Explore' : userId === 'trending' ? 'Trending' : username ? `@${username}'s Posts` : 'Posts'}
         </Text>
 
         <View style={styles.headerSpacer} />
@@ -933,6 +959,7 @@ function ProfileFeedContent({
                 showReportButton={!isOwnProfile}
                 bottomFooterHeight={fullscreenFooterHeight}
                 showBottomFooter
+                onPlaybackEnded={advanceFromIndex}
               />
             );
           }}
@@ -946,9 +973,9 @@ function ProfileFeedContent({
           decelerationRate="fast"
           scrollEventThrottle={16}
           contentContainerStyle={{ paddingBottom: 0 }}
-          windowSize={VIDEO_FEED_WINDOW_SIZE}
-          initialNumToRender={VIDEO_FEED_INITIAL_NUM_TO_RENDER}
-          maxToRenderPerBatch={VIDEO_FEED_MAX_TO_RENDER_PER_BATCH}
+          windowSize={videoFeedList.windowSize}
+          initialNumToRender={videoFeedList.initialNumToRender}
+          maxToRenderPerBatch={videoFeedList.maxToRenderPerBatch}
           removeClippedSubviews={VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS}
           getItemLayout={getItemLayout}
           extraData={posts.length}
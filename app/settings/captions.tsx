@@ -0,0 +1,148 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { router } from 'expo-router';
+import { safeRouterBack } from '@/lib/utils/navigation';
+import { Feather } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useCache } from '@/lib/cache-context';
+import { CaptionText } from '@/components/CaptionOverlay';
+import {
+  CAPTION_BACKGROUND_OPTIONS,
+  CAPTION_SIZE_OPTIONS,
+  type CaptionSettings,
+} from '@/lib/caption-settings';
+
+const THEME = {
+  bg: '#000000',
+  card: '#111114',
+  cardBorder: '#1e1e24',
+  accent: '#60a5fa',
+  accentDim: 'rgba(96, 165, 250, 0.12)',
+  text: '#f3f4f6',
+  textSecondary: '#71717a',
+  divider: '#1c1c22',
+};
+
+export default function CaptionsScreen() {
+  const insets = useSafeAreaInsets();
+  const { preferences, updatePreferences } = useCache();
+  const captions = preferences.captions;
+
+  const update = (changes: Partial<CaptionSettings>) => {
+    void updatePreferences({ captions: { ...captions, ...changes } });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+        <TouchableOpacity onPress={() => safeRouterBack(router, '/settings/index' as any)} style={styles.backButton} hitSlop={12}>
+          <Feather name="arrow-left" size={24} color={THEME.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Captions</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.sectionCard}>
+          <View style={styles.row}>
+            <View style={styles.iconBadge}>
+              <Feather name="type" size={20} color={THEME.accent} />
+            </View>
+            <View style={styles.rowTextWrap}>
+              <Text style={styles.rowLabel}>Show captions</Text>
+              <Text style={styles.rowSubtitle}>On videos that have a caption track. You can also use the CC button while watching.</Text>
+            </View>
+            <Switch
+              value={captions.enabled}
+              onValueChange={(value) => update({ enabled: value })}
+              trackColor={{ false: '#333', true: THEME.accent }}
+              thumbColor="#fff"
+            />
+          </View>
+        </View>
+
+        <View style={styles.preview}>
+          <CaptionText text="Captions will look like this" settings={captions} />
+        </View>
+
+        <Text style={styles.sectionTitle}>TEXT SIZE</Text>
+        <View style={[styles.sectionCard, styles.chipRow]}>
+          {CAPTION_SIZE_OPTIONS.map((option) => {
+            const selected = captions.size === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => update({ size: option.value })}
+                activeOpacity={0.65}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={[styles.sectionTitle, styles.spaced]}>BACKGROUND</Text>
+        <View style={[styles.sectionCard, styles.chipRow]}>
+          {CAPTION_BACKGROUND_OPTIONS.map((option) => {
+            const selected = captions.background === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => update({ background: option.value })}
+                activeOpacity={0.65}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: THEME.bg },
+  header: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 16, paddingBottom: 12, backgroundColor: THEME.bg,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', borderRadius: 20 },
+  headerTitle: { color: THEME.text, fontSize: 18, fontWeight: '700', letterSpacing: 0.3 },
+  content: { padding: 16, paddingBottom: 40 },
+  // Sections
+  sectionTitle: { color: THEME.textSecondary, fontSize: 12, fontWeight: '700', letterSpacing: 0.8, marginBottom: 8, marginLeft: 4 },
+  sectionCard: {
+    backgroundColor: THEME.card, borderRadius: 12,
+    borderWidth: 1, borderColor: THEME.cardBorder, overflow: 'hidden',
+  },
+  spaced: { marginTop: 20 },
+  row: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 14, paddingVertical: 14, gap: 12 },
+  iconBadge: {
+    width: 40, height: 40, borderRadius: 12,
+    backgroundColor: THEME.accentDim, alignItems: 'center', justifyContent: 'center',
+  },
+  rowTextWrap: { flex: 1 },
+  rowLabel: { color: THEME.text, fontSize: 15, fontWeight: '600' },
+  rowSubtitle: { color: THEME.textSecondary, fontSize: 12, marginTop: 2, lineHeight: 16 },
+  // Preview
+  preview: {
+    height: 96, borderRadius: 12, marginVertical: 20, paddingHorizontal: 16,
+    backgroundColor: '#3f3f46', alignItems: 'center', justifyContent: 'flex-end', paddingBottom: 14,
+  },
+  // Chips
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', padding: 10, gap: 8 },
+  chip: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 16, backgroundColor: THEME.divider },
+  chipSelected: { backgroundColor: THEME.accentDim },
+  chipText: { color: THEME.textSecondary, fontSize: 13, fontWeight: '600' },
+  chipTextSelected: { color: THEME.accent },
+});
@@ -0,0 +1,150 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { router } from 'expo-router';
+import { safeRouterBack } from '@/lib/utils/navigation';
+import { Feather } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useCache } from '@/lib/cache-context';
+import { useDataPolicy } from '@/lib/hooks/use-data-policy';
+import type { DataUsagePreference } from '@/lib/data-saver';
+
+const THEME = {
+  bg: '#000000',
+  card: '#111114',
+  cardBorder: '#1e1e24',
+  accent: '#60a5fa',
+  accentDim: 'rgba(96, 165, 250, 0.12)',
+  text: '#f3f4f6',
+  textSecondary: '#71717a',
+  divider: '#1c1c22',
+};
+
+const OPTIONS: { value: DataUsagePreference; label: string; subtitle: string; icon: string }[] = [
+  {
+    value: 'auto',
+    label: 'Automatic',
+    subtitle: 'Save data on mobile networks, standard quality on Wi-Fi',
+    icon: 'refresh-cw',
+  },
+  {
+    value: 'low',
+    label: 'Data Saver',
+    subtitle: 'Up to 480p video, no preloading on mobile data, smaller images and uploads',
+    icon: 'battery',
+  },
+  {
+    value: 'medium',
+    label: 'Standard',
+    subtitle: 'Up to 720p video with preloading for smooth scrolling',
+    icon: 'sliders',
+  },
+  {
+    value: 'high',
+    label: 'Best Quality',
+    subtitle: 'Highest available video quality and full-resolution images',
+    icon: 'zap',
+  },
+];
+
+const LEVEL_LABELS = {
+  low: 'Data Saver',
+  medium: 'Standard',
+  high: 'Best Quality',
+} as const;
+
+export default function DataUsageScreen() {
+  const insets = useSafeAreaInsets();
+  const { preferences, updatePreferences } = useCache();
+  const policy = useDataPolicy();
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+        <TouchableOpacity onPress={() => safeRouterBack(router, '/settings/index' as any)} style={styles.backButton} hitSlop={12}>
+          <Feather name="arrow-left" size={24} color={THEME.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Data Usage</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.infoCard}>
+          <Feather name="info" size={16} color={THEME.accent} />
+          <Text style={styles.infoText}>
+            Controls video quality, how much of the feed is loaded ahead of time, image sizes and
+            how much your uploads are compressed.
+          </Text>
+        </View>
+
+        <View style={styles.sectionCard}>
+          {OPTIONS.map((option, index) => {
+            const selected = preferences.dataUsage === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.row, index < OPTIONS.length - 1 && styles.rowBorder]}
+                onPress={() => void updatePreferences({ dataUsage: option.value })}
+                activeOpacity={0.65}
+              >
+                <View style={styles.iconBadge}>
+                  <Feather name={option.icon as any} size={20} color={THEME.accent} />
+                </View>
+                <View style={styles.rowTextWrap}>
+                  <Text style={styles.rowLabel}>{option.label}</Text>
+                  <Text style={styles.rowSubtitle}>{option.subtitle}</Text>
+                </View>
+                <Feather
+                  name={selected ? 'check-circle' : 'circle'}
+                  size={20}
+                  color={selected ? THEME.accent : THEME.textSecondary}
+                />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {preferences.dataUsage === 'auto' && (
+          <Text style={styles.footnote}>Currently using: {LEVEL_LABELS[policy.level]}</Text>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: THEME.bg },
+  header: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 16, paddingBottom: 12, backgroundColor: THEME.bg,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', borderRadius: 20 },
+  headerTitle: { color: THEME.text, fontSize: 18, fontWeight: '700', letterSpacing: 0.3 },
+  content: { padding: 16, paddingBottom: 40 },
+  // Info
+  infoCard: {
+    flexDirection: 'row', backgroundColor: THEME.accentDim, borderRadius: 12,
+    padding: 14, gap: 10, alignItems: 'flex-start', marginBottom: 20,
+  },
+  infoText: { color: THEME.accent, fontSize: 13, lineHeight: 18, flex: 1 },
+  // Options
+  sectionCard: {
+    backgroundColor: THEME.card, borderRadius: 12,
+    borderWidth: 1, borderColor: THEME.cardBorder, overflow: 'hidden',
+  },
+  row: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 14, paddingVertical: 14, gap: 12 },
+  rowBorder: { borderBottomWidth: 1, borderBottomColor: THEME.divider },
+  iconBadge: {
+    width: 40, height: 40, borderRadius: 12,
+    backgroundColor: THEME.accentDim, alignItems: 'center', justifyContent: 'center',
+  },
+  rowTextWrap: { flex: 1 },
+  rowLabel: { color: THEME.text, fontSize: 15, fontWeight: '600' },
+  rowSubtitle: { color: THEME.textSecondary, fontSize: 12, marginTop: 2, lineHeight: 16 },
+  footnote: { color: THEME.textSecondary, fontSize: 12, marginTop: 12, marginLeft: 4 },
+});
@@ -81,6 +81,7 @@ export default function DeleteAccountScreen() {
         // Clear everything and go to onboarding
         await AsyncStorage.multiRemove([
           'talynk_token',
+          'talynk_refresh_token',
           'talynk_user',
           'talynk_has_seen_onboarding',
         ]);
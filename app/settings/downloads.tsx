@@ -0,0 +1,238 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { safeRouterBack } from '@/lib/utils/navigation';
+import { Feather } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useOfflineDownloads } from '@/lib/hooks/use-offline-downloads';
+import {
+  offlineDownloads,
+  OFFLINE_AUTO_DOWNLOAD_OPTIONS,
+  OFFLINE_BUDGET_OPTIONS,
+  type OfflineDownload,
+} from '@/lib/offline-downloads';
+import { PostThumbnailImage } from '@/components/PostThumbnailImage';
+import { getThumbnailUrl } from '@/lib/utils/file-url';
+
+const THEME = {
+  bg: '#000000',
+  card: '#111114',
+  cardBorder: '#1e1e24',
+  accent: '#60a5fa',
+  accentDim: 'rgba(96, 165, 250, 0.12)',
+  text: '#f3f4f6',
+  textSecondary: '#71717a',
+  divider: '#1c1c22',
+  danger: '#ef4444',
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
+const getStatusLabel = (download: OfflineDownload): string => {
+  switch (download.status) {
+    case 'queued':
+      return download.source === 'auto' ? 'Waiting for Wi-Fi' : 'Queued';
+    case 'downloading':
+      return `Downloading ${Math.round(download.progress * 100)}%`;
+    case 'failed':
+      return download.error || 'Download failed';
+    default:
+      return `${formatBytes(download.bytes)}${download.source === 'auto' ? ' · Auto' : ''}`;
+  }
+};
+
+export default function OfflineDownloadsScreen() {
+  const insets = useSafeAreaInsets();
+  const { downloads, settings } = useOfflineDownloads();
+  const usedBytes = downloads.reduce((sum, entry) => sum + (entry.status === 'ready' ? entry.bytes : 0), 0);
+  const usedFraction = Math.min(1, usedBytes / settings.budgetBytes);
+
+  const handleRemoveAll = () => {
+    if (downloads.length === 0) return;
+    Alert.alert('Remove all downloads?', 'Saved videos will need a connection to play again.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => void offlineDownloads.removeAll() },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+        <TouchableOpacity onPress={() => safeRouterBack(router, '/settings/index' as any)} style={styles.backButton} hitSlop={12}>
+          <Feather name="arrow-left" size={24} color={THEME.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Downloads</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.usageCard}>
+          <View style={styles.usageRow}>
+            <Text style={styles.usageLabel}>{formatBytes(usedBytes)} used</Text>
+            <Text style={styles.usageLimit}>of {formatBytes(settings.budgetBytes)}</Text>
+          </View>
+          <View style={styles.usageTrack}>
+            <View style={[styles.usageFill, { width: `${Math.round(usedFraction * 100)}%` }]} />
+          </View>
+          <Text style={styles.footnote}>
+            When the limit is reached, the downloads you played least recently are removed first.
+          </Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>STORAGE LIMIT</Text>
+        <View style={[styles.sectionCard, styles.chipRow]}>
+          {OFFLINE_BUDGET_OPTIONS.map((option) => {
+            const selected = settings.budgetBytes === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => void offlineDownloads.updateSettings({ budgetBytes: option.value })}
+                activeOpacity={0.65}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={styles.sectionTitle}>AUTO-DOWNLOAD ON WI-FI</Text>
+        <View style={[styles.sectionCard, styles.chipRow]}>
+          {OFFLINE_AUTO_DOWNLOAD_OPTIONS.map((count) => {
+            const selected = settings.autoDownloadCount === count;
+            return (
+              <TouchableOpacity
+                key={count}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => void offlineDownloads.updateSettings({ autoDownloadCount: count })}
+                activeOpacity={0.65}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {count === 0 ? 'Off' : `Next ${count}`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.footnote}>
+          Saves the upcoming For You videos while you are on Wi-Fi. Unwatched ones are removed after a day.
+        </Text>
+
+        <View style={styles.listHeader}>
+          <Text style={styles.sectionTitle}>SAVED VIDEOS</Text>
+          {downloads.length > 0 && (
+            <TouchableOpacity onPress={handleRemoveAll} hitSlop={8}>
+              <Text style={styles.removeAllText}>Remove all</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={styles.sectionCard}>
+          {downloads.length === 0 ? (
+            <View style={styles.emptyRow}>
+              <Feather name="download-cloud" size={28} color={THEME.textSecondary} />
+              <Text style={styles.rowSubtitle}>Save a video from its menu to watch it offline</Text>
+            </View>
+          ) : (
+            downloads.map((download, index) => (
+              <TouchableOpacity
+                key={download.postId}
+                style={[styles.row, index < downloads.length - 1 && styles.rowBorder]}
+                onPress={() => router.push({ pathname: '/post/[id]', params: { id: download.postId } })}
+                activeOpacity={0.65}
+              >
+                <PostThumbnailImage
+                  postId={download.postId}
+                  thumbnailUrl={getThumbnailUrl(download.post)}
+                  isVideo
+                  style={styles.thumbnail}
+                />
+                <View style={styles.rowTextWrap}>
+                  <Text style={styles.rowLabel} numberOfLines={1}>
+                    {download.post.title || download.post.caption || download.post.description || 'Untitled video'}
+                  </Text>
+                  <Text
+                    style={[styles.rowSubtitle, download.status === 'failed' && { color: THEME.danger }]}
+                    numberOfLines={1}
+                  >
+                    {getStatusLabel(download)}
+                  </Text>
+                </View>
+                {download.status === 'failed' && (
+                  <TouchableOpacity
+                    onPress={() => void offlineDownloads.enqueue(download.post, download.source)}
+                    hitSlop={8}
+                    style={styles.rowAction}
+                  >
+                    <Feather name="rotate-cw" size={18} color={THEME.accent} />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  onPress={() => void offlineDownloads.remove(download.postId)}
+                  hitSlop={8}
+                  style={styles.rowAction}
+                >
+                  <Feather name="trash-2" size={18} color={THEME.textSecondary} />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: THEME.bg },
+  header: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 16, paddingBottom: 12, backgroundColor: THEME.bg,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', borderRadius: 20 },
+  headerTitle: { color: THEME.text, fontSize: 18, fontWeight: '700', letterSpacing: 0.3 },
+  content: { padding: 16, paddingBottom: 40 },
+  // Usage
+  usageCard: {
+    backgroundColor: THEME.card, borderRadius: 12, borderWidth: 1, borderColor: THEME.cardBorder,
+    padding: 14, marginBottom: 20,
+  },
+  usageRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 10 },
+  usageLabel: { color: THEME.text, fontSize: 15, fontWeight: '600' },
+  usageLimit: { color: THEME.textSecondary, fontSize: 13 },
+  usageTrack: { height: 6, borderRadius: 3, backgroundColor: THEME.divider, overflow: 'hidden' },
+  usageFill: { height: '100%', backgroundColor: THEME.accent },
+  // Sections
+  sectionTitle: { color: THEME.textSecondary, fontSize: 12, fontWeight: '700', letterSpacing: 0.8, marginBottom: 8, marginLeft: 4 },
+  sectionCard: {
+    backgroundColor: THEME.card, borderRadius: 12,
+    borderWidth: 1, borderColor: THEME.cardBorder, overflow: 'hidden', marginBottom: 8,
+  },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', padding: 10, gap: 8 },
+  chip: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 16, backgroundColor: THEME.divider },
+  chipSelected: { backgroundColor: THEME.accentDim },
+  chipText: { color: THEME.textSecondary, fontSize: 13, fontWeight: '600' },
+  chipTextSelected: { color: THEME.accent },
+  listHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 12 },
+  removeAllText: { color: THEME.danger, fontSize: 13, fontWeight: '600', marginBottom: 8 },
+  // Rows
+  row: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 14, paddingVertical: 12, gap: 12 },
+  rowBorder: { borderBottomWidth: 1, borderBottomColor: THEME.divider },
+  thumbnail: { width: 44, height: 60, borderRadius: 6 },
+  rowTextWrap: { flex: 1 },
+  rowLabel: { color: THEME.text, fontSize: 15, fontWeight: '600' },
+  rowSubtitle: { color: THEME.textSecondary, fontSize: 12, marginTop: 2, lineHeight: 16 },
+  rowAction: { padding: 4 },
+  emptyRow: { alignItems: 'center', paddingVertical: 28, gap: 10 },
+  footnote: { color: THEME.textSecondary, fontSize: 12, marginTop: 8, marginBottom: 16, marginLeft: 4, lineHeight: 16 },
+});
@@ -146,6 +146,52 @@ export default function SettingsScreen() {
         },
       ],
     },
+    {
+      title: 'PLAYBACK',
+      icon: 'play',
+      items: [
+        {
+          key: 'data_usage',
+          label: 'Data Usage',
+          subtitle: 'Video quality and data saver',
+          icon: 'activity',
+          iconFamily: 'feather',
+          onPress: () => router.push('/settings/data-usage' as any),
+        },
+        {
+          key: 'watch_history',
+          label: 'Watch History',
+          subtitle: 'Find, clear or pause your history',
+          icon: 'clock',
+          iconFamily: 'feather',
+          onPress: () => router.push('/watch-history' as any),
+        },
+        {
+          key: 'downloads',
+          label: 'Downloads',
+          subtitle: 'Offline videos and storage limit',
+          icon: 'download',
+          iconFamily: 'feather',
+          onPress: () => router.push('/settings/downloads' as any),
+        },
+        {
+          key: 'storage',
+          label: 'Storage',
+          subtitle: 'Image cache usage and clear cache',
+          icon: 'hard-drive',
+          iconFamily: 'feather',
+          onPress: () => router.push('/settings/storage' as any),
+        },
+        {
+          key: 'captions',
+          label: 'Captions',
+          subtitle: 'Show captions and choose how they look',
+          icon: 'type',
+          iconFamily: 'feather',
+          onPress: () => router.push('/settings/captions' as any),
+        },
+      ],
+    },
     {
       title: 'SUPPORT',
       icon: 'help-circle',
@@ -14,25 +14,9 @@ import { safeRouterBack } from '@/lib/utils/navigation';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useFocusEffect } from 'expo-router';
 import { reportsApi } from '@/lib/api';
+import type { Appeal } from '@/lib/api-contracts';
 import { useAuth } from '@/lib/auth-context';
 
-interface Appeal {
-  id: string;
-  postId: string;
-  reason: string;
-  additionalInfo?: string;
-  status: 'pending' | 'approved' | 'rejected';
-  adminResponse?: string;
-  createdAt: string;
-  updatedAt?: string;
-  post?: {
-    id: string;
-    title?: string;
-    description?: string;
-    thumbnail_url?: string;
-  };
-}
-
 const STATUS_CONFIG = {
   pending: { label: 'Pending', color: '#f59e0b', bg: 'rgba(245, 158, 11, 0.12)', icon: 'schedule' as const },
   approved: { label: 'Approved', color: '#10b981', bg: 'rgba(16, 185, 129, 0.12)', icon: 'check-circle' as const },
@@ -51,22 +35,8 @@ export default function MyAppealsScreen() {
     try {
       setLoading(true);
       const response = await reportsApi.getMyAppeals();
-      if (response.status === 'success' && response.data) {
-        const raw = (response.data as any).appeals || response.data;
-        const list = Array.isArray(raw) ? raw : [];
-        setAppeals(
-          list.map((a: any) => ({
-            id: a.id || a.appeal_id || String(Date.now()),
-            postId: a.postId || a.post_id || '',
-            reason: a.reason || a.appealReason || a.appeal_reason || '',
-            additionalInfo: a.additionalInfo || a.additional_info,
-            status: (a.status || 'pending').toLowerCase() as Appeal['status'],
-            adminResponse: a.adminResponse || a.admin_response,
-            createdAt: a.createdAt || a.created_at || new Date().toISOString(),
-            updatedAt: a.updatedAt || a.updated_at,
-            post: a.post,
-          }))
-        );
+      if (response.status === 'success') {
+        setAppeals(response.data.appeals);
       } else {
         setAppeals([]);
       }
@@ -89,7 +59,8 @@ export default function MyAppealsScreen() {
     loadAppeals();
   };
 
-  const formatDate = (dateStr: string) => {
+  const formatDate = (dateStr?: string) => {
+    if (!dateStr) return 'Recently';
     try {
       const d = new Date(dateStr);
       const now = new Date();
@@ -14,6 +14,7 @@ import { safeRouterBack } from '@/lib/utils/navigation';
 import { Feather, MaterialIcons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { settingsApi } from '@/lib/api';
+import type { Session } from '@/lib/api-contracts';
 import { useAuth } from '@/lib/auth-context';
 
 const THEME = {
@@ -31,16 +32,6 @@ const THEME = {
   divider: '#1c1c22',
 };
 
-interface Session {
-  id: string;
-  device_fingerprint_id?: string;
-  user_agent?: string;
-  ip_address?: string;
-  created_at?: string;
-  last_active_at?: string;
-  revoked_at?: string | null;
-}
-
 function getDeviceInfo(userAgent: string | undefined): { icon: string; name: string } {
   if (!userAgent) return { icon: 'smartphone', name: 'Unknown Device' };
   const ua = userAgent.toLowerCase();
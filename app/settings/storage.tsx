@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import { safeRouterBack } from '@/lib/utils/navigation';
+import { Feather } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { imageCache, IMAGE_CACHE_BUDGET_OPTIONS, type ImageCacheStats } from '@/lib/utils/image-cache';
+import { useOfflineDownloads } from '@/lib/hooks/use-offline-downloads';
+
+const THEME = {
+  bg: '#000000',
+  card: '#111114',
+  cardBorder: '#1e1e24',
+  accent: '#60a5fa',
+  accentDim: 'rgba(96, 165, 250, 0.12)',
+  text: '#f3f4f6',
+  textSecondary: '#71717a',
+  divider: '#1c1c22',
+  danger: '#ef4444',
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
+export default function StorageScreen() {
+  const insets = useSafeAreaInsets();
+  const [stats, setStats] = useState<ImageCacheStats>(() => imageCache.getStats());
+  const [clearing, setClearing] = useState(false);
+  const { downloads } = useOfflineDownloads();
+  const offlineBytes = downloads.reduce((sum, entry) => sum + (entry.status === 'ready' ? entry.bytes : 0), 0);
+  const usedFraction = Math.min(1, stats.bytes / stats.budgetBytes);
+
+  const refreshStats = useCallback(() => {
+    setStats(imageCache.getStats());
+  }, []);
+
+  useEffect(() => {
+    void imageCache.initialize().then(refreshStats);
+  }, [refreshStats]);
+
+  const handleBudget = async (budgetBytes: number) => {
+    await imageCache.setBudget(budgetBytes);
+    refreshStats();
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear cache?', 'Images will be downloaded again as you browse. Offline downloads are kept.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          setClearing(true);
+          try {
+            await Promise.all([
+              imageCache.clearAll(),
+              ExpoImage.clearDiskCache().catch(() => false),
+              ExpoImage.clearMemoryCache().catch(() => false),
+            ]);
+          } finally {
+            refreshStats();
+            setClearing(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+        <TouchableOpacity onPress={() => safeRouterBack(router, '/settings/index' as any)} style={styles.backButton} hitSlop={12}>
+          <Feather name="arrow-left" size={24} color={THEME.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Storage</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.usageCard}>
+          <View style={styles.usageRow}>
+            <Text style={styles.usageLabel}>Image cache</Text>
+            <Text style={styles.usageLimit}>
+              {formatBytes(stats.bytes)} of {formatBytes(stats.budgetBytes)}
+            </Text>
+          </View>
+          <View style={styles.usageTrack}>
+            <View style={[styles.usageFill, { width: `${Math.round(usedFraction * 100)}%` }]} />
+          </View>
+          <Text style={styles.footnote}>
+            {stats.count} {stats.count === 1 ? 'image' : 'images'}. The least recently viewed are removed when the
+            limit is reached.
+          </Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>IMAGE CACHE LIMIT</Text>
+        <View style={[styles.sectionCard, styles.chipRow]}>
+          {IMAGE_CACHE_BUDGET_OPTIONS.map((option) => {
+            const selected = stats.budgetBytes === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => void handleBudget(option.value)}
+                activeOpacity={0.65}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={[styles.sectionCard, styles.spaced]}>
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => router.push('/settings/downloads' as any)}
+            activeOpacity={0.65}
+          >
+            <View style={styles.iconBadge}>
+              <Feather name="download" size={20} color={THEME.accent} />
+            </View>
+            <View style={styles.rowTextWrap}>
+              <Text style={styles.rowLabel}>Offline downloads</Text>
+              <Text style={styles.rowSubtitle}>{formatBytes(offlineBytes)} · managed separately</Text>
+            </View>
+            <Feather name="chevron-right" size={20} color={THEME.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.clearButton, clearing && styles.clearButtonDisabled]}
+          onPress={handleClear}
+          disabled={clearing}
+          activeOpacity={0.7}
+        >
+          {clearing ? (
+            <ActivityIndicator color={THEME.danger} />
+          ) : (
+            <Text style={styles.clearButtonText}>Clear cache</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: THEME.bg },
+  header: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 16, paddingBottom: 12, backgroundColor: THEME.bg,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', borderRadius: 20 },
+  headerTitle: { color: THEME.text, fontSize: 18, fontWeight: '700', letterSpacing: 0.3 },
+  content: { padding: 16, paddingBottom: 40 },
+  // Usage
+  usageCard: {
+    backgroundColor: THEME.card, borderRadius: 12, borderWidth: 1, borderColor: THEME.cardBorder,
+    padding: 14, marginBottom: 20,
+  },
+  usageRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 10 },
+  usageLabel: { color: THEME.text, fontSize: 15, fontWeight: '600' },
+  usageLimit: { color: THEME.textSecondary, fontSize: 13 },
+  usageTrack: { height: 6, borderRadius: 3, backgroundColor: THEME.divider, overflow: 'hidden' },
+  usageFill: { height: '100%', backgroundColor: THEME.accent },
+  footnote: { color: THEME.textSecondary, fontSize: 12, marginTop: 8, lineHeight: 16 },
+  // Sections
+  sectionTitle: { color: THEME.textSecondary, fontSize: 12, fontWeight: '700', letterSpacing: 0.8, marginBottom: 8, marginLeft: 4 },
+  sectionCard: {
+    backgroundColor: THEME.card, borderRadius: 12,
+    borderWidth: 1, borderColor: THEME.cardBorder, overflow: 'hidden',
+  },
+  spaced: { marginTop: 20 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', padding: 10, gap: 8 },
+  chip: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 16, backgroundColor: THEME.divider },
+  chipSelected: { backgroundColor: THEME.accentDim },
+  chipText: { color: THEME.textSecondary, fontSize: 13, fontWeight: '600' },
+  chipTextSelected: { color: THEME.accent },
+  // Rows
+  row: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 14, paddingVertical: 14, gap: 12 },
+  iconBadge: {
+    width: 40, height: 40, borderRadius: 12,
+    backgroundColor: THEME.accentDim, alignItems: 'center', justifyContent: 'center',
+  },
+  rowTextWrap: { flex: 1 },
+  rowLabel: { color: THEME.text, fontSize: 15, fontWeight: '600' },
+  rowSubtitle: { color: THEME.textSecondary, fontSize: 12, marginTop: 2, lineHeight: 16 },
+  clearButton: {
+    marginTop: 24, height: 48, borderRadius: 12, borderWidth: 1, borderColor: 'rgba(239, 68, 68, 0.4)',
+    alignItems: 'center', justifyContent: 'center',
+  },
+  clearButtonDisabled: { opacity: 0.6 },
+  clearButtonText: { color: THEME.danger, fontSize: 15, fontWeight: '600' },
+});
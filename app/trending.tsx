@@ -0,0 +1,317 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+  Dimensions,
+  Platform,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Feather, MaterialIcons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Post } from '@/types';
+import { getThumbnailUrl, getPostMediaUrl } from '@/lib/utils/file-url';
+import { safeRouterBack } from '@/lib/utils/navigation';
+import { useRefetchOnReconnect } from '@/lib/hooks/use-network-status';
+import {
+  fetchTrendingPosts,
+  getCachedTrendingPosts,
+  isTrendingPeriod,
+  primeTrendingLaunch,
+  TRENDING_CACHE_STALE_MS,
+  TRENDING_PERIODS,
+  TrendingPeriod,
+} from '@/lib/trending-posts-cache';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+const formatCount = (num: number): string => {
+  if (num >= 1000000) return (num / 1000000).toFixed(1).replace(/\.0$/, '') + 'M';
+  if (num >= 1000) return (num / 1000).toFixed(1).replace(/\.0$/, '') + 'K';
+  return String(num);
+};
+
+const TrendingGridCard = React.memo(function TrendingGridCard({
+  item,
+  rank,
+  onPress,
+}: {
+  item: Post;
+  rank: number;
+  onPress: (postId: string) => void;
+}) {
+  const thumbnailUrl = getThumbnailUrl(item) || (item.type !== 'video' ? getPostMediaUrl(item) : null);
+  const viewCount = Number((item as any).view_count ?? (item as any).views ?? 0);
+  const isTopRank = rank <= 3;
+
+  return (
+    <TouchableOpacity style={styles.gridCard} activeOpacity={0.9} onPress={() => onPress(item.id)}>
+      {thumbnailUrl ? (
+        <Image source={{ uri: thumbnailUrl }} style={styles.gridMedia} resizeMode="cover" />
+      ) : (
+        <View style={[styles.gridMedia, styles.gridNoMedia]}>
+          <MaterialIcons name={item.type === 'video' ? 'video-library' : 'image'} size={28} color="#444" />
+        </View>
+      )}
+
+      <View style={[styles.rankBadge, isTopRank && styles.rankBadgeTop]}>
+        <Text style={[styles.rankText, isTopRank && styles.rankTextTop]}>#{rank}</Text>
+      </View>
+
+      <View style={styles.gridOverlay}>
+        <View style={styles.gridStats}>
+          <Feather name="eye" size={12} color="#fff" />
+          <Text style={styles.gridStatText}>{formatCount(Number.isFinite(viewCount) ? viewCount : 0)}</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+});
+
+export default function TrendingScreen() {
+  const params = useLocalSearchParams<{ period?: string }>();
+  const insets = useSafeAreaInsets();
+  const [period, setPeriod] = useState<TrendingPeriod>(
+    isTrendingPeriod(params.period) ? params.period : '24h',
+  );
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestVersionRef = useRef(0);
+
+  const loadTrending = useCallback(async (targetPeriod: TrendingPeriod, options: { force?: boolean } = {}) => {
+    const version = ++requestVersionRef.current;
+    setError(null);
+
+    const cached = await getCachedTrendingPosts(targetPeriod);
+    if (version !== requestVersionRef.current) return;
+    if (cached) {
+      setPosts(cached.data);
+      setLoading(false);
+      if (!options.force && Date.now() - cached.savedAt < TRENDING_CACHE_STALE_MS) {
+        return;
+      }
+    } else {
+      setPosts([]);
+      setLoading(true);
+    }
+
+    const response = await fetchTrendingPosts(targetPeriod);
+    if (version !== requestVersionRef.current) return;
+
+    if (response.status === 'success') {
+      setPosts(response.data);
+    } else if (!cached) {
+      setError(response.message);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void loadTrending(period);
+  }, [loadTrending, period]);
+
+  useRefetchOnReconnect(() => loadTrending(period, { force: true }));
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadTrending(period, { force: true });
+    setRefreshing(false);
+  }, [loadTrending, period]);
+
+  const handleOpenPost = useCallback((postId: string) => {
+    const startIndex = Math.max(0, posts.findIndex((post) => post.id === postId));
+    primeTrendingLaunch(period, startIndex);
+    router.push({
+      pathname: '/profile-feed/trending' as any,
+      params: { initialPostId: postId, period },
+    });
+  }, [period, posts]);
+
+  const renderItem = useCallback(
+    ({ item, index }: { item: Post; index: number }) => (
+      <TrendingGridCard item={item} rank={index + 1} onPress={handleOpenPost} />
+    ),
+    [handleOpenPost],
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => safeRouterBack(router, '/(tabs)/explore' as any)}
+          style={styles.backButton}
+          activeOpacity={0.7}
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Trending</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <View style={styles.periodRow}>
+        {TRENDING_PERIODS.map((option) => {
+          const selected = option.value === period;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.periodPill, selected && styles.periodPillActive]}
+              onPress={() => setPeriod(option.value)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.periodPillText, selected && styles.periodPillTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <FlatList
+        data={posts}
+        keyExtractor={(item) => item.id}
+        numColumns={3}
+        renderItem={renderItem}
+        removeClippedSubviews={Platform.OS === 'android'}
+        initialNumToRender={12}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#60a5fa" />}
+        ListEmptyComponent={
+          loading ? (
+            <View style={styles.emptyContainer}>
+              <ActivityIndicator size="large" color="#60a5fa" />
+            </View>
+          ) : (
+            <View style={styles.emptyContainer}>
+              <Feather name="trending-up" size={48} color="#333" />
+              <Text style={styles.emptyText}>{error || 'Nothing is trending in this period yet'}</Text>
+            </View>
+          )
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.06)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  periodPill: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#1a1a1a',
+  },
+  periodPillActive: {
+    backgroundColor: '#60a5fa',
+  },
+  periodPillText: {
+    color: '#666',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  periodPillTextActive: {
+    color: '#fff',
+  },
+  gridCard: {
+    width: Math.floor(screenWidth / 3) - 1,
+    height: Math.floor(screenWidth / 3) * 1.3,
+    margin: 0.5,
+    backgroundColor: '#1a1a1a',
+    position: 'relative',
+  },
+  gridMedia: {
+    width: '100%',
+    height: '100%',
+  },
+  gridNoMedia: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+  },
+  rankBadge: {
+    position: 'absolute',
+    top: 6,
+    left: 6,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  rankBadgeTop: {
+    backgroundColor: '#f59e0b',
+  },
+  rankText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  rankTextTop: {
+    color: '#000',
+  },
+  gridOverlay: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 4,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  gridStats: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  gridStatText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+    gap: 12,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,231 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { safeRouterBack } from '@/lib/utils/navigation';
+import { Feather } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useUploadQueue } from '@/lib/hooks/use-upload-queue';
+import { uploadQueue, MAX_CONCURRENT_UPLOADS, type UploadQueueItem } from '@/lib/upload-queue';
+import { formatChallengeDateTime } from '@/lib/utils/challenge';
+
+const THEME = {
+  bg: '#000000',
+  card: '#111114',
+  cardBorder: '#1e1e24',
+  accent: '#60a5fa',
+  accentDim: 'rgba(96, 165, 250, 0.12)',
+  text: '#f3f4f6',
+  textSecondary: '#71717a',
+  divider: '#1c1c22',
+  success: '#22c55e',
+  danger: '#ef4444',
+};
+
+const formatSpeed = (bytesPerSecond: number): string => {
+  if (bytesPerSecond >= 1024 * 1024) return `${(bytesPerSecond / (1024 * 1024)).toFixed(1)} MB/s`;
+  return `${Math.max(1, Math.round(bytesPerSecond / 1024))} KB/s`;
+};
+
+const formatEta = (seconds: number): string => {
+  const rounded = Math.max(1, Math.round(seconds));
+  if (rounded < 60) return `${rounded}s left`;
+  const minutes = Math.floor(rounded / 60);
+  return minutes < 60 ? `${minutes}m ${rounded % 60}s left` : `${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+};
+
+const getDestinationLabel = (item: UploadQueueItem): string => {
+  if (item.scheduledPublishAt) {
+    return `Scheduled · ${formatChallengeDateTime(item.scheduledPublishAt, { month: 'short', includeTimeZone: false })}`;
+  }
+  if (item.postStatus === 'draft') return 'Draft';
+  return item.challengeId ? item.challengeName || 'Competition entry' : 'Post';
+};
+
+const getStatusLabel = (item: UploadQueueItem): string => {
+  switch (item.status) {
+    case 'queued':
+      return 'Waiting to upload';
+    case 'preparing':
+      return `Preparing video ${Math.round(item.percent)}%`;
+    case 'uploading': {
+      const parts = [`Uploading ${Math.round(item.percent)}%`];
+      if (item.bytesPerSecond > 0) parts.push(formatSpeed(item.bytesPerSecond));
+      if (item.etaSeconds > 0) parts.push(formatEta(item.etaSeconds));
+      return parts.join(' · ');
+    }
+    case 'finalizing':
+      return 'Finishing upload...';
+    case 'resuming':
+      return item.percent > 0 ? `Resuming upload ${Math.round(item.percent)}%` : 'Resuming upload...';
+    case 'processing':
+      return item.processingLabel || 'Processing';
+    case 'ready':
+      return 'Ready to watch';
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return item.error || 'Upload failed';
+  }
+};
+
+const showsProgress = (item: UploadQueueItem) =>
+  item.status === 'preparing' || item.status === 'uploading' || (item.status === 'resuming' && item.percent > 0);
+
+export default function UploadsScreen() {
+  const insets = useSafeAreaInsets();
+  const items = useUploadQueue();
+  const hasFinished = items.some((item) => item.status === 'ready' || item.status === 'cancelled');
+
+  const handleCancel = (item: UploadQueueItem) => {
+    Alert.alert('Cancel upload?', 'This video will not be posted.', [
+      { text: 'Keep uploading', style: 'cancel' },
+      { text: 'Cancel upload', style: 'destructive', onPress: () => void uploadQueue.cancel(item.id) },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+        <TouchableOpacity onPress={() => safeRouterBack(router, '/(tabs)/create' as any)} style={styles.backButton} hitSlop={12}>
+          <Feather name="arrow-left" size={24} color={THEME.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Uploads</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.listHeader}>
+          <Text style={styles.sectionTitle}>YOUR UPLOADS</Text>
+          {hasFinished && (
+            <TouchableOpacity onPress={() => void uploadQueue.clearFinished()} hitSlop={8}>
+              <Text style={styles.clearText}>Clear finished</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={styles.sectionCard}>
+          {items.length === 0 ? (
+            <View style={styles.emptyRow}>
+              <Feather name="upload-cloud" size={28} color={THEME.textSecondary} />
+              <Text style={styles.rowSubtitle}>Videos you post appear here while they upload</Text>
+            </View>
+          ) : (
+            items.map((item, index) => {
+              const canCancel = item.status === 'queued' || item.status === 'preparing' || item.status === 'uploading';
+              const canRetry = item.status === 'failed' || item.status === 'cancelled';
+              const canRemove = !canCancel && item.status !== 'finalizing' && item.status !== 'resuming';
+              return (
+                <TouchableOpacity
+                  key={item.id}
+                  style={[styles.row, index < items.length - 1 && styles.rowBorder]}
+                  onPress={() => {
+                    if (item.postId && (item.status === 'ready' || item.status === 'processing')) {
+                      router.push({ pathname: '/post/[id]', params: { id: item.postId } });
+                    }
+                  }}
+                  activeOpacity={0.65}
+                >
+                  {item.thumbnailUri ? (
+                    <Image source={{ uri: item.thumbnailUri }} style={styles.thumbnail} />
+                  ) : (
+                    <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+                      <Feather name="film" size={18} color={THEME.textSecondary} />
+                    </View>
+                  )}
+                  <View style={styles.rowTextWrap}>
+                    <Text style={styles.rowLabel} numberOfLines={1}>
+                      {item.title || item.caption || 'Untitled video'}
+                    </Text>
+                    <Text style={styles.rowMeta} numberOfLines={1}>{getDestinationLabel(item)}</Text>
+                    <Text
+                      style={[
+                        styles.rowSubtitle,
+                        item.status === 'failed' && { color: THEME.danger },
+                        item.status === 'ready' && { color: THEME.success },
+                      ]}
+                      numberOfLines={2}
+                    >
+                      {getStatusLabel(item)}
+                    </Text>
+                    {item.captionError && (
+                      <Text style={[styles.rowSubtitle, { color: THEME.danger }]} numberOfLines={2}>
+                        Captions weren't added: {item.captionError}
+                      </Text>
+                    )}
+                    {showsProgress(item) && (
+                      <View style={styles.progressTrack}>
+                        <View style={[styles.progressFill, { width: `${Math.min(100, Math.max(0, Math.round(item.percent)))}%` }]} />
+                      </View>
+                    )}
+                  </View>
+                  {canRetry && (
+                    <TouchableOpacity onPress={() => void uploadQueue.retry(item.id)} hitSlop={8} style={styles.rowAction}>
+                      <Feather name="rotate-cw" size={18} color={THEME.accent} />
+                    </TouchableOpacity>
+                  )}
+                  {!canRetry && item.captionError && (
+                    <TouchableOpacity onPress={() => void uploadQueue.retryCaptions(item.id)} hitSlop={8} style={styles.rowAction}>
+                      <Feather name="rotate-cw" size={18} color={THEME.accent} />
+                    </TouchableOpacity>
+                  )}
+                  {canCancel && (
+                    <TouchableOpacity onPress={() => handleCancel(item)} hitSlop={8} style={styles.rowAction}>
+                      <Feather name="x" size={18} color={THEME.textSecondary} />
+                    </TouchableOpacity>
+                  )}
+                  {canRemove && (
+                    <TouchableOpacity onPress={() => void uploadQueue.remove(item.id)} hitSlop={8} style={styles.rowAction}>
+                      <Feather name="trash-2" size={18} color={THEME.textSecondary} />
+                    </TouchableOpacity>
+                  )}
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+        <Text style={styles.footnote}>
+          Up to {MAX_CONCURRENT_UPLOADS} videos upload at a time and the rest wait their turn. Uploads keep going while you
+          use the app, and pause while you are offline.
+        </Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: THEME.bg },
+  header: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 16, paddingBottom: 12, backgroundColor: THEME.bg,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', borderRadius: 20 },
+  headerTitle: { color: THEME.text, fontSize: 18, fontWeight: '700', letterSpacing: 0.3 },
+  content: { padding: 16, paddingBottom: 40 },
+  sectionTitle: { color: THEME.textSecondary, fontSize: 12, fontWeight: '700', letterSpacing: 0.8, marginBottom: 8, marginLeft: 4 },
+  sectionCard: {
+    backgroundColor: THEME.card, borderRadius: 12,
+    borderWidth: 1, borderColor: THEME.cardBorder, overflow: 'hidden', marginBottom: 8,
+  },
+  listHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  clearText: { color: THEME.accent, fontSize: 13, fontWeight: '600', marginBottom: 8 },
+  row: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 14, paddingVertical: 12, gap: 12 },
+  rowBorder: { borderBottomWidth: 1, borderBottomColor: THEME.divider },
+  thumbnail: { width: 44, height: 60, borderRadius: 6 },
+  thumbnailPlaceholder: { backgroundColor: THEME.divider, alignItems: 'center', justifyContent: 'center' },
+  rowTextWrap: { flex: 1 },
+  rowLabel: { color: THEME.text, fontSize: 15, fontWeight: '600' },
+  rowMeta: { color: THEME.textSecondary, fontSize: 12, marginTop: 2 },
+  rowSubtitle: { color: THEME.textSecondary, fontSize: 12, marginTop: 2, lineHeight: 16 },
+  progressTrack: { height: 4, borderRadius: 2, backgroundColor: THEME.divider, overflow: 'hidden', marginTop: 6 },
+  progressFill: { height: '100%', backgroundColor: THEME.accent },
+  rowAction: { padding: 4 },
+  emptyRow: { alignItems: 'center', paddingVertical: 28, gap: 10 },
+  footnote: { color: THEME.textSecondary, fontSize: 12, marginTop: 8, marginBottom: 16, marginLeft: 4, lineHeight: 16 },
+});
@@ -31,6 +31,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import DotsSpinner from '@/components/DotsSpinner';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Avatar } from '@/components/Avatar';
+import { PostThumbnailImage } from '@/components/PostThumbnailImage';
 import { UnfollowConfirmModal } from '@/components/UnfollowConfirmModal';
 import { timeAgo } from '@/lib/utils/time-ago';
 import { filterHlsReady, filterSecondarySurfacePosts } from '@/lib/utils/post-filter';
@@ -41,7 +42,6 @@ import { registerVideoPauser, pauseAllVideos } from '@/lib/hooks/use-video-pause
 import { normalizePost } from '@/lib/utils/normalize-post';
 import { getPostDetailsCached, primePostDetailsCache } from '@/lib/post-details-cache';
 import { getPostVideoAssetsBatchCached } from '@/lib/post-video-assets-cache';
-import { getPostVideoAssetsCached } from '@/lib/post-video-assets-cache';
 import { setProfileFeedLaunchCache } from '@/lib/profile-feed-launch-cache';
 import { sharePost } from '@/lib/post-share';
 import { downloadPostToLibrary } from '@/lib/post-download';
@@ -185,45 +185,10 @@ interface VideoThumbnailCardProps {
 }
 
 const VideoThumbnailCard = React.memo(function VideoThumbnailCard({ post, onPress }: VideoThumbnailCardProps) {
-  const [imageError, setImageError] = useState(false);
   const cardMeta = getExternalProfilePostCardMeta(post);
   const isVideo = cardMeta.isVideo;
   const challengeMeta = getChallengePostMeta(post);
   const thumbnailUrl = cardMeta.thumbnailUrl;
-  const [resolvedThumbnailUrl, setResolvedThumbnailUrl] = useState<string | null>(thumbnailUrl);
-
-  useEffect(() => {
-    setImageError(false);
-    setResolvedThumbnailUrl(thumbnailUrl);
-  }, [thumbnailUrl]);
-
-  useEffect(() => {
-    let cancelled = false;
-
-    if (!isVideo || resolvedThumbnailUrl || !post?.id) {
-      return () => {
-        cancelled = true;
-      };
-    }
-
-    getPostVideoAssetsCached(post.id)
-      .then((assets) => {
-        if (cancelled || !assets) return;
-        const repairedThumbnail =
-          getFileUrl(assets.thumbnail_url || assets.thumbnailUrl || '') ||
-          getFileUrl((assets as any).image || (assets as any).thumbnail || '');
-        if (repairedThumbnail) {
-          setResolvedThumbnailUrl(repairedThumbnail);
-        }
-      })
-      .catch(() => {
-        // Best-effort thumbnail repair only.
-      });
-
-    return () => {
-      cancelled = true;
-    };
-  }, [isVideo, post?.id, resolvedThumbnailUrl]);
 
   return (
     <TouchableOpacity
@@ -231,21 +196,12 @@ const VideoThumbnailCard = React.memo(function VideoThumbnailCard({ post, onPres
       style={styles.postCard}
       activeOpacity={0.9}
     >
-      {resolvedThumbnailUrl && !imageError ? (
-        <ExpoImage
-          source={{ uri: resolvedThumbnailUrl }}
-          style={styles.postImage}
-          contentFit="cover"
-          cachePolicy="memory-disk"
-          transition={0}
-          onError={() => setImageError(true)}
-          recyclingKey={post.id}
-        />
-      ) : (
-        <View style={[styles.postImage, styles.noMediaPlaceholder]}>
-          <MaterialIcons name={isVideo ? 'video-library' : 'image'} size={28} color="#666" />
-        </View>
-      )}
+      <PostThumbnailImage
+        postId={post.id}
+        thumbnailUrl={thumbnailUrl}
+        isVideo={isVideo}
+        style={styles.postImage}
+      />
 
       <View style={styles.postOverlay}>
         <View style={styles.postStats}>
@@ -159,7 +159,7 @@ export default function SharedPostScreen() {
     });
 
     try {
-      const response = await likesApi.toggle(targetPostId);
+      const response = await likesApi.toggle(targetPostId, { desiredLiked: newIsLiked });
       if (response.status !== 'success') {
         if (currentIsLiked) dispatch(addLikedPost(targetPostId));
         else dispatch(removeLikedPost(targetPostId));
@@ -0,0 +1,324 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Dimensions,
+  Platform,
+  Switch,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Feather, MaterialIcons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useAuth } from '@/lib/auth-context';
+import { useWatchHistory } from '@/lib/hooks/use-watch-history';
+import { watchHistory, type WatchHistoryEntry } from '@/lib/watch-history';
+import { PostThumbnailImage } from '@/components/PostThumbnailImage';
+import { safeRouterBack } from '@/lib/utils/navigation';
+import { timeAgo } from '@/lib/utils/time-ago';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+const formatPosition = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const HistoryGridCard = React.memo(function HistoryGridCard({
+  userId,
+  entry,
+  onPress,
+  onLongPress,
+}: {
+  userId: string;
+  entry: WatchHistoryEntry;
+  onPress: (postId: string) => void;
+  onLongPress: (postId: string) => void;
+}) {
+  const resumeAt = watchHistory.getResumePosition(userId, entry.postId);
+
+  return (
+    <TouchableOpacity
+      style={styles.gridCard}
+      activeOpacity={0.9}
+      onPress={() => onPress(entry.postId)}
+      onLongPress={() => onLongPress(entry.postId)}
+    >
+      <PostThumbnailImage
+        postId={entry.postId}
+        thumbnailUrl={entry.thumbnailUrl ?? null}
+        isVideo
+        style={styles.gridMedia}
+      />
+
+      <View style={styles.watchedBadge}>
+        <Text style={styles.watchedBadgeText}>{timeAgo(entry.watchedAt)}</Text>
+      </View>
+
+      <View style={styles.gridOverlay}>
+        {entry.username ? (
+          <Text style={styles.gridUsername} numberOfLines={1}>@{entry.username}</Text>
+        ) : null}
+        {resumeAt !== null ? (
+          <View style={styles.gridStats}>
+            <Feather name="play" size={10} color="#fff" />
+            <Text style={styles.gridStatText}>Resume {formatPosition(resumeAt)}</Text>
+          </View>
+        ) : null}
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${Math.round(entry.watchFraction * 100)}%` }]} />
+      </View>
+    </TouchableOpacity>
+  );
+});
+
+export default function WatchHistoryScreen() {
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const { state, loading } = useWatchHistory(userId);
+  const entries = state?.entries ?? [];
+  const paused = state?.paused ?? false;
+
+  const handleOpenPost = useCallback((postId: string) => {
+    router.push({ pathname: '/post/[id]', params: { id: postId } });
+  }, []);
+
+  const handleRemove = useCallback((postId: string) => {
+    if (!userId) return;
+    Alert.alert('Remove from history?', undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => void watchHistory.remove(userId, postId) },
+    ]);
+  }, [userId]);
+
+  const handleClear = useCallback(() => {
+    if (!userId || entries.length === 0) return;
+    Alert.alert(
+      'Clear watch history?',
+      'Videos you watched on this device will no longer be listed or resume where you left off.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clear', style: 'destructive', onPress: () => void watchHistory.clear(userId) },
+      ],
+    );
+  }, [entries.length, userId]);
+
+  const handleTogglePaused = useCallback((value: boolean) => {
+    if (!userId) return;
+    void watchHistory.setPaused(userId, value);
+  }, [userId]);
+
+  const renderItem = useCallback(
+    ({ item }: { item: WatchHistoryEntry }) => (
+      <HistoryGridCard userId={userId ?? ''} entry={item} onPress={handleOpenPost} onLongPress={handleRemove} />
+    ),
+    [handleOpenPost, handleRemove, userId],
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => safeRouterBack(router, '/(tabs)/profile' as any)}
+          style={styles.backButton}
+          activeOpacity={0.7}
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Watch History</Text>
+        <TouchableOpacity
+          onPress={handleClear}
+          style={styles.clearButton}
+          activeOpacity={0.7}
+          disabled={entries.length === 0}
+        >
+          <Text style={[styles.clearButtonText, entries.length === 0 && styles.clearButtonTextDisabled]}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+
+      {userId ? (
+        <View style={styles.pauseRow}>
+          <View style={styles.pauseCopy}>
+            <Text style={styles.pauseTitle}>Pause watch history</Text>
+            <Text style={styles.pauseSubtitle}>
+              {paused ? 'New videos are not being added.' : 'Saved on this device only. Long-press a video to remove it.'}
+            </Text>
+          </View>
+          <Switch
+            value={paused}
+            onValueChange={handleTogglePaused}
+            trackColor={{ false: '#333', true: '#60a5fa' }}
+            thumbColor="#fff"
+          />
+        </View>
+      ) : null}
+
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => item.postId}
+        numColumns={3}
+        renderItem={renderItem}
+        removeClippedSubviews={Platform.OS === 'android'}
+        initialNumToRender={12}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+        ListEmptyComponent={
+          loading ? (
+            <View style={styles.emptyContainer}>
+              <ActivityIndicator size="large" color="#60a5fa" />
+            </View>
+          ) : (
+            <View style={styles.emptyContainer}>
+              <Feather name="clock" size={48} color="#333" />
+              <Text style={styles.emptyText}>
+                {userId ? 'Videos you watch will show up here' : 'Sign in to keep a watch history'}
+              </Text>
+            </View>
+          )
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.06)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  clearButton: {
+    minWidth: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-end',
+  },
+  clearButtonText: {
+    color: '#60a5fa',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  clearButtonTextDisabled: {
+    color: '#444',
+  },
+  pauseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  pauseCopy: {
+    flex: 1,
+  },
+  pauseTitle: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  pauseSubtitle: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  gridCard: {
+    width: Math.floor(screenWidth / 3) - 1,
+    height: Math.floor(screenWidth / 3) * 1.3,
+    margin: 0.5,
+    backgroundColor: '#1a1a1a',
+    position: 'relative',
+  },
+  gridMedia: {
+    width: '100%',
+    height: '100%',
+  },
+  watchedBadge: {
+    position: 'absolute',
+    top: 6,
+    left: 6,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  watchedBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  gridOverlay: {
+    position: 'absolute',
+    bottom: 3,
+    left: 0,
+    right: 0,
+    padding: 4,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    gap: 2,
+  },
+  gridUsername: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  gridStats: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  gridStatText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  progressTrack: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    height: 3,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#60a5fa',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+    gap: 12,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
+import { useCaptionSettings } from '@/lib/hooks/use-caption-settings';
+import { CAPTION_BACKGROUND_OPTIONS, CAPTION_SIZE_OPTIONS, type CaptionSettings } from '@/lib/caption-settings';
+import { findActiveCue, type CaptionCue } from '@/lib/utils/webvtt';
+
+// The player has no cue events, so the position is polled; cues last seconds, not frames
+const POLL_INTERVAL_MS = 250;
+
+interface CaptionOverlayProps {
+  cues: CaptionCue[];
+  getCurrentTime: () => number;
+  /** Poll only while the video is on screen and playing */
+  active: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function CaptionText({ text, settings }: { text: string; settings: CaptionSettings }) {
+  const fontSize = CAPTION_SIZE_OPTIONS.find((option) => option.value === settings.size)?.fontSize ?? 17;
+  const backgroundColor =
+    CAPTION_BACKGROUND_OPTIONS.find((option) => option.value === settings.background)?.color ?? 'transparent';
+
+  return (
+    <Text
+      style={[
+        styles.text,
+        { fontSize, lineHeight: Math.round(fontSize * 1.3), backgroundColor },
+        settings.background === 'none' && styles.textOutlined,
+      ]}
+    >
+      {text}
+    </Text>
+  );
+}
+
+/** Current caption cue of a playing video, styled from the caption settings. */
+export function CaptionOverlay({ cues, getCurrentTime, active, style }: CaptionOverlayProps) {
+  const settings = useCaptionSettings();
+  const [cue, setCue] = useState<CaptionCue | null>(null);
+
+  useEffect(() => {
+    if (!active || cues.length === 0) {
+      // A post swiped away and back should not flash the cue it left on
+      setCue(null);
+      return;
+    }
+
+    const update = () => {
+      const next = findActiveCue(cues, getCurrentTime());
+      // Same object while a cue is showing, so this only re-renders on changes
+      setCue((current) => (current === next ? current : next));
+    };
+    update();
+    const timer = setInterval(update, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [active, cues, getCurrentTime]);
+
+  if (!cue) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, style]} pointerEvents="none">
+      <CaptionText text={cue.text} settings={settings} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  text: {
+    color: '#fff',
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  textOutlined: {
+    textShadowColor: 'rgba(0,0,0,0.9)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
+});
+
+export default CaptionOverlay;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Text, TouchableOpacity, type StyleProp, type TextStyle, type ViewStyle } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useCache } from '@/lib/cache-context';
+import { useCaptionSettings } from '@/lib/hooks/use-caption-settings';
+
+interface CaptionToggleButtonProps {
+  style?: StyleProp<ViewStyle>;
+  labelStyle?: StyleProp<TextStyle>;
+  size?: number;
+}
+
+/**
+ * CC on/off. The choice is saved with the caption settings and applies to
+ * every video; kept in its own component so the players that show it do not
+ * subscribe to the whole cache context.
+ */
+export function CaptionToggleButton({ style, labelStyle, size = 24 }: CaptionToggleButtonProps) {
+  const { updatePreferences } = useCache();
+  const settings = useCaptionSettings();
+  const { enabled } = settings;
+
+  return (
+    <TouchableOpacity
+      style={style}
+      onPress={() => void updatePreferences({ captions: { ...settings, enabled: !enabled } })}
+      activeOpacity={0.7}
+      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      accessibilityRole="switch"
+      accessibilityState={{ checked: enabled }}
+      accessibilityLabel="Captions"
+    >
+      <MaterialIcons name={enabled ? 'closed-caption' : 'closed-caption-off'} size={size} color={enabled ? '#60a5fa' : '#fff'} />
+      {labelStyle ? <Text style={labelStyle}>CC</Text> : null}
+    </TouchableOpacity>
+  );
+}
+
+export default CaptionToggleButton;
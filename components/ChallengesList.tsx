@@ -12,6 +12,7 @@ import {
 } from 'react-native';
 import { Feather, MaterialIcons } from '@expo/vector-icons';
 import { challengesApi } from '@/lib/api';
+import type { Challenge } from '@/lib/api-contracts';
 import { router } from 'expo-router';
 import { useAuth } from '@/lib/auth-context';
 import { Avatar } from './Avatar';
@@ -27,22 +28,6 @@ import {
     parseChallengeDate,
 } from '@/lib/utils/challenge';
 
-interface Challenge {
-    id: string;
-    name: string;
-    description: string;
-    has_rewards: boolean;
-    rewards?: string;
-    organizer_name: string;
-    start_date: string;
-    end_date: string;
-    participants_count?: number;
-    posts_count?: number;
-    cover_image?: string;
-    status?: string;
-    organizer_id?: string;
-}
-
 interface ChallengesListProps {
     onCreateChallenge: () => void;
     refreshTrigger?: number;
@@ -20,6 +20,7 @@ import {
 } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { postsApi } from '@/lib/api';
+import { mutationOutbox } from '@/lib/mutation-outbox';
 import { useAuth } from '@/lib/auth-context';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
@@ -37,6 +38,9 @@ interface Comment {
   createdAt?: string;
   created_at?: string;
   comment_date?: string;
+  // Set on comments queued in the offline outbox until they are replayed
+  pending?: boolean;
+  clientId?: string;
   user?: {
     id: string;
     username?: string;
@@ -274,6 +278,20 @@ export default function CommentsModal({
     }
   }, [visible, postId]);
 
+  // Swap queued comments for the server copy once the outbox replays them (or drop them if rejected)
+  useEffect(() => {
+    return mutationOutbox.subscribe((event) => {
+      if (event.type !== 'comment' || event.postId !== postId || !isMounted.current) return;
+      setComments((prev) =>
+        prev.flatMap((comment) => {
+          if (comment.clientId !== event.clientId) return [comment];
+          if (!event.comment) return [];
+          return [{ ...comment, ...event.comment, pending: false }];
+        }),
+      );
+    });
+  }, [postId]);
+
   // Reset state when modal closes
   useEffect(() => {
     if (!visible) {
@@ -582,9 +600,11 @@ export default function CommentsModal({
                   <Text style={styles.ownerBadgeText}>You</Text>
                 </View>
               )}
-              {commentDate && (
+              {item.pending ? (
+                <Text style={styles.commentTime}>• Sending when online</Text>
+              ) : commentDate ? (
                 <Text style={styles.commentTime}>• {formatTimeAgo(commentDate)}</Text>
-              )}
+              ) : null}
             </View>
             <Text style={styles.commentText}>{commentContent}</Text>
           </Pressable>
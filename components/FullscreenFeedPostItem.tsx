@@ -27,6 +27,23 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRealtimePost } from '@/lib/hooks/use-realtime-post';
 import { getPostMediaUrl, getThumbnailUrl, getPlaybackUrl } from '@/lib/utils/file-url';
 import { getVideoSource } from '@/lib/utils/video-source';
+import { imageCache } from '@/lib/utils/image-cache';
+import { getCappedPlaybackUrl, getHlsVariants } from '@/lib/utils/hls-variants';
+import { playbackQoe, type PlaybackQoeSession } from '@/lib/playback-qoe';
+import { watchHistory } from '@/lib/watch-history';
+import { offlineDownloads, isOfflineDownloadable } from '@/lib/offline-downloads';
+import { useOfflineDownload } from '@/lib/hooks/use-offline-downloads';
+import { dataSaver } from '@/lib/data-saver';
+import { useDataPolicy } from '@/lib/hooks/use-data-policy';
+import { useVideoQuality } from '@/lib/hooks/use-video-quality';
+import { VideoQualitySheet } from '@/components/VideoQualitySheet';
+import { PlaybackControlsSheet } from '@/components/PlaybackControlsSheet';
+import { usePlaybackControls } from '@/lib/hooks/use-playback-controls';
+import { CaptionOverlay } from '@/components/CaptionOverlay';
+import { CaptionToggleButton } from '@/components/CaptionToggleButton';
+import { useCaptionSettings } from '@/lib/hooks/use-caption-settings';
+import { useCaptionTrack } from '@/lib/hooks/use-caption-track';
+import { AUTO_SCROLL_IMAGE_MS, formatPlaybackRate, shouldAdvanceOnEnd } from '@/lib/playback-controls';
 import { IS_OLDER_ANDROID } from '@/lib/utils/video-feed';
 import { Avatar } from '@/components/Avatar';
 import { PostAppealModal } from '@/components/PostAppealModal';
@@ -41,6 +58,8 @@ import { registerVideoPauser } from '@/lib/hooks/use-video-pause-on-blur';
 import { addFabricBreadcrumb, captureFabricError } from '@/lib/utils/fabric-diagnostics';
 import { enterPlaybackMode, enterSharedVideoPlaybackMode } from '@/lib/media/audio-session';
 import { feedTelemetry } from '@/lib/feed-telemetry';
+import { useViewTracking } from '@/lib/hooks/use-view-tracking';
+import { QUICK_SKIP_MAX_SECONDS, recommendationSignals } from '@/lib/recommendation-signals';
 const DAY_IN_MS = 24 * 60 * 60 * 1000;
 let mountedFeedPlayerCount = 0;
 const FEED_ANIMATION_USES_NATIVE_DRIVER = false;
@@ -157,6 +176,9 @@ type NativeFeedVideoProps = {
   contentFit: 'contain' | 'cover' | 'fill';
   isMuted: boolean;
   shouldPlay: boolean;
+  /** False when the feed moves on at the end instead of replaying */
+  loop: boolean;
+  playbackRate: number;
   /**
    * When false on Android, the player stays alive and keeps filling its buffer
    * but is NOT attached to a VideoView (no surface). Per expo-video docs a player
@@ -215,7 +237,9 @@ const NativeFeedVideo = React.forwardRef<NativeFeedVideoHandle, NativeFeedVideoP
       player,
       contentFit,
       isMuted,
-      shouldPlay: _shouldPlay,
+      shouldPlay,
+      loop,
+      playbackRate,
       attachVideoView,
       postId,
       screenName,
@@ -230,6 +254,9 @@ const NativeFeedVideo = React.forwardRef<NativeFeedVideoHandle, NativeFeedVideoP
     },
     ref,
   ) => {
+    const shouldPlayRef = React.useRef(shouldPlay);
+    shouldPlayRef.current = shouldPlay;
+
     React.useEffect(() => {
       if (!player) {
         onPlayerInvalid();
@@ -296,6 +323,24 @@ const NativeFeedVideo = React.forwardRef<NativeFeedVideoHandle, NativeFeedVideoP
       } catch (_) {}
     }, [player]);
 
+    React.useEffect(() => {
+      if (!player) {
+        return;
+      }
+
+      try {
+        player.loop = loop;
+        // On iOS a non-zero rate starts AVPlayer, so only touch it on a real change
+        // and keep paused preload neighbours paused
+        if (player.playbackRate !== playbackRate) {
+          player.playbackRate = playbackRate;
+          if (!shouldPlayRef.current) {
+            player.pause();
+          }
+        }
+      } catch (_) {}
+    }, [loop, playbackRate, player]);
+
     React.useEffect(() => {
       if (!player) {
         return;
@@ -562,6 +607,11 @@ export interface FullscreenFeedPostItemProps {
   showBottomFooter?: boolean;
   /** Shared deep-link screen: always start audible + retry autoplay on picky OEMs. */
   ensureAudibleAutoplay?: boolean;
+  /**
+   * Moves the pager past this item when playback finishes and the playback menu asks
+   * for play-next / auto-scroll. Returns false when there is nothing to advance to.
+   */
+  onPlaybackEnded?: (index: number) => boolean;
 }
 
 const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
@@ -589,6 +639,7 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
   bottomFooterHeight = 0,
   showBottomFooter = false,
   ensureAudibleAutoplay = false,
+  onPlaybackEnded,
 }) => {
   const [showBestModal, setShowBestModal] = useState(false);
   const isAppActive = useAppActive();
@@ -629,6 +680,8 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
   const [isLiking, setIsLiking] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [usingImageFallback, setUsingImageFallback] = useState(false);
+  // Re-renders onto the network URL once a cached image file turned out to be unreadable
+  const [, setImageCacheEvictions] = useState(0);
   const { isMuted, toggleMute } = useMute();
   const playbackMuted = ensureAudibleAutoplay ? false : isMuted;
   const [videoError, setVideoError] = useState(false);
@@ -643,6 +696,8 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
   const [showUnfollowModal, setShowUnfollowModal] = useState(false);
   const [showFollowLoginModal, setShowFollowLoginModal] = useState(false);
   const [showAppealModal, setShowAppealModal] = useState(false);
+  const [showQualitySheet, setShowQualitySheet] = useState(false);
+  const [showPlaybackSheet, setShowPlaybackSheet] = useState(false);
   const isSuspendedPost = (item as any).status === 'suspended' || (item as any).is_suspended;
   const isDraftPost = (item as any).status === 'draft' || (item as any).status === 'Draft';
   const isOwnPost = Boolean(user?.id && (user.id === item.user?.id || user.id === (item as any).user_id || user.id === (item as any).userId));
@@ -662,9 +717,13 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
   const firstPlaybackMotionRequestedAtRef = useRef<number | null>(null);
   const firstPlaybackMotionReportedRef = useRef(false);
   const stallCountRef = useRef(0);
+  const qoeSessionRef = useRef<PlaybackQoeSession | null>(null);
+  const resumeAtRef = useRef<number | null>(null);
   const playbackStallCountRef = useRef(0);
   const playbackStallProbeRef = useRef({ time: 0, checkedAt: 0 });
   const visualRecoveryAttemptedRef = useRef(false);
+  const activatedAtRef = useRef<number | null>(null);
+  const completedPlaysRef = useRef(0);
   // Animated value that drives the progress bar fill + thumb visually.
   // During drag we update this directly (no setState → no re-render lag).
   // When not dragging it mirrors the videoProgress state.
@@ -701,7 +760,7 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
 
   // Watch all internal modal states — resume playback when they ALL close.
   const anyInternalModalOpen =
-    showUnfollowModal || showFollowLoginModal || showBestModal || showAppealModal;
+    showUnfollowModal || showFollowLoginModal || showBestModal || showAppealModal || showQualitySheet || showPlaybackSheet;
   const prevModalOpenRef = useRef(false);
   useEffect(() => {
     if (anyInternalModalOpen) {
@@ -781,8 +840,23 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
   const challengeMeta = getChallengePostMeta(item);
   const activeChallengeName = challengeName || challengeMeta.challengeName;
   const isCompetitionPost = Boolean(activeChallengeName || challengeMeta.isChallengePost);
-  const playbackUrl = getPlaybackUrl(item);
+  const dataPolicy = useDataPolicy();
+  const { selection: qualitySelection } = useVideoQuality();
+  const offlineDownload = useOfflineDownload(item.id);
+  const playbackControlsState = usePlaybackControls();
+  const advanceOnEnd = !!onPlaybackEnded && shouldAdvanceOnEnd(playbackControlsState);
+  const { enabled: captionsEnabled } = useCaptionSettings();
+  const captionTrack = useCaptionTrack(item, isVideo && isActive);
+  const masterPlaybackUrl = getPlaybackUrl(item);
+  // Resolved once per source and quality so a warmup finishing mid-play never swaps the stream
+  const playbackUrl = React.useMemo(
+    () => masterPlaybackUrl
+      ? getCappedPlaybackUrl(masterPlaybackUrl, qualitySelection.maxHeight, { lock: qualitySelection.lock })
+      : null,
+    [masterPlaybackUrl, qualitySelection],
+  );
   const hlsReady = !!playbackUrl;
+  const canPreloadVideo = dataPolicy.preloadOnMeteredConnection || !dataSaver.isMeteredConnection();
   // Mount the player when this post is active OR scheduled for preload. On API <= 28
   // shouldPreloadFeedVideo limits preload to the single next post, so at most two
   // decoders (active + next) stay alive. The preloaded player buffers while paused,
@@ -791,7 +865,7 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
     isVideo &&
     hlsReady &&
     isAppActive &&
-    (isActive || shouldPreload) &&
+    (isActive || (shouldPreload && canPreloadVideo)) &&
     !videoError;
   const shouldMountVideoPlayer = shouldLoadVideo;
   const shouldMuteVideo = playbackMuted;
@@ -896,6 +970,8 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
     isMountedRef.current = true;
     return () => {
       isMountedRef.current = false;
+      qoeSessionRef.current?.end();
+      qoeSessionRef.current = null;
       // Aggressively stop audio on unmount to prevent leaks
       const controller = videoControllerRef.current;
       if (controller) {
@@ -1004,6 +1080,8 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
     stallCountRef.current = 0;
     playbackStallCountRef.current = 0;
     playbackStallProbeRef.current = { time: 0, checkedAt: 0 };
+    qoeSessionRef.current?.end();
+    qoeSessionRef.current = null;
     visualRecoveryAttemptedRef.current = false;
     wasActiveRef.current = false;
     wasAppActiveRef.current = isAppActive;
@@ -1046,6 +1124,22 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
         playerValidRef.current &&
         playbackStatusRef.current === 'readyToPlay';
 
+      // HookFeedVideo creates its player on mount, so a live one here was mounted for preload
+      playbackQoe.recordPoolLookup(controller && playerValidRef.current ? 'hit' : 'cold');
+      qoeSessionRef.current?.end();
+      qoeSessionRef.current = playbackUrl
+        ? playbackQoe.startPlay({
+            postId: item.id,
+            screenName,
+            streamType: playbackUrl.toLowerCase().includes('.m3u8') ? 'hls' : 'raw',
+            codec: masterPlaybackUrl
+              ? getHlsVariants(masterPlaybackUrl)?.find((variant) => variant.codecs)?.codecs
+              : null,
+            sourceMode: videoSourceMode,
+            preloaded: !!isWarmPlayer,
+          })
+        : null;
+
       setPlaybackGeneration((prev) => {
         const nextGen = prev + 1;
         if (isWarmPlayer) {
@@ -1117,6 +1211,8 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
         setPlaybackGeneration((prev) => prev + 1);
       }
     } else if (becameInactive) {
+      qoeSessionRef.current?.end();
+      qoeSessionRef.current = null;
       pendingPlayRef.current = false;
       clearAutoplayRetryTimeouts();
       thumbnailOpacity.stopAnimation();
@@ -1352,9 +1448,11 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
 
     if (event?.status) {
       playbackStatusRef.current = event.status as 'idle' | 'loading' | 'readyToPlay' | 'error';
+      qoeSessionRef.current?.status(event.status);
     }
 
     if (event?.error) {
+      qoeSessionRef.current?.error();
       captureFabricError(event.error, 'feed_video_status_error', {
         postId: item.id,
         index,
@@ -1437,13 +1535,120 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
     if (!isMountedRef.current) {
       return;
     }
+    if (isActive) {
+      completedPlaysRef.current += 1;
+      recommendationSignals.track(item.id, completedPlaysRef.current === 1 ? 'full_watch' : 'rewatch', {
+        watchSeconds: lastDurationRef.current || undefined,
+        watchRatio: 1,
+      });
+    }
     if (!isDraggingRef.current) {
       setVideoProgress(0);
       scrubProgress.setValue(0);
       lastSyncedProgressTimeRef.current = 0;
     }
     setVideoReady(true);
-  }, [scrubProgress]);
+
+    if (isActive && advanceOnEnd && onPlaybackEnded?.(index) === false) {
+      // Last post in the list: nothing to advance to, so replay instead of stopping.
+      const controller = videoControllerRef.current;
+      if (controller && playerValidRef.current) {
+        controller.seekTo(0);
+        controller.play();
+      }
+    }
+  }, [advanceOnEnd, index, isActive, item.id, onPlaybackEnded, scrubProgress]);
+
+  // Auto-scroll: photo posts have no end event, so they move on after a fixed delay.
+  useEffect(() => {
+    if (
+      isVideo ||
+      !isActive ||
+      !onPlaybackEnded ||
+      !playbackControlsState.autoScroll ||
+      suspendPlayback ||
+      !isAppActive ||
+      anyInternalModalOpen
+    ) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      onPlaybackEnded(index);
+    }, AUTO_SCROLL_IMAGE_MS);
+    return () => clearTimeout(timeout);
+  }, [anyInternalModalOpen, index, isActive, isAppActive, isVideo, onPlaybackEnded, playbackControlsState.autoScroll, suspendPlayback]);
+
+  // Quick-skip signal: the user left the video before it really got going.
+  useEffect(() => {
+    if (!isVideo) return;
+    if (isActive) {
+      activatedAtRef.current = Date.now();
+      completedPlaysRef.current = 0;
+      return;
+    }
+    if (activatedAtRef.current === null) return;
+    activatedAtRef.current = null;
+
+    const watchedSeconds = lastPlaybackTimeRef.current;
+    if (completedPlaysRef.current === 0 && watchedSeconds < QUICK_SKIP_MAX_SECONDS) {
+      const duration = lastDurationRef.current;
+      recommendationSignals.track(item.id, 'quick_skip', {
+        watchSeconds: watchedSeconds,
+        watchRatio: duration > 0 ? watchedSeconds / duration : undefined,
+      });
+    }
+  }, [isActive, isVideo, item.id]);
+
+  const seekToResumePosition = useCallback(() => {
+    const resumeAt = resumeAtRef.current;
+    const controller = videoControllerRef.current;
+    if (resumeAt === null || !controller) return;
+    resumeAtRef.current = null;
+    try {
+      controller.seekTo(resumeAt);
+      lastPlaybackTimeRef.current = resumeAt;
+      lastSyncedProgressTimeRef.current = resumeAt;
+    } catch (_) {}
+  }, []);
+
+  // Watch history: remember where the viewer left this post, and pick longer
+  // videos back up there the next time they become active.
+  useEffect(() => {
+    if (!isVideo || !isActive || !user?.id) return;
+    const userId = user.id;
+    let cancelled = false;
+    void watchHistory.load(userId).then(() => {
+      if (cancelled) return;
+      resumeAtRef.current = watchHistory.getResumePosition(userId, item.id, fallbackVideoDuration || undefined);
+      // A preloaded player has drawn its first frame before activation, so
+      // onFirstFrameRender will not come round again to apply the position
+      if (playerValidRef.current && playbackStatusRef.current === 'readyToPlay') {
+        seekToResumePosition();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      resumeAtRef.current = null;
+      void watchHistory.record(userId, {
+        postId: item.id,
+        positionSec: lastPlaybackTimeRef.current,
+        durationSec: lastDurationRef.current || fallbackVideoDuration,
+        thumbnailUrl: getThumbnailUrl(item),
+        title: item.title || item.caption || item.description || null,
+        username: item.user?.username ?? null,
+      });
+    };
+  }, [isActive, isVideo, item.id, seekToResumePosition, user?.id]);
+
+  // Qualified-view reporting: only count time the post is actually on screen and playing.
+  const isViewTrackable = isActive && isAppActive && !suspendPlayback && !isDraftPost && !isSuspendedPost;
+  useViewTracking(item.id, {
+    active: isViewTrackable,
+    watching: isViewTrackable && (isVideo ? isPlaying : true),
+    visibilityPercent: anyInternalModalOpen ? 0 : 100,
+  });
 
   useEffect(() => {
     if (shouldLoadVideo) {
@@ -1653,6 +1858,9 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
         Animated.timing(likeOpacity, { toValue: 0, duration: 300, useNativeDriver: FEED_ANIMATION_USES_NATIVE_DRIVER }),
       ]).start();
     }
+    if (newIsLiked) {
+      recommendationSignals.track(item.id, 'like');
+    }
     try {
       await onLike(item.id);
     } finally {
@@ -1680,9 +1888,35 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
   };
 
   const handleComment = useCallback(() => {
-    if (onComment && item.id) onComment(item.id);
+    if (onComment && item.id) {
+      recommendationSignals.track(item.id, 'comment_open');
+      onComment(item.id);
+    }
   }, [onComment, item.id]);
 
+  const handleShare = useCallback(() => {
+    recommendationSignals.track(item.id, 'share');
+    onShare(item.id);
+  }, [onShare, item.id]);
+
+  const getVideoTime = useCallback(() => videoControllerRef.current?.getCurrentTime?.() ?? 0, []);
+
+  const handleOfflineDownload = useCallback(() => {
+    if (!offlineDownload || offlineDownload.status === 'failed') {
+      void offlineDownloads.enqueue(item);
+      return;
+    }
+
+    Alert.alert(
+      offlineDownload.status === 'ready' ? 'Remove download?' : 'Cancel download?',
+      undefined,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => void offlineDownloads.remove(item.id) },
+      ],
+    );
+  }, [item, offlineDownload]);
+
   const seekToProgressRatio = useCallback((ratio: number) => {
     const controller = videoControllerRef.current;
     if (!controller || !playerValidRef.current) return;
@@ -1691,6 +1925,7 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
     const clamped = Math.max(0, Math.min(1, ratio));
     try {
       controller.seekTo(clamped * duration);
+      qoeSessionRef.current?.seeked();
       lastPlaybackTimeRef.current = clamped * duration;
       scrubProgress.setValue(clamped);
       setVideoProgress(clamped);
@@ -1734,6 +1969,7 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
 
   const handleUserPress = () => {
     if (item.user?.id) {
+      recommendationSignals.track(item.id, 'profile_open');
       router.push({ pathname: '/user/[id]' as any, params: { id: item.user.id } });
     }
   };
@@ -1768,9 +2004,14 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
             <Pressable style={[styles.mediaWrapper, isAd && styles.adMediaWrapper]} onPress={(e) => handleTapToPause(e)}>
               {thumbnailOrPlaceholderUrl ? (
                 <Animated.Image
-                  source={{ uri: thumbnailOrPlaceholderUrl }}
+                  source={{ uri: imageCache.getCachedUri(thumbnailOrPlaceholderUrl) ?? thumbnailOrPlaceholderUrl }}
                   style={[styles.media, styles.mediaThumbnailLayer, { opacity: thumbnailOpacity }]}
                   resizeMode={mediaContentFit}
+                  onError={() => {
+                    if (imageCache.evict(thumbnailOrPlaceholderUrl)) {
+                      setImageCacheEvictions((count) => count + 1);
+                    }
+                  }}
                 />
               ) : null}
 
@@ -1797,6 +2038,8 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
                       screenName={screenName}
                       sourceMode={videoSourceMode}
                       onFirstFrameRender={() => {
+                        qoeSessionRef.current?.firstFrame();
+                        seekToResumePosition();
                         setVideoReady(true);
                         setFirstFrameRendered(true);
                         setVideoVisualReady(true);
@@ -1827,6 +2070,8 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
                       onPlayingChange={handleNativePlayingChange}
                       onTimeUpdate={handleNativeTimeUpdate}
                       onPlayToEnd={handleNativePlayToEnd}
+                      loop={!advanceOnEnd}
+                      playbackRate={playbackControlsState.rate}
                       onPlayerReady={handleNativePlayerReady}
                       onPlayerInvalid={handleNativePlayerInvalid}
                     />
@@ -1878,10 +2123,14 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
           <View style={[styles.mediaWrapper, isAd && styles.adMediaWrapper]}>
             {imageDisplayUrl && !imageError ? (
               <Image
-                source={{ uri: imageDisplayUrl }}
+                source={{ uri: imageCache.getCachedUri(imageDisplayUrl) ?? imageDisplayUrl }}
                 style={styles.media}
                 resizeMode={mediaContentFit}
                 onError={() => {
+                  if (imageCache.evict(imageDisplayUrl)) {
+                    setImageCacheEvictions((count) => count + 1);
+                    return;
+                  }
                   if (!usingImageFallback && fallbackImageUrl) {
                     setUsingImageFallback(true);
                     return;
@@ -1956,13 +2205,71 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
 
           <TouchableOpacity
             style={styles.actionButton}
-            onPress={() => onShare(item.id)}
+            onPress={handleShare}
             activeOpacity={0.7}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
           >
             <Feather name="share-2" size={24} color="#fff" />
           </TouchableOpacity>
 
+          {isVideo && masterPlaybackUrl?.toLowerCase().includes('.m3u8') && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => setShowQualitySheet(true)}
+              activeOpacity={0.7}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Feather name="sliders" size={22} color="#fff" />
+              <Text style={styles.actionReportLabel}>Quality</Text>
+            </TouchableOpacity>
+          )}
+
+          {isVideo && captionTrack && (
+            <CaptionToggleButton style={styles.actionButton} labelStyle={styles.actionReportLabel} />
+          )}
+
+          {isVideo && !isAd && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => setShowPlaybackSheet(true)}
+              activeOpacity={0.7}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Feather
+                name={playbackControlsState.autoScroll ? 'chevrons-down' : 'fast-forward'}
+                size={22}
+                color={playbackControlsState.rate !== 1 || advanceOnEnd ? '#60a5fa' : '#fff'}
+              />
+              <Text style={styles.actionReportLabel}>
+                {playbackControlsState.rate !== 1 ? formatPlaybackRate(playbackControlsState.rate) : 'Speed'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {!isAd && isOfflineDownloadable(item) && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={handleOfflineDownload}
+              activeOpacity={0.7}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Feather
+                name={offlineDownload?.status === 'ready' ? 'check-circle' : offlineDownload?.status === 'failed' ? 'alert-circle' : 'download'}
+                size={22}
+                color={offlineDownload?.status === 'ready' ? '#60a5fa' : '#fff'}
+              />
+              <Text style={styles.actionReportLabel}>
+                {offlineDownload?.status === 'downloading'
+                  ? `${Math.round(offlineDownload.progress * 100)}%`
+                  : offlineDownload?.status === 'queued'
+                    ? 'Queued'
+                    : offlineDownload?.status === 'ready'
+                      ? 'Saved'
+                      : 'Offline'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
           {!isAd && showReportButton && (
             <TouchableOpacity style={styles.actionButton} onPress={() => onReport(item.id)}>
               <Feather name="flag" size={22} color="#fff" />
@@ -1971,6 +2278,15 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
           )}
         </View>
 
+        {captionTrack && captionsEnabled && (
+          <CaptionOverlay
+            cues={captionTrack.cues}
+            getCurrentTime={getVideoTime}
+            active={isActive && shouldMountVideoPlayer}
+            style={[styles.captionTrackOverlay, { bottom: feedOverlayBottomInset + 96 }]}
+          />
+        )}
+
         <View style={[styles.bottomInfo, { bottom: feedOverlayBottomInset }]}>
           <View style={styles.bottomInfoContent}>
             {isAd && (
@@ -2073,6 +2389,18 @@ const FullscreenFeedPostItem: React.FC<FullscreenFeedPostItemProps> = ({
           </View>
         )}
       </View>
+      {showQualitySheet && (
+        <VideoQualitySheet
+          visible
+          playbackUrl={masterPlaybackUrl}
+          onClose={() => setShowQualitySheet(false)}
+        />
+      )}
+
+      {showPlaybackSheet && (
+        <PlaybackControlsSheet visible onClose={() => setShowPlaybackSheet(false)} />
+      )}
+
       <UnfollowConfirmModal
         visible={showUnfollowModal}
         username={item.user?.username || 'user'}
@@ -2595,6 +2923,12 @@ const styles = StyleSheet.create({
     transform: [{ translateX: -24 }, { translateY: -24 }],
     zIndex: 100,
   },
+  captionTrackOverlay: {
+    position: 'absolute',
+    left: 12,
+    right: 84,
+    zIndex: 20,
+  },
   bottomInfo: {
     position: 'absolute',
     left: 12,
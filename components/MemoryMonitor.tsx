@@ -1,5 +1,6 @@
 import React, { useState, useEffect, memo } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useDeviceProfile } from '@/lib/hooks/use-device-profile';
 
 interface MemoryStats {
   jsHeapSize?: number;
@@ -17,6 +18,7 @@ interface MemoryStats {
 const MemoryMonitorComponent: React.FC = () => {
   const [visible, setVisible] = useState(false);
   const [stats, setStats] = useState<MemoryStats>({});
+  const profile = useDeviceProfile();
 
   useEffect(() => {
     if (!visible) return;
@@ -96,6 +98,13 @@ const MemoryMonitorComponent: React.FC = () => {
         </Text>
       </View>
 
+      <View style={styles.statRow}>
+        <Text style={styles.label}>Tier:</Text>
+        <Text style={[styles.value, profile.underMemoryPressure && { color: '#ef4444' }]}>
+          {profile.tier} · pool {profile.poolSize}
+        </Text>
+      </View>
+
       {stats.usedJSHeapSize && stats.jsHeapSize && (
         <View style={styles.progressContainer}>
           <View 
@@ -6,9 +6,11 @@ import {
   StyleSheet,
   ActivityIndicator,
   ImageSourcePropType,
+  PixelRatio,
   ViewStyle,
 } from 'react-native';
 import { Feather } from '@expo/vector-icons';
+import { useDataPolicy } from '@/lib/hooks/use-data-policy';
 
 interface OptimizedImageProps {
   /** Image source URL or require() */
@@ -44,7 +46,7 @@ interface OptimizedImageProps {
  * - Lazy loading
  * - Error handling with fallback
  * - Loading indicator
- * - Memory-efficient image sizing
+ * - Memory-efficient image sizing, capped by the data usage policy
  * 
  * @example
  * <OptimizedImage
@@ -72,6 +74,7 @@ const OptimizedImageComponent: React.FC<OptimizedImageProps> = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
   const [useFallback, setUseFallback] = useState(false);
+  const { maxImagePixelRatio } = useDataPolicy();
 
   const handleLoad = useCallback(() => {
     setLoading(false);
@@ -98,9 +101,11 @@ const OptimizedImageComponent: React.FC<OptimizedImageProps> = ({
       }
       
       // Add size parameters for URL optimization (if server supports it)
+      // Sizes are in physical pixels; data saver stops asking for more than 1x
       const styleObj = StyleSheet.flatten(style) || {};
-      const width = typeof styleObj.width === 'number' ? Math.round(styleObj.width) : undefined;
-      const height = typeof styleObj.height === 'number' ? Math.round(styleObj.height) : undefined;
+      const pixelRatio = Math.min(PixelRatio.get(), maxImagePixelRatio);
+      const width = typeof styleObj.width === 'number' ? Math.round(styleObj.width * pixelRatio) : undefined;
+      const height = typeof styleObj.height === 'number' ? Math.round(styleObj.height * pixelRatio) : undefined;
       
       // Optimization: Request appropriately sized images
       let optimizedUri = source;
@@ -0,0 +1,183 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, Switch } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { usePlaybackControls } from '@/lib/hooks/use-playback-controls';
+import {
+  PLAYBACK_RATE_OPTIONS,
+  formatPlaybackRate,
+  playbackControls,
+  type PlaybackEndAction,
+} from '@/lib/playback-controls';
+
+const C = {
+  overlay: 'rgba(0,0,0,0.7)',
+  card: '#1f2937',
+  cardBorder: '#374151',
+  text: '#f3f4f6',
+  textSecondary: '#9ca3af',
+  accent: '#60a5fa',
+  accentDim: 'rgba(96, 165, 250, 0.16)',
+  chip: 'rgba(255,255,255,0.08)',
+  divider: 'rgba(255,255,255,0.08)',
+};
+
+const END_ACTIONS: { value: PlaybackEndAction; label: string; detail: string }[] = [
+  { value: 'loop', label: 'Loop', detail: 'Replay the video until you swipe' },
+  { value: 'advance', label: 'Play next', detail: 'Move to the next post when it ends' },
+];
+
+interface PlaybackControlsSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/** Speed, loop / play-next and auto-scroll for the fullscreen feed; lasts for this session. */
+export function PlaybackControlsSheet({ visible, onClose }: PlaybackControlsSheetProps) {
+  const { rate, endAction, autoScroll } = usePlaybackControls();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity activeOpacity={1} style={styles.overlay} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} style={styles.card}>
+          <Text style={styles.title}>Playback</Text>
+
+          <Text style={styles.sectionLabel}>Speed</Text>
+          <View style={styles.chipRow}>
+            {PLAYBACK_RATE_OPTIONS.map((option) => {
+              const selected = option === rate;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => playbackControls.update({ rate: option })}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, selected && { color: C.accent }]}>{formatPlaybackRate(option)}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.sectionLabel}>When a video ends</Text>
+          {END_ACTIONS.map((option, index) => {
+            const selected = !autoScroll && option.value === endAction;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.row, index > 0 && styles.rowBorder]}
+                onPress={() => playbackControls.update({ endAction: option.value })}
+                activeOpacity={0.7}
+                disabled={autoScroll}
+              >
+                <View style={styles.rowText}>
+                  <Text style={[styles.rowLabel, selected && { color: C.accent }, autoScroll && styles.rowDisabled]}>
+                    {option.label}
+                  </Text>
+                  <Text style={styles.rowDetail}>{option.detail}</Text>
+                </View>
+                {selected && <Feather name="check" size={18} color={C.accent} />}
+              </TouchableOpacity>
+            );
+          })}
+
+          <View style={[styles.row, styles.rowBorder]}>
+            <View style={styles.rowText}>
+              <Text style={styles.rowLabel}>Auto-scroll</Text>
+              <Text style={styles.rowDetail}>Hands-free: move on after every video, and after a few seconds on photos</Text>
+            </View>
+            <Switch
+              value={autoScroll}
+              onValueChange={(value) => playbackControls.update({ autoScroll: value })}
+              trackColor={{ false: '#333', true: C.accent }}
+              thumbColor="#fff"
+            />
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: C.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 340,
+    backgroundColor: C.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: C.cardBorder,
+    paddingVertical: 20,
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: C.text,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: C.textSecondary,
+    letterSpacing: 0.6,
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 14,
+    backgroundColor: C.chip,
+  },
+  chipSelected: {
+    backgroundColor: C.accentDim,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: C.text,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: C.divider,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: C.text,
+  },
+  rowDisabled: {
+    color: C.textSecondary,
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: C.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default PlaybackControlsSheet;
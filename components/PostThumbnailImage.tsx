@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
+import { Image as ExpoImage, type ImageStyle } from 'expo-image';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getFileUrl } from '@/lib/utils/file-url';
+import { getPostVideoAssetsCached } from '@/lib/post-video-assets-cache';
+
+interface PostThumbnailImageProps {
+  postId: string;
+  thumbnailUrl: string | null;
+  isVideo: boolean;
+  style: StyleProp<ImageStyle & ViewStyle>;
+}
+
+/**
+ * Static grid thumbnail — never a video player. When a video post arrives
+ * without a thumbnail the post's video assets are looked up once to repair it;
+ * until then (or if the image fails) a media placeholder is shown.
+ */
+export const PostThumbnailImage = React.memo(function PostThumbnailImage({
+  postId,
+  thumbnailUrl,
+  isVideo,
+  style,
+}: PostThumbnailImageProps) {
+  const [imageError, setImageError] = useState(false);
+  const [resolvedThumbnailUrl, setResolvedThumbnailUrl] = useState<string | null>(thumbnailUrl);
+
+  useEffect(() => {
+    setImageError(false);
+    setResolvedThumbnailUrl(thumbnailUrl);
+  }, [thumbnailUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!isVideo || resolvedThumbnailUrl || !postId) {
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    getPostVideoAssetsCached(postId)
+      .then((assets) => {
+        if (cancelled || !assets) return;
+        const repairedThumbnail =
+          getFileUrl(assets.thumbnail_url || assets.thumbnailUrl || '') ||
+          getFileUrl((assets as any).image || (assets as any).thumbnail || '');
+        if (repairedThumbnail) {
+          setResolvedThumbnailUrl(repairedThumbnail);
+        }
+      })
+      .catch(() => {
+        // Best-effort thumbnail repair only.
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVideo, postId, resolvedThumbnailUrl]);
+
+  if (resolvedThumbnailUrl && !imageError) {
+    return (
+      <ExpoImage
+        source={{ uri: resolvedThumbnailUrl }}
+        style={style}
+        contentFit="cover"
+        cachePolicy="memory-disk"
+        transition={0}
+        onError={() => setImageError(true)}
+        recyclingKey={postId}
+      />
+    );
+  }
+
+  return (
+    <View style={[style as StyleProp<ViewStyle>, styles.noMediaPlaceholder]}>
+      <MaterialIcons name={isVideo ? 'video-library' : 'image'} size={28} color="#666" />
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  noMediaPlaceholder: {
+    backgroundColor: '#1a1a1a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default PostThumbnailImage;
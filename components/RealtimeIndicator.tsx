@@ -1,29 +1,43 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { useRealtime } from '@/lib/realtime-context';
+import type { RealtimeConnectionState } from '@/lib/websocket-service';
 import { MaterialIcons } from '@expo/vector-icons';
 
 interface RealtimeIndicatorProps {
   showText?: boolean;
 }
 
+const STATE_APPEARANCE: Record<
+  RealtimeConnectionState,
+  { color: string; icon: 'wifi' | 'wifi-off' | 'sync'; label: string }
+> = {
+  connected: { color: '#10b981', icon: 'wifi', label: 'Live' },
+  connecting: { color: '#f59e0b', icon: 'sync', label: 'Connecting' },
+  authenticating: { color: '#f59e0b', icon: 'sync', label: 'Connecting' },
+  reconnecting: { color: '#f59e0b', icon: 'sync', label: 'Reconnecting' },
+  waiting_for_network: { color: '#ef4444', icon: 'wifi-off', label: 'Offline' },
+  idle: { color: '#ef4444', icon: 'wifi-off', label: 'Offline' },
+};
+
 export const RealtimeIndicator: React.FC<RealtimeIndicatorProps> = ({ showText = false }) => {
-  const { isConnected } = useRealtime();
+  const { connectionState } = useRealtime();
+  const appearance = STATE_APPEARANCE[connectionState];
 
-  if (!showText && isConnected) {
+  if (!showText && connectionState === 'connected') {
     return null; // Don't show anything when connected and text is hidden
   }
 
   return (
-    <View style={[styles.container, { backgroundColor: isConnected ? '#10b981' : '#ef4444' }]}>
+    <View style={[styles.container, { backgroundColor: appearance.color }]}>
       <MaterialIcons 
-        name={isConnected ? 'wifi' : 'wifi-off'} 
+        name={appearance.icon} 
         size={12} 
         color="#fff" 
       />
       {showText && (
         <Text style={styles.text}>
-          {isConnected ? 'Live' : 'Offline'}
+          {appearance.label}
         </Text>
       )}
     </View>
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Feather } from '@expo/vector-icons';
+import { getScheduleTimeError, MIN_SCHEDULE_LEAD_MS } from '@/lib/scheduled-posts';
+import { formatChallengeDateTime, getCurrentTimeZoneLabel } from '@/lib/utils/challenge';
+
+const C = {
+  overlay: 'rgba(0,0,0,0.7)',
+  card: '#18181b',
+  cardBorder: '#27272a',
+  text: '#f3f4f6',
+  textSecondary: '#9ca3af',
+  primary: '#60a5fa',
+  danger: '#f87171',
+  cancelBg: 'rgba(255,255,255,0.1)',
+};
+
+const DEFAULT_LEAD_MS = 60 * 60 * 1000;
+
+interface SchedulePublishModalProps {
+  visible: boolean;
+  /** Current publish time when editing a schedule */
+  initialPublishAt?: string | null;
+  /** Shown under the title, e.g. the competition an entry joins */
+  subtitle?: string | null;
+  confirmLabel?: string;
+  onConfirm: (publishAt: Date) => void;
+  onCancel: () => void;
+}
+
+function getDefaultPublishAt(initialPublishAt?: string | null) {
+  const initial = initialPublishAt ? new Date(initialPublishAt) : null;
+  if (initial && !getScheduleTimeError(initial)) {
+    return initial;
+  }
+  // Next full quarter hour at least an hour away
+  const date = new Date(Date.now() + DEFAULT_LEAD_MS);
+  date.setMinutes(Math.ceil(date.getMinutes() / 15) * 15, 0, 0);
+  return date;
+}
+
+export function SchedulePublishModal({
+  visible,
+  initialPublishAt,
+  subtitle,
+  confirmLabel = 'Schedule',
+  onConfirm,
+  onCancel,
+}: SchedulePublishModalProps) {
+  const [publishAt, setPublishAt] = useState(() => getDefaultPublishAt(initialPublishAt));
+  // Android shows the date and time pickers one after the other
+  const [androidPicker, setAndroidPicker] = useState<'date' | 'time' | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setPublishAt(getDefaultPublishAt(initialPublishAt));
+      setAndroidPicker(null);
+    }
+  }, [visible, initialPublishAt]);
+
+  const error = getScheduleTimeError(publishAt);
+
+  const handlePickerChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS !== 'ios') {
+      if (event?.type === 'dismissed' || !selectedDate) {
+        setAndroidPicker(null);
+        return;
+      }
+      const next = new Date(publishAt);
+      if (androidPicker === 'date') {
+        next.setFullYear(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate());
+        setPublishAt(next);
+        setAndroidPicker('time');
+        return;
+      }
+      next.setHours(selectedDate.getHours(), selectedDate.getMinutes(), 0, 0);
+      setPublishAt(next);
+      setAndroidPicker(null);
+      return;
+    }
+    if (selectedDate) {
+      setPublishAt(selectedDate);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <TouchableOpacity activeOpacity={1} style={styles.overlay} onPress={onCancel}>
+        <TouchableOpacity activeOpacity={1} style={styles.card}>
+          <View style={styles.iconWrap}>
+            <Feather name="clock" size={28} color={C.primary} />
+          </View>
+          <Text style={styles.title}>Schedule publishing</Text>
+          {!!subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+
+          {Platform.OS === 'ios' ? (
+            <DateTimePicker
+              value={publishAt}
+              mode="datetime"
+              display="spinner"
+              onChange={handlePickerChange}
+              minimumDate={new Date(Date.now() + MIN_SCHEDULE_LEAD_MS)}
+              themeVariant="dark"
+            />
+          ) : (
+            <TouchableOpacity style={styles.dateButton} onPress={() => setAndroidPicker('date')} activeOpacity={0.8}>
+              <Text style={styles.dateText}>
+                {formatChallengeDateTime(publishAt, { month: 'short', includeTimeZone: false })}
+              </Text>
+              <Feather name="calendar" size={18} color={C.textSecondary} />
+            </TouchableOpacity>
+          )}
+          {androidPicker && (
+            <DateTimePicker
+              value={publishAt}
+              mode={androidPicker}
+              display="default"
+              onChange={handlePickerChange}
+              minimumDate={androidPicker === 'date' ? new Date() : undefined}
+            />
+          )}
+
+          <Text style={[styles.helperText, !!error && { color: C.danger }]}>
+            {error || `Publishes in your local time zone (${getCurrentTimeZoneLabel()}).`}
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.confirmButton, !!error && styles.confirmButtonDisabled]}
+            onPress={() => onConfirm(publishAt)}
+            disabled={!!error}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.confirmButtonText}>{confirmLabel}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel} activeOpacity={0.8}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: C.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: C.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: C.cardBorder,
+    paddingVertical: 24,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+  },
+  iconWrap: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: 'rgba(96,165,250,0.12)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: C.text,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: C.textSecondary,
+    textAlign: 'center',
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  dateButton: {
+    width: '100%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderColor: C.cardBorder,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    marginTop: 8,
+  },
+  dateText: {
+    color: C.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  helperText: {
+    fontSize: 12,
+    color: C.textSecondary,
+    textAlign: 'center',
+    marginTop: 10,
+    marginBottom: 20,
+  },
+  confirmButton: {
+    width: '100%',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: C.primary,
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  confirmButtonDisabled: {
+    opacity: 0.5,
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  cancelButton: {
+    width: '100%',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: C.cancelBg,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: C.text,
+  },
+});
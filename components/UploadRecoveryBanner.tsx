@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { directUploadRecovery, type UploadRecoveryState } from '@/lib/direct-upload-recovery';
+
+const AUTO_HIDE_MS = 4000;
+
+function formatEta(seconds: number) {
+  if (!seconds || !Number.isFinite(seconds)) return null;
+  if (seconds < 60) return `${Math.ceil(seconds)}s left`;
+  return `${Math.ceil(seconds / 60)} min left`;
+}
+
+function describe(recovery: UploadRecoveryState) {
+  switch (recovery.status) {
+    case 'uploading':
+      return ['Resuming your upload', [`${Math.round(recovery.percent)}%`, formatEta(recovery.etaSeconds)].filter(Boolean).join(' · ')];
+    case 'finalizing':
+      return ['Resuming your upload', 'Finishing up...'];
+    case 'done':
+      if (recovery.captionError) {
+        return ['Upload resumed', "It's processing now, but its captions weren't added. Retry them from Uploads."];
+      }
+      return ['Upload resumed', "It's processing now. We'll let you know when it's ready."];
+    default:
+      return ['Upload not resumed', recovery.message || 'Please try uploading again.'];
+  }
+}
+
+/** Shows the progress of direct uploads resumed at launch (see RootLayoutNav). */
+export function UploadRecoveryBanner() {
+  const insets = useSafeAreaInsets();
+  const [recovery, setRecovery] = useState<UploadRecoveryState | null>(directUploadRecovery.get());
+
+  useEffect(() => directUploadRecovery.subscribe(setRecovery), []);
+
+  const finished = recovery?.status === 'done' || recovery?.status === 'failed';
+  useEffect(() => {
+    if (!finished) return;
+    const timer = setTimeout(() => directUploadRecovery.dismiss(), AUTO_HIDE_MS);
+    return () => clearTimeout(timer);
+  }, [finished, recovery?.postId]);
+
+  if (!recovery) {
+    return null;
+  }
+
+  const [title, detail] = describe(recovery);
+
+  return (
+    <View pointerEvents="box-none" style={[styles.wrapper, { bottom: insets.bottom + 72 }]}>
+      <TouchableOpacity
+        activeOpacity={0.85}
+        disabled={!finished}
+        onPress={() => directUploadRecovery.dismiss()}
+        style={[styles.banner, recovery.status === 'failed' && styles.bannerFailed]}
+      >
+        <View style={styles.iconWrap}>
+          {finished ? (
+            <Feather name={recovery.status === 'done' ? 'check' : 'alert-circle'} size={16} color="#fff" />
+          ) : (
+            <ActivityIndicator size="small" color="#fff" />
+          )}
+        </View>
+        <View style={styles.textWrap}>
+          <Text style={styles.title} numberOfLines={1}>
+            {title}{recovery.title ? ` · ${recovery.title}` : ''}
+          </Text>
+          <Text style={styles.detail} numberOfLines={2}>{detail}</Text>
+          {recovery.status === 'uploading' && (
+            <View style={styles.track}>
+              <View style={[styles.fill, { width: `${Math.min(100, Math.max(0, recovery.percent))}%` }]} />
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    zIndex: 999,
+    alignItems: 'center',
+    paddingHorizontal: 12,
+  },
+  banner: {
+    width: '100%',
+    minHeight: 52,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#1f2937',
+    shadowColor: '#000',
+    shadowOpacity: 0.22,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 6,
+  },
+  bannerFailed: {
+    backgroundColor: '#b91c1c',
+  },
+  iconWrap: {
+    width: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  textWrap: {
+    flex: 1,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  detail: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  track: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: '#60a5fa',
+  },
+});
+
+export default UploadRecoveryBanner;
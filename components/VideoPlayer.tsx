@@ -6,6 +6,12 @@ import { useVideoMute } from '@/lib/hooks/use-video-mute';
 import { useAppActive } from '@/lib/hooks/use-app-active';
 import { enterPlaybackMode } from '@/lib/media/audio-session';
 import { getVideoSource } from '@/lib/utils/video-source';
+import { getCappedPlaybackUrl } from '@/lib/utils/hls-variants';
+import { useDataPolicy } from '@/lib/hooks/use-data-policy';
+import { useCaptionSettings } from '@/lib/hooks/use-caption-settings';
+import { useCaptionTrack } from '@/lib/hooks/use-caption-track';
+import { CaptionOverlay } from '@/components/CaptionOverlay';
+import { CaptionToggleButton } from '@/components/CaptionToggleButton';
 
 const VIDEO_OVERLAY_ANIMATION_USES_NATIVE_DRIVER = false;
 
@@ -19,6 +25,8 @@ interface VideoPlayerProps {
   isMuted?: boolean;
   onPress?: () => void;
   showMuteToggle?: boolean;
+  /** Sidecar WebVTT track; HLS sources also pick up their subtitle rendition */
+  subtitleUrl?: string | null;
   testID?: string;
 }
 
@@ -36,6 +44,7 @@ export const VideoPlayer = ({
   isMuted: initialMuted,
   onPress,
   showMuteToggle = true,
+  subtitleUrl,
   testID,
 }: VideoPlayerProps) => {
   const { isMuted, toggleMute } = useVideoMute();
@@ -44,7 +53,18 @@ export const VideoPlayer = ({
 
   // Resolve source URI
   const uri = typeof source === 'string' ? source : source?.uri || '';
-  const videoSource = React.useMemo(() => (uri ? getVideoSource(uri) : null), [uri]);
+  const { maxVideoHeight } = useDataPolicy();
+  const videoSource = React.useMemo(
+    () => (uri ? getVideoSource(getCappedPlaybackUrl(uri, maxVideoHeight)) : null),
+    [uri, maxVideoHeight],
+  );
+
+  const captionSource = React.useMemo(
+    () => ({ id: `${uri}|${subtitleUrl ?? ''}`, type: 'video', hlsReady: true, hls_url: uri, subtitle_url: subtitleUrl }),
+    [uri, subtitleUrl],
+  );
+  const captionTrack = useCaptionTrack(captionSource, !!uri);
+  const { enabled: captionsEnabled } = useCaptionSettings();
 
   const effectiveIsMuted = initialMuted !== undefined ? initialMuted : isMuted;
 
@@ -56,6 +76,8 @@ export const VideoPlayer = ({
     }
   });
 
+  const getCurrentTime = React.useCallback(() => player?.currentTime ?? 0, [player]);
+
   // Sync mute state
   React.useEffect(() => {
     if (player) {
@@ -116,6 +138,15 @@ export const VideoPlayer = ({
           nativeControls={nativeControls}
         />
 
+        {captionTrack && captionsEnabled && (
+          <CaptionOverlay
+            cues={captionTrack.cues}
+            getCurrentTime={getCurrentTime}
+            active={shouldPlay && isAppActive}
+            style={styles.captionOverlay}
+          />
+        )}
+
         {/* Mute indicator overlay */}
         {showMuteToggle && (
           <View style={styles.muteIndicatorContainer}>
@@ -129,6 +160,8 @@ export const VideoPlayer = ({
           </View>
         )}
       </TouchableOpacity>
+
+      {captionTrack && <CaptionToggleButton style={styles.captionToggle} />}
     </View>
   );
 };
@@ -146,6 +179,20 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  captionOverlay: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+  },
+  captionToggle: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    padding: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
   muteIndicatorContainer: {
     position: 'absolute',
     top: 0,
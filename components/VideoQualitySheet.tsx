@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, ActivityIndicator } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { useCache } from '@/lib/cache-context';
+import { useVideoQuality } from '@/lib/hooks/use-video-quality';
+import { VIDEO_QUALITY_OPTIONS, getPlaybackSelection, type VideoQualityPreference } from '@/lib/video-quality';
+import { getHlsVariants, loadHlsVariants, selectHlsVariant, type HlsVariant } from '@/lib/utils/hls-variants';
+
+const C = {
+  overlay: 'rgba(0,0,0,0.7)',
+  card: '#1f2937',
+  cardBorder: '#374151',
+  text: '#f3f4f6',
+  textSecondary: '#9ca3af',
+  accent: '#60a5fa',
+  divider: 'rgba(255,255,255,0.08)',
+};
+
+interface VideoQualitySheetProps {
+  visible: boolean;
+  /** Master playlist of the video being watched */
+  playbackUrl: string | null;
+  onClose: () => void;
+}
+
+function formatBitrate(bandwidth: number) {
+  if (bandwidth <= 0) return null;
+  return bandwidth >= 1_000_000
+    ? `${(bandwidth / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bandwidth / 1_000)} kbps`;
+}
+
+function describeVariant(variant: HlsVariant | null) {
+  if (!variant) return null;
+  const label = variant.height ? `${variant.height}p` : variant.name;
+  return [label, formatBitrate(variant.bandwidth)].filter(Boolean).join(' · ');
+}
+
+/** Auto / 360p / 720p / 1080p picker for HLS playback; the choice applies to every video. */
+export function VideoQualitySheet({ visible, playbackUrl, onClose }: VideoQualitySheetProps) {
+  const { updatePreferences } = useCache();
+  const { preference } = useVideoQuality();
+  const [variants, setVariants] = useState<HlsVariant[] | null>(() => (playbackUrl ? getHlsVariants(playbackUrl) : null));
+
+  useEffect(() => {
+    if (!visible || !playbackUrl) return;
+    let cancelled = false;
+    setVariants(getHlsVariants(playbackUrl));
+    void loadHlsVariants(playbackUrl).then((loaded) => {
+      if (!cancelled) setVariants(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [playbackUrl, visible]);
+
+  const describeOption = (value: VideoQualityPreference) => {
+    if (!variants || variants.length === 0) return null;
+    const optionSelection = getPlaybackSelection(value);
+    if (optionSelection.maxHeight === null) {
+      return 'Adjusts to your connection';
+    }
+    const variant = selectHlsVariant(variants, optionSelection.maxHeight);
+    if (value === 'auto') {
+      const cappedBelowBest = variants.some((candidate) => (candidate.height ?? 0) > optionSelection.maxHeight!);
+      return cappedBelowBest ? `Up to ${describeVariant(variant)} (data usage setting)` : 'Adjusts to your connection';
+    }
+    return describeVariant(variant);
+  };
+
+  const handleSelect = (value: VideoQualityPreference) => {
+    void updatePreferences({ videoQuality: value });
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity activeOpacity={1} style={styles.overlay} onPress={onClose}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Video quality</Text>
+          {variants === null && (
+            <ActivityIndicator size="small" color={C.accent} style={styles.loader} />
+          )}
+          {VIDEO_QUALITY_OPTIONS.map((option, index) => {
+            const selected = option.value === preference;
+            const detail = describeOption(option.value);
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.row, index > 0 && styles.rowBorder]}
+                onPress={() => handleSelect(option.value)}
+                activeOpacity={0.7}
+              >
+                <View style={styles.rowText}>
+                  <Text style={[styles.rowLabel, selected && { color: C.accent }]}>{option.label}</Text>
+                  {detail ? <Text style={styles.rowDetail}>{detail}</Text> : null}
+                </View>
+                {selected && <Feather name="check" size={18} color={C.accent} />}
+              </TouchableOpacity>
+            );
+          })}
+          {variants !== null && variants.length === 0 && (
+            <Text style={styles.note}>This video is available in one quality only.</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: C.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 320,
+    backgroundColor: C.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: C.cardBorder,
+    paddingVertical: 20,
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: C.text,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  loader: {
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: C.divider,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: C.text,
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: C.textSecondary,
+    marginTop: 2,
+  },
+  note: {
+    fontSize: 12,
+    color: C.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default VideoQualitySheet;
@@ -1,4 +1,4 @@
-import axios, { AxiosError } from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { API_BASE_URL } from './config';
 import { authEventEmitter } from './auth-event-emitter';
@@ -14,10 +14,130 @@ export const apiClient = axios.create({
   },
 });
 
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _authRetried?: boolean };
+
+// Auth endpoints never trigger a refresh: a 401 there is a real credential failure
+const NO_REFRESH_PATHS = ['/api/auth/login', '/api/auth/refresh-token', '/api/auth/register'];
+
+let refreshInFlight: Promise<string | null> | null = null;
+let sessionEndInFlight: Promise<void> | null = null;
+
+async function clearStoredAuth() {
+  await AsyncStorage.multiRemove(['talynk_token', 'talynk_refresh_token', 'talynk_user']);
+}
+
+function isAccountSuspended(error: unknown): boolean {
+  const response = (error as AxiosError)?.response;
+  return response?.status === 403 && (response.data as any)?.code === 'account_suspended';
+}
+
+/** Sign out with the suspension reason, so the app can show why instead of a plain sign-out. */
+async function endSuspendedSession(error: AxiosError) {
+  const responseData = error.response?.data as any;
+  const reason = responseData?.reason || responseData?.message || undefined;
+  try {
+    await clearStoredAuth();
+    authEventEmitter.emitAccountSuspended(reason);
+  } catch (storageError) {
+    // Silently handle storage errors
+  }
+}
+
+/**
+ * Sign out after a 401 the refresh could not recover. Only the session the
+ * request was sent with is ended, so a burst of failed requests (or one that
+ * raced a token rotation) signs the user out once.
+ */
+function endSession(sentAuthorization: string): Promise<void> {
+  if (!sessionEndInFlight) {
+    sessionEndInFlight = (async () => {
+      const token = await AsyncStorage.getItem('talynk_token');
+      if (!token || `Bearer ${token}` !== sentAuthorization) {
+        return;
+      }
+      await clearStoredAuth();
+      authEventEmitter.emitUnauthorized();
+    })()
+      .catch(() => {
+        // Silently handle storage errors
+      })
+      .finally(() => {
+        sessionEndInFlight = null;
+      });
+  }
+  return sessionEndInFlight;
+}
+
+async function performTokenRefresh(): Promise<string | null> {
+  const refreshToken = await AsyncStorage.getItem('talynk_refresh_token');
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    // Bare axios call so the refresh request itself never re-enters the interceptors
+    const response = await axios.post(
+      `${API_BASE_URL}/api/auth/refresh-token`,
+      null,
+      {
+        timeout: 15000,
+        headers: { Authorization: `Bearer ${refreshToken}` },
+      },
+    );
+    const data = response.data?.data;
+    const accessToken: string | undefined = data?.accessToken;
+    if (response.data?.status !== 'success' || !accessToken) {
+      return null;
+    }
+
+    await AsyncStorage.setItem('talynk_token', accessToken);
+    if (typeof data?.refreshToken === 'string' && data.refreshToken) {
+      await AsyncStorage.setItem('talynk_refresh_token', data.refreshToken);
+    }
+    authEventEmitter.emitTokenRefreshed(accessToken);
+    return accessToken;
+  } catch (error) {
+    // A network failure is not proof the session is dead; let the caller decide
+    if (isNetworkError(error)) {
+      throw error;
+    }
+    // Storage is cleared here, so the caller's sign-out finds no session left to end
+    if (isAccountSuspended(error)) {
+      await endSuspendedSession(error as AxiosError);
+    }
+    return null;
+  }
+}
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ * Concurrent callers share a single in-flight refresh, so a burst of 401s
+ * results in exactly one refresh request. Resolves to null when the session
+ * cannot be refreshed.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = performTokenRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+function shouldAttemptRefresh(config?: RetriableRequestConfig): config is RetriableRequestConfig {
+  if (!config || config._authRetried) return false;
+  const url = config.url || '';
+  return !NO_REFRESH_PATHS.some((path) => url.includes(path));
+}
+
 // Request interceptor to add auth token
 apiClient.interceptors.request.use(
   async (config) => {
     try {
+      // Requests queued behind a refresh pick up the rotated token
+      if (refreshInFlight) {
+        await refreshInFlight.catch(() => null);
+      }
       const token = await AsyncStorage.getItem('talynk_token');
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
@@ -41,31 +161,36 @@ apiClient.interceptors.response.use(
   },
   async (error: AxiosError) => {
     // Handle 403 Account Suspended
-    if (error.response?.status === 403) {
-      const responseData = error.response?.data as any;
-      if (responseData?.code === 'account_suspended') {
-        const reason = responseData?.reason || responseData?.message || undefined;
+    if (isAccountSuspended(error)) {
+      await endSuspendedSession(error);
+      return Promise.reject(error);
+    }
+
+    // Handle 401 Unauthorized: refresh once, replay, and only log out if the refresh fails
+    if (error.response?.status === 401) {
+      const originalConfig = error.config as RetriableRequestConfig | undefined;
+      const sentAuthorization = originalConfig?.headers?.Authorization;
+
+      if (sentAuthorization && shouldAttemptRefresh(originalConfig)) {
+        originalConfig._authRetried = true;
+        let newToken: string | null = null;
         try {
-          await AsyncStorage.removeItem('talynk_token');
-          await AsyncStorage.removeItem('talynk_user');
-          authEventEmitter.emitAccountSuspended(reason);
-        } catch (storageError) {
-          // Silently handle storage errors
+          newToken = await refreshAccessToken();
+        } catch {
+          // Refresh could not reach the server; keep the session and surface the original error
+          return Promise.reject(error);
+        }
+
+        if (newToken) {
+          originalConfig.headers.Authorization = `Bearer ${newToken}`;
+          return apiClient(originalConfig);
         }
-        return Promise.reject(error);
       }
-    }
 
-    // Handle 401 Unauthorized
-    if (error.response?.status === 401) {
-      // Token expired, clear storage and notify auth context
-      try {
-        await AsyncStorage.removeItem('talynk_token');
-        await AsyncStorage.removeItem('talynk_user');
-        // Emit event so auth context can update state
-        authEventEmitter.emitUnauthorized();
-      } catch (storageError) {
-        // Silently handle storage errors
+      // Session is unrecoverable: clear storage and notify auth context.
+      // Guest requests carry no session, so their 401s leave auth state alone.
+      if (sentAuthorization) {
+        await endSession(String(sentAuthorization));
       }
     }
     
@@ -0,0 +1,331 @@
+/**
+ * Response contracts for the endpoints lib/api.ts used to return as `any`.
+ *
+ * Each schema declares the fields the app reads, with the legacy names the
+ * backend has used for them. `parseApiResponse` validates a response envelope
+ * at the API boundary: callers get typed data with fallbacks filled in, and
+ * development builds report any mismatch (see ./violations).
+ */
+import type { ApiResponse } from '../../types';
+import { count } from './legacy-fields';
+import {
+  aliased,
+  array,
+  boolean,
+  isRecord,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  parse,
+  string,
+  withDefault,
+  type ContractIssue,
+  type Infer,
+  type Schema,
+} from './schema';
+import { reportContractViolations } from './violations';
+
+export * from './schema';
+export * from './legacy-fields';
+export * from './violations';
+
+// ---------------------------------------------------------------------------
+// Shared
+// ---------------------------------------------------------------------------
+
+export const UserRefSchema = object({
+  id: string(),
+  username: optional(string()),
+  name: optional(aliased(string(), 'display_name', 'fullName')),
+  profile_picture: optional(aliased(string(), 'avatar', 'profilePicture')),
+  avatar: optional(string()),
+});
+export type UserRef = Infer<typeof UserRefSchema>;
+
+export const PaginationSchema = object({
+  page: optional(aliased(number(), 'currentPage')),
+  limit: optional(number()),
+  total: optional(aliased(number(), 'totalCount', 'total_count')),
+  totalPages: optional(aliased(number(), 'total_pages', 'pages')),
+  hasMore: optional(aliased(boolean(), 'hasNextPage', 'hasNext', 'has_next_page', 'has_next')),
+});
+export type Pagination = Infer<typeof PaginationSchema>;
+
+/** Bodies of mutations the app only checks `status` on. */
+export const AcknowledgementSchema = withDefault(object({}), {});
+export type Acknowledgement = Infer<typeof AcknowledgementSchema>;
+
+// ---------------------------------------------------------------------------
+// Comments
+// ---------------------------------------------------------------------------
+
+export const CommentSchema = object({
+  id: aliased(string(), 'comment_id'),
+  commentor_id: optional(aliased(string(), 'user_id')),
+  comment_text: aliased(withDefault(string(), ''), 'content', 'text'),
+  content: optional(string()),
+  comment_date: optional(aliased(string(), 'createdAt', 'created_at')),
+  createdAt: optional(string()),
+  user: optional(aliased(UserRefSchema, 'User', 'commentor')),
+  // Only on placeholders for comments waiting in the offline outbox
+  pending: optional(boolean()),
+  clientId: optional(string()),
+});
+export type ApiComment = Infer<typeof CommentSchema>;
+
+export const CommentCreatedSchema = object({
+  comment: nullable(CommentSchema),
+  queued: optional(boolean()),
+  retryable: optional(boolean()),
+});
+
+export const CommentListSchema = object({
+  comments: withDefault(array(CommentSchema), []),
+  pagination: optional(PaginationSchema),
+});
+
+// ---------------------------------------------------------------------------
+// Follows
+// ---------------------------------------------------------------------------
+
+export const FollowUserSchema = object({
+  id: string(),
+  username: optional(string()),
+  profile_picture: nullable(string()),
+  isVerified: withDefault(boolean(), false),
+  isFollowing: withDefault(boolean(), false),
+});
+export type FollowUser = Infer<typeof FollowUserSchema>;
+
+export const FollowStatusSchema = object({
+  isFollowing: aliased(withDefault(boolean(), false), 'following', 'is_following'),
+  followingId: optional(string()),
+});
+
+export const FollowMutationSchema = object({
+  isFollowing: optional(boolean()),
+  followingId: optional(string()),
+  queued: optional(boolean()),
+  retryable: optional(boolean()),
+});
+export type FollowMutation = Infer<typeof FollowMutationSchema>;
+
+export const FollowersPageSchema = object({
+  followers: withDefault(array(FollowUserSchema), []),
+  hasMore: withDefault(boolean(), false),
+  totalCount: withDefault(number(), 0),
+});
+
+export const FollowingPageSchema = object({
+  following: withDefault(array(FollowUserSchema), []),
+  hasMore: withDefault(boolean(), false),
+  totalCount: withDefault(number(), 0),
+});
+
+// ---------------------------------------------------------------------------
+// Reports, appeals, support
+// ---------------------------------------------------------------------------
+
+export const PostReportSchema = object({
+  id: string(),
+  reason: string(),
+  description: optional(string()),
+  user_id: optional(string()),
+  createdAt: optional(aliased(string(), 'created_at')),
+  reporter: optional(aliased(UserRefSchema, 'user')),
+});
+export type PostReport = Infer<typeof PostReportSchema>;
+
+export const PostReportListSchema = object({
+  reports: withDefault(array(PostReportSchema), []),
+});
+
+export const ReportSubmissionSchema = object({
+  report: optional(PostReportSchema),
+  postReportCount: optional(number()),
+  isFrozen: withDefault(boolean(), false),
+});
+
+export const APPEAL_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export const AppealSchema = object({
+  id: aliased(string(), 'appeal_id'),
+  postId: aliased(withDefault(string(), ''), 'post_id'),
+  reason: aliased(withDefault(string(), ''), 'appeal_reason', 'appealReason'),
+  additionalInfo: optional(aliased(string(), 'additional_info')),
+  status: withDefault(literal(APPEAL_STATUSES, 'pending'), 'pending'),
+  adminResponse: optional(aliased(string(), 'admin_notes', 'admin_response')),
+  createdAt: optional(aliased(string(), 'created_at')),
+  updatedAt: optional(aliased(string(), 'updated_at', 'reviewed_at')),
+  post: optional(
+    object({
+      id: string(),
+      title: optional(string()),
+      description: optional(string()),
+      status: optional(string()),
+    }),
+  ),
+});
+export type Appeal = Infer<typeof AppealSchema>;
+
+export const AppealSubmissionSchema = object({
+  appeal: optional(AppealSchema),
+});
+
+export const AppealListSchema = object({
+  appeals: withDefault(array(AppealSchema), []),
+  pagination: optional(PaginationSchema),
+});
+
+export const SupportIssueSchema = object({
+  id: string(),
+  subject: withDefault(string(), ''),
+  message: withDefault(string(), ''),
+  category: optional(string()),
+  status: optional(string()),
+  admin_response: optional(aliased(string(), 'adminResponse')),
+  createdAt: optional(aliased(string(), 'created_at')),
+  updatedAt: optional(aliased(string(), 'updated_at')),
+});
+export type SupportIssue = Infer<typeof SupportIssueSchema>;
+
+export const SupportIssueSubmissionSchema = object({
+  issue: optional(SupportIssueSchema),
+});
+
+export const SupportIssueListSchema = object({
+  issues: withDefault(array(SupportIssueSchema), []),
+  pagination: optional(PaginationSchema),
+});
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+export const SessionSchema = object({
+  id: string(),
+  device_fingerprint_id: optional(string()),
+  user_agent: optional(string()),
+  ip_address: optional(string()),
+  created_at: optional(aliased(string(), 'createdAt')),
+  last_active_at: optional(aliased(string(), 'lastActiveAt')),
+  revoked_at: nullable(aliased(string(), 'revokedAt')),
+});
+export type Session = Infer<typeof SessionSchema>;
+
+export const SessionListSchema = object({
+  sessions: withDefault(array(SessionSchema), []),
+});
+
+// ---------------------------------------------------------------------------
+// Challenges
+// ---------------------------------------------------------------------------
+
+export const ChallengeSchema = object({
+  id: string(),
+  name: withDefault(aliased(string(), 'title'), ''),
+  description: optional(string()),
+  status: withDefault(string(), 'pending'),
+  has_rewards: withDefault(boolean(), false),
+  rewards: optional(string()),
+  organizer_id: optional(string()),
+  organizer_name: withDefault(string(), ''),
+  organizer_contact: optional(string()),
+  contact_email: optional(string()),
+  start_date: aliased(string(), 'startDate'),
+  end_date: aliased(string(), 'endDate'),
+  min_content_per_account: optional(number()),
+  max_content_per_account: optional(number()),
+  max_winners: optional(number()),
+  scoring_criteria: optional(string()),
+  eligibility_criteria: optional(string()),
+  what_you_do: optional(string()),
+  rejection_reason: optional(string()),
+  winners_confirmed_at: nullable(string()),
+  is_ended: optional(aliased(boolean(), 'isEnded')),
+  is_currently_active: optional(boolean()),
+  is_participant: optional(boolean()),
+  participants_count: optional(count('participants')),
+  posts_count: optional(count('posts')),
+  _count: optional(object({ participants: optional(number()), posts: optional(number()) })),
+  organizer: optional(UserRefSchema),
+  createdAt: optional(aliased(string(), 'created_at')),
+  updatedAt: optional(aliased(string(), 'updated_at')),
+});
+export type Challenge = Infer<typeof ChallengeSchema>;
+
+export const ChallengeListSchema = array(ChallengeSchema);
+
+export const ChallengeParticipantSchema = object({
+  id: optional(string()),
+  user_id: string(),
+  challenge_id: optional(string()),
+  joined_at: optional(string()),
+  post_count: withDefault(number(), 0),
+  user: optional(UserRefSchema),
+});
+export type ChallengeParticipant = Infer<typeof ChallengeParticipantSchema>;
+
+export const ParticipantRankingSchema = object({
+  user_id: string(),
+  user: optional(UserRefSchema),
+  total_posts: withDefault(number(), 0),
+  total_likes: withDefault(number(), 0),
+  latest_submission_at: nullable(string()),
+  winner_rank: nullable(number()),
+});
+export type ParticipantRanking = Infer<typeof ParticipantRankingSchema>;
+
+export const ChallengeWinnerPostSchema = object({
+  challenge_post_id: optional(string()),
+  post_id: optional(string()),
+  likes_during_challenge: withDefault(number(), 0),
+  total_likes: withDefault(number(), 0),
+  winner_rank: nullable(number()),
+  submitted_at: optional(string()),
+});
+
+export const ChallengeWinnerSchema = object({
+  user_id: string(),
+  user: optional(UserRefSchema),
+  total_winner_posts: withDefault(number(), 0),
+  total_likes_during_challenge: withDefault(number(), 0),
+  winner_rank: nullable(number()),
+  latest_submission_at: nullable(string()),
+  posts: withDefault(array(ChallengeWinnerPostSchema), []),
+  is_winner: withDefault(boolean(), false),
+});
+export type ChallengeWinner = Infer<typeof ChallengeWinnerSchema>;
+
+// ---------------------------------------------------------------------------
+// Boundary
+// ---------------------------------------------------------------------------
+
+const STATUSES = ['success', 'error'] as const;
+
+/**
+ * Validate a `{ status, message, data }` envelope. Error bodies are not checked
+ * against the data schema; they only get its fallback.
+ */
+export function parseApiResponse<T>(endpoint: string, dataSchema: Schema<T>, body: unknown): ApiResponse<T> {
+  const issues: ContractIssue[] = [];
+  if (!isRecord(body)) {
+    issues.push({ path: '', expected: 'object', received: body === null ? 'null' : typeof body });
+  }
+  const envelope = isRecord(body) ? body : {};
+  const status = literal(STATUSES, 'error').parse(envelope.status, 'status', issues);
+  const message = typeof envelope.message === 'string' ? envelope.message : '';
+  const data = dataSchema.parse(envelope.data, 'data', status === 'success' ? issues : []);
+
+  reportContractViolations(endpoint, issues);
+  return { status, message, data };
+}
+
+/** Validate a value that was already pulled out of its envelope (e.g. a bare list). */
+export function parseApiData<T>(endpoint: string, schema: Schema<T>, value: unknown, path = 'data'): T {
+  const result = parse(schema, value, path);
+  reportContractViolations(endpoint, result.issues);
+  return result.value;
+}
@@ -0,0 +1,37 @@
+import { aliased, number, withDefault, type Schema } from './schema';
+
+/**
+ * Every name a counter has shipped under, canonical name first. Older
+ * endpoints, the feed pipeline and websocket payloads disagree, so anything
+ * reading a count goes through this table instead of its own `??` chain.
+ */
+export const LEGACY_COUNT_FIELDS = {
+  likes: ['likes', 'likesCount', 'like_count', 'likeCount'],
+  comments: ['comments_count', 'commentsCount', 'comment_count', 'commentCount'],
+  views: ['views', 'view_count', 'viewCount', 'views_count'],
+  shares: ['shares', 'share_count', 'shareCount', 'shares_count'],
+  followers: ['followers_count', 'followersCount', 'follower_count'],
+  following: ['following_count', 'followingCount'],
+  posts: ['posts_count', 'postsCount', 'post_count'],
+  participants: ['participants_count', 'participantsCount', 'participant_count'],
+} as const;
+
+export type LegacyCountField = keyof typeof LEGACY_COUNT_FIELDS;
+
+/** First numeric value present under any of the field's names. */
+export function readLegacyCount(source: unknown, field: LegacyCountField): number | undefined {
+  if (typeof source !== 'object' || source === null) return undefined;
+  const record = source as Record<string, unknown>;
+  for (const key of LEGACY_COUNT_FIELDS[field]) {
+    const value = record[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  }
+  return undefined;
+}
+
+/** Schema for a counter declared under its canonical name; legacy names are read when it is missing. */
+export function count(field: LegacyCountField): Schema<number> {
+  const [, ...aliases] = LEGACY_COUNT_FIELDS[field];
+  return aliased(withDefault(number(), 0), ...aliases);
+}
@@ -0,0 +1,165 @@
+/**
+ * Minimal runtime schemas for API responses.
+ *
+ * Parsing never throws: a value that does not match is replaced by a safe
+ * fallback and an issue is recorded, so a backend change degrades a screen
+ * instead of crashing it. Unknown object keys are kept at runtime but are not
+ * part of the inferred type.
+ */
+
+export interface ContractIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  /** Legacy key names this field may arrive under, tried after the declared key. */
+  readonly aliases?: readonly string[];
+  parse(value: unknown, path: string, issues: ContractIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+export type ObjectOf<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+export function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function schema<T>(expected: string, parse: Schema<T>['parse']): Schema<T> {
+  return { expected, parse };
+}
+
+function mismatch<T>(issues: ContractIssue[], path: string, expected: string, value: unknown, fallback: T): T {
+  issues.push({ path, expected, received: describeValue(value) });
+  return fallback;
+}
+
+/** Numeric ids are accepted and stringified; the backend mixes both. */
+export function string(): Schema<string> {
+  return schema('string', (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    return mismatch(issues, path, 'string', value, '');
+  });
+}
+
+/** Numeric strings (Postgres counts, decimals) are coerced. */
+export function number(): Schema<number> {
+  return schema('number', (value, path, issues) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+    return mismatch(issues, path, 'number', value, 0);
+  });
+}
+
+export function boolean(): Schema<boolean> {
+  return schema('boolean', (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 1) return true;
+    if (value === 'false' || value === 0) return false;
+    return mismatch(issues, path, 'boolean', value, false);
+  });
+}
+
+/** Any value, passed through untouched. For payloads the app forwards without reading. */
+export function unknown(): Schema<unknown> {
+  return schema('unknown', (value) => value);
+}
+
+export function literal<const V extends string>(values: readonly V[], fallback: V): Schema<V> {
+  const expected = values.map((value) => `'${value}'`).join(' | ');
+  return schema(expected, (value, path, issues) => {
+    if (typeof value === 'string' && (values as readonly string[]).includes(value)) return value as V;
+    return mismatch(issues, path, expected, value, fallback);
+  });
+}
+
+/** Missing (`undefined` or `null`) is fine; anything else must match. */
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${inner.expected} | undefined`,
+    aliases: inner.aliases,
+    parse: (value, path, issues) => (value === undefined || value === null ? undefined : inner.parse(value, path, issues)),
+  };
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${inner.expected} | null`,
+    aliases: inner.aliases,
+    parse: (value, path, issues) => (value === undefined || value === null ? null : inner.parse(value, path, issues)),
+  };
+}
+
+/** Missing values take `fallback` without being reported. */
+export function withDefault<T>(inner: Schema<T>, fallback: T): Schema<T> {
+  return {
+    expected: inner.expected,
+    aliases: inner.aliases,
+    parse: (value, path, issues) => (value === undefined || value === null ? fallback : inner.parse(value, path, issues)),
+  };
+}
+
+/** Read the field from the first of `aliases` present when the declared key is missing. */
+export function aliased<T>(inner: Schema<T>, ...aliases: string[]): Schema<T> {
+  return { ...inner, aliases: [...(inner.aliases ?? []), ...aliases] };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return schema(`${item.expected}[]`, (value, path, issues) => {
+    if (!Array.isArray(value)) return mismatch(issues, path, `${item.expected}[]`, value, []);
+    return value.map((entry, index) => item.parse(entry, `${path}[${index}]`, issues));
+  });
+}
+
+function readField(source: Record<string, unknown>, key: string, field: Schema<unknown>): unknown {
+  if (source[key] !== undefined) return source[key];
+  for (const alias of field.aliases ?? []) {
+    if (source[alias] !== undefined) return source[alias];
+  }
+  return undefined;
+}
+
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return schema('object', (value, path, issues) => {
+    let source: Record<string, unknown>;
+    let fieldIssues = issues;
+    if (isRecord(value)) {
+      source = value;
+    } else {
+      mismatch(issues, path, 'object', value, null);
+      // One issue for the whole object; its fields just take their fallbacks
+      source = {};
+      fieldIssues = [];
+    }
+
+    const result: Record<string, unknown> = { ...source };
+    for (const key of Object.keys(shape)) {
+      const field = shape[key];
+      result[key] = field.parse(readField(source, key, field), path ? `${path}.${key}` : key, fieldIssues);
+    }
+    return result as ObjectOf<S>;
+  });
+}
+
+/** Parse a standalone value, collecting issues. */
+export function parse<T>(target: Schema<T>, value: unknown, path = ''): { value: T; issues: ContractIssue[] } {
+  const issues: ContractIssue[] = [];
+  return { value: target.parse(value, path, issues), issues };
+}
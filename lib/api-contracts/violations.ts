@@ -0,0 +1,54 @@
+import type { ContractIssue } from './schema';
+
+export interface ContractViolation extends ContractIssue {
+  endpoint: string;
+  count: number;
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+// Keyed by endpoint + path so a broken list reports once, not once per row
+const violations = new Map<string, ContractViolation>();
+
+function normalizePath(path: string): string {
+  return path.replace(/\[\d+\]/g, '[]');
+}
+
+/** Development builds only: record issues and warn the first time each one is seen. */
+export function reportContractViolations(endpoint: string, issues: ContractIssue[]): void {
+  if (!__DEV__ || issues.length === 0) return;
+
+  const now = Date.now();
+  issues.forEach((issue) => {
+    const path = normalizePath(issue.path);
+    const key = `${endpoint} ${path} ${issue.received}`;
+    const existing = violations.get(key);
+    if (existing) {
+      existing.count += 1;
+      existing.lastSeenAt = now;
+      return;
+    }
+    violations.set(key, { ...issue, path, endpoint, count: 1, firstSeenAt: now, lastSeenAt: now });
+    console.warn(`[API contract] ${endpoint}: ${path || '<root>'} expected ${issue.expected}, received ${issue.received}`);
+  });
+}
+
+/** Everything recorded this session, most frequent first. */
+export function getContractViolationReport(): ContractViolation[] {
+  return Array.from(violations.values()).sort((a, b) => b.count - a.count);
+}
+
+export function logContractViolationReport(): void {
+  const report = getContractViolationReport();
+  if (report.length === 0) {
+    console.log('[API contract] No violations recorded');
+    return;
+  }
+  console.table(
+    report.map(({ endpoint, path, expected, received, count }) => ({ endpoint, path, expected, received, count })),
+  );
+}
+
+export function clearContractViolations(): void {
+  violations.clear();
+}
@@ -17,6 +17,42 @@ import {
 } from '../types';
 import { normalizePost } from './utils/normalize-post';
 import { getDeviceFingerprint } from './device-fingerprint';
+import {
+  AcknowledgementSchema,
+  AppealListSchema,
+  AppealSubmissionSchema,
+  ChallengeListSchema,
+  ChallengeParticipantSchema,
+  ChallengeSchema,
+  ChallengeWinnerSchema,
+  CommentCreatedSchema,
+  CommentListSchema,
+  FollowersPageSchema,
+  FollowingPageSchema,
+  FollowMutationSchema,
+  FollowStatusSchema,
+  PaginationSchema,
+  ParticipantRankingSchema,
+  PostReportListSchema,
+  ReportSubmissionSchema,
+  SessionListSchema,
+  SupportIssueListSchema,
+  SupportIssueSubmissionSchema,
+  array,
+  nullable,
+  parseApiData,
+  parseApiResponse,
+  readLegacyCount,
+  type Acknowledgement,
+  type Challenge,
+  type ChallengeParticipant,
+  type ChallengeWinner,
+  type FollowMutation,
+  type Infer,
+  type Pagination,
+  type ParticipantRanking,
+  type PostReport,
+} from './api-contracts';
 
 async function retryApiRequest<T>(
   request: () => Promise<T>,
@@ -63,11 +99,43 @@ function extractJoinedChallenges(apiResponse: any) {
     .filter((challenge: any) => challenge && challenge.id);
 
   return {
-    challenges,
-    pagination: apiResponse?.pagination || data?.pagination || {},
+    challenges: parseApiData('GET /api/challenges/joined', ChallengeListSchema, challenges),
+    pagination: parseApiData('GET /api/challenges/joined', PaginationSchema, apiResponse?.pagination || data?.pagination || {}, 'pagination'),
+  };
+}
+
+// Challenge list endpoints put the array in `data` and the pagination beside it
+function parseChallengeList(endpoint: string, apiResponse: any): { challenges: Challenge[]; pagination: Pagination } {
+  return {
+    challenges: parseApiData(endpoint, ChallengeListSchema, apiResponse.data),
+    pagination: parseApiData(endpoint, PaginationSchema, apiResponse.pagination || {}, 'pagination'),
   };
 }
 
+type ChallengeListData = { challenges: Challenge[]; pagination: Pagination };
+
+// `rawItems` are the unnormalized challenge_post rows, kept for their per-challenge fields
+type ChallengePostsData = {
+  posts: Post[];
+  rawItems: unknown[];
+  pagination: Pagination;
+  ordered_by?: string;
+  winners_visible?: boolean;
+  winners_confirmed_at: string | null;
+  challenge_status?: string;
+};
+
+type ChallengeWinnersData = {
+  winners: ChallengeWinner[];
+  pagination: Pagination;
+  winners_visible: boolean;
+  winners_confirmed_at: string | null;
+  challenge_status?: string;
+  ordered_by?: string;
+  max_winners?: number;
+  winners_list: undefined;
+};
+
 // Auth API
 export const authApi = {
   login: async (usernameOrEmail: string, password: string): Promise<ApiResponse<LoginResponseData>> => {
@@ -309,9 +377,12 @@ export const authApi = {
     }
   },
 
-  refresh: async (refreshToken: string): Promise<ApiResponse<{ accessToken: string }>> => {
+  // Backend reads the refresh token from the Authorization header
+  refresh: async (refreshToken: string): Promise<ApiResponse<{ accessToken: string; refreshToken?: string }>> => {
     try {
-      const response = await apiClient.post('/api/auth/refresh', { refreshToken });
+      const response = await apiClient.post('/api/auth/refresh-token', null, {
+        headers: { Authorization: `Bearer ${refreshToken}` },
+      });
       return response.data;
     } catch (error: any) {
       return {
@@ -400,6 +471,17 @@ export type LegacyFeedRequestOptions = {
 
 export type FeedRequestOptions = HomeFeedRequestOptions | LegacyFeedRequestOptions;
 
+export type RecommendationInteractionPayload = {
+  interactionType: string;
+  signal: string;
+  pipeline: string | null;
+  refresh: number | null;
+  endpoint: string | null;
+  watchSeconds?: number;
+  watchRatio?: number;
+  occurredAt: string;
+};
+
 function buildFeedParams(options: FeedRequestOptions = {}) {
   const params = new URLSearchParams();
   params.set('limit', String(options.limit ?? 10));
@@ -432,6 +514,22 @@ export const feedApi = {
     const res = await apiClient.get(`/api/recommendations/feed?${params}`);
     return res.data;
   },
+  recordRecommendationInteraction: async (
+    postId: string,
+    payload: RecommendationInteractionPayload,
+  ): Promise<ApiResponse<{ retryable?: boolean }>> => {
+    try {
+      const response = await apiClient.post(`/api/recommendations/interactions/${postId}`, payload);
+      return { status: 'success', message: response.data?.message || '', data: {} };
+    } catch (error: any) {
+      const { isNetworkError } = require('./utils/network-error-handler');
+      return {
+        status: 'error',
+        message: error.response?.data?.message || 'Failed to record interaction',
+        data: { retryable: isNetworkError(error) },
+      };
+    }
+  },
   resetSeen: async (): Promise<ApiResponse<Record<string, never>>> => {
     try {
       const response = await apiClient.post('/api/feed/seen/reset');
@@ -853,13 +951,13 @@ export const postsApi = {
     }
   },
 
-  getComments: async (postId: string, page = 1, limit = 20): Promise<ApiResponse<{ comments: any[]; pagination?: any }>> => {
+  getComments: async (postId: string, page = 1, limit = 20): Promise<ApiResponse<Infer<typeof CommentListSchema>>> => {
     try {
       const url = `/api/posts/${postId}/comments?page=${page}&limit=${limit}`;
       console.log('[API] Fetching comments from:', url);
       const response = await apiClient.get(url);
       console.log('[API] Comments response:', response.status);
-      return response.data;
+      return parseApiResponse('GET /api/posts/:id/comments', CommentListSchema, response.data);
     } catch (error: any) {
       // Try alternative endpoint if first one fails
       if (error.message === 'Network Error' || error.code === 'NETWORK_ERROR' || error.code === 'ECONNABORTED') {
@@ -867,7 +965,7 @@ export const postsApi = {
         try {
           const altUrl = `/api/posts/comments?postId=${postId}&page=${page}&limit=${limit}`;
           const response = await apiClient.get(altUrl);
-          return response.data;
+          return parseApiResponse('GET /api/posts/comments', CommentListSchema, response.data);
         } catch (altError: any) {
           console.warn('[API] Alternative comments endpoint also failed:', altError.message);
         }
@@ -919,7 +1017,104 @@ export const postsApi = {
     }
   },
 
-  addComment: async (postId: string, content: string): Promise<ApiResponse<{ comment: any }>> => {
+  /**
+   * Have the server publish a draft at `publishAt`, entering it into
+   * `challengeId` once it is live.
+   * PUT /api/posts/:postId/schedule
+   */
+  schedulePost: async (
+    postId: string,
+    publishAt: string,
+    challengeId?: string | null,
+  ): Promise<ApiResponse<{ post: Post | null }>> => {
+    try {
+      const response = await apiClient.put(`/api/posts/${postId}/schedule`, {
+        publish_at: publishAt,
+        ...(challengeId ? { challenge_id: challengeId } : {}),
+      });
+      return response.data;
+    } catch (error: any) {
+      return {
+        status: 'error',
+        message: error.response?.data?.message || 'Failed to schedule post',
+        data: { post: null },
+      };
+    }
+  },
+
+  /** DELETE /api/posts/:postId/schedule; the post stays a draft. */
+  unschedulePost: async (postId: string): Promise<ApiResponse<null>> => {
+    try {
+      const response = await apiClient.delete(`/api/posts/${postId}/schedule`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        status: 'error',
+        message: error.response?.data?.message || 'Failed to cancel schedule',
+        data: null,
+      };
+    }
+  },
+
+  /**
+   * Attach a WebVTT caption track to a post, replacing any existing one.
+   * PUT /api/posts/:postId/subtitles
+   */
+  uploadSubtitles: async (
+    postId: string,
+    file: { uri: string; name: string },
+    language?: string | null,
+  ): Promise<ApiResponse<{ post: Post }>> => {
+    try {
+      const formData = new FormData();
+      formData.append('file', { uri: file.uri, name: file.name, type: 'text/vtt' } as any);
+      if (language) formData.append('language', language);
+
+      const response = await apiClient.put(`/api/posts/${postId}/subtitles`, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      return response.data;
+    } catch (error: any) {
+      return {
+        status: 'error',
+        message: error.response?.data?.message || 'Failed to upload captions',
+        data: { post: {} as Post },
+      };
+    }
+  },
+
+  addComment: async (
+    postId: string,
+    content: string,
+    options: OfflineMutationOptions = {},
+  ): Promise<ApiResponse<Infer<typeof CommentCreatedSchema>>> => {
+    const queueOffline = options.queueOffline !== false;
+    // Placeholder rendered until the outbox replays the comment
+    const queueComment = async () => {
+      const clientId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const trimmedContent = content.trim();
+      const queued = await queueOfflineMutation({ kind: 'comment', postId, content: trimmedContent, clientId });
+      return queued
+        ? {
+            status: 'success' as const,
+            message: 'Saved offline. Will post when back online.',
+            data: {
+              comment: {
+                id: `pending-${clientId}`,
+                clientId,
+                pending: true,
+                comment_text: trimmedContent,
+                content: trimmedContent,
+                comment_date: new Date().toISOString(),
+              },
+              queued: true,
+            },
+          }
+        : null;
+    };
+
     try {
       // Validate content before sending
       if (!content || typeof content !== 'string' || content.trim().length === 0) {
@@ -932,6 +1127,11 @@ export const postsApi = {
 
       const trimmedContent = content.trim();
 
+      if (queueOffline && isOfflineNow()) {
+        const queued = await queueComment();
+        if (queued) return queued;
+      }
+
       // Explicitly set headers to avoid any ambiguity
       const response = await apiClient.post(
         `/api/posts/${postId}/comments`,
@@ -943,15 +1143,21 @@ export const postsApi = {
           }
         }
       );
-      return response.data;
+      return parseApiResponse('POST /api/posts/:id/comments', CommentCreatedSchema, response.data);
     } catch (error: any) {
+      const { isNetworkError } = require('./utils/network-error-handler');
+      const retryable = isNetworkError(error);
+      if (retryable && queueOffline) {
+        const queued = await queueComment();
+        if (queued) return queued;
+      }
       console.warn('Add comment API error:', error?.message);
       const errorMessage = error.response?.data?.message || error.message || 'Failed to add comment';
 
       return {
         status: 'error',
         message: errorMessage,
-        data: { comment: null },
+        data: { comment: null, retryable },
       };
     }
   },
@@ -1012,11 +1218,20 @@ export const postsApi = {
     post_category: string;
     category_id?: number;
     status?: 'active' | 'draft';
+    /** 'multipart' asks for a chunked upload; requires file_size */
+    upload_mode?: 'single' | 'multipart';
+    file_size?: number;
   }): Promise<ApiResponse<{
     postId: string;
-    uploadUrl: string;
+    /** null for chunked uploads, which sign each part separately */
+    uploadUrl: string | null;
     videoUrl: string;
     expiresIn: number;
+    multipart?: {
+      uploadId: string;
+      partSize: number;
+      partCount: number;
+    };
   }>> => {
     try {
       const response = await retryApiRequest(() =>
@@ -1032,6 +1247,32 @@ export const postsApi = {
     }
   },
 
+  /**
+   * Step 2 (chunked uploads): signed PUT URLs for the given parts, plus the
+   * part numbers the storage already holds for this upload.
+   * POST /api/posts/:postId/upload-parts
+   */
+  getUploadParts: async (postId: string, partNumbers: number[]): Promise<ApiResponse<{
+    parts: { partNumber: number; url: string }[];
+    uploadedParts: number[];
+    partSize: number;
+    partCount: number;
+    expiresIn: number;
+  }>> => {
+    try {
+      const response = await retryApiRequest(() =>
+        apiClient.post(`/api/posts/${postId}/upload-parts`, { partNumbers }, { timeout: 30000 })
+      );
+      return response.data;
+    } catch (error: any) {
+      return {
+        status: 'error',
+        message: error.response?.data?.message || 'Failed to prepare upload parts',
+        data: { parts: [], uploadedParts: [], partSize: 0, partCount: 0, expiresIn: 0 },
+      };
+    }
+  },
+
   /**
    * Step 3: Notify backend that the file has been uploaded to R2.
    * POST /api/posts/upload-complete
@@ -1479,7 +1720,7 @@ export const notificationsApi = {
 
 // Challenges API
 export const challengesApi = {
-  getAll: async (status = 'active'): Promise<ApiResponse<any>> => {
+  getAll: async (status = 'active'): Promise<ApiResponse<ChallengeListData>> => {
     try {
       // When fetching 'active' challenges, also include 'approved' status
       // because approved challenges should be treated as active
@@ -1487,9 +1728,9 @@ export const challengesApi = {
       if (status === 'active') {
         // Fetch both active and approved challenges
         // Handle errors gracefully - if one fails, still return the other
-        let activeChallenges: any[] = [];
-        let approvedChallenges: any[] = [];
-        let pagination: any = {};
+        let activeChallenges: Challenge[] = [];
+        let approvedChallenges: Challenge[] = [];
+        let pagination: Pagination = {};
         let activeOk = false;
         let approvedOk = false;
 
@@ -1498,8 +1739,7 @@ export const challengesApi = {
           const apiResponse = response.data;
           activeOk = true;
           if (apiResponse?.status === 'success' && apiResponse?.data) {
-            activeChallenges = Array.isArray(apiResponse.data) ? apiResponse.data : [];
-            pagination = apiResponse.pagination || {};
+            ({ challenges: activeChallenges, pagination } = parseChallengeList('GET /api/challenges?status=active', apiResponse));
           }
         } catch (error: any) {
           console.warn('Error fetching active challenges:', error.message);
@@ -1510,9 +1750,10 @@ export const challengesApi = {
           const approvedApiResponse = approvedResponse.data;
           approvedOk = true;
           if (approvedApiResponse?.status === 'success' && approvedApiResponse?.data) {
-            approvedChallenges = Array.isArray(approvedApiResponse.data) ? approvedApiResponse.data : [];
-            if (!pagination || Object.keys(pagination).length === 0) {
-              pagination = approvedApiResponse.pagination || {};
+            const approved = parseChallengeList('GET /api/challenges?status=approved', approvedApiResponse);
+            approvedChallenges = approved.challenges;
+            if (Object.keys(pagination).length === 0) {
+              pagination = approved.pagination;
             }
           }
         } catch (error: any) {
@@ -1545,14 +1786,10 @@ export const challengesApi = {
 
       // Backend returns: { status: 'success', data: [...], pagination: {...} }
       if (apiResponse?.status === 'success' && apiResponse?.data) {
-        const challenges = Array.isArray(apiResponse.data) ? apiResponse.data : [];
         return {
           status: 'success',
           message: apiResponse.message || 'Challenges fetched successfully',
-          data: {
-            challenges: challenges,
-            pagination: apiResponse.pagination || {}
-          }
+          data: parseChallengeList(`GET /api/challenges?status=${statusParam}`, apiResponse),
         };
       }
 
@@ -1576,13 +1813,17 @@ export const challengesApi = {
     }
   },
 
-  getEnded: async (): Promise<ApiResponse<{ challenges: any[] }>> => {
+  getEnded: async (): Promise<ApiResponse<{ challenges: Challenge[] }>> => {
     try {
       const response = await apiClient.get('/api/challenges/ended');
       const apiResponse = response.data;
       if (apiResponse?.status === 'success') {
         const raw = apiResponse.data;
-        const challenges = Array.isArray(raw) ? raw : (raw?.challenges ?? []);
+        const challenges = parseApiData(
+          'GET /api/challenges/ended',
+          ChallengeListSchema,
+          Array.isArray(raw) ? raw : (raw?.challenges ?? []),
+        );
         return {
           status: 'success',
           message: apiResponse.message || 'Ended challenges fetched',
@@ -1603,21 +1844,17 @@ export const challengesApi = {
     }
   },
 
-  getMyChallenges: async (): Promise<ApiResponse<any>> => {
+  getMyChallenges: async (): Promise<ApiResponse<ChallengeListData>> => {
     try {
       const response = await apiClient.get('/api/challenges/my-challenges');
       const apiResponse = response.data;
 
       // Backend returns: { status: 'success', data: [...], pagination: {...} }
       if (apiResponse?.status === 'success' && apiResponse?.data) {
-        const challenges = Array.isArray(apiResponse.data) ? apiResponse.data : [];
         return {
           status: 'success',
           message: apiResponse.message || 'My challenges fetched successfully',
-          data: {
-            challenges: challenges,
-            pagination: apiResponse.pagination || {}
-          }
+          data: parseChallengeList('GET /api/challenges/my-challenges', apiResponse),
         };
       }
 
@@ -1643,7 +1880,7 @@ export const challengesApi = {
 
   getJoinedChallenges: async (
     options?: { fresh?: boolean; timeout?: number; maxAttempts?: number }
-  ): Promise<ApiResponse<any>> => {
+  ): Promise<ApiResponse<ChallengeListData>> => {
     try {
       const fresh = options?.fresh === true;
       const timeout = options?.timeout ?? 15000;
@@ -1701,10 +1938,10 @@ export const challengesApi = {
     }
   },
 
-  create: async (data: any): Promise<ApiResponse<any>> => {
+  create: async (data: any): Promise<ApiResponse<Challenge | null>> => {
     try {
       const response = await apiClient.post('/api/challenges', data);
-      return response.data;
+      return parseApiResponse('POST /api/challenges', nullable(ChallengeSchema), response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -1714,12 +1951,12 @@ export const challengesApi = {
     }
   },
 
-  join: async (challengeId: string): Promise<ApiResponse<any>> => {
+  join: async (challengeId: string): Promise<ApiResponse<ChallengeParticipant | null>> => {
     try {
       console.log('[API] Joining challenge:', challengeId);
       const response = await apiClient.post(`/api/challenges/${challengeId}/join`);
       console.log('[API] Join challenge response:', response.data);
-      return response.data;
+      return parseApiResponse('POST /api/challenges/:id/join', nullable(ChallengeParticipantSchema), response.data);
     } catch (error: any) {
       console.warn('[API] Join challenge error:', {
         message: error.message,
@@ -1745,10 +1982,10 @@ export const challengesApi = {
     }
   },
 
-  getById: async (challengeId: string): Promise<ApiResponse<any>> => {
+  getById: async (challengeId: string): Promise<ApiResponse<Challenge | null>> => {
     try {
       const response = await apiClient.get(`/api/challenges/${challengeId}`);
-      return response.data;
+      return parseApiResponse('GET /api/challenges/:id', nullable(ChallengeSchema), response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -1758,10 +1995,10 @@ export const challengesApi = {
     }
   },
 
-  getParticipants: async (challengeId: string): Promise<ApiResponse<any>> => {
+  getParticipants: async (challengeId: string): Promise<ApiResponse<ChallengeParticipant[]>> => {
     try {
       const response = await apiClient.get(`/api/challenges/${challengeId}/participants`);
-      return response.data;
+      return parseApiResponse('GET /api/challenges/:id/participants', array(ChallengeParticipantSchema), response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -1775,21 +2012,22 @@ export const challengesApi = {
     challengeId: string,
     page = 1,
     limit = 10,
-  ): Promise<ApiResponse<any>> => {
+  ): Promise<ApiResponse<{ participants: ParticipantRanking[]; pagination: Pagination; max_winners?: number }>> => {
     try {
       const response = await apiClient.get(
         `/api/challenges/${challengeId}/participants/ranking?page=${page}&limit=${limit}`,
       );
       const apiResponse = response.data;
-      const rows = Array.isArray(apiResponse?.data) ? apiResponse.data : [];
+      const endpoint = 'GET /api/challenges/:id/participants/ranking';
+      const rows = parseApiData(endpoint, array(ParticipantRankingSchema), apiResponse?.data ?? []);
 
       return {
         status: apiResponse?.status ?? 'success',
         message: apiResponse?.message || 'Participants ranking fetched successfully',
         data: {
           participants: rows,
-          pagination: apiResponse?.pagination || {},
-          max_winners: apiResponse?.max_winners,
+          pagination: parseApiData(endpoint, PaginationSchema, apiResponse?.pagination || {}, 'pagination'),
+          max_winners: typeof apiResponse?.max_winners === 'number' ? apiResponse.max_winners : undefined,
         },
       };
     } catch (error: any) {
@@ -1806,12 +2044,13 @@ export const challengesApi = {
     userId: string,
     page = 1,
     limit = 20,
-  ): Promise<ApiResponse<any>> => {
+  ): Promise<ApiResponse<ChallengePostsData>> => {
     try {
       const response = await apiClient.get(
         `/api/challenges/${challengeId}/participants/${userId}/posts?page=${page}&limit=${limit}`,
       );
       const apiResponse = response.data;
+      const endpoint = 'GET /api/challenges/:id/participants/:userId/posts';
       const rawItems = Array.isArray(apiResponse?.data) ? apiResponse.data : [];
       const posts = rawItems.map((item: any) => {
         const post = item.post || item;
@@ -1835,7 +2074,7 @@ export const challengesApi = {
         data: {
           posts,
           rawItems,
-          pagination: apiResponse?.pagination || {},
+          pagination: parseApiData(endpoint, PaginationSchema, apiResponse?.pagination || {}, 'pagination'),
           winners_visible: apiResponse?.winners_visible ?? false,
           winners_confirmed_at: apiResponse?.winners_confirmed_at ?? null,
           challenge_status: apiResponse?.challenge_status,
@@ -1857,10 +2096,11 @@ export const challengesApi = {
     }
   },
 
-  getPosts: async (challengeId: string, page = 1, limit = 20): Promise<ApiResponse<any>> => {
+  getPosts: async (challengeId: string, page = 1, limit = 20): Promise<ApiResponse<ChallengePostsData>> => {
     try {
       const response = await apiClient.get(`/api/challenges/${challengeId}/posts?page=${page}&limit=${limit}`);
       const apiResponse = response.data;
+      const endpoint = 'GET /api/challenges/:id/posts';
 
       // Backend: { status, data: [...], pagination, ordered_by?: 'winner_rank' | 'likes_at_challenge_end' }
       // Each item: { post, winner_rank?, likes_during_challenge, total_likes?, ... }
@@ -1885,7 +2125,7 @@ export const challengesApi = {
           data: {
             posts: normalizedPosts,
             rawItems,
-            pagination: apiResponse.pagination || {},
+            pagination: parseApiData(endpoint, PaginationSchema, apiResponse.pagination || {}, 'pagination'),
             ordered_by: apiResponse.ordered_by,
             winners_visible: apiResponse.winners_visible,
             winners_confirmed_at: apiResponse.winners_confirmed_at ?? null,
@@ -1928,20 +2168,21 @@ export const challengesApi = {
     challengeId: string,
     page = 1,
     limit = 10,
-  ): Promise<ApiResponse<any>> => {
+  ): Promise<ApiResponse<ChallengeWinnersData>> => {
     try {
       const response = await apiClient.get(
         `/api/challenges/${challengeId}/winners?page=${page}&limit=${limit}`,
       );
       const apiResponse = response.data;
-      const winnersArray = Array.isArray(apiResponse?.data) ? apiResponse.data : [];
+      const endpoint = 'GET /api/challenges/:id/winners';
+      const winnersArray = parseApiData(endpoint, array(ChallengeWinnerSchema), apiResponse?.data ?? []);
 
       return {
         status: apiResponse?.status ?? 'success',
         message: apiResponse?.message || 'Challenge winners fetched successfully',
         data: {
           winners: winnersArray,
-          pagination: apiResponse?.pagination || {},
+          pagination: parseApiData(endpoint, PaginationSchema, apiResponse?.pagination || {}, 'pagination'),
           winners_visible: apiResponse?.winners_visible ?? winnersArray.length > 0,
           winners_confirmed_at: apiResponse?.winners_confirmed_at ?? null,
           challenge_status: apiResponse?.challenge_status,
@@ -1973,12 +2214,13 @@ export const challengesApi = {
     userId: string,
     page = 1,
     limit = 20,
-  ): Promise<ApiResponse<any>> => {
+  ): Promise<ApiResponse<ChallengePostsData>> => {
     try {
       const response = await apiClient.get(
         `/api/challenges/${challengeId}/winners/${userId}/posts?page=${page}&limit=${limit}`,
       );
       const apiResponse = response.data;
+      const endpoint = 'GET /api/challenges/:id/winners/:userId/posts';
       const rawItems = Array.isArray(apiResponse?.data) ? apiResponse.data : [];
       const posts = rawItems.map((item: any) => {
         const post = item.post || item;
@@ -1999,7 +2241,7 @@ export const challengesApi = {
         data: {
           posts,
           rawItems,
-          pagination: apiResponse?.pagination || {},
+          pagination: parseApiData(endpoint, PaginationSchema, apiResponse?.pagination || {}, 'pagination'),
           winners_visible: apiResponse?.winners_visible ?? true,
           winners_confirmed_at: apiResponse?.winners_confirmed_at ?? null,
           challenge_status: apiResponse?.challenge_status,
@@ -2021,10 +2263,10 @@ export const challengesApi = {
     }
   },
 
-  update: async (challengeId: string, data: Record<string, unknown>): Promise<ApiResponse<any>> => {
+  update: async (challengeId: string, data: Record<string, unknown>): Promise<ApiResponse<Challenge | null>> => {
     try {
       const response = await apiClient.put(`/api/challenges/${challengeId}`, data);
-      return response.data;
+      return parseApiResponse('PUT /api/challenges/:id', nullable(ChallengeSchema), response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2034,14 +2276,14 @@ export const challengesApi = {
     }
   },
 
-  createPost: async (challengeId: string, data: FormData): Promise<ApiResponse<any>> => {
+  createPost: async (challengeId: string, data: FormData): Promise<ApiResponse<Acknowledgement | null>> => {
     try {
       const response = await apiClient.post(`/api/challenges/${challengeId}/posts`, data, {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
       });
-      return response.data;
+      return parseApiResponse('POST /api/challenges/:id/posts', AcknowledgementSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2052,12 +2294,12 @@ export const challengesApi = {
   },
 
   // Link existing post to a challenge
-  addPostToChallenge: async (challengeId: string, postId: string): Promise<ApiResponse<any>> => {
+  addPostToChallenge: async (challengeId: string, postId: string): Promise<ApiResponse<Acknowledgement | null>> => {
     try {
       const response = await retryApiRequest(() =>
         apiClient.post(`/api/challenges/${challengeId}/posts/${postId}`, undefined, { timeout: 30000 })
       );
-      return response.data;
+      return parseApiResponse('POST /api/challenges/:id/posts/:postId', AcknowledgementSchema, response.data);
     } catch (error: any) {
       const apiData = error.response?.data;
       const message =
@@ -2077,39 +2319,57 @@ export const challengesApi = {
 // Follow API methods
 export const followsApi = {
   // Follow a user - Backend expects { userId: string } in body
-  follow: async (userId: string) => {
+  follow: async (userId: string, options: OfflineMutationOptions = {}): Promise<ApiResponse<FollowMutation>> => {
+    const queueOffline = options.queueOffline !== false;
+    if (queueOffline && isOfflineNow() && (await queueOfflineMutation({ kind: 'follow', userId, following: true }))) {
+      return { status: 'success', message: 'Saved offline. Will sync when back online.', data: { queued: true } };
+    }
     try {
       const response = await apiClient.post('/api/follows', { userId });
-      return response.data;
+      return parseApiResponse('POST /api/follows', FollowMutationSchema, response.data);
     } catch (error: any) {
+      const { isNetworkError } = require('./utils/network-error-handler');
+      const retryable = isNetworkError(error);
+      if (retryable && queueOffline && (await queueOfflineMutation({ kind: 'follow', userId, following: true }))) {
+        return { status: 'success', message: 'Saved offline. Will sync when back online.', data: { queued: true } };
+      }
       console.warn('Follow API error:', error.response?.data || error.message);
       return {
         status: 'error',
         message: error.response?.data?.message || 'Cannot follow this user',
-        data: {},
+        data: { retryable },
       };
     }
   },
   // Unfollow a user - Backend expects { userId: string } in body via DELETE
-  unfollow: async (userId: string) => {
+  unfollow: async (userId: string, options: OfflineMutationOptions = {}): Promise<ApiResponse<FollowMutation>> => {
+    const queueOffline = options.queueOffline !== false;
+    if (queueOffline && isOfflineNow() && (await queueOfflineMutation({ kind: 'follow', userId, following: false }))) {
+      return { status: 'success', message: 'Saved offline. Will sync when back online.', data: { queued: true } };
+    }
     try {
       // Backend route: DELETE /api/follows/:followingId
       const response = await apiClient.delete(`/api/follows/${userId}`);
-      return response.data;
+      return parseApiResponse('DELETE /api/follows/:id', FollowMutationSchema, response.data);
     } catch (error: any) {
+      const { isNetworkError } = require('./utils/network-error-handler');
+      const retryable = isNetworkError(error);
+      if (retryable && queueOffline && (await queueOfflineMutation({ kind: 'follow', userId, following: false }))) {
+        return { status: 'success', message: 'Saved offline. Will sync when back online.', data: { queued: true } };
+      }
       console.warn('Unfollow API error:', error.response?.data || error.message);
       return {
         status: 'error',
         message: error.response?.data?.message || 'Cannot unfollow this user',
-        data: {},
+        data: { retryable },
       };
     }
   },
   // Check if following
-  checkFollowing: async (followingId: string) => {
+  checkFollowing: async (followingId: string): Promise<ApiResponse<Infer<typeof FollowStatusSchema>>> => {
     try {
       const response = await apiClient.get(`/api/follows/check/${followingId}`);
-      return response.data;
+      return parseApiResponse('GET /api/follows/check/:id', FollowStatusSchema, response.data);
     } catch (error: any) {
       console.warn('Check following API error:', error.response?.data || error.message);
       return {
@@ -2120,25 +2380,29 @@ export const followsApi = {
     }
   },
   // Get followers - returns { status: 'success', data: { followers: [...], hasMore: bool, totalCount: number } }
-  getFollowers: async (userId: string, page = 1, limit = 20) => {
+  getFollowers: async (
+    userId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<ApiResponse<Infer<typeof FollowersPageSchema> & { pagination: Pagination }>> => {
     try {
       const response = await apiClient.get(`/api/follows/users/${userId}/followers?page=${page}&limit=${limit}`);
-      const apiResponse = response.data;
+      const apiResponse = parseApiResponse('GET /api/follows/users/:id/followers', FollowersPageSchema, response.data);
 
       // Backend structure: { status: 'success', data: { followers: [...], hasMore, totalCount } }
-      if (apiResponse?.status === 'success' && apiResponse?.data) {
+      if (apiResponse.status === 'success') {
         return {
           status: 'success',
           message: apiResponse.message || 'Followers fetched successfully',
           data: {
-            followers: apiResponse.data.followers || [],
-            hasMore: apiResponse.data.hasMore || false,
-            totalCount: apiResponse.data.totalCount || 0,
+            followers: apiResponse.data.followers,
+            hasMore: apiResponse.data.hasMore,
+            totalCount: apiResponse.data.totalCount,
             pagination: {
               page,
               limit,
-              hasMore: apiResponse.data.hasMore || false,
-              total: apiResponse.data.totalCount || 0
+              hasMore: apiResponse.data.hasMore,
+              total: apiResponse.data.totalCount
             }
           }
         };
@@ -2159,25 +2423,29 @@ export const followsApi = {
     }
   },
   // Get following - returns { status: 'success', data: { following: [...], hasMore: bool, totalCount: number } }
-  getFollowingUsers: async (userId: string, page = 1, limit = 20) => {
+  getFollowingUsers: async (
+    userId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<ApiResponse<Infer<typeof FollowingPageSchema> & { pagination: Pagination }>> => {
     try {
       const response = await apiClient.get(`/api/follows/users/${userId}/following?page=${page}&limit=${limit}`);
-      const apiResponse = response.data;
+      const apiResponse = parseApiResponse('GET /api/follows/users/:id/following', FollowingPageSchema, response.data);
 
       // Backend structure: { status: 'success', data: { following: [...], hasMore, totalCount } }
-      if (apiResponse?.status === 'success' && apiResponse?.data) {
+      if (apiResponse.status === 'success') {
         return {
           status: 'success',
           message: apiResponse.message || 'Following list fetched successfully',
           data: {
-            following: apiResponse.data.following || [],
-            hasMore: apiResponse.data.hasMore || false,
-            totalCount: apiResponse.data.totalCount || 0,
+            following: apiResponse.data.following,
+            hasMore: apiResponse.data.hasMore,
+            totalCount: apiResponse.data.totalCount,
             pagination: {
               page,
               limit,
-              hasMore: apiResponse.data.hasMore || false,
-              total: apiResponse.data.totalCount || 0
+              hasMore: apiResponse.data.hasMore,
+              total: apiResponse.data.totalCount
             }
           }
         };
@@ -2200,6 +2468,27 @@ export const followsApi = {
 };
 
 // Likes API (per API_DOC)
+/** Social mutations queue into the offline outbox by default; the outbox itself replays with `queueOffline: false`. */
+export type OfflineMutationOptions = { queueOffline?: boolean };
+
+// Lazy: mutation-outbox imports this module for replay
+function queueOfflineMutation(mutation: import('./mutation-outbox').OutboxMutation): Promise<boolean> {
+  const { mutationOutbox } = require('./mutation-outbox');
+  return mutationOutbox.enqueue(mutation);
+}
+
+function isOfflineNow(): boolean {
+  const { networkStatus } = require('./network-status');
+  return networkStatus.getStatus() === 'offline';
+}
+
+// Optimistic like state callers have already written to the store
+function getStoredLikeState(postId: string): { liked: boolean; likeCount: number } {
+  const { store } = require('./store');
+  const likes = store.getState().likes;
+  return { liked: likes.likedPosts.includes(postId), likeCount: likes.postLikeCounts[postId] ?? 0 };
+}
+
 function mapLikeToggleResponse(raw: any): ApiResponse<{ isLiked: boolean; likeCount: number }> {
   const payload = raw?.data ?? {};
   return {
@@ -2207,18 +2496,32 @@ function mapLikeToggleResponse(raw: any): ApiResponse<{ isLiked: boolean; likeCo
     message: raw?.message ?? '',
     data: {
       isLiked: payload?.isLiked ?? payload?.liked ?? payload?.is_liked ?? false,
-      likeCount:
-        payload?.likeCount ??
-        payload?.likesCount ??
-        payload?.like_count ??
-        payload?.likes ??
-        0,
+      likeCount: readLegacyCount(payload, 'likes') ?? 0,
     },
   };
 }
 
 export const likesApi = {
-  toggle: async (postId: string): Promise<ApiResponse<{ isLiked: boolean; likeCount: number }>> => {
+  // `desiredLiked` is the state the user asked for; it is what gets queued when offline
+  toggle: async (
+    postId: string,
+    options: OfflineMutationOptions & { desiredLiked?: boolean } = {},
+  ): Promise<ApiResponse<{ isLiked: boolean; likeCount: number; queued?: boolean; retryable?: boolean }>> => {
+    const queueOffline = options.queueOffline !== false;
+    const queueLike = async () => {
+      const stored = getStoredLikeState(postId);
+      const liked = options.desiredLiked ?? stored.liked;
+      const queued = await queueOfflineMutation({ kind: 'like', postId, liked });
+      return queued
+        ? { status: 'success' as const, message: 'Saved offline. Will sync when back online.', data: { isLiked: liked, likeCount: stored.likeCount, queued: true } }
+        : null;
+    };
+
+    if (queueOffline && isOfflineNow()) {
+      const queued = await queueLike();
+      if (queued) return queued;
+    }
+
     try {
       const response = await apiClient.post(`/api/posts/${encodeURIComponent(postId)}/like`);
       return mapLikeToggleResponse(response.data);
@@ -2249,12 +2552,17 @@ export const likesApi = {
       }
 
       // Handle network errors gracefully
-      if (error.code === 'NETWORK_ERROR' || error.message?.includes('Network')) {
+      const { isNetworkError } = require('./utils/network-error-handler');
+      if (isNetworkError(error) || error.code === 'NETWORK_ERROR' || error.message?.includes('Network')) {
+        if (queueOffline) {
+          const queued = await queueLike();
+          if (queued) return queued;
+        }
         // Silently handle network errors
         return {
           status: 'error',
           message: 'Network error. Please check your connection.',
-          data: { isLiked: false, likeCount: 0 },
+          data: { isLiked: false, likeCount: 0, retryable: true },
         } as any;
       }
 
@@ -2275,7 +2583,7 @@ export const likesApi = {
     }
   },
 
-  getStatus: async (postId: string): Promise<ApiResponse<{ isLiked: boolean; likeCount: number }>> => {
+  getStatus: async (postId: string): Promise<ApiResponse<{ isLiked: boolean; likeCount: number; retryable?: boolean }>> => {
     try {
       const response = await apiClient.get(`/api/likes/posts/${postId}/status`);
       return {
@@ -2306,7 +2614,7 @@ export const likesApi = {
         return {
           status: 'error',
           message: 'Network error. Please check your connection.',
-          data: { isLiked: false, likeCount: 0 },
+          data: { isLiked: false, likeCount: 0, retryable: true },
         } as any;
       }
 
@@ -2424,8 +2732,17 @@ export const searchApi = {
 };
 
 // Views API
+export interface ViewSubmission {
+  postId: string;
+  watchTime: number;
+  visibilityPercent: number;
+  sessionId: string;
+  viewedAt: string;
+}
+
 export const viewsApi = {
-  recordView: async (postId: string, watchTime: number, visibilityPercent: number, sessionId?: string): Promise<ApiResponse<{ viewRecorded: boolean; viewCount: number }>> => {
+  // `retryable` is set when the request never reached the server (offline, timeout)
+  recordView: async (postId: string, watchTime: number, visibilityPercent: number, sessionId?: string): Promise<ApiResponse<{ viewRecorded: boolean; viewCount: number; retryable?: boolean }>> => {
     try {
       const response = await apiClient.post(`/api/views/posts/${postId}`, {
         sessionId,
@@ -2434,10 +2751,11 @@ export const viewsApi = {
       });
       return response.data;
     } catch (error: any) {
+      const { isNetworkError } = require('./utils/network-error-handler');
       return {
         status: 'error',
         message: error.response?.data?.message || 'Failed to record view',
-        data: { viewRecorded: false, viewCount: 0 },
+        data: { viewRecorded: false, viewCount: 0, retryable: isNetworkError(error) },
       };
     }
   },
@@ -2488,13 +2806,17 @@ export const reportsApi = {
    * Report a post
    * POST /api/reports/posts/:postId
    */
-  reportPost: async (postId: string, reason: string, description?: string): Promise<ApiResponse<any>> => {
+  reportPost: async (
+    postId: string,
+    reason: string,
+    description?: string,
+  ): Promise<ApiResponse<Infer<typeof ReportSubmissionSchema> & { alreadyReported?: boolean }>> => {
     try {
       const response = await apiClient.post(`/api/reports/posts/${postId}`, {
         reason,
         description: description || null,
       });
-      return response.data;
+      return parseApiResponse('POST /api/reports/posts/:id', ReportSubmissionSchema, response.data);
     } catch (error: any) {
       const errorMessage =
         error.response?.data?.data?.message ||
@@ -2508,6 +2830,7 @@ export const reportsApi = {
         status: 'error',
         message: errorMessage,
         data: {
+          isFrozen: false,
           alreadyReported: isAlreadyReported,
         },
       };
@@ -2518,10 +2841,10 @@ export const reportsApi = {
    * Get reports for a specific post
    * GET /api/reports/posts/:postId
    */
-  getPostReports: async (postId: string): Promise<ApiResponse<{ reports: any[] }>> => {
+  getPostReports: async (postId: string): Promise<ApiResponse<{ reports: PostReport[] }>> => {
     try {
       const response = await apiClient.get(`/api/reports/posts/${postId}`);
-      return response.data;
+      return parseApiResponse('GET /api/reports/posts/:id', PostReportListSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2535,13 +2858,17 @@ export const reportsApi = {
    * Appeal a flagged post
    * POST /api/reports/posts/:postId/appeal
    */
-  appealPost: async (postId: string, appealReason: string, additionalInfo?: string): Promise<ApiResponse<any>> => {
+  appealPost: async (
+    postId: string,
+    appealReason: string,
+    additionalInfo?: string,
+  ): Promise<ApiResponse<Infer<typeof AppealSubmissionSchema>>> => {
     try {
       const response = await apiClient.post(`/api/reports/posts/${postId}/appeal`, {
         appealReason,
         additionalInfo: additionalInfo || null,
       });
-      return response.data;
+      return parseApiResponse('POST /api/reports/posts/:id/appeal', AppealSubmissionSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2555,10 +2882,10 @@ export const reportsApi = {
    * Get user's appeals
    * GET /api/reports/appeals/my?page=1&limit=10
    */
-  getMyAppeals: async (page = 1, limit = 10): Promise<ApiResponse<{ appeals: any[]; pagination?: any }>> => {
+  getMyAppeals: async (page = 1, limit = 10): Promise<ApiResponse<Infer<typeof AppealListSchema>>> => {
     try {
       const response = await apiClient.get(`/api/reports/appeals/my?page=${page}&limit=${limit}`);
-      return response.data;
+      return parseApiResponse('GET /api/reports/appeals/my', AppealListSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2654,10 +2981,10 @@ export const settingsApi = {
   },
 
   // List active sessions
-  getSessions: async (): Promise<ApiResponse<{ sessions: any[] }>> => {
+  getSessions: async (): Promise<ApiResponse<Infer<typeof SessionListSchema>>> => {
     try {
       const response = await apiClient.get('/api/user/sessions');
-      return response.data;
+      return parseApiResponse('GET /api/user/sessions', SessionListSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2668,10 +2995,10 @@ export const settingsApi = {
   },
 
   // Revoke a specific session
-  revokeSession: async (sessionId: string): Promise<ApiResponse<any>> => {
+  revokeSession: async (sessionId: string): Promise<ApiResponse<Acknowledgement>> => {
     try {
       const response = await apiClient.delete(`/api/user/sessions/${sessionId}`);
-      return response.data;
+      return parseApiResponse('DELETE /api/user/sessions/:id', AcknowledgementSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2682,10 +3009,10 @@ export const settingsApi = {
   },
 
   // Logout current session (backend)
-  logout: async (): Promise<ApiResponse<any>> => {
+  logout: async (): Promise<ApiResponse<Acknowledgement>> => {
     try {
       const response = await apiClient.post('/api/auth/logout');
-      return response.data;
+      return parseApiResponse('POST /api/auth/logout', AcknowledgementSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2696,10 +3023,10 @@ export const settingsApi = {
   },
 
   // Logout from all sessions
-  logoutAll: async (): Promise<ApiResponse<any>> => {
+  logoutAll: async (): Promise<ApiResponse<Acknowledgement>> => {
     try {
       const response = await apiClient.post('/api/auth/logout/all');
-      return response.data;
+      return parseApiResponse('POST /api/auth/logout/all', AcknowledgementSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2717,7 +3044,7 @@ export const supportApi = {
     message: string,
     category?: 'BUG' | 'PAYMENT' | 'GENERAL',
     metadata?: Record<string, any>
-  ): Promise<ApiResponse<any>> => {
+  ): Promise<ApiResponse<Infer<typeof SupportIssueSubmissionSchema>>> => {
     try {
       const response = await apiClient.post('/api/support/issues', {
         subject,
@@ -2725,7 +3052,7 @@ export const supportApi = {
         category,
         metadata,
       });
-      return response.data;
+      return parseApiResponse('POST /api/support/issues', SupportIssueSubmissionSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2735,10 +3062,10 @@ export const supportApi = {
     }
   },
 
-  getMyIssues: async (page = 1, limit = 10): Promise<ApiResponse<{ issues: any[]; pagination?: any }>> => {
+  getMyIssues: async (page = 1, limit = 10): Promise<ApiResponse<Infer<typeof SupportIssueListSchema>>> => {
     try {
       const response = await apiClient.get(`/api/support/issues/my?page=${page}&limit=${limit}`);
-      return response.data;
+      return parseApiResponse('GET /api/support/issues/my', SupportIssueListSchema, response.data);
     } catch (error: any) {
       return {
         status: 'error',
@@ -2748,3 +3075,23 @@ export const supportApi = {
     }
   },
 };
+
+// Client event ingestion (POST /api/logs/client-events); works signed in or out
+export const logsApi = {
+  postClientEvent: async (
+    eventType: string,
+    details: { page?: string; action?: string; meta?: Record<string, unknown> } = {}
+  ): Promise<ApiResponse<{ retryable?: boolean }>> => {
+    try {
+      const response = await apiClient.post('/api/logs/client-events', { eventType, ...details });
+      return { status: 'success', message: response.data?.message || '', data: {} };
+    } catch (error: any) {
+      const { isNetworkError } = require('./utils/network-error-handler');
+      return {
+        status: 'error',
+        message: error.response?.data?.message || 'Failed to record event',
+        data: { retryable: isNetworkError(error) },
+      };
+    }
+  },
+};
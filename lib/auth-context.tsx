@@ -2,7 +2,9 @@ import React, { createContext, useContext, useReducer, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AuthState, User } from '../types';
 import { authApi } from './api';
+import { refreshAccessToken } from './api-client';
 import { authEventEmitter } from './auth-event-emitter';
+import { mutationOutbox } from './mutation-outbox';
 
 interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<boolean>;
@@ -79,6 +81,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  // Keep context token in sync when the API client silently rotates it
+  useEffect(() => {
+    const handleTokenRefreshed = (accessToken: string) => {
+      dispatch({ type: 'SET_TOKEN', payload: accessToken });
+    };
+
+    authEventEmitter.onTokenRefreshed(handleTokenRefreshed);
+
+    return () => {
+      authEventEmitter.offTokenRefreshed(handleTokenRefreshed);
+    };
+  }, []);
+
   // Listen for account suspended events (403 or WebSocket)
   useEffect(() => {
     const handleAccountSuspended = (reason?: string) => {
@@ -134,10 +149,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         await Promise.all([
           AsyncStorage.setItem('talynk_token', accessToken),
           AsyncStorage.setItem('talynk_user', JSON.stringify(user)),
+          response.data.refreshToken
+            ? AsyncStorage.setItem('talynk_refresh_token', response.data.refreshToken)
+            : AsyncStorage.removeItem('talynk_refresh_token'),
         ]);
 
         dispatch({ type: 'SET_TOKEN', payload: accessToken });
         dispatch({ type: 'SET_USER', payload: user });
+        // Send anything this account queued offline during an earlier session
+        void mutationOutbox.replay();
         return true;
       } else {
         // Extract user-friendly error message
@@ -217,6 +237,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       await Promise.all([
         AsyncStorage.removeItem('talynk_token'),
+        AsyncStorage.removeItem('talynk_refresh_token'),
         AsyncStorage.removeItem('talynk_user'),
       ]);
     } catch (error) {
@@ -227,13 +248,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const refreshToken = async () => {
     try {
-      const refreshToken = await AsyncStorage.getItem('talynk_refresh_token');
-      if (refreshToken) {
-        const response = await authApi.refresh(refreshToken);
-        if (response.status === 'success') {
-          await AsyncStorage.setItem('talynk_token', response.data.accessToken);
-          dispatch({ type: 'SET_TOKEN', payload: response.data.accessToken });
-        }
+      // Shares the API client's single-flight refresh; SET_TOKEN arrives via tokenRefreshed
+      const accessToken = await refreshAccessToken();
+      if (!accessToken) {
+        logout();
       }
     } catch (error) {
       console.error('Token refresh failed:', error);
@@ -21,6 +21,20 @@ class AuthEventEmitter extends SimpleEventEmitter {
     this.off('unauthorized', callback);
   }
 
+  // Event: Token Refreshed - the access token was rotated via the refresh token
+  emitTokenRefreshed(accessToken: string) {
+    console.log('[AuthEvents] Emitting token refreshed event');
+    this.emit('tokenRefreshed', accessToken);
+  }
+
+  onTokenRefreshed(callback: (accessToken: string) => void) {
+    this.on('tokenRefreshed', callback);
+  }
+
+  offTokenRefreshed(callback: (accessToken: string) => void) {
+    this.off('tokenRefreshed', callback);
+  }
+
   // Event: Account Suspended (403 with code 'account_suspended' or WS event)
   emitAccountSuspended(reason?: string) {
     console.log('[AuthEvents] Emitting account suspended event', reason ? `reason: ${reason}` : '');
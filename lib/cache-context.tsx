@@ -1,11 +1,19 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { syncFollowStateAcrossFeedCaches, syncFollowingFeedAfterFollowChange } from "@/lib/following-feed-cache";
+import { dataSaver, type DataUsagePreference } from "@/lib/data-saver";
+import { videoQuality, type VideoQualityPreference } from "@/lib/video-quality";
+import { captionSettings, DEFAULT_CAPTION_SETTINGS, type CaptionSettings } from "@/lib/caption-settings";
 
 interface UserPreferences {
   theme: "light" | "dark";
   autoplay: boolean;
-  dataUsage: "low" | "medium" | "high";
+  /** "auto" saves data on cellular; see lib/data-saver.ts */
+  dataUsage: DataUsagePreference;
+  /** Rendition picked in the player's quality menu */
+  videoQuality: VideoQualityPreference;
+  /** Closed captions on/off and their style */
+  captions: CaptionSettings;
   notifications: {
     likes: boolean;
     comments: boolean;
@@ -34,7 +42,9 @@ interface CacheContextType {
 const defaultPreferences: UserPreferences = {
   theme: "dark",
   autoplay: true,
-  dataUsage: "medium",
+  dataUsage: "auto",
+  videoQuality: "auto",
+  captions: DEFAULT_CAPTION_SETTINGS,
   notifications: {
     likes: true,
     comments: true,
@@ -101,6 +111,12 @@ export const CacheProvider: React.FC<{ children: React.ReactNode }> = ({
         page += 1;
       }
 
+      // Follows still waiting in the offline outbox win over the server snapshot
+      const { mutationOutbox } = await import("./mutation-outbox");
+      (await mutationOutbox.getPendingFollows()).forEach((following, userId) => {
+        following ? next.add(userId) : next.delete(userId);
+      });
+
       setFollowedUsers(next);
       syncFollowStateAcrossFeedCaches(next);
       await persistFollowedUsers(next);
@@ -133,6 +149,10 @@ export const CacheProvider: React.FC<{ children: React.ReactNode }> = ({
               ...defaultPreferences.notifications,
               ...(JSON.parse(prefsData).notifications || {}),
             },
+            captions: {
+              ...defaultPreferences.captions,
+              ...(JSON.parse(prefsData).captions || {}),
+            },
           });
         }
 
@@ -163,6 +183,46 @@ export const CacheProvider: React.FC<{ children: React.ReactNode }> = ({
     })();
   }, []);
 
+  // -------------------------------------------------------
+  // OFFLINE OUTBOX RECONCILIATION
+  // -------------------------------------------------------
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    import("./mutation-outbox").then(({ mutationOutbox }) => {
+      if (cancelled) return;
+      unsubscribe = mutationOutbox.subscribe((event) => {
+        if (event.type === "like") {
+          updateLikedPosts(event.postId, event.liked);
+          updatePostLikeCount(event.postId, event.likeCount);
+        } else if (event.type === "follow") {
+          updateFollowedUsers(event.userId, event.following);
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  // -------------------------------------------------------
+  // DATA SAVER / VIDEO QUALITY
+  // -------------------------------------------------------
+  useEffect(() => {
+    dataSaver.setPreference(preferences.dataUsage);
+  }, [preferences.dataUsage]);
+
+  useEffect(() => {
+    videoQuality.setPreference(preferences.videoQuality);
+  }, [preferences.videoQuality]);
+
+  useEffect(() => {
+    captionSettings.set(preferences.captions);
+  }, [preferences.captions]);
+
   // -------------------------------------------------------
   // UPDATE PREFS (DEEP MERGE)
   // -------------------------------------------------------
@@ -174,6 +234,10 @@ export const CacheProvider: React.FC<{ children: React.ReactNode }> = ({
         ...preferences.notifications,
         ...(updates.notifications || {}),
       },
+      captions: {
+        ...preferences.captions,
+        ...(updates.captions || {}),
+      },
     };
 
     setPreferences(merged);
@@ -284,9 +348,19 @@ export const CacheProvider: React.FC<{ children: React.ReactNode }> = ({
       const likedIds: string[] = [];
       const counts: Record<string, number> = {};
 
+      const { mutationOutbox } = await import("./mutation-outbox");
+      const pendingLikes = await mutationOutbox.getPendingLikes();
+
       Object.entries(serverData).forEach(([id, status]) => {
-        if (status.isLiked) likedIds.push(id);
-        counts[id] = status.likeCount || 0;
+        const pendingLiked = pendingLikes.get(id);
+        const isLiked = pendingLiked ?? status.isLiked;
+        let likeCount = status.likeCount || 0;
+        // Count the queued like/unlike the server has not seen yet
+        if (pendingLiked !== undefined && pendingLiked !== status.isLiked) {
+          likeCount = Math.max(0, likeCount + (pendingLiked ? 1 : -1));
+        }
+        if (isLiked) likedIds.push(id);
+        counts[id] = likeCount;
       });
 
       // update context
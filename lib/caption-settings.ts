@@ -0,0 +1,72 @@
+/**
+ * How closed captions look and whether they are on.
+ *
+ * Persisted as `preferences.captions` in lib/cache-context.tsx and pushed
+ * here, like the video quality choice in lib/video-quality.ts, so players
+ * outside React context (and memoized feed items) can read it.
+ */
+
+export type CaptionSize = 'small' | 'medium' | 'large';
+export type CaptionBackground = 'none' | 'translucent' | 'solid';
+
+export type CaptionSettings = {
+  enabled: boolean;
+  size: CaptionSize;
+  background: CaptionBackground;
+};
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  enabled: false,
+  size: 'medium',
+  background: 'translucent',
+};
+
+export const CAPTION_SIZE_OPTIONS: { value: CaptionSize; label: string; fontSize: number }[] = [
+  { value: 'small', label: 'Small', fontSize: 14 },
+  { value: 'medium', label: 'Medium', fontSize: 17 },
+  { value: 'large', label: 'Large', fontSize: 22 },
+];
+
+export const CAPTION_BACKGROUND_OPTIONS: { value: CaptionBackground; label: string; color: string }[] = [
+  { value: 'none', label: 'None', color: 'transparent' },
+  { value: 'translucent', label: 'Translucent', color: 'rgba(0,0,0,0.55)' },
+  { value: 'solid', label: 'Solid', color: '#000' },
+];
+
+type Listener = (settings: CaptionSettings) => void;
+
+let settings: CaptionSettings = DEFAULT_CAPTION_SETTINGS;
+const listeners = new Set<Listener>();
+
+export const captionSettings = {
+  get(): CaptionSettings {
+    return settings;
+  },
+  set(next: CaptionSettings) {
+    if (
+      next.enabled === settings.enabled &&
+      next.size === settings.size &&
+      next.background === settings.background
+    ) {
+      return;
+    }
+
+    settings = next;
+    listeners.forEach((fn) => {
+      try {
+        fn(settings);
+      } catch {
+        // ignore listener errors
+      }
+    });
+  },
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    listener(settings);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default captionSettings;
@@ -0,0 +1,115 @@
+import { getFileUrl, getPlaybackUrl, isHlsUrl } from '@/lib/utils/file-url';
+import { parseHlsSubtitleRenditions, resolveHlsUrl } from '@/lib/utils/hls-variants';
+import { parseWebVtt, type CaptionCue } from '@/lib/utils/webvtt';
+
+export type CaptionTrack = {
+  cues: CaptionCue[];
+  language: string | null;
+};
+
+const MAX_REMEMBERED_TRACKS = 50;
+
+// Parsed tracks by URL (null when the video has none), so swiping back does not refetch
+const tracksByUrl = new Map<string, CaptionTrack | null>();
+const pendingTrackLoads = new Map<string, Promise<CaptionTrack | null>>();
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url, { method: 'GET' });
+  return response.ok ? response.text() : '';
+}
+
+async function loadSidecarTrack(url: string, language: string | null): Promise<CaptionTrack | null> {
+  const cues = parseWebVtt(await fetchText(url));
+  return cues.length > 0 ? { cues, language } : null;
+}
+
+/**
+ * Subtitle rendition of an HLS master, preferring the one marked DEFAULT. The
+ * WebVTT segments are fetched and joined into one cue list; short-form videos
+ * only have a handful of them.
+ */
+async function loadHlsTrack(masterUrl: string): Promise<CaptionTrack | null> {
+  const renditions = parseHlsSubtitleRenditions(masterUrl, await fetchText(masterUrl));
+  const rendition = renditions.find((candidate) => candidate.isDefault) ?? renditions[0];
+  if (!rendition) {
+    return null;
+  }
+
+  const playlist = await fetchText(rendition.url);
+  const segmentUrls = playlist
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((uri) => resolveHlsUrl(rendition.url, uri));
+  const segments = await Promise.all(segmentUrls.map((url) => fetchText(url).catch(() => '')));
+  const cues = segments
+    .flatMap((segment) => parseWebVtt(segment))
+    .sort((left, right) => left.start - right.start);
+  return cues.length > 0 ? { cues, language: rendition.language } : null;
+}
+
+function remember(url: string, track: CaptionTrack | null) {
+  tracksByUrl.set(url, track);
+  if (tracksByUrl.size > MAX_REMEMBERED_TRACKS) {
+    const oldest = tracksByUrl.keys().next().value;
+    if (oldest !== undefined) {
+      tracksByUrl.delete(oldest);
+    }
+  }
+}
+
+function getTrackSource(post: any): { url: string; kind: 'sidecar' | 'hls' } | null {
+  const sidecarUrl = getFileUrl(post?.subtitle_url ?? post?.subtitleUrl);
+  if (sidecarUrl) {
+    return { url: sidecarUrl, kind: 'sidecar' };
+  }
+
+  // Feed DTOs send null when the post has no caption track; only older payloads
+  // without the field leave the HLS master worth checking
+  if (post?.subtitle_url === null || post?.subtitleUrl === null) {
+    return null;
+  }
+
+  const playbackUrl = getPlaybackUrl(post);
+  return playbackUrl && isHlsUrl(playbackUrl) ? { url: playbackUrl, kind: 'hls' } : null;
+}
+
+/** Caption track this session has already loaded for a post, if any. */
+export function getCaptionTrack(post: any): CaptionTrack | null {
+  const source = getTrackSource(post);
+  return source ? tracksByUrl.get(source.url) ?? null : null;
+}
+
+/**
+ * Caption track for a post: its sidecar `.vtt` when it has one, otherwise the
+ * subtitle rendition of its HLS master. Resolves null when the video has no
+ * captions or they fail to load.
+ */
+export function loadCaptionTrack(post: any): Promise<CaptionTrack | null> {
+  const source = getTrackSource(post);
+  if (!source) {
+    return Promise.resolve(null);
+  }
+
+  if (tracksByUrl.has(source.url)) {
+    return Promise.resolve(tracksByUrl.get(source.url) ?? null);
+  }
+
+  const pending = pendingTrackLoads.get(source.url);
+  if (pending) {
+    return pending;
+  }
+
+  const language = post?.subtitle_language ?? null;
+  const request = (source.kind === 'sidecar' ? loadSidecarTrack(source.url, language) : loadHlsTrack(source.url))
+    .then((track) => {
+      remember(source.url, track);
+      return track;
+    })
+    .catch(() => null)
+    .finally(() => {
+      pendingTrackLoads.delete(source.url);
+    });
+  pendingTrackLoads.set(source.url, request);
+  return request;
+}
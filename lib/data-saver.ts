@@ -0,0 +1,123 @@
+/**
+ * Data usage policy derived from `preferences.dataUsage`.
+ *
+ * The preference is a user choice in lib/cache-context.tsx; this module turns
+ * it into concrete limits that playback, prefetch, image loading and upload
+ * preparation read synchronously. `auto` resolves to `low` while the device is
+ * on cellular (or any connection the OS marks as metered) and to `medium`
+ * otherwise. Connection changes are reported from the NetInfo listener in
+ * app/_layout.tsx, the same way it reports online/offline to network-status.
+ */
+
+export type DataUsageLevel = 'low' | 'medium' | 'high';
+export type DataUsagePreference = DataUsageLevel | 'auto';
+
+export interface DataPolicy {
+  level: DataUsageLevel;
+  /** Tallest HLS variant to play, or null for the player's own choice. */
+  maxVideoHeight: number | null;
+  /** Upper bound on how many posts ahead/behind the feed warms. */
+  maxWarmRadius: { forward: number; backward: number } | null;
+  /** Media segments fetched per warmed HLS playlist; 0 warms playlists only. */
+  hlsPrefetchSegments: number;
+  /** Whether paused players may preload video while on a metered connection. */
+  preloadOnMeteredConnection: boolean;
+  /** Device pixel ratio cap used when requesting sized images. */
+  maxImagePixelRatio: number;
+  /** Longest edge, in pixels, of videos prepared for upload. */
+  uploadMaxDimension: number;
+}
+
+type Listener = (policy: DataPolicy) => void;
+
+const POLICIES: Record<DataUsageLevel, Omit<DataPolicy, 'level'>> = {
+  low: {
+    maxVideoHeight: 480,
+    maxWarmRadius: { forward: 1, backward: 0 },
+    hlsPrefetchSegments: 0,
+    preloadOnMeteredConnection: false,
+    maxImagePixelRatio: 1,
+    uploadMaxDimension: 540,
+  },
+  medium: {
+    maxVideoHeight: 720,
+    maxWarmRadius: null,
+    hlsPrefetchSegments: 3,
+    preloadOnMeteredConnection: true,
+    maxImagePixelRatio: 2,
+    uploadMaxDimension: 720,
+  },
+  high: {
+    maxVideoHeight: null,
+    maxWarmRadius: null,
+    hlsPrefetchSegments: 3,
+    preloadOnMeteredConnection: true,
+    maxImagePixelRatio: Number.POSITIVE_INFINITY,
+    uploadMaxDimension: 1080,
+  },
+};
+
+let preference: DataUsagePreference = 'auto';
+let meteredConnection = false;
+let currentPolicy: DataPolicy = resolvePolicy();
+const listeners = new Set<Listener>();
+
+function resolvePolicy(): DataPolicy {
+  const level: DataUsageLevel = preference === 'auto'
+    ? (meteredConnection ? 'low' : 'medium')
+    : preference;
+  return { level, ...POLICIES[level] };
+}
+
+function update(meteredChanged = false) {
+  const next = resolvePolicy();
+  if (next.level === currentPolicy.level && !meteredChanged) {
+    return;
+  }
+
+  currentPolicy = next;
+  listeners.forEach((fn) => {
+    try {
+      fn(currentPolicy);
+    } catch {
+      // ignore listener errors
+    }
+  });
+}
+
+export const dataSaver = {
+  getPolicy(): DataPolicy {
+    return currentPolicy;
+  },
+  getPreference(): DataUsagePreference {
+    return preference;
+  },
+  isMeteredConnection(): boolean {
+    return meteredConnection;
+  },
+  setPreference(next: DataUsagePreference) {
+    preference = next;
+    update();
+  },
+  /** Called with NetInfo's connection type and its `isConnectionExpensive` detail. */
+  reportConnection(type: string, isConnectionExpensive?: boolean | null) {
+    const metered = type === 'cellular' || isConnectionExpensive === true;
+    const meteredChanged = metered !== meteredConnection;
+    meteredConnection = metered;
+    update(meteredChanged);
+  },
+  /**
+   * Called with the current policy, then again whenever the level changes or
+   * the connection switches between metered and unmetered (which matters for
+   * preloading even when a fixed preference keeps the level).
+   */
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    listener(currentPolicy);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default dataSaver;
@@ -0,0 +1,216 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import * as Device from 'expo-device';
+
+/**
+ * Device capability profile.
+ *
+ * Sizes everything that holds decoders or rendered cells (mounted feed
+ * players, warmup radius, FlatList windows) from three inputs:
+ *   - RAM class from expo-device and the Android API level;
+ *   - crash history: a session that never reached the background is counted
+ *     as an unclean exit (OOM kills look exactly like this), and repeated
+ *     unclean exits step the device down one tier;
+ *   - live memory warnings, which step it down for a cool-down period and
+ *     notify subscribers so feed screens drop preloaded players straight away.
+ */
+
+export type DeviceTier = 'low' | 'mid' | 'high';
+export type FlatListPresetName = 'low' | 'medium' | 'high';
+
+export type DeviceProfile = {
+  tier: DeviceTier;
+  /** Tier from hardware alone, before crash history and memory pressure */
+  baseTier: DeviceTier;
+  underMemoryPressure: boolean;
+  /** Feed players kept mounted at once, the active one included */
+  poolSize: number;
+  /** Posts around the active one that feed-window-warmup prefetches */
+  warmRadius: { forward: number; backward: number };
+  /** Windowing for the full-screen video pagers */
+  videoFeedList: { windowSize: number; initialNumToRender: number; maxToRenderPerBatch: number };
+  /** Key into FLATLIST_MEMORY_PRESETS for image and text lists */
+  flatListPreset: FlatListPresetName;
+};
+
+type SessionHistory = {
+  /** A session is open between launch and the next background */
+  sessionOpen: boolean;
+  /** Outcome of the most recent sessions, newest last */
+  recent: ('clean' | 'unclean')[];
+};
+
+type Listener = (profile: DeviceProfile) => void;
+
+const STORAGE_KEY = '@talynk/device_profile_history';
+const HISTORY_LENGTH = 5;
+const UNCLEAN_EXITS_TO_STEP_DOWN = 2;
+const MEMORY_PRESSURE_COOLDOWN_MS = 2 * 60_000;
+const GB = 1024 ** 3;
+
+const ANDROID_API_LEVEL = typeof Platform.Version === 'number'
+  ? Platform.Version
+  : Number.parseInt(String(Platform.Version), 10);
+const IS_OLDER_ANDROID = Platform.OS === 'android' &&
+  Number.isFinite(ANDROID_API_LEVEL) &&
+  ANDROID_API_LEVEL <= 28;
+
+const TIER_ORDER: DeviceTier[] = ['low', 'mid', 'high'];
+
+// FLATLIST_MEMORY_PRESETS is keyed by how constrained the list is, so the
+// smallest device gets the tightest preset.
+const TIER_SETTINGS: Record<DeviceTier, Omit<DeviceProfile, 'tier' | 'baseTier' | 'underMemoryPressure'>> = {
+  low: {
+    poolSize: 2,
+    warmRadius: { forward: 2, backward: 0 },
+    videoFeedList: { windowSize: 5, initialNumToRender: 2, maxToRenderPerBatch: 2 },
+    flatListPreset: 'high',
+  },
+  mid: {
+    poolSize: 3,
+    warmRadius: { forward: 2, backward: 1 },
+    videoFeedList: { windowSize: 9, initialNumToRender: 5, maxToRenderPerBatch: 6 },
+    flatListPreset: 'medium',
+  },
+  high: {
+    poolSize: Platform.OS === 'ios' ? 4 : 3,
+    warmRadius: { forward: 4, backward: 1 },
+    videoFeedList: { windowSize: 11, initialNumToRender: 5, maxToRenderPerBatch: 6 },
+    flatListPreset: 'low',
+  },
+};
+
+let history: SessionHistory = { sessionOpen: false, recent: [] };
+let underMemoryPressure = false;
+let pressureTimer: ReturnType<typeof setTimeout> | null = null;
+let initialized = false;
+let currentProfile: DeviceProfile = buildProfile();
+const listeners = new Set<Listener>();
+
+function getHardwareTier(): DeviceTier {
+  const totalMemory = Device.totalMemory;
+  if (IS_OLDER_ANDROID || (totalMemory !== null && totalMemory <= 3 * GB)) {
+    return 'low';
+  }
+  if (totalMemory === null || totalMemory <= 6 * GB) {
+    return 'mid';
+  }
+  return 'high';
+}
+
+function stepDown(tier: DeviceTier, steps: number): DeviceTier {
+  return TIER_ORDER[Math.max(0, TIER_ORDER.indexOf(tier) - steps)];
+}
+
+function buildProfile(): DeviceProfile {
+  const baseTier = getHardwareTier();
+  const uncleanExits = history.recent.filter((outcome) => outcome === 'unclean').length;
+  const steps = (uncleanExits >= UNCLEAN_EXITS_TO_STEP_DOWN ? 1 : 0) + (underMemoryPressure ? 1 : 0);
+  const tier = stepDown(baseTier, steps);
+
+  return { tier, baseTier, underMemoryPressure, ...TIER_SETTINGS[tier] };
+}
+
+function refresh() {
+  const next = buildProfile();
+  const changed = next.tier !== currentProfile.tier ||
+    next.underMemoryPressure !== currentProfile.underMemoryPressure;
+  currentProfile = next;
+  if (changed) {
+    listeners.forEach((listener) => listener(currentProfile));
+  }
+}
+
+async function persistHistory() {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // Best-effort only.
+  }
+}
+
+async function loadHistory(): Promise<SessionHistory> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return { sessionOpen: false, recent: [] };
+    }
+    const parsed = JSON.parse(raw);
+    return {
+      sessionOpen: parsed?.sessionOpen === true,
+      recent: Array.isArray(parsed?.recent)
+        ? parsed.recent.filter((outcome: unknown) => outcome === 'clean' || outcome === 'unclean')
+        : [],
+    };
+  } catch {
+    return { sessionOpen: false, recent: [] };
+  }
+}
+
+function recordSessionOutcome(outcome: 'clean' | 'unclean') {
+  history.recent = [...history.recent, outcome].slice(-HISTORY_LENGTH);
+}
+
+function handleAppStateChange(nextState: AppStateStatus) {
+  if (nextState === 'background' && history.sessionOpen) {
+    history.sessionOpen = false;
+    recordSessionOutcome('clean');
+    void persistHistory();
+    refresh();
+  } else if (nextState === 'active' && !history.sessionOpen) {
+    history.sessionOpen = true;
+    void persistHistory();
+  }
+}
+
+export const deviceProfile = {
+  get(): DeviceProfile {
+    return currentProfile;
+  },
+
+  /** Loads crash history and starts listening for lifecycle and memory warnings. Call once at startup. */
+  async initialize(): Promise<void> {
+    if (initialized) return;
+    initialized = true;
+
+    const stored = await loadHistory();
+    history = stored;
+    if (stored.sessionOpen) {
+      recordSessionOutcome('unclean');
+    }
+    history.sessionOpen = true;
+    void persistHistory();
+    refresh();
+
+    AppState.addEventListener('change', handleAppStateChange);
+    // Not emitted on web; the listener is simply never called there
+    AppState.addEventListener('memoryWarning', () => deviceProfile.reportMemoryWarning());
+  },
+
+  reportMemoryWarning() {
+    underMemoryPressure = true;
+    if (pressureTimer) {
+      clearTimeout(pressureTimer);
+    }
+    pressureTimer = setTimeout(() => {
+      pressureTimer = null;
+      underMemoryPressure = false;
+      refresh();
+    }, MEMORY_PRESSURE_COOLDOWN_MS);
+
+    // Listeners are told even when the tier was already stepped down so
+    // screens re-render and unmount whatever they preloaded since the last warning.
+    currentProfile = buildProfile();
+    listeners.forEach((listener) => listener(currentProfile));
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    listener(currentProfile);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default deviceProfile;
@@ -0,0 +1,338 @@
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { postsApi } from '@/lib/api';
+import { uploadNotificationService } from '@/lib/notification-service';
+import { scheduledPosts } from '@/lib/scheduled-posts';
+import {
+  getPendingDirectUploadSessions,
+  removePendingDirectUploadSession,
+  updatePendingDirectUploadSession,
+  upsertPendingDirectUploadSession,
+  type PendingDirectUploadSession,
+} from '@/lib/upload-session-store';
+import { uploadPreparedVideo, uploadPreparedVideoInChunks, type UploadProgressSnapshot } from '@/lib/utils/video-upload';
+import { videoReadyTracker } from '@/lib/video-ready-tracker';
+
+export type UploadRecoveryStatus = 'uploading' | 'finalizing' | 'done' | 'failed';
+
+export type UploadRecoveryState = {
+  postId: string;
+  /** Upload queue item the session belongs to, if any */
+  uploadItemId: string | null;
+  title: string;
+  status: UploadRecoveryStatus;
+  /** 0-100 while uploading */
+  percent: number;
+  bytesPerSecond: number;
+  etaSeconds: number;
+  message: string | null;
+  /** Set on 'done' when the video went up but its caption track did not */
+  captionError: string | null;
+};
+
+type SessionOutcome = 'resumed' | 'deferred' | 'dropped' | 'failed';
+
+// Re-request the upload URL when less than this is left on it
+const URL_EXPIRY_MARGIN_MS = 60 * 1000;
+// Sessions written after launch belong to an upload the create screen is still running (or reporting on)
+const PROCESS_STARTED_AT = Date.now();
+
+let state: UploadRecoveryState | null = null;
+let running: Promise<void> | null = null;
+const listeners = new Set<(next: UploadRecoveryState | null) => void>();
+
+function setState(next: UploadRecoveryState | null) {
+  state = next;
+  listeners.forEach((listener) => {
+    try {
+      listener(state);
+    } catch {
+      // ignore listener errors
+    }
+  });
+}
+
+function patchState(patch: Partial<UploadRecoveryState>) {
+  if (state) {
+    setState({ ...state, ...patch });
+  }
+}
+
+function isFromEarlierRun(session: PendingDirectUploadSession) {
+  const updatedAt = new Date(session.updatedAt || session.createdAt).getTime();
+  return !Number.isFinite(updatedAt) || updatedAt < PROCESS_STARTED_AT;
+}
+
+async function fileExists(uri: string) {
+  try {
+    return (await FileSystem.getInfoAsync(uri)).exists;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Swaps an expired upload URL for a fresh one. The backend ties the URL to a
+ * new post, so the session moves over to it and the old, never-filled post is
+ * deleted.
+ */
+async function refreshUploadUrl(
+  userId: string,
+  session: PendingDirectUploadSession,
+): Promise<PendingDirectUploadSession | null> {
+  const createRes = await postsApi.createUpload({
+    title: session.title,
+    caption: session.caption,
+    post_category: session.postCategory,
+    category_id: session.categoryId,
+    status: session.status,
+  });
+  const uploadUrl = createRes.data?.uploadUrl;
+  if (createRes.status !== 'success' || !uploadUrl) {
+    return null;
+  }
+
+  const { postId, videoUrl } = createRes.data;
+  const expiresIn = Number(createRes.data.expiresIn ?? 600);
+  const now = new Date().toISOString();
+  const refreshed: PendingDirectUploadSession = {
+    ...session,
+    id: `${userId}:${postId}`,
+    postId,
+    uploadUrl,
+    videoUrl,
+    expiresAt: new Date(Date.now() + Math.max(1, expiresIn) * 1000).toISOString(),
+    step: 'created',
+    updatedAt: now,
+  };
+  await upsertPendingDirectUploadSession(userId, refreshed);
+  await removePendingDirectUploadSession(userId, session.postId);
+  postsApi.deletePost(session.postId).catch(() => {});
+  return refreshed;
+}
+
+function reportProgress(snapshot: UploadProgressSnapshot) {
+  patchState({
+    percent: snapshot.overallPercent,
+    bytesPerSecond: snapshot.bytesPerSecond,
+    etaSeconds: snapshot.etaSeconds,
+  });
+}
+
+/**
+ * Continues a chunked upload from its last acknowledged part. Part URLs are
+ * signed per request, so there is no upload URL to refresh; the server's list
+ * of stored parts also covers parts sent just before the app was killed.
+ */
+async function putFileInChunks(
+  userId: string,
+  session: PendingDirectUploadSession,
+  multipart: NonNullable<PendingDirectUploadSession['multipart']>,
+) {
+  await updatePendingDirectUploadSession(userId, session.postId, { step: 'putting' });
+  await uploadPreparedVideoInChunks(
+    session.fileUri,
+    multipart,
+    {
+      getPartUrls: async (partNumbers) => {
+        const partsRes = await postsApi.getUploadParts(session.postId, partNumbers);
+        if (partsRes.status !== 'success') {
+          throw new Error(partsRes.message || 'Could not get an upload link');
+        }
+        return {
+          urls: Object.fromEntries(partsRes.data.parts.map((part) => [part.partNumber, part.url])),
+          uploadedParts: partsRes.data.uploadedParts,
+        };
+      },
+      onPartUploaded: (_partNumber, completedParts) =>
+        updatePendingDirectUploadSession(userId, session.postId, {
+          multipart: { ...multipart, completedParts },
+        }),
+    },
+    { onProgress: reportProgress },
+  );
+  await updatePendingDirectUploadSession(userId, session.postId, { step: 'put_done' });
+  return { ...session, step: 'put_done' as const };
+}
+
+async function putFile(userId: string, session: PendingDirectUploadSession): Promise<PendingDirectUploadSession | null> {
+  if (!(await fileExists(session.fileUri))) {
+    await removePendingDirectUploadSession(userId, session.postId);
+    return null;
+  }
+
+  if (session.multipart) {
+    return putFileInChunks(userId, session, session.multipart);
+  }
+
+  let current = session;
+  if (Date.now() + URL_EXPIRY_MARGIN_MS >= new Date(session.expiresAt).getTime()) {
+    const refreshed = await refreshUploadUrl(userId, session);
+    if (!refreshed) {
+      throw new Error('Could not get a new upload link');
+    }
+    current = refreshed;
+    patchState({ postId: current.postId });
+  }
+
+  await updatePendingDirectUploadSession(userId, current.postId, { step: 'putting' });
+  await uploadPreparedVideo(current.uploadUrl, current.fileUri, { onProgress: reportProgress });
+  await updatePendingDirectUploadSession(userId, current.postId, { step: 'put_done' });
+  return { ...current, step: 'put_done' };
+}
+
+async function resumeSession(userId: string, session: PendingDirectUploadSession): Promise<SessionOutcome> {
+  if (!isFromEarlierRun(session)) {
+    return 'deferred';
+  }
+
+  let current: PendingDirectUploadSession | null = session;
+  if (current.step === 'created' || current.step === 'putting') {
+    setState({
+      postId: current.postId,
+      uploadItemId: current.uploadItemId ?? null,
+      title: current.title,
+      status: 'uploading',
+      percent: 0,
+      bytesPerSecond: 0,
+      etaSeconds: 0,
+      message: null,
+      captionError: null,
+    });
+    current = await putFile(userId, current);
+    if (!current) {
+      patchState({ status: 'failed', message: 'The recorded video is no longer on this device.' });
+      return 'dropped';
+    }
+  }
+
+  if (state?.postId !== current.postId) {
+    setState({
+      postId: current.postId,
+      uploadItemId: current.uploadItemId ?? null,
+      title: current.title,
+      status: 'finalizing',
+      percent: 100,
+      bytesPerSecond: 0,
+      etaSeconds: 0,
+      message: null,
+      captionError: null,
+    });
+  } else {
+    patchState({ status: 'finalizing', percent: 100 });
+  }
+
+  if (current.step === 'put_done') {
+    await updatePendingDirectUploadSession(userId, current.postId, { step: 'complete_called' });
+    const completeRes = await postsApi.completeUpload(current.postId);
+    if (completeRes.status !== 'success') {
+      const message = String(completeRes.message || '').toLowerCase();
+      if (message.includes('file not found')) {
+        // The storage may not list the object yet (or, for chunked uploads, is missing a part); try again on the next launch
+        await updatePendingDirectUploadSession(userId, current.postId, {
+          step: current.multipart ? 'putting' : 'put_done',
+        });
+        patchState({ status: 'failed', message: 'Upload finished but could not be confirmed yet. We will retry.' });
+        return 'deferred';
+      }
+      await removePendingDirectUploadSession(userId, current.postId);
+      patchState({ status: 'failed', message: completeRes.message || 'Processing could not be queued.' });
+      return 'dropped';
+    }
+  } else if (current.step === 'complete_called') {
+    const statusRes = await postsApi.getProcessingStatus(current.postId);
+    if (statusRes.status !== 'success') {
+      setState(null);
+      return 'deferred';
+    }
+  }
+
+  let captionError: string | null = null;
+  if (current.captionFile) {
+    const captionsRes = await postsApi.uploadSubtitles(current.postId, current.captionFile);
+    if (captionsRes.status !== 'success') {
+      captionError = captionsRes.message || 'Captions could not be added';
+    }
+  }
+
+  if (current.schedule) {
+    await scheduledPosts.schedule(userId, current.postId, current.schedule.publishAt, {
+      title: current.title,
+      challengeId: current.schedule.challengeId,
+      challengeName: current.schedule.challengeName,
+    });
+  }
+
+  await videoReadyTracker.track(userId, {
+    postId: current.postId,
+    destination: current.destination,
+  });
+  await removePendingDirectUploadSession(userId, current.postId);
+  if (FileSystem.cacheDirectory && current.fileUri.startsWith(FileSystem.cacheDirectory)) {
+    // Compressed copies live in the cache; originals picked from the library are left alone
+    FileSystem.deleteAsync(current.fileUri, { idempotent: true }).catch(() => {});
+  }
+  await uploadNotificationService.showUploadQueued(current.destination);
+  patchState({ status: 'done', message: null, captionError });
+  return 'resumed';
+}
+
+async function resumeAll(userId: string) {
+  const sessions = await getPendingDirectUploadSessions(userId);
+  // Oldest first, so uploads finish in the order they were started
+  for (const session of [...sessions].reverse()) {
+    let outcome: SessionOutcome;
+    try {
+      outcome = await resumeSession(userId, session);
+    } catch (error) {
+      // Network loss mid-resume: the session keeps its step and is picked up next time
+      console.warn('[UploadRecovery] Failed to resume upload:', error);
+      patchState({ status: 'failed', message: 'Could not resume your upload. We will try again next time you open the app.' });
+      outcome = 'failed';
+    }
+
+    if (outcome === 'failed') {
+      await uploadNotificationService.showUploadError('Upload could not be resumed.', session.fileName);
+      break;
+    }
+  }
+}
+
+/**
+ * Finishes direct uploads left behind when the app was killed or lost its
+ * connection. Each pending session continues from its recorded step: the file
+ * is PUT again (under a fresh URL if the old one expired; chunked uploads only
+ * send the parts the storage does not have yet), the backend is told
+ * the upload completed, and the post is handed to the video-ready tracker.
+ * Progress is published for the "Resuming your upload" banner.
+ */
+export const directUploadRecovery = {
+  get(): UploadRecoveryState | null {
+    return state;
+  },
+
+  resume(userId: string): Promise<void> {
+    if (!running) {
+      running = resumeAll(userId).finally(() => {
+        running = null;
+      });
+    }
+    return running;
+  },
+
+  dismiss() {
+    if (state && state.status !== 'uploading' && state.status !== 'finalizing') {
+      setState(null);
+    }
+  },
+
+  subscribe(listener: (next: UploadRecoveryState | null) => void): () => void {
+    listeners.add(listener);
+    listener(state);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default directUploadRecovery;
@@ -1,9 +1,13 @@
-import { Image as ExpoImage } from 'expo-image';
 import { Post } from '@/types';
 import { getPlaybackUrl, getPostMediaUrl, getThumbnailUrl } from '@/lib/utils/file-url';
 import { primePostDetailsCache, getPostDetailsCached } from '@/lib/post-details-cache';
 import { getPostVideoAssetsBatchCached } from '@/lib/post-video-assets-cache';
 import { getFeedWarmRadius } from '@/lib/utils/video-feed';
+import { getCappedPlaybackUrl, rememberHlsMaster, resolveHlsUrl } from '@/lib/utils/hls-variants';
+import { dataSaver, type DataPolicy } from '@/lib/data-saver';
+import { getPlaybackSelection, type PlaybackSelection } from '@/lib/video-quality';
+import { playbackQoe } from '@/lib/playback-qoe';
+import { imageCache } from '@/lib/utils/image-cache';
 
 const FEED_WARM_TTL_MS = 2 * 60 * 1000;
 const VIDEO_HLS_PREFETCH_INTERVAL_MS = 4_000;
@@ -20,14 +24,6 @@ function pickThumbnailUrl(post: Post) {
   return getThumbnailUrl(post) || (!isVideoPost(post) ? getPostMediaUrl(post) : null);
 }
 
-function resolveUrl(base: string, relative: string) {
-  if (/^https?:\/\//i.test(relative)) {
-    return relative;
-  }
-  const root = base.slice(0, base.lastIndexOf('/') + 1);
-  return `${root}${relative.replace(/^\//, '')}`;
-}
-
 async function fetchText(url: string) {
   const response = await fetch(url, { method: 'GET' });
   if (!response.ok) {
@@ -36,7 +32,12 @@ async function fetchText(url: string) {
   return response.text();
 }
 
-async function prefetchHlsHead(playbackUrl: string, depth = 0): Promise<void> {
+async function prefetchHlsHead(
+  playbackUrl: string,
+  policy: DataPolicy,
+  selection: PlaybackSelection,
+  depth = 0,
+): Promise<void> {
   if (depth > 2) {
     return;
   }
@@ -45,15 +46,23 @@ async function prefetchHlsHead(playbackUrl: string, depth = 0): Promise<void> {
   const lines = manifestText.split('\n').map((line) => line.trim()).filter(Boolean);
   const variantUrl = lines.find((line) => !line.startsWith('#') && line.includes('.m3u8'));
   if (variantUrl) {
-    await prefetchHlsHead(resolveUrl(playbackUrl, variantUrl), depth + 1);
+    // Warm the variant the player will actually be given under the chosen quality
+    rememberHlsMaster(playbackUrl, manifestText);
+    const cappedUrl = getCappedPlaybackUrl(playbackUrl, selection.maxHeight, { lock: selection.lock });
+    await prefetchHlsHead(
+      cappedUrl !== playbackUrl ? cappedUrl : resolveHlsUrl(playbackUrl, variantUrl),
+      policy,
+      selection,
+      depth + 1,
+    );
     return;
   }
 
   const segmentUrls = lines.filter((line) => !line.startsWith('#'));
-  const prefetchTargets = segmentUrls.slice(0, 3);
+  const prefetchTargets = segmentUrls.slice(0, policy.hlsPrefetchSegments);
   await Promise.all(
     prefetchTargets.map((segmentUrl) =>
-      fetch(resolveUrl(playbackUrl, segmentUrl), {
+      fetch(resolveHlsUrl(playbackUrl, segmentUrl), {
         method: 'GET',
         headers: { Range: 'bytes=0-1048575' },
       }).catch(() => undefined),
@@ -61,20 +70,29 @@ async function prefetchHlsHead(playbackUrl: string, depth = 0): Promise<void> {
   );
 }
 
-function getWarmTargets(posts: Post[], centerIndex: number, radius?: { forward: number; backward: number }) {
+function getWarmTargets(
+  posts: Post[],
+  centerIndex: number,
+  policy: DataPolicy,
+  radius?: { forward: number; backward: number },
+) {
   if (!Array.isArray(posts) || posts.length === 0) {
     return [];
   }
 
   const safeCenter = Math.max(0, Math.min(centerIndex, posts.length - 1));
   const warmRadius = radius ?? getFeedWarmRadius(safeCenter, posts.length);
-  const start = Math.max(0, safeCenter - warmRadius.backward);
-  const end = Math.min(posts.length, safeCenter + warmRadius.forward + 1);
+  const forward = Math.min(warmRadius.forward, policy.maxWarmRadius?.forward ?? warmRadius.forward);
+  const backward = Math.min(warmRadius.backward, policy.maxWarmRadius?.backward ?? warmRadius.backward);
+  const start = Math.max(0, safeCenter - backward);
+  const end = Math.min(posts.length, safeCenter + forward + 1);
   return posts.slice(start, end).filter((post): post is Post => !!post?.id);
 }
 
 export function warmFeedWindow(posts: Post[], centerIndex: number, options?: { radius?: { forward: number; backward: number } }) {
-  const targets = getWarmTargets(posts, centerIndex, options?.radius);
+  const policy = dataSaver.getPolicy();
+  const selection = getPlaybackSelection();
+  const targets = getWarmTargets(posts, centerIndex, policy, options?.radius);
 
   if (targets.length === 0) {
     return;
@@ -96,12 +114,19 @@ export function warmFeedWindow(posts: Post[], centerIndex: number, options?: { r
     return;
   }
 
+  // The centre post is already playing, so only its neighbours can start warm
+  const centerPostId = posts[Math.max(0, Math.min(centerIndex, posts.length - 1))]?.id;
+  playbackQoe.recordWarmup(
+    freshTargets.filter((post) => post.id !== centerPostId).map((post) => post.id),
+  );
+
   const thumbnailUrls = freshTargets
     .map((post) => pickThumbnailUrl(post))
     .filter((url): url is string => !!url);
 
   if (thumbnailUrls.length > 0) {
-    void ExpoImage.prefetch(thumbnailUrls, 'memory-disk').catch(() => {
+    // Into the disk cache the feed's thumbnail layer reads from
+    void imageCache.prefetchBatch(thumbnailUrls).catch(() => {
       // Best-effort warmup only.
     });
   }
@@ -126,7 +151,7 @@ export function warmFeedWindow(posts: Post[], centerIndex: number, options?: { r
       return;
     }
     videoHlsPrefetchedAt.set(post.id, Date.now());
-    void prefetchHlsHead(playbackUrl).catch(() => {
+    void prefetchHlsHead(playbackUrl, policy, selection).catch(() => {
       // Best-effort warmup only.
     });
   });
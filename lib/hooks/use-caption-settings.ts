@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { captionSettings } from '@/lib/caption-settings';
+
+export function useCaptionSettings() {
+  const [settings, setSettings] = useState(captionSettings.get());
+
+  useEffect(() => captionSettings.subscribe(setSettings), []);
+
+  return settings;
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef, useState } from 'react';
+import { getCaptionTrack, loadCaptionTrack, type CaptionTrack } from '@/lib/captions';
+
+/** Caption track of a video post; loads once `enabled` is set (e.g. when the post is near the screen). */
+export function useCaptionTrack(post: any, enabled: boolean): CaptionTrack | null {
+  const [track, setTrack] = useState<CaptionTrack | null>(() => getCaptionTrack(post));
+  const postRef = useRef(post);
+  postRef.current = post;
+  const postId = post?.id;
+
+  useEffect(() => {
+    const current = postRef.current;
+    setTrack(getCaptionTrack(current));
+    if (!enabled) {
+      return;
+    }
+
+    let cancelled = false;
+    void loadCaptionTrack(current).then((loaded) => {
+      if (!cancelled) {
+        setTrack(loaded);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [postId, enabled]);
+
+  return track;
+}
@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { dataSaver } from '@/lib/data-saver';
+
+export function useDataPolicy() {
+  const [policy, setPolicy] = useState(dataSaver.getPolicy());
+
+  useEffect(() => dataSaver.subscribe(setPolicy), []);
+
+  return policy;
+}
@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { deviceProfile } from '@/lib/device-profile';
+
+export function useDeviceProfile() {
+  const [profile, setProfile] = useState(deviceProfile.get());
+
+  useEffect(() => deviceProfile.subscribe(setProfile), []);
+
+  return profile;
+}
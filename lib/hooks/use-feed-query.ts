@@ -2,10 +2,11 @@ import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useCallback, useEffect, useMemo } from 'react';
 
-import { authApi, feedApi, followsApi, postsApi, userApi } from '@/lib/api';
+import { feedApi, followsApi, postsApi, userApi } from '@/lib/api';
 import { useAuth } from '@/lib/auth-context';
 import { FEED_DEFAULT_PAGE_SIZE, FEED_INTEGRATION_CONFIG } from '@/lib/feed-config';
 import { feedTelemetry } from '@/lib/feed-telemetry';
+import { recommendationSignals } from '@/lib/recommendation-signals';
 import { warmFeedWindow } from '@/lib/feed-window-warmup';
 import { primePostDetailsCache } from '@/lib/post-details-cache';
 import { FeedApiResponse, FeedPagination, Post, UserPreferenceHint } from '@/types';
@@ -246,21 +247,6 @@ function detectLegacyPipeline(data: any, nextCursor: string | null) {
   return nextCursor !== null || (typeof pipeline === 'string' && pipeline !== 'tiktok-lite');
 }
 
-async function refreshAuthTokenForFeed() {
-  const refreshToken = await AsyncStorage.getItem('talynk_refresh_token');
-  if (!refreshToken) {
-    return false;
-  }
-
-  const response = await authApi.refresh(refreshToken);
-  if (response.status !== 'success' || !response.data?.accessToken) {
-    return false;
-  }
-
-  await AsyncStorage.setItem('talynk_token', response.data.accessToken);
-  return true;
-}
-
 function sanitizeUserPreferences(raw: unknown): UserPreferenceHint[] {
   if (!Array.isArray(raw)) {
     return [];
@@ -565,13 +551,9 @@ async function loadForYouFeedPage(args: {
       : await feedApi.getPublic(requestOptions);
   } catch (error: any) {
     if (isAuthenticated && error?.response?.status === 401) {
-      const refreshed = await refreshAuthTokenForFeed().catch(() => false);
-      if (refreshed) {
-        response = await feedApi.getPersonalized(requestOptions);
-      } else {
-        endpoint = 'public';
-        response = await feedApi.getPublic(requestOptions);
-      }
+      // apiClient already attempted a token refresh; fall back to the public feed
+      endpoint = 'public';
+      response = await feedApi.getPublic(requestOptions);
     } else {
       requestError = error;
       response = {
@@ -918,6 +900,15 @@ export function useFeedQuery(tab: FeedTab, options: UseFeedQueryOptions = {}) {
     void persistFeedPages(tab, userId, query.data.pages);
   }, [query.data?.pages, tab, userId]);
 
+  useEffect(() => {
+    query.data?.pages?.forEach((page) => {
+      recommendationSignals.registerFeedAttribution(
+        page.posts.map((post) => post.id),
+        { endpoint: page.endpoint, pipeline: page.pipeline, refresh: page.refresh },
+      );
+    });
+  }, [query.data?.pages]);
+
   const endpoint = firstPage?.endpoint ?? (tab === 'following' ? 'following' : isAuthenticated ? 'personalized' : 'public');
 
   useEffect(() => {
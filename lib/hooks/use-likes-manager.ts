@@ -168,7 +168,7 @@ export const useLikesManager = () => {
 
     // Background API call
     try {
-      const response = await likesApi.toggle(postId);
+      const response = await likesApi.toggle(postId, { desiredLiked: newIsLiked });
       
       if (response.status === 'success' && response.data) {
         // Update with server response
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth-context';
+import { localDrafts, type LocalDraft } from '@/lib/local-drafts';
+
+/** Drafts the signed-in user saved on this device, most recently edited first. */
+export function useLocalDrafts() {
+  const { user } = useAuth();
+  const [drafts, setDrafts] = useState<LocalDraft[]>(() => localDrafts.list());
+
+  useEffect(() => {
+    const unsubscribe = localDrafts.subscribe(setDrafts);
+    if (user?.id) {
+      void localDrafts.load(user.id).then(() => setDrafts(localDrafts.list()));
+    }
+    return unsubscribe;
+  }, [user?.id]);
+
+  return drafts;
+}
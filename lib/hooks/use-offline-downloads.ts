@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { offlineDownloads, type OfflineDownload, type OfflineSettings } from '@/lib/offline-downloads';
+
+export function useOfflineDownloads() {
+  const [downloads, setDownloads] = useState<OfflineDownload[]>(() => offlineDownloads.list());
+  const [settings, setSettings] = useState<OfflineSettings>(() => offlineDownloads.getSettings());
+
+  useEffect(() => {
+    const unsubscribe = offlineDownloads.subscribe(setDownloads);
+    const unsubscribeSettings = offlineDownloads.subscribeSettings(setSettings);
+    void offlineDownloads.load().then(() => {
+      setDownloads(offlineDownloads.list());
+      setSettings(offlineDownloads.getSettings());
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeSettings();
+    };
+  }, []);
+
+  return { downloads, settings };
+}
+
+export function useOfflineDownload(postId: string | null | undefined) {
+  const [download, setDownload] = useState<OfflineDownload | null>(() => (postId ? offlineDownloads.get(postId) : null));
+
+  useEffect(() => {
+    if (!postId) {
+      setDownload(null);
+      return;
+    }
+
+    let cancelled = false;
+    void offlineDownloads.load().then(() => {
+      if (!cancelled) setDownload(offlineDownloads.get(postId));
+    });
+    const unsubscribe = offlineDownloads.subscribe(() => {
+      setDownload(offlineDownloads.get(postId));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [postId]);
+
+  return download;
+}
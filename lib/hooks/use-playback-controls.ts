@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { playbackControls } from '@/lib/playback-controls';
+
+export function usePlaybackControls() {
+  const [controls, setControls] = useState(playbackControls.get());
+
+  useEffect(() => playbackControls.subscribe(setControls), []);
+
+  return controls;
+}
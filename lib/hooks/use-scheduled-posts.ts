@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth-context';
+import { scheduledPosts, type ScheduledPost } from '@/lib/scheduled-posts';
+
+/** Scheduled drafts of the signed-in user, soonest first. */
+export function useScheduledPosts() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<ScheduledPost[]>(() => scheduledPosts.list());
+
+  useEffect(() => {
+    const unsubscribe = scheduledPosts.subscribe(setEntries);
+    if (user?.id) {
+      void scheduledPosts.load(user.id).then(() => setEntries(scheduledPosts.list()));
+    }
+    return unsubscribe;
+  }, [user?.id]);
+
+  return entries;
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth-context';
+import { uploadQueue, type UploadQueueItem } from '@/lib/upload-queue';
+
+/** Upload queue of the signed-in user; loading it also restarts uploads left queued. */
+export function useUploadQueue() {
+  const { user } = useAuth();
+  const [items, setItems] = useState<UploadQueueItem[]>(() => uploadQueue.list());
+
+  useEffect(() => {
+    const unsubscribe = uploadQueue.subscribe(setItems);
+    if (user?.id) {
+      void uploadQueue.load(user.id).then(() => setItems(uploadQueue.list()));
+    }
+    return unsubscribe;
+  }, [user?.id]);
+
+  return items;
+}
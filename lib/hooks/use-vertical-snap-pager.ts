@@ -1,5 +1,5 @@
 import type { RefObject } from 'react';
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { FlatList, NativeSyntheticEvent, NativeScrollEvent } from 'react-native';
 
 import { feedTelemetry } from '@/lib/feed-telemetry';
@@ -14,6 +14,9 @@ type PagerOptions<ItemT> = {
   onTransitionEnd?: () => void;
 };
 
+// A momentum end this soon after a programmatic scroll to the same page belongs to that scroll
+const PROGRAMMATIC_SETTLE_WINDOW_MS = 1_000;
+
 function normalizeHeight(height: number) {
   return Math.max(1, Math.round(height));
 }
@@ -28,6 +31,7 @@ export function useVerticalSnapPager<ItemT>({
   onTransitionEnd,
 }: PagerOptions<ItemT>) {
   const [stablePageHeight, setStablePageHeight] = useState(() => normalizeHeight(pageHeight));
+  const programmaticSettleRef = useRef<{ index: number; at: number } | null>(null);
 
   useEffect(() => {
     const next = normalizeHeight(pageHeight);
@@ -84,11 +88,40 @@ export function useVerticalSnapPager<ItemT>({
       index: nextIndex,
     });
 
+    // scrollToIndex already settled this page; the animated scroll may still end with momentum
+    const programmatic = programmaticSettleRef.current;
+    programmaticSettleRef.current = null;
+    if (programmatic?.index === nextIndex && Date.now() - programmatic.at < PROGRAMMATIC_SETTLE_WINDOW_MS) {
+      return nextIndex;
+    }
+
     onIndexSettled?.(nextIndex);
     onTransitionEnd?.();
     return nextIndex;
   }, [onIndexSettled, onTransitionEnd, resolveIndexFromOffset, screenName, stablePageHeight]);
 
+  const latestRef = useRef({ itemCount, stablePageHeight, onIndexChanged, onIndexSettled, onTransitionEnd });
+  latestRef.current = { itemCount, stablePageHeight, onIndexChanged, onIndexSettled, onTransitionEnd };
+
+  // Programmatic page change (auto-advance). Stable identity so memoized feed items can hold it;
+  // settles immediately because programmatic scrolls do not reliably emit momentum end.
+  const scrollToIndex = useCallback((index: number, options: { animated?: boolean } = {}) => {
+    const latest = latestRef.current;
+    if (index < 0 || index >= latest.itemCount) {
+      return false;
+    }
+
+    listRef.current?.scrollToOffset({
+      offset: index * latest.stablePageHeight,
+      animated: options.animated ?? true,
+    });
+    programmaticSettleRef.current = { index, at: Date.now() };
+    latest.onIndexChanged?.(index);
+    latest.onIndexSettled?.(index);
+    latest.onTransitionEnd?.();
+    return true;
+  }, [listRef]);
+
   return {
     pageHeight: stablePageHeight,
     snapToInterval: stablePageHeight,
@@ -97,5 +130,6 @@ export function useVerticalSnapPager<ItemT>({
     handleScroll,
     handleMomentumScrollEnd,
     resolveIndexFromOffset,
+    scrollToIndex,
   };
 }
@@ -0,0 +1,17 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getPlaybackSelection, videoQuality } from '@/lib/video-quality';
+import { useDataPolicy } from '@/lib/hooks/use-data-policy';
+
+export function useVideoQuality() {
+  const [preference, setPreference] = useState(videoQuality.getPreference());
+  const { maxVideoHeight } = useDataPolicy();
+
+  useEffect(() => videoQuality.subscribe(setPreference), []);
+
+  const selection = useMemo(
+    () => getPlaybackSelection(preference, maxVideoHeight),
+    [preference, maxVideoHeight],
+  );
+
+  return { preference, selection };
+}
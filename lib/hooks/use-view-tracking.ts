@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { viewTracker } from '@/lib/view-tracker';
+
+const SAMPLE_INTERVAL_MS = 500;
+
+/**
+ * Feed a post's watch time into the view tracker while it is on screen.
+ * `watching` should only be true while media is actually playing (or, for
+ * images, while the post is the active item and the app is foregrounded).
+ */
+export function useViewTracking(
+  postId: string | undefined,
+  { active, watching, visibilityPercent = 100 }: { active: boolean; watching: boolean; visibilityPercent?: number },
+) {
+  useEffect(() => {
+    if (!postId || !active) {
+      return;
+    }
+
+    viewTracker.sample(postId, { watching, visibilityPercent });
+    if (!watching) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      viewTracker.sample(postId, { watching: true, visibilityPercent });
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      // Close the open sample window so pause time is not counted
+      viewTracker.sample(postId, { watching: false, visibilityPercent });
+    };
+  }, [active, postId, visibilityPercent, watching]);
+
+  useEffect(() => {
+    if (!postId || active) {
+      return;
+    }
+    viewTracker.endImpression(postId);
+  }, [active, postId]);
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { watchHistory, type WatchHistoryState } from '@/lib/watch-history';
+
+export function useWatchHistory(userId: string | null | undefined) {
+  const [state, setState] = useState<WatchHistoryState | null>(() => (userId ? watchHistory.peek(userId) : null));
+
+  useEffect(() => {
+    if (!userId) {
+      setState(null);
+      return;
+    }
+
+    let cancelled = false;
+    void watchHistory.load(userId).then((loaded) => {
+      if (!cancelled) setState(loaded);
+    });
+    const unsubscribe = watchHistory.subscribe((changedUserId, next) => {
+      if (changedUserId === userId) setState(next);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return { state, loading: !!userId && state === null };
+}
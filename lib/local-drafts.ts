@@ -0,0 +1,284 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { uploadQueue, type UploadQueueItem } from './upload-queue';
+
+/**
+ * Drafts kept on the device instead of on the server.
+ *
+ * Server drafts need the video uploaded first; these hold a copy of the
+ * recorded or edited video (plus thumbnail and caption file) in app storage
+ * together with the composer fields, so a post can be recorded now and
+ * uploaded later on a better connection. Uploading hands the draft to the
+ * upload queue; the draft stays (and can be retried) until its upload has
+ * reached the server, then it is deleted along with its files.
+ */
+
+export type LocalDraft = {
+  id: string;
+  userId: string;
+  /** Copy of the video inside the draft's folder */
+  videoUri: string;
+  thumbnailUri: string | null;
+  captionFile: { uri: string; name: string } | null;
+  title: string;
+  caption: string;
+  /** Main category name (the create screen's group) */
+  categoryGroup: string;
+  categoryId: string;
+  /** Subcategory name, sent as the post category when uploading */
+  categoryName: string;
+  challengeId: string | null;
+  challengeName: string | null;
+  /** Upload queue item while the draft is being uploaded */
+  uploadItemId: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type LocalDraftInput = Omit<LocalDraft, 'id' | 'userId' | 'uploadItemId' | 'createdAt' | 'updatedAt'>;
+
+type Listener = (drafts: LocalDraft[]) => void;
+
+export const MAX_LOCAL_DRAFTS = 20;
+const DRAFTS_DIR = `${FileSystem.documentDirectory ?? ''}local-drafts/`;
+
+let drafts = new Map<string, LocalDraft>();
+let currentUserId: string | null = null;
+let loadPromise: Promise<void> | null = null;
+let unsubscribeUploads: (() => void) | null = null;
+const listeners = new Set<Listener>();
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function storageKey(userId: string) {
+  return `@local_drafts:${userId}`;
+}
+
+function draftDir(id: string) {
+  return `${DRAFTS_DIR}${encodeURIComponent(id)}/`;
+}
+
+function list(): LocalDraft[] {
+  return [...drafts.values()].sort((left, right) => right.updatedAt.localeCompare(left.updatedAt));
+}
+
+function notify() {
+  const snapshot = list();
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+async function persist() {
+  if (!currentUserId) return;
+  try {
+    await AsyncStorage.setItem(storageKey(currentUserId), JSON.stringify(list()));
+  } catch {
+    // Best-effort only.
+  }
+}
+
+function update(id: string, patch: Partial<LocalDraft>) {
+  const current = drafts.get(id);
+  if (!current) return;
+  drafts.set(id, { ...current, ...patch, updatedAt: nowIso() });
+  notify();
+  void persist();
+}
+
+async function deleteDraft(id: string) {
+  if (!drafts.delete(id)) return;
+  notify();
+  void persist();
+  FileSystem.deleteAsync(draftDir(id), { idempotent: true }).catch(() => {});
+}
+
+function getExtension(uri: string, fallback: string) {
+  const match = uri.split('?')[0].match(/\.([a-z0-9]{2,5})$/i);
+  return match ? match[1].toLowerCase() : fallback;
+}
+
+/** Copies a file into the draft's folder, unless it already lives there. */
+async function storeFile(uri: string, dir: string, baseName: string, fallbackExtension: string) {
+  if (uri.startsWith(dir)) {
+    return uri;
+  }
+  const target = `${dir}${baseName}-${Date.now()}.${getExtension(uri, fallbackExtension)}`;
+  await FileSystem.copyAsync({ from: uri, to: target });
+  return target;
+}
+
+/** Deletes files left in the folder by an earlier save (e.g. the video before it was re-edited). */
+async function deleteStaleFiles(dir: string, keep: (string | null | undefined)[]) {
+  try {
+    const names = await FileSystem.readDirectoryAsync(dir);
+    await Promise.all(
+      names
+        .filter((name) => !keep.includes(`${dir}${name}`))
+        .map((name) => FileSystem.deleteAsync(`${dir}${name}`, { idempotent: true })),
+    );
+  } catch {
+    // Leftovers only cost space; they go when the draft is deleted.
+  }
+}
+
+/**
+ * Follows drafts handed to the upload queue: once the video has reached the
+ * server the draft is done, and a cancelled or removed upload makes it
+ * uploadable again. Failed uploads keep their link so a retry from the
+ * Uploads screen still clears the draft, as do uploads the queue shows as
+ * resuming after a relaunch while direct-upload-recovery finishes them.
+ */
+function syncWithUploads(queueItems: UploadQueueItem[]) {
+  const uploadsById = new Map(queueItems.map((item) => [item.id, item]));
+  list().forEach((draft) => {
+    if (!draft.uploadItemId) return;
+    const upload = uploadsById.get(draft.uploadItemId);
+    if (upload?.status === 'processing' || upload?.status === 'ready') {
+      void deleteDraft(draft.id);
+    } else if (!upload || upload.status === 'cancelled') {
+      update(draft.id, { uploadItemId: null });
+    }
+  });
+}
+
+async function ensureLoaded(userId: string) {
+  if (currentUserId !== userId) {
+    currentUserId = userId;
+    drafts = new Map();
+    loadPromise = null;
+  }
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(storageKey(userId));
+        const parsed = raw ? JSON.parse(raw) : [];
+        const entries: LocalDraft[] = Array.isArray(parsed) ? parsed.filter((entry: any) => !!entry?.id) : [];
+        entries.forEach((entry) => drafts.set(entry.id, entry));
+      } catch {
+        drafts = new Map();
+      }
+      // The queue has to be loaded before upload links can be checked against it
+      await uploadQueue.load(userId);
+      if (!unsubscribeUploads) {
+        unsubscribeUploads = uploadQueue.subscribe(syncWithUploads);
+      }
+      syncWithUploads(uploadQueue.list());
+      notify();
+    })();
+  }
+  await loadPromise;
+}
+
+export const localDrafts = {
+  async load(userId: string) {
+    await ensureLoaded(userId);
+  },
+
+  list,
+
+  get(id: string): LocalDraft | null {
+    return drafts.get(id) ?? null;
+  },
+
+  /**
+   * Saves the composer as a new draft, or over `draftId` when editing one.
+   * Media is copied into app storage so the draft survives the camera cache
+   * being cleared.
+   */
+  async save(userId: string, input: LocalDraftInput, draftId?: string | null): Promise<LocalDraft> {
+    await ensureLoaded(userId);
+    const existing = draftId ? drafts.get(draftId) ?? null : null;
+    if (existing?.uploadItemId) {
+      throw new Error('This draft is uploading and can no longer be changed.');
+    }
+    if (!existing && drafts.size >= MAX_LOCAL_DRAFTS) {
+      throw new Error(`You can keep up to ${MAX_LOCAL_DRAFTS} drafts on this device. Delete one to save another.`);
+    }
+
+    const id = existing?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const dir = draftDir(id);
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    const videoUri = await storeFile(input.videoUri, dir, 'video', 'mp4');
+    const thumbnailUri = input.thumbnailUri
+      ? await storeFile(input.thumbnailUri, dir, 'thumbnail', 'jpg').catch(() => null)
+      : null;
+    const captionFile = input.captionFile
+      ? { uri: await storeFile(input.captionFile.uri, dir, 'captions', 'vtt'), name: input.captionFile.name }
+      : null;
+    if (existing) {
+      await deleteStaleFiles(dir, [videoUri, thumbnailUri, captionFile?.uri]);
+    }
+
+    const savedAt = nowIso();
+    const draft: LocalDraft = {
+      ...input,
+      id,
+      userId,
+      videoUri,
+      thumbnailUri,
+      captionFile,
+      uploadItemId: null,
+      createdAt: existing?.createdAt ?? savedAt,
+      updatedAt: savedAt,
+    };
+    drafts.set(id, draft);
+    notify();
+    await persist();
+    return draft;
+  },
+
+  /**
+   * Hands the draft to the upload queue, as a post, a server draft or a post
+   * scheduled for `scheduledPublishAt`. A caption and category are needed
+   * first, as in the create screen.
+   */
+  async upload(
+    id: string,
+    postStatus: 'active' | 'draft' = 'active',
+    scheduledPublishAt: string | null = null,
+  ): Promise<UploadQueueItem> {
+    const draft = drafts.get(id);
+    if (!draft) {
+      throw new Error('This draft no longer exists.');
+    }
+    if (draft.uploadItemId) {
+      throw new Error('This draft is already uploading.');
+    }
+    if (!draft.caption.trim() || !draft.categoryName) {
+      throw new Error('Add a caption and category before uploading this draft.');
+    }
+
+    const challengeId = postStatus !== 'draft' ? draft.challengeId : null;
+    const item = await uploadQueue.enqueue(draft.userId, {
+      sourceUri: draft.videoUri,
+      thumbnailUri: draft.thumbnailUri,
+      title: draft.title || draft.caption.trim().substring(0, 50) || 'My Post',
+      caption: draft.caption,
+      postCategory: draft.categoryName,
+      categoryId: Number(draft.categoryId) || undefined,
+      postStatus,
+      challengeId,
+      challengeName: challengeId ? draft.challengeName : null,
+      captionFile: draft.captionFile,
+      scheduledPublishAt,
+    });
+    update(id, { uploadItemId: item.id });
+    return item;
+  },
+
+  /** Deletes the draft and its files; not while it is uploading. */
+  async remove(id: string) {
+    if (drafts.get(id)?.uploadItemId) return;
+    await deleteDraft(id);
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default localDrafts;
@@ -0,0 +1,282 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { likesApi, followsApi, postsApi } from './api';
+import type { ApiComment } from './api-contracts';
+import { networkStatus } from './network-status';
+import { store } from './store';
+import { addLikedPost, removeLikedPost, setPostLikeCount } from './store/slices/likesSlice';
+
+/**
+ * Persistent, per-user outbox for social mutations made while offline.
+ *
+ * Likes, follows and comments that cannot reach the server are recorded with
+ * the state the user asked for (not as blind toggles), so replay is
+ * idempotent: contradictory entries for the same target cancel out, and each
+ * replayed like is checked against the server before toggling. Replay runs in
+ * queue order whenever `networkStatus` reports online.
+ */
+
+export type OutboxMutation =
+  | { kind: 'like'; postId: string; liked: boolean }
+  | { kind: 'follow'; userId: string; following: boolean }
+  | { kind: 'comment'; postId: string; content: string; clientId: string };
+
+export type OutboxEntry = OutboxMutation & { queuedAt: number };
+
+export type OutboxEvent =
+  | { type: 'like'; postId: string; liked: boolean; likeCount: number }
+  | { type: 'follow'; userId: string; following: boolean }
+  | { type: 'comment'; postId: string; clientId: string; comment: ApiComment | null };
+
+type Listener = (event: OutboxEvent) => void;
+
+const MAX_ENTRIES = 200;
+const RETRY_DELAY_MS = 15_000;
+
+const outboxKey = (userId: string) => `@mutation_outbox:${userId}`;
+
+const queues = new Map<string, OutboxEntry[]>();
+const listeners = new Set<Listener>();
+let replayInFlight: Promise<void> | null = null;
+let inFlightEntry: OutboxEntry | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let lifecycleAttached = false;
+
+function targetOf(mutation: OutboxMutation): string | null {
+  if (mutation.kind === 'like') return `like:${mutation.postId}`;
+  if (mutation.kind === 'follow') return `follow:${mutation.userId}`;
+  return null;
+}
+
+/**
+ * Add a mutation to a queue, collapsing it against any pending entry for the
+ * same target. A like/follow that reverses a pending one means the server
+ * state never needs to change, so both are dropped; a repeat is a no-op.
+ */
+export function collapseOutbox(
+  entries: OutboxEntry[],
+  entry: OutboxEntry,
+  inFlight: OutboxEntry | null = null,
+): OutboxEntry[] {
+  const target = targetOf(entry);
+  if (!target) {
+    return [...entries, entry].slice(-MAX_ENTRIES);
+  }
+
+  // The entry being replayed may already have reached the server, so never cancel against it
+  const existingIndex = entries.findIndex((pending) => pending !== inFlight && targetOf(pending) === target);
+  if (existingIndex === -1) {
+    return [...entries, entry].slice(-MAX_ENTRIES);
+  }
+
+  const existing = entries[existingIndex];
+  const reverses =
+    (existing.kind === 'like' && entry.kind === 'like' && existing.liked !== entry.liked) ||
+    (existing.kind === 'follow' && entry.kind === 'follow' && existing.following !== entry.following);
+
+  return reverses ? entries.filter((_, i) => i !== existingIndex) : entries;
+}
+
+async function getViewerId(): Promise<string | null> {
+  try {
+    const raw = await AsyncStorage.getItem('talynk_user');
+    const viewer = raw ? JSON.parse(raw) : null;
+    return viewer?.id ? String(viewer.id) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function loadQueue(userId: string): Promise<OutboxEntry[]> {
+  const inMemory = queues.get(userId);
+  if (inMemory) return inMemory;
+
+  try {
+    const raw = await AsyncStorage.getItem(outboxKey(userId));
+    const parsed = raw ? JSON.parse(raw) : [];
+    const entries = Array.isArray(parsed) ? (parsed as OutboxEntry[]) : [];
+    queues.set(userId, entries);
+    return entries;
+  } catch {
+    queues.set(userId, []);
+    return [];
+  }
+}
+
+async function saveQueue(userId: string, entries: OutboxEntry[]) {
+  queues.set(userId, entries);
+  try {
+    if (entries.length === 0) {
+      await AsyncStorage.removeItem(outboxKey(userId));
+    } else {
+      await AsyncStorage.setItem(outboxKey(userId), JSON.stringify(entries));
+    }
+  } catch {
+    // Memory copy still replays this session
+  }
+}
+
+function emit(event: OutboxEvent) {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch {
+      // ignore listener errors
+    }
+  });
+}
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void mutationOutbox.replay();
+  }, RETRY_DELAY_MS);
+}
+
+function attachLifecycle() {
+  if (lifecycleAttached) return;
+  lifecycleAttached = true;
+
+  // subscribe() fires immediately, which also drains anything left from a previous launch
+  networkStatus.subscribe((status) => {
+    if (status === 'online') {
+      void mutationOutbox.replay();
+    }
+  });
+}
+
+function reconcileLike(postId: string, liked: boolean, likeCount: number) {
+  store.dispatch(liked ? addLikedPost(postId) : removeLikedPost(postId));
+  store.dispatch(setPostLikeCount({ postId, count: likeCount }));
+  emit({ type: 'like', postId, liked, likeCount });
+}
+
+type ReplayOutcome = 'done' | 'retry';
+
+async function replayEntry(entry: OutboxEntry): Promise<ReplayOutcome> {
+  if (entry.kind === 'like') {
+    // The server may have moved on (another device, an earlier partial replay): only toggle when it differs
+    const status = await likesApi.getStatus(entry.postId);
+    if (status.status !== 'success') {
+      return status.data?.retryable ? 'retry' : 'done';
+    }
+    if (status.data.isLiked === entry.liked) {
+      reconcileLike(entry.postId, entry.liked, status.data.likeCount);
+      return 'done';
+    }
+
+    const toggled = await likesApi.toggle(entry.postId, { queueOffline: false });
+    if (toggled.status === 'success') {
+      reconcileLike(entry.postId, toggled.data.isLiked, toggled.data.likeCount);
+      return 'done';
+    }
+    return toggled.data?.retryable ? 'retry' : 'done';
+  }
+
+  if (entry.kind === 'follow') {
+    const response = entry.following
+      ? await followsApi.follow(entry.userId, { queueOffline: false })
+      : await followsApi.unfollow(entry.userId, { queueOffline: false });
+    if (response.status === 'success') {
+      emit({ type: 'follow', userId: entry.userId, following: entry.following });
+      return 'done';
+    }
+    if (response.data?.retryable) {
+      return 'retry';
+    }
+    // Rejected (already following, user gone): re-read the truth so the UI stops showing the queued state
+    const check = await followsApi.checkFollowing(entry.userId);
+    if (check.status === 'success') {
+      emit({ type: 'follow', userId: entry.userId, following: !!check.data?.isFollowing });
+    }
+    return 'done';
+  }
+
+  const response = await postsApi.addComment(entry.postId, entry.content, { queueOffline: false });
+  if (response.status === 'success') {
+    emit({ type: 'comment', postId: entry.postId, clientId: entry.clientId, comment: response.data?.comment ?? null });
+    return 'done';
+  }
+  if (response.data?.retryable) {
+    return 'retry';
+  }
+  emit({ type: 'comment', postId: entry.postId, clientId: entry.clientId, comment: null });
+  return 'done';
+}
+
+export const mutationOutbox = {
+  /** Record a mutation for the signed-in user. Returns false for guests (nothing to replay as). */
+  async enqueue(mutation: OutboxMutation): Promise<boolean> {
+    attachLifecycle();
+    const userId = await getViewerId();
+    if (!userId) return false;
+
+    const entries = await loadQueue(userId);
+    await saveQueue(userId, collapseOutbox(entries, { ...mutation, queuedAt: Date.now() }, inFlightEntry));
+    return true;
+  },
+
+  async getPending(): Promise<OutboxEntry[]> {
+    const userId = await getViewerId();
+    return userId ? [...(await loadQueue(userId))] : [];
+  },
+
+  /** Desired like state per post for entries not yet replayed, used to overlay server snapshots. */
+  async getPendingLikes(): Promise<Map<string, boolean>> {
+    const pending = new Map<string, boolean>();
+    (await mutationOutbox.getPending()).forEach((entry) => {
+      if (entry.kind === 'like') pending.set(entry.postId, entry.liked);
+    });
+    return pending;
+  },
+
+  async getPendingFollows(): Promise<Map<string, boolean>> {
+    const pending = new Map<string, boolean>();
+    (await mutationOutbox.getPending()).forEach((entry) => {
+      if (entry.kind === 'follow') pending.set(entry.userId, entry.following);
+    });
+    return pending;
+  },
+
+  subscribe(listener: Listener): () => void {
+    attachLifecycle();
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /** Replay the signed-in user's queue in order, stopping at the first entry that is still unreachable. */
+  async replay(): Promise<void> {
+    if (replayInFlight) return replayInFlight;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+
+    replayInFlight = (async () => {
+      if (networkStatus.getStatus() === 'offline') return;
+      const userId = await getViewerId();
+      if (!userId) return;
+
+      let entries = await loadQueue(userId);
+      while (entries.length > 0) {
+        const [head] = entries;
+        inFlightEntry = head;
+        const outcome = await replayEntry(head).catch((): ReplayOutcome => 'retry');
+        inFlightEntry = null;
+        if (outcome === 'retry') {
+          scheduleRetry();
+          break;
+        }
+        // Re-read: new mutations may have been queued while this one was in flight
+        entries = (queues.get(userId) ?? []).filter((entry) => entry !== head);
+        await saveQueue(userId, entries);
+      }
+    })().finally(() => {
+      replayInFlight = null;
+    });
+
+    return replayInFlight;
+  },
+};
@@ -0,0 +1,533 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import type { VideoSource } from 'expo-video';
+import { Post } from '@/types';
+import { dataSaver } from './data-saver';
+import { networkStatus } from './network-status';
+import { getFileUrl, getPlaybackUrl } from './utils/file-url';
+import { parseHlsMasterPlaylist, resolveHlsUrl, selectHlsVariant } from './utils/hls-variants';
+import { getPostVideoAssetsCached } from './post-video-assets-cache';
+
+/**
+ * In-app offline library.
+ *
+ * Posts are downloaded into app storage (not the photo library, see
+ * post-download.ts) one at a time: the HLS rendition closest to 720p when the
+ * post has one, otherwise the MP4. Ready downloads count against a byte
+ * budget; when a finished download pushes the library over it, the least
+ * recently played downloads are evicted. The index, including a snapshot of
+ * each post so it can be shown without a connection, lives in AsyncStorage.
+ */
+
+export type OfflineDownloadStatus = 'queued' | 'downloading' | 'ready' | 'failed';
+
+export type OfflineDownload = {
+  postId: string;
+  status: OfflineDownloadStatus;
+  /** 'auto' downloads come from the For You feed on Wi-Fi */
+  source: 'manual' | 'auto';
+  kind: 'hls' | 'mp4' | null;
+  /** Playlist or MP4 to hand to the player once ready */
+  localUri: string | null;
+  bytes: number;
+  /** 0..1 while downloading */
+  progress: number;
+  createdAt: string;
+  lastAccessedAt: string;
+  playedAt: string | null;
+  error: string | null;
+  post: Post;
+};
+
+export type OfflineSettings = {
+  budgetBytes: number;
+  /** Upcoming For You posts to download on Wi-Fi; 0 turns it off */
+  autoDownloadCount: number;
+};
+
+type Listener = (downloads: OfflineDownload[]) => void;
+
+const MB = 1024 * 1024;
+export const OFFLINE_BUDGET_OPTIONS = [
+  { label: '500 MB', value: 500 * MB },
+  { label: '1 GB', value: 1024 * MB },
+  { label: '2 GB', value: 2048 * MB },
+  { label: '5 GB', value: 5120 * MB },
+] as const;
+export const OFFLINE_AUTO_DOWNLOAD_OPTIONS = [0, 5, 10] as const;
+
+const INDEX_KEY = '@offline_downloads';
+const SETTINGS_KEY = '@offline_download_settings';
+const OFFLINE_DIR = `${FileSystem.documentDirectory ?? ''}offline/`;
+const OFFLINE_MAX_HEIGHT = 720;
+// Auto downloads nobody played are dropped after a day so the feed never hoards storage
+const AUTO_DOWNLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SETTINGS: OfflineSettings = {
+  budgetBytes: 1024 * MB,
+  autoDownloadCount: 0,
+};
+
+let downloads = new Map<string, OfflineDownload>();
+let settings: OfflineSettings = { ...DEFAULT_SETTINGS };
+let loadPromise: Promise<void> | null = null;
+let activePostId: string | null = null;
+let activeResumable: FileSystem.DownloadResumable | null = null;
+const cancelledPostIds = new Set<string>();
+const listeners = new Set<Listener>();
+const settingsListeners = new Set<(next: OfflineSettings) => void>();
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function getPostDir(postId: string) {
+  return `${OFFLINE_DIR}${encodeURIComponent(postId)}/`;
+}
+
+function list(): OfflineDownload[] {
+  return [...downloads.values()].sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+}
+
+function notify() {
+  const snapshot = list();
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+async function persistIndex() {
+  try {
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(list()));
+  } catch {
+    // Best-effort only.
+  }
+}
+
+function update(postId: string, patch: Partial<OfflineDownload>, options: { persist?: boolean } = {}) {
+  const current = downloads.get(postId);
+  if (!current) return;
+  downloads.set(postId, { ...current, ...patch });
+  notify();
+  if (options.persist !== false) {
+    void persistIndex();
+  }
+}
+
+async function deleteFiles(postId: string) {
+  try {
+    await FileSystem.deleteAsync(getPostDir(postId), { idempotent: true });
+  } catch {
+    // Best-effort only.
+  }
+}
+
+async function ensureLoaded() {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const [rawIndex, rawSettings] = await Promise.all([
+          AsyncStorage.getItem(INDEX_KEY),
+          AsyncStorage.getItem(SETTINGS_KEY),
+        ]);
+        const parsedSettings = rawSettings ? JSON.parse(rawSettings) : null;
+        settings = { ...DEFAULT_SETTINGS, ...(parsedSettings ?? {}) };
+
+        const parsedIndex = rawIndex ? JSON.parse(rawIndex) : [];
+        const entries: OfflineDownload[] = Array.isArray(parsedIndex)
+          ? parsedIndex.filter((entry: any) => !!entry?.postId && !!entry?.post)
+          : [];
+        const now = Date.now();
+        const stale: string[] = [];
+        downloads = new Map();
+        entries.forEach((entry) => {
+          const expiredAuto = entry.source === 'auto' &&
+            !entry.playedAt &&
+            now - new Date(entry.createdAt).getTime() > AUTO_DOWNLOAD_TTL_MS;
+          if (expiredAuto) {
+            stale.push(entry.postId);
+            return;
+          }
+          // A download that was running when the app died starts over
+          downloads.set(entry.postId, entry.status === 'downloading'
+            ? { ...entry, status: 'queued', progress: 0 }
+            : entry);
+        });
+        await Promise.all(stale.map(deleteFiles));
+      } catch {
+        downloads = new Map();
+      }
+      notify();
+    })();
+  }
+  await loadPromise;
+}
+
+async function fetchText(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+async function fileSize(uri: string) {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists && 'size' in info ? info.size ?? 0 : 0;
+}
+
+function throwIfCancelled(postId: string) {
+  if (cancelledPostIds.has(postId)) {
+    throw new Error('cancelled');
+  }
+}
+
+/** Downloads one rendition and rewrites its playlist to point at the local segments. */
+async function downloadHls(postId: string, masterUrl: string, dir: string) {
+  let mediaUrl = masterUrl;
+  let mediaText = await fetchText(masterUrl);
+  const variants = parseHlsMasterPlaylist(masterUrl, mediaText);
+  if (variants.length > 0) {
+    const variant = selectHlsVariant(variants, OFFLINE_MAX_HEIGHT) ?? variants[0];
+    mediaUrl = variant.url;
+    mediaText = await fetchText(mediaUrl);
+  }
+
+  if (mediaText.includes('#EXT-X-KEY') && !mediaText.includes('METHOD=NONE')) {
+    throw new Error('Encrypted streams cannot be saved offline');
+  }
+
+  const lines = mediaText.split('\n').map((line) => line.trim());
+  const resources: { remote: string; local: string }[] = [];
+  const rewritten = lines.map((line) => {
+    const mapMatch = line.match(/^#EXT-X-MAP:.*URI="([^"]+)"/);
+    if (mapMatch) {
+      const local = `init${getExtension(mapMatch[1], '.mp4')}`;
+      resources.push({ remote: resolveHlsUrl(mediaUrl, mapMatch[1]), local });
+      return line.replace(mapMatch[1], local);
+    }
+    if (!line || line.startsWith('#')) {
+      return line;
+    }
+    const local = `seg_${resources.length}${getExtension(line, '.ts')}`;
+    resources.push({ remote: resolveHlsUrl(mediaUrl, line), local });
+    return local;
+  });
+
+  if (resources.length === 0) {
+    throw new Error('Playlist has no segments');
+  }
+
+  let bytes = 0;
+  for (let index = 0; index < resources.length; index += 1) {
+    throwIfCancelled(postId);
+    const resource = resources[index];
+    const result = await FileSystem.downloadAsync(resource.remote, `${dir}${resource.local}`);
+    if (result.status < 200 || result.status >= 300) {
+      throw new Error(`HTTP ${result.status}`);
+    }
+    bytes += await fileSize(result.uri);
+    update(postId, { progress: (index + 1) / resources.length, bytes }, { persist: false });
+  }
+
+  const playlistUri = `${dir}index.m3u8`;
+  await FileSystem.writeAsStringAsync(playlistUri, rewritten.join('\n'));
+  return { localUri: playlistUri, bytes: bytes + await fileSize(playlistUri) };
+}
+
+async function downloadMp4(postId: string, url: string, dir: string) {
+  const target = `${dir}video${getExtension(url, '.mp4')}`;
+  activeResumable = FileSystem.createDownloadResumable(url, target, {}, (state) => {
+    update(postId, {
+      progress: state.totalBytesExpectedToWrite > 0
+        ? state.totalBytesWritten / state.totalBytesExpectedToWrite
+        : 0,
+      bytes: state.totalBytesWritten,
+    }, { persist: false });
+  });
+
+  try {
+    const result = await activeResumable.downloadAsync();
+    throwIfCancelled(postId);
+    if (!result?.uri || result.status < 200 || result.status >= 300) {
+      throw new Error(result ? `HTTP ${result.status}` : 'Download failed');
+    }
+    return { localUri: result.uri, bytes: await fileSize(result.uri) };
+  } finally {
+    activeResumable = null;
+  }
+}
+
+function getExtension(url: string, fallback: string) {
+  const match = url.split('?')[0].match(/(\.[a-z0-9]{2,4})$/i);
+  return match ? match[1].toLowerCase() : fallback;
+}
+
+async function resolveMp4Url(post: Post) {
+  const assets = await getPostVideoAssetsCached(post.id).catch(() => null);
+  return getFileUrl(assets?.video_url || assets?.videoUrl || post.video_url || post.videoUrl || '') || null;
+}
+
+/** Evicts the least recently used ready downloads until the library fits the budget. */
+async function enforceBudget(keepPostId: string) {
+  const ready = list().filter((entry) => entry.status === 'ready');
+  let total = ready.reduce((sum, entry) => sum + entry.bytes, 0);
+  const candidates = ready
+    .filter((entry) => entry.postId !== keepPostId)
+    .sort((left, right) => left.lastAccessedAt.localeCompare(right.lastAccessedAt));
+
+  while (total > settings.budgetBytes && candidates.length > 0) {
+    const evicted = candidates.shift()!;
+    total -= evicted.bytes;
+    downloads.delete(evicted.postId);
+    await deleteFiles(evicted.postId);
+  }
+
+  const kept = downloads.get(keepPostId);
+  if (kept && total > settings.budgetBytes) {
+    await deleteFiles(keepPostId);
+    downloads.set(keepPostId, {
+      ...kept,
+      status: 'failed',
+      localUri: null,
+      kind: null,
+      bytes: 0,
+      error: 'Larger than your offline storage limit',
+    });
+  }
+  notify();
+  void persistIndex();
+}
+
+function nextQueued() {
+  const queued = list()
+    .filter((entry) => entry.status === 'queued')
+    .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+  return queued.find((entry) => entry.source === 'manual') ?? queued[0] ?? null;
+}
+
+async function pump() {
+  if (activePostId || networkStatus.getStatus() === 'offline') return;
+  const entry = nextQueued();
+  if (!entry) return;
+  // Auto downloads wait for an unmetered connection
+  if (entry.source === 'auto' && dataSaver.isMeteredConnection()) return;
+
+  const { postId, post } = entry;
+  activePostId = postId;
+  cancelledPostIds.delete(postId);
+  update(postId, { status: 'downloading', progress: 0, bytes: 0, error: null });
+
+  const dir = getPostDir(postId);
+  try {
+    await deleteFiles(postId);
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+
+    const masterUrl = getPlaybackUrl(post);
+    let result: { localUri: string; bytes: number } | null = null;
+    let kind: OfflineDownload['kind'] = null;
+    if (masterUrl?.toLowerCase().includes('.m3u8')) {
+      try {
+        result = await downloadHls(postId, masterUrl, dir);
+        kind = 'hls';
+      } catch (error) {
+        throwIfCancelled(postId);
+        if (__DEV__) {
+          console.warn('[OfflineDownloads] HLS download failed, trying MP4', error);
+        }
+      }
+    }
+    if (!result) {
+      const mp4Url = await resolveMp4Url(post);
+      if (!mp4Url) {
+        throw new Error('This video is not ready for offline viewing yet');
+      }
+      result = await downloadMp4(postId, mp4Url, dir);
+      kind = 'mp4';
+    }
+
+    throwIfCancelled(postId);
+    update(postId, {
+      status: 'ready',
+      kind,
+      localUri: result.localUri,
+      bytes: result.bytes,
+      progress: 1,
+      lastAccessedAt: nowIso(),
+    });
+    await enforceBudget(postId);
+  } catch (error: any) {
+    await deleteFiles(postId);
+    if (!cancelledPostIds.has(postId)) {
+      update(postId, {
+        status: 'failed',
+        kind: null,
+        localUri: null,
+        bytes: 0,
+        progress: 0,
+        error: error?.message || 'Download failed',
+      });
+    }
+  } finally {
+    cancelledPostIds.delete(postId);
+    activePostId = null;
+    void pump();
+  }
+}
+
+networkStatus.subscribe((status) => {
+  if (status === 'online') {
+    void ensureLoaded().then(pump);
+  }
+});
+
+// Auto downloads queued on cellular start once the device moves to Wi-Fi
+let wasMeteredConnection = dataSaver.isMeteredConnection();
+dataSaver.subscribe(() => {
+  const metered = dataSaver.isMeteredConnection();
+  if (wasMeteredConnection && !metered) {
+    void ensureLoaded().then(pump);
+  }
+  wasMeteredConnection = metered;
+});
+
+export function isOfflineDownloadable(post: Post) {
+  const isVideo = post.type === 'video' || (post as any).mediaType === 'video';
+  return isVideo && !!(getPlaybackUrl(post) || post.video_url || post.videoUrl);
+}
+
+/** Player source for a finished download; local files are never routed through the video cache. */
+export function getOfflineVideoSource(download: OfflineDownload): VideoSource | null {
+  if (download.status !== 'ready' || !download.localUri) {
+    return null;
+  }
+  return {
+    uri: download.localUri,
+    useCaching: false,
+    ...(download.kind === 'hls' ? { contentType: 'hls' as const } : {}),
+  };
+}
+
+export const offlineDownloads = {
+  load: ensureLoaded,
+
+  list,
+
+  get(postId: string): OfflineDownload | null {
+    return downloads.get(postId) ?? null;
+  },
+
+  getSettings(): OfflineSettings {
+    return settings;
+  },
+
+  getUsedBytes(): number {
+    return list().reduce((sum, entry) => sum + (entry.status === 'ready' ? entry.bytes : 0), 0);
+  },
+
+  async enqueue(post: Post, source: OfflineDownload['source'] = 'manual') {
+    await ensureLoaded();
+    const existing = downloads.get(post.id);
+    if (existing && existing.status !== 'failed') {
+      // Saving an auto download by hand keeps it past the auto-download TTL
+      if (source === 'manual' && existing.source === 'auto') {
+        update(post.id, { source: 'manual' });
+      }
+      return;
+    }
+
+    const createdAt = nowIso();
+    downloads.set(post.id, {
+      postId: post.id,
+      status: 'queued',
+      source,
+      kind: null,
+      localUri: null,
+      bytes: 0,
+      progress: 0,
+      createdAt,
+      lastAccessedAt: createdAt,
+      playedAt: null,
+      error: null,
+      post,
+    });
+    notify();
+    void persistIndex();
+    void pump();
+  },
+
+  /** Queues the next posts of the For You feed when auto-download is on and the connection is unmetered. */
+  async autoDownload(upcoming: Post[]) {
+    await ensureLoaded();
+    if (
+      settings.autoDownloadCount <= 0 ||
+      dataSaver.isMeteredConnection() ||
+      networkStatus.getStatus() === 'offline'
+    ) {
+      return;
+    }
+
+    const targets = upcoming.filter(isOfflineDownloadable).slice(0, settings.autoDownloadCount);
+    for (const post of targets) {
+      if (!downloads.has(post.id)) {
+        await offlineDownloads.enqueue(post, 'auto');
+      }
+    }
+  },
+
+  async remove(postId: string) {
+    await ensureLoaded();
+    if (!downloads.has(postId)) return;
+    if (activePostId === postId) {
+      cancelledPostIds.add(postId);
+      try {
+        await activeResumable?.cancelAsync();
+      } catch {
+        // Best-effort only.
+      }
+    }
+    downloads.delete(postId);
+    await deleteFiles(postId);
+    notify();
+    void persistIndex();
+  },
+
+  async removeAll() {
+    await ensureLoaded();
+    await Promise.all(list().map((entry) => offlineDownloads.remove(entry.postId)));
+  },
+
+  /** Marks a download as just played so budget eviction keeps it longest. */
+  markPlayed(postId: string) {
+    if (!downloads.has(postId)) return;
+    const at = nowIso();
+    update(postId, { lastAccessedAt: at, playedAt: at });
+  },
+
+  async updateSettings(patch: Partial<OfflineSettings>) {
+    await ensureLoaded();
+    settings = { ...settings, ...patch };
+    settingsListeners.forEach((listener) => listener(settings));
+    try {
+      await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch {
+      // Best-effort only.
+    }
+    if (patch.budgetBytes !== undefined) {
+      await enforceBudget('');
+    }
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  subscribeSettings(listener: (next: OfflineSettings) => void) {
+    settingsListeners.add(listener);
+    return () => {
+      settingsListeners.delete(listener);
+    };
+  },
+};
+
+export default offlineDownloads;
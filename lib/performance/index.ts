@@ -11,6 +11,8 @@
  * import { withSuspense, usePaginatedData, imageCache } from '@/lib/performance';
  */
 
+import { deviceProfile, type FlatListPresetName } from '../device-profile';
+
 // HOC for lazy loading
 export { 
   withSuspense, 
@@ -59,20 +61,23 @@ export const FLATLIST_MEMORY_PRESETS = {
   },
 } as const;
 
+const PRESET_CONSTRAINT: FlatListPresetName[] = ['low', 'medium', 'high'];
+
 /**
- * Get recommended FlatList settings based on content type
+ * Get recommended FlatList settings based on content type.
+ * Never looser than the preset the device profile allows.
  */
 export const getFlatListSettings = (contentType: 'text' | 'image' | 'video' = 'image') => {
-  switch (contentType) {
-    case 'video':
-      return FLATLIST_MEMORY_PRESETS.high;
-    case 'image':
-      return FLATLIST_MEMORY_PRESETS.medium;
-    case 'text':
-      return FLATLIST_MEMORY_PRESETS.low;
-    default:
-      return FLATLIST_MEMORY_PRESETS.medium;
-  }
+  const contentPreset: FlatListPresetName = contentType === 'video'
+    ? 'high'
+    : contentType === 'text'
+      ? 'low'
+      : 'medium';
+  const devicePreset = deviceProfile.get().flatListPreset;
+  const preset = PRESET_CONSTRAINT.indexOf(devicePreset) > PRESET_CONSTRAINT.indexOf(contentPreset)
+    ? devicePreset
+    : contentPreset;
+  return FLATLIST_MEMORY_PRESETS[preset];
 };
 
 /**
@@ -0,0 +1,71 @@
+/**
+ * Playback speed and what happens when a feed video ends.
+ *
+ * Chosen from the player's playback menu and kept for the session only (not
+ * persisted), so a sped-up tutorial does not leave every later launch at 2x.
+ * With auto-scroll on the feed also moves past photo posts after a few
+ * seconds, for hands-free viewing.
+ */
+
+export type PlaybackRate = 0.5 | 0.75 | 1 | 1.25 | 1.5 | 2;
+
+export type PlaybackEndAction = 'loop' | 'advance';
+
+export type PlaybackControls = {
+  rate: PlaybackRate;
+  endAction: PlaybackEndAction;
+  autoScroll: boolean;
+};
+
+export const PLAYBACK_RATE_OPTIONS: PlaybackRate[] = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/** How long a photo post stays on screen in auto-scroll */
+export const AUTO_SCROLL_IMAGE_MS = 5_000;
+
+type Listener = (controls: PlaybackControls) => void;
+
+let controls: PlaybackControls = { rate: 1, endAction: 'loop', autoScroll: false };
+const listeners = new Set<Listener>();
+
+export function formatPlaybackRate(rate: number) {
+  return `${rate}x`;
+}
+
+/** Whether a finished video should move the feed on instead of looping. */
+export function shouldAdvanceOnEnd(current: PlaybackControls = controls) {
+  return current.autoScroll || current.endAction === 'advance';
+}
+
+export const playbackControls = {
+  get(): PlaybackControls {
+    return controls;
+  },
+  update(patch: Partial<PlaybackControls>) {
+    const next = { ...controls, ...patch };
+    if (
+      next.rate === controls.rate &&
+      next.endAction === controls.endAction &&
+      next.autoScroll === controls.autoScroll
+    ) {
+      return;
+    }
+
+    controls = next;
+    listeners.forEach((fn) => {
+      try {
+        fn(controls);
+      } catch {
+        // ignore listener errors
+      }
+    });
+  },
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    listener(controls);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default playbackControls;
@@ -0,0 +1,289 @@
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import { logsApi } from './api';
+import { deviceProfile, type DeviceTier } from './device-profile';
+import { networkStatus } from './network-status';
+
+/**
+ * Playback quality-of-experience metrics.
+ *
+ * The player opens a session when a video becomes active and reports first
+ * frame, buffering, seeks and errors into it. Finished sessions are kept
+ * locally and shipped in batches to POST /api/logs/client-events as
+ * `playback_qoe`, with a summary per batch (time to first frame percentiles,
+ * rebuffering, errors by stream type and codec, preloaded player reuse and warmup
+ * effectiveness) tagged with a coarse device class. Best-effort throughout:
+ * nothing here may affect playback.
+ */
+
+export type PlaybackStreamType = 'hls' | 'raw';
+export type DeviceClass = DeviceTier;
+
+export type PlaybackStart = {
+  postId: string;
+  screenName: string;
+  streamType: PlaybackStreamType;
+  /** CODECS from the HLS master playlist, when declared */
+  codec?: string | null;
+  sourceMode: 'direct' | 'android_cache';
+  /** The player had already buffered this video before it became active */
+  preloaded: boolean;
+};
+
+type PlayRecord = {
+  postId: string;
+  screenName: string;
+  streamType: PlaybackStreamType;
+  codec: string | null;
+  sourceMode: PlaybackStart['sourceMode'];
+  preloaded: boolean;
+  /** feed-window-warmup touched this post before it was played */
+  warmed: boolean;
+  ttffMs: number | null;
+  rebufferCount: number;
+  rebufferMs: number;
+  seekStallCount: number;
+  errorCount: number;
+  watchMs: number;
+};
+
+// Buffering that starts this soon after a seek is the seek's cost, not a rebuffer
+const SEEK_STALL_WINDOW_MS = 3_000;
+const FLUSH_INTERVAL_MS = 5 * 60_000;
+const FLUSH_BATCH_SIZE = 20;
+const MAX_BUFFERED_PLAYS = 100;
+const MAX_WARMED_POSTS = 300;
+
+const warmedAt = new Map<string, number>();
+const poolLookups = { hits: 0, cold: 0 };
+let plays: PlayRecord[] = [];
+let flushInFlight: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let lifecycleAttached = false;
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function summarize(batch: PlayRecord[]) {
+  const ttff = (records: PlayRecord[]) =>
+    records.map((play) => play.ttffMs).filter((value): value is number => value !== null);
+  const warmed = batch.filter((play) => play.warmed);
+  const cold = batch.filter((play) => !play.warmed);
+  const watchMs = batch.reduce((sum, play) => sum + play.watchMs, 0);
+  const rebufferMs = batch.reduce((sum, play) => sum + play.rebufferMs, 0);
+  const errorsByStream: Record<string, number> = {};
+  batch.forEach((play) => {
+    if (play.errorCount === 0) return;
+    const key = `${play.streamType}:${play.codec ?? 'unknown'}`;
+    errorsByStream[key] = (errorsByStream[key] ?? 0) + play.errorCount;
+  });
+
+  return {
+    plays: batch.length,
+    ttffP50Ms: percentile(ttff(batch), 50),
+    ttffP90Ms: percentile(ttff(batch), 90),
+    neverStarted: batch.filter((play) => play.ttffMs === null).length,
+    rebufferCount: batch.reduce((sum, play) => sum + play.rebufferCount, 0),
+    rebufferMs,
+    rebufferRatio: watchMs > 0 ? Number((rebufferMs / watchMs).toFixed(4)) : 0,
+    seekStallCount: batch.reduce((sum, play) => sum + play.seekStallCount, 0),
+    errorsByStream,
+    pool: { ...poolLookups },
+    warmup: {
+      warmedPlays: warmed.length,
+      coldPlays: cold.length,
+      warmedTtffP50Ms: percentile(ttff(warmed), 50),
+      coldTtffP50Ms: percentile(ttff(cold), 50),
+    },
+    preloadedPlays: batch.filter((play) => play.preloaded).length,
+  };
+}
+
+function scheduleFlush(delayMs = FLUSH_INTERVAL_MS) {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void playbackQoe.flush();
+  }, delayMs);
+}
+
+function attachLifecycle() {
+  if (lifecycleAttached) return;
+  lifecycleAttached = true;
+
+  AppState.addEventListener('change', (nextState: AppStateStatus) => {
+    if (nextState === 'background') {
+      void playbackQoe.flush();
+    }
+  });
+
+  networkStatus.subscribe((status) => {
+    if (status === 'online' && plays.length > 0) {
+      scheduleFlush(5_000);
+    }
+  });
+}
+
+function record(play: PlayRecord) {
+  attachLifecycle();
+  plays.push(play);
+  if (plays.length > MAX_BUFFERED_PLAYS) {
+    plays = plays.slice(-MAX_BUFFERED_PLAYS);
+  }
+
+  if (plays.length >= FLUSH_BATCH_SIZE) {
+    void playbackQoe.flush();
+  } else {
+    scheduleFlush();
+  }
+}
+
+/** One activation of one video. Methods are no-ops once `end()` ran. */
+export class PlaybackQoeSession {
+  private readonly startedAt = Date.now();
+  private firstFrameAt: number | null = null;
+  private bufferingSince: number | null = null;
+  private bufferingAfterSeek = false;
+  private lastSeekAt = 0;
+  private rebufferCount = 0;
+  private rebufferMs = 0;
+  private seekStallCount = 0;
+  private errorCount = 0;
+  private ended = false;
+
+  constructor(private readonly start: PlaybackStart, private readonly warmed: boolean) {}
+
+  firstFrame() {
+    if (this.ended || this.firstFrameAt !== null) return;
+    this.firstFrameAt = Date.now();
+  }
+
+  /** Feed expo-video `statusChange` statuses through here. */
+  status(status: string) {
+    if (this.ended || this.firstFrameAt === null) return;
+
+    if (status === 'loading' && this.bufferingSince === null) {
+      this.bufferingSince = Date.now();
+      this.bufferingAfterSeek = this.bufferingSince - this.lastSeekAt < SEEK_STALL_WINDOW_MS;
+    } else if (status !== 'loading') {
+      this.finishBuffering();
+    }
+  }
+
+  seeked() {
+    if (this.ended) return;
+    this.lastSeekAt = Date.now();
+  }
+
+  error() {
+    if (this.ended) return;
+    this.errorCount += 1;
+  }
+
+  end() {
+    if (this.ended) return;
+    this.finishBuffering();
+    this.ended = true;
+
+    const endedAt = Date.now();
+    record({
+      ...this.start,
+      codec: this.start.codec ?? null,
+      warmed: this.warmed,
+      ttffMs: this.firstFrameAt !== null ? this.firstFrameAt - this.startedAt : null,
+      rebufferCount: this.rebufferCount,
+      rebufferMs: this.rebufferMs,
+      seekStallCount: this.seekStallCount,
+      errorCount: this.errorCount,
+      watchMs: this.firstFrameAt !== null ? endedAt - this.firstFrameAt : 0,
+    });
+  }
+
+  private finishBuffering() {
+    if (this.bufferingSince === null) return;
+    if (this.bufferingAfterSeek) {
+      this.seekStallCount += 1;
+    } else {
+      this.rebufferCount += 1;
+      this.rebufferMs += Date.now() - this.bufferingSince;
+    }
+    this.bufferingSince = null;
+  }
+}
+
+export const playbackQoe = {
+  startPlay(start: PlaybackStart): PlaybackQoeSession {
+    return new PlaybackQoeSession(start, warmedAt.has(start.postId));
+  },
+
+  /** Called by feed-window-warmup for the off-centre posts it prefetches. */
+  recordWarmup(postIds: string[]) {
+    const now = Date.now();
+    postIds.forEach((postId) => {
+      warmedAt.delete(postId);
+      warmedAt.set(postId, now);
+    });
+    while (warmedAt.size > MAX_WARMED_POSTS) {
+      const oldest = warmedAt.keys().next().value;
+      if (oldest === undefined) break;
+      warmedAt.delete(oldest);
+    }
+  },
+
+  /**
+   * Called by the feed item when a post becomes active: 'hit' when the player
+   * mounted for preload is reused, 'cold' when one has to be created.
+   */
+  recordPoolLookup(outcome: 'hit' | 'cold') {
+    if (outcome === 'hit') {
+      poolLookups.hits += 1;
+    } else {
+      poolLookups.cold += 1;
+    }
+  },
+
+  async flush(): Promise<void> {
+    if (flushInFlight) return flushInFlight;
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+
+    flushInFlight = (async () => {
+      if (plays.length === 0 || networkStatus.getStatus() === 'offline') return;
+
+      const batch = plays.slice(0, FLUSH_BATCH_SIZE * 2);
+      const summary = summarize(batch);
+
+      const result = await logsApi.postClientEvent('playback_qoe', {
+        meta: {
+          deviceClass: deviceProfile.get().baseTier,
+          deviceTier: deviceProfile.get().tier,
+          platform: Platform.OS,
+          osVersion: String(Platform.Version),
+          summary,
+          plays: batch,
+        },
+      });
+      if (result.status !== 'success' && result.data.retryable) {
+        scheduleFlush();
+        return;
+      }
+
+      plays = plays.slice(batch.length);
+      poolLookups.hits = 0;
+      poolLookups.cold = 0;
+      if (plays.length > 0) {
+        scheduleFlush();
+      }
+    })().finally(() => {
+      flushInFlight = null;
+    });
+
+    return flushInFlight;
+  },
+};
+
+export default playbackQoe;
@@ -1,22 +1,30 @@
 import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react';
 import { useAuth } from './auth-context';
 import { useCache } from './cache-context';
-import websocketService, {
+import {
   PostUpdate,
   CommentUpdate,
   NotificationUpdate,
   LikeUpdate,
   ChallengeLikesUpdate,
   ChallengeUpdatedEvent,
+  AccountSuspended,
+  PostsOutOfSync,
+  RealtimeConnectionState,
+  RealtimeEventMap,
 } from './websocket-service';
+import realtimeTransport from './realtime-transport';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { authEventEmitter } from './auth-event-emitter';
+import { postsApi } from './api';
+import { readLegacyCount } from './api-contracts';
 import { getCachedJoinedChallenges } from './create-screen-cache';
 import { frontendNotifications } from './frontend-notifications';
 
 interface RealtimeContextType {
   isConnected: boolean;
   isAvailable: boolean; // Whether real-time features are supported
+  connectionState: RealtimeConnectionState;
   subscribeToPost: (postId: string) => void;
   unsubscribeFromPost: (postId: string) => void;
   sendLikeAction: (postId: string, isLiked: boolean) => void;
@@ -27,10 +35,31 @@ interface RealtimeContextType {
   onNewNotification: (callback: (update: NotificationUpdate) => void) => () => void;
   onLikeUpdate: (callback: (update: LikeUpdate) => void) => () => void;
   onChallengeLikesUpdated: (callback: (update: ChallengeLikesUpdate) => void) => () => void;
+  subscribe: <K extends keyof RealtimeEventMap>(type: K, handler: (payload: RealtimeEventMap[K]) => void) => () => void;
+}
+
+const subscribe: RealtimeContextType['subscribe'] = (type, handler) => realtimeTransport.subscribe(type, handler);
+
+// Current counters for a post whose realtime stream skipped events
+async function fetchPostSnapshot(postId: string): Promise<PostUpdate | null> {
+  const response = await postsApi.getById(postId);
+  if (response.status !== 'success' || !response.data?.id) return null;
+  const post: Record<string, unknown> = { ...response.data };
+  const isLiked = post.isLiked ?? post.is_liked;
+  return {
+    postId,
+    likes: readLegacyCount(post, 'likes'),
+    comments: readLegacyCount(post, 'comments'),
+    views: readLegacyCount(post, 'views'),
+    isLiked: typeof isLiked === 'boolean' ? isLiked : undefined,
+  };
 }
 
 const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
 
+// Screens nest their own providers over the root one; the shared transport closes with the last of them
+let mountedProviders = 0;
+
 export const useRealtime = () => {
   const context = useContext(RealtimeContext);
   if (!context) {
@@ -38,6 +67,7 @@ export const useRealtime = () => {
     return {
       isConnected: false,
       isAvailable: false,
+      connectionState: 'idle' as RealtimeConnectionState,
       subscribeToPost: () => {},
       unsubscribeFromPost: () => {},
       sendLikeAction: () => {},
@@ -48,6 +78,7 @@ export const useRealtime = () => {
       onNewNotification: () => () => {},
       onLikeUpdate: () => () => {},
       onChallengeLikesUpdated: () => () => {},
+      subscribe: () => () => {},
     };
   }
   return context;
@@ -60,8 +91,11 @@ interface RealtimeProviderProps {
 export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children }) => {
   const { user, token } = useAuth();
   const { updateLikedPosts } = useCache();
-  const [isConnected, setIsConnected] = useState(false);
-  const [isAvailable, setIsAvailable] = useState(true);
+  const [connectionState, setConnectionState] = useState<RealtimeConnectionState>(() =>
+    realtimeTransport.getConnectionState()
+  );
+  const isConnected = connectionState === 'connected';
+  const isAvailable = connectionState !== 'idle';
   const subscribedPosts = useRef<Set<string>>(new Set());
   const postUpdateCallbacks = useRef<Set<(update: PostUpdate) => void>>(new Set());
   const commentCallbacks = useRef<Set<(update: CommentUpdate) => void>>(new Set());
@@ -69,7 +103,12 @@ export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children })
   const likeUpdateCallbacks = useRef<Set<(update: LikeUpdate) => void>>(new Set());
   const challengeLikeCallbacks = useRef<Set<(update: ChallengeLikesUpdate) => void>>(new Set());
 
+  useEffect(() => realtimeTransport.subscribeConnectionState(setConnectionState), []);
+
   useEffect(() => {
+    let cleanup: (() => void) | undefined;
+    let cancelled = false;
+
     const initWebSocket = async () => {
       if (user?.id) {
         // Get token from storage if not available (use correct storage key)
@@ -80,23 +119,8 @@ export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children })
         }
         
         // Connect to WebSocket when user is authenticated
-        if (authToken) {
-          websocketService.connect(user.id, authToken);
-          
-          const handleConnected = () => {
-            setIsConnected(true);
-            setIsAvailable(true);
-          };
-
-          const handleDisconnected = () => {
-            setIsConnected(false);
-          };
-
-          const handleDisabled = () => {
-            // WebSocket is not available on this backend
-            setIsConnected(false);
-            setIsAvailable(false);
-          };
+        if (authToken && !cancelled) {
+          realtimeTransport.connect(user.id, authToken);
 
           const handlePostUpdate = (update: PostUpdate) => {
             postUpdateCallbacks.current.forEach(callback => callback(update));
@@ -164,68 +188,97 @@ export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children })
             });
           };
 
-          websocketService.on('connected', handleConnected);
-          websocketService.on('disconnected', handleDisconnected);
-          websocketService.on('disabled', handleDisabled);
-          websocketService.on('postUpdate', handlePostUpdate);
-          websocketService.on('newComment', handleNewComment);
-          websocketService.on('newNotification', handleNewNotification);
-          websocketService.on('likeUpdate', handleLikeUpdate);
-          websocketService.on('challengeLikesUpdated', handleChallengeLikesUpdated);
-          websocketService.on('challengeUpdated', handleChallengeUpdated);
-
           // Handle account suspension via WebSocket
-          const handleAccountSuspended = (data: any) => {
-            if (!data?.userId || data.userId === user.id) {
-              authEventEmitter.emitAccountSuspended(data?.reason);
+          const handleAccountSuspended = (data: AccountSuspended) => {
+            if (!data.userId || data.userId === user.id) {
+              authEventEmitter.emitAccountSuspended(data.reason);
             }
           };
-          websocketService.on('accountSuspended', handleAccountSuspended);
-
-          return () => {
-            websocketService.off('connected', handleConnected);
-            websocketService.off('disconnected', handleDisconnected);
-            websocketService.off('disabled', handleDisabled);
-            websocketService.off('postUpdate', handlePostUpdate);
-            websocketService.off('newComment', handleNewComment);
-            websocketService.off('newNotification', handleNewNotification);
-            websocketService.off('likeUpdate', handleLikeUpdate);
-            websocketService.off('challengeLikesUpdated', handleChallengeLikesUpdated);
-            websocketService.off('challengeUpdated', handleChallengeUpdated);
-            websocketService.off('accountSuspended', handleAccountSuspended);
-            websocketService.disconnect();
+
+          // Missed events cannot be replayed; refetch the posts and publish them as ordinary updates
+          const handlePostsOutOfSync = ({ postIds }: PostsOutOfSync) => {
+            postIds.forEach((postId) => {
+              fetchPostSnapshot(postId)
+                .then((snapshot) => {
+                  if (!snapshot || cancelled) return;
+                  if (snapshot.isLiked !== undefined) {
+                    updateLikedPosts(postId, snapshot.isLiked);
+                  }
+                  handlePostUpdate(snapshot);
+                })
+                .catch(() => {
+                  // The next event or screen refresh corrects it
+                });
+            });
+          };
+
+          const unsubscribers = [
+            realtimeTransport.subscribe('postUpdate', handlePostUpdate),
+            realtimeTransport.subscribe('newComment', handleNewComment),
+            realtimeTransport.subscribe('newNotification', handleNewNotification),
+            realtimeTransport.subscribe('likeUpdate', handleLikeUpdate),
+            realtimeTransport.subscribe('challengeLikesUpdated', handleChallengeLikesUpdated),
+            realtimeTransport.subscribe('challengeUpdated', handleChallengeUpdated),
+            realtimeTransport.subscribe('accountSuspended', handleAccountSuspended),
+            realtimeTransport.subscribe('postsOutOfSync', handlePostsOutOfSync),
+          ];
+
+          cleanup = () => {
+            unsubscribers.forEach((unsubscribe) => unsubscribe());
           };
         }
       }
     };
 
     initWebSocket();
+
+    return () => {
+      cancelled = true;
+      cleanup?.();
+    };
   }, [user?.id, token, updateLikedPosts]);
 
+  // Token rotation and re-renders reuse the socket; only signing out closes it
+  useEffect(() => {
+    if (user?.id) return;
+    subscribedPosts.current.clear();
+    realtimeTransport.disconnect();
+  }, [user?.id]);
+
+  useEffect(() => {
+    mountedProviders += 1;
+    return () => {
+      mountedProviders -= 1;
+      if (mountedProviders === 0) {
+        realtimeTransport.disconnect();
+      }
+    };
+  }, []);
+
   const subscribeToPost = useCallback((postId: string) => {
     if (!subscribedPosts.current.has(postId)) {
       subscribedPosts.current.add(postId);
-      websocketService.subscribeToPost(postId);
+      realtimeTransport.subscribeToPost(postId);
     }
   }, []);
 
   const unsubscribeFromPost = useCallback((postId: string) => {
     if (subscribedPosts.current.has(postId)) {
       subscribedPosts.current.delete(postId);
-      websocketService.unsubscribeFromPost(postId);
+      realtimeTransport.unsubscribeFromPost(postId);
     }
   }, []);
 
   const sendLikeAction = useCallback((postId: string, isLiked: boolean) => {
-    websocketService.sendLikeAction(postId, isLiked);
+    realtimeTransport.sendLikeAction(postId, isLiked);
   }, []);
 
   const sendCommentAction = useCallback((postId: string, commentText: string) => {
-    websocketService.sendCommentAction(postId, commentText);
+    realtimeTransport.sendCommentAction(postId, commentText);
   }, []);
 
   const sendFollowAction = useCallback((targetUserId: string, isFollowing: boolean) => {
-    websocketService.sendFollowAction(targetUserId, isFollowing);
+    realtimeTransport.sendFollowAction(targetUserId, isFollowing);
   }, []);
 
   const onPostUpdate = useCallback((callback: (update: PostUpdate) => void) => {
@@ -266,6 +319,7 @@ export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children })
   const value: RealtimeContextType = {
     isConnected,
     isAvailable,
+    connectionState,
     subscribeToPost,
     unsubscribeFromPost,
     sendLikeAction,
@@ -276,6 +330,7 @@ export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children })
     onNewNotification,
     onLikeUpdate,
     onChallengeLikesUpdated,
+    subscribe,
   };
 
   return (
@@ -0,0 +1,320 @@
+/**
+ * Realtime event protocol, shared by every transport in lib/realtime-transport.ts.
+ *
+ * Every event the app understands is declared once in REALTIME_EVENTS with the
+ * wire names servers have used for it and a payload schema. Messages are
+ * validated on arrival: unknown types are ignored (newer servers may send
+ * events this build predates) and malformed payloads are dropped and reported
+ * like API contract violations.
+ *
+ * Protocol versions:
+ *   1  Legacy. No sequence numbers; compatibility duplicates (`like`, `comment`, ...).
+ *   2  Post-scoped events carry a per-post `seq`, and `subscribe` is answered
+ *      with `subscribed { postId, seq }` so missed events can be detected.
+ */
+import {
+  LEGACY_COUNT_FIELDS,
+  aliased,
+  boolean,
+  count,
+  number,
+  object,
+  optional,
+  parse,
+  reportContractViolations,
+  string,
+  withDefault,
+  type Infer,
+  type Schema,
+} from './api-contracts';
+import type { SimpleEventEmitter } from './simple-event-emitter';
+
+/** Highest version this build speaks; sent in the auth handshake. */
+export const REALTIME_PROTOCOL_VERSION = 2;
+
+// ---------------------------------------------------------------------------
+// Payloads
+// ---------------------------------------------------------------------------
+
+export const PostUpdateSchema = object({
+  postId: string(),
+  likes: optional(count('likes')),
+  comments: optional(aliased(number(), ...LEGACY_COUNT_FIELDS.comments)),
+  views: optional(count('views')),
+  isLiked: optional(boolean()),
+  deleted: optional(boolean()),
+});
+export type PostUpdate = Infer<typeof PostUpdateSchema>;
+
+export const LikeUpdateSchema = object({
+  postId: string(),
+  userId: withDefault(string(), ''),
+  isLiked: boolean(),
+  likeCount: count('likes'),
+});
+export type LikeUpdate = Infer<typeof LikeUpdateSchema>;
+
+export const CommentUpdateSchema = object({
+  postId: string(),
+  comment: object({
+    id: string(),
+    text: aliased(withDefault(string(), ''), 'content', 'comment_text'),
+    content: optional(string()),
+    user: object({
+      id: string(),
+      name: aliased(withDefault(string(), ''), 'username'),
+      username: withDefault(string(), ''),
+      avatar: optional(string()),
+      profile_picture: optional(string()),
+    }),
+    createdAt: aliased(withDefault(string(), ''), 'created_at', 'comment_date'),
+  }),
+});
+export type CommentUpdate = Infer<typeof CommentUpdateSchema>;
+
+export const NotificationUpdateSchema = object({
+  notification: object({
+    id: optional(aliased(string(), 'notification_id')),
+    userID: optional(string()),
+    type: optional(string()),
+    message: optional(string()),
+    text: optional(string()),
+    isRead: optional(boolean()),
+    is_read: optional(boolean()),
+    createdAt: optional(string()),
+    created_at: optional(string()),
+  }),
+});
+export type NotificationUpdate = Infer<typeof NotificationUpdateSchema>;
+
+export const ChallengeLikesUpdateSchema = object({
+  challengeId: string(),
+  postId: string(),
+  userIdOwner: withDefault(string(), ''),
+  likeCount: count('likes'),
+});
+export type ChallengeLikesUpdate = Infer<typeof ChallengeLikesUpdateSchema>;
+
+export const ChallengeUpdatedSchema = object({
+  challengeId: string(),
+  action: optional(string()),
+  status: optional(string()),
+  start_date: optional(string()),
+  end_date: optional(string()),
+});
+export type ChallengeUpdatedEvent = Infer<typeof ChallengeUpdatedSchema>;
+
+export const ChallengeWinnersConfirmedSchema = object({
+  challengeId: string(),
+});
+export type ChallengeWinnersConfirmed = Infer<typeof ChallengeWinnersConfirmedSchema>;
+
+export const FollowUpdateSchema = object({
+  targetUserId: string(),
+  userId: string(),
+  isFollowing: boolean(),
+});
+export type FollowUpdate = Infer<typeof FollowUpdateSchema>;
+
+export const AccountSuspendedSchema = object({
+  userId: optional(string()),
+  reason: optional(string()),
+});
+export type AccountSuspended = Infer<typeof AccountSuspendedSchema>;
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+interface RealtimeEventDefinition<T> {
+  /** Names the event arrives under, canonical first. */
+  wireTypes: readonly string[];
+  schema: Schema<T>;
+  /** Reshape older payload variants before validation. */
+  normalize?: (data: unknown) => unknown;
+  /** The post this event belongs to; post-scoped events are sequence checked. */
+  postId?: (payload: T) => string;
+  /** Events that also change a post's counters in place. */
+  toPostUpdate?: (payload: T) => PostUpdate;
+}
+
+function defineEvent<T>(definition: RealtimeEventDefinition<T>): RealtimeEventDefinition<T> {
+  return definition;
+}
+
+export const REALTIME_EVENTS = {
+  postUpdate: defineEvent({
+    wireTypes: ['postUpdate'],
+    schema: PostUpdateSchema,
+    postId: (update) => update.postId,
+  }),
+  likeUpdate: defineEvent({
+    wireTypes: ['likeUpdate', 'like', 'post:likeToggled'],
+    schema: LikeUpdateSchema,
+    postId: (update) => update.postId,
+    toPostUpdate: (update) => ({ postId: update.postId, likes: update.likeCount, isLiked: update.isLiked }),
+  }),
+  newComment: defineEvent({
+    wireTypes: ['newComment', 'comment'],
+    schema: CommentUpdateSchema,
+    postId: (update) => update.postId,
+  }),
+  newNotification: defineEvent({
+    wireTypes: ['newNotification', 'notification', 'notification:created'],
+    schema: NotificationUpdateSchema,
+    // Some servers send the notification itself rather than `{ notification }`
+    normalize: (data) =>
+      typeof data === 'object' && data !== null && 'notification' in data ? data : { notification: data },
+  }),
+  followUpdate: defineEvent({
+    wireTypes: ['followUpdate', 'follow'],
+    schema: FollowUpdateSchema,
+  }),
+  challengeLikesUpdated: defineEvent({
+    wireTypes: ['challenge:likesUpdated'],
+    schema: ChallengeLikesUpdateSchema,
+  }),
+  challengeUpdated: defineEvent({
+    wireTypes: ['challenge:updated'],
+    schema: ChallengeUpdatedSchema,
+  }),
+  challengeWinnersConfirmed: defineEvent({
+    wireTypes: ['challenge:winnersConfirmed'],
+    schema: ChallengeWinnersConfirmedSchema,
+  }),
+  accountSuspended: defineEvent({
+    wireTypes: ['user:account_suspended'],
+    schema: AccountSuspendedSchema,
+  }),
+};
+
+type Registry = typeof REALTIME_EVENTS;
+export type RealtimeEventType = keyof Registry;
+
+export const REALTIME_EVENT_TYPES = Object.keys(REALTIME_EVENTS) as RealtimeEventType[];
+
+/** Raised locally when post state may have diverged from the server and must be refetched over REST. */
+export interface PostsOutOfSync {
+  postIds: string[];
+  reason: 'sequence_gap' | 'reconnected' | 'transport_changed';
+}
+
+export type RealtimeEventMap = {
+  [K in RealtimeEventType]: Registry[K] extends RealtimeEventDefinition<infer T> ? T : never;
+} & {
+  postsOutOfSync: PostsOutOfSync;
+};
+
+export type DecodedRealtimeEvent = {
+  [K in RealtimeEventType]: { type: K; payload: RealtimeEventMap[K]; postId?: string; postUpdate?: PostUpdate };
+}[RealtimeEventType];
+
+const EVENT_BY_WIRE_TYPE = new Map<string, RealtimeEventType>();
+REALTIME_EVENT_TYPES.forEach((type) => {
+  REALTIME_EVENTS[type].wireTypes.forEach((wireType) => EVENT_BY_WIRE_TYPE.set(wireType, type));
+});
+
+const reportedUnknownTypes = new Set<string>();
+
+/**
+ * Validate an incoming message against the registry. Returns null for unknown
+ * types and for payloads that do not match their schema.
+ */
+export function decodeRealtimeEvent(wireType: string, data: unknown): DecodedRealtimeEvent | null {
+  const type = EVENT_BY_WIRE_TYPE.get(wireType);
+  if (!type) {
+    if (__DEV__ && !reportedUnknownTypes.has(wireType)) {
+      reportedUnknownTypes.add(wireType);
+      console.log(`[WS] Ignoring unknown event type "${wireType}"`);
+    }
+    return null;
+  }
+
+  const definition = REALTIME_EVENTS[type] as RealtimeEventDefinition<any>;
+  const result = parse(definition.schema, definition.normalize ? definition.normalize(data) : data, 'data');
+  if (result.issues.length > 0) {
+    reportContractViolations(`WS ${wireType}`, result.issues);
+    return null;
+  }
+
+  return {
+    type,
+    payload: result.value,
+    postId: definition.postId?.(result.value),
+    postUpdate: definition.toPostUpdate?.(result.value),
+  } as DecodedRealtimeEvent;
+}
+
+export interface RealtimeEnvelope {
+  type: string;
+  data?: unknown;
+  seq?: number;
+}
+
+/**
+ * Decode an event envelope and emit it on `target`, whichever transport it
+ * arrived on. Pass `sequences` only when the server numbers its events.
+ */
+export function deliverRealtimeMessage(
+  target: SimpleEventEmitter,
+  message: RealtimeEnvelope,
+  sequences: PostSequenceTracker | null,
+): void {
+  const event = decodeRealtimeEvent(message.type, message.data);
+  if (!event) return;
+
+  if (sequences && event.postId && typeof message.seq === 'number') {
+    const check = sequences.observe(event.postId, message.seq);
+    if (check === 'duplicate') return;
+    if (check === 'gap') {
+      const outOfSync: PostsOutOfSync = { postIds: [event.postId], reason: 'sequence_gap' };
+      target.emit('postsOutOfSync', outOfSync);
+    }
+  }
+
+  if (event.type === 'accountSuspended') {
+    console.log('[Realtime] ⚠️ Account suspended event received');
+  }
+  target.emit(event.type, event.payload);
+  if (event.postUpdate) {
+    target.emit('postUpdate', event.postUpdate);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sequencing
+// ---------------------------------------------------------------------------
+
+export type SequenceCheck = 'in_order' | 'duplicate' | 'gap';
+
+/** Last sequence number seen per post, for protocol version 2 servers. */
+export class PostSequenceTracker {
+  private lastSeen = new Map<string, number>();
+
+  /** Check an event's `seq`. After a gap the event is still applied; the post needs a resync. */
+  observe(postId: string, seq: number): SequenceCheck {
+    const last = this.lastSeen.get(postId);
+    if (last !== undefined && seq <= last) return 'duplicate';
+    this.lastSeen.set(postId, seq);
+    return last !== undefined && seq > last + 1 ? 'gap' : 'in_order';
+  }
+
+  /**
+   * Adopt the server's current sequence from a `subscribed` acknowledgement.
+   * Returns true when it differs from what we saw, i.e. events were missed
+   * while disconnected or the server restarted its counters.
+   */
+  sync(postId: string, seq: number): boolean {
+    const last = this.lastSeen.get(postId);
+    this.lastSeen.set(postId, seq);
+    return last !== undefined && last !== seq;
+  }
+
+  forget(postId: string) {
+    this.lastSeen.delete(postId);
+  }
+
+  clear() {
+    this.lastSeen.clear();
+  }
+}
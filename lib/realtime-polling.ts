@@ -0,0 +1,212 @@
+import axios from 'axios';
+import apiClient from './api-client';
+import { SimpleEventEmitter } from './simple-event-emitter';
+import { networkStatus } from './network-status';
+import { array, boolean, number, object, optional, parseApiResponse, string, unknown, withDefault } from './api-contracts';
+import { PostSequenceTracker, deliverRealtimeMessage, type PostsOutOfSync, type RealtimeEventMap } from './realtime-events';
+import type { RealtimeConnectionState } from './websocket-service';
+import type { RealtimeTransport } from './realtime-transport';
+
+const POLL_ENDPOINT = '/api/realtime/poll';
+// The server holds a poll open this long when it has nothing to send
+const POLL_WAIT_SECONDS = 25;
+const POLL_REQUEST_TIMEOUT_MS = (POLL_WAIT_SECONDS + 10) * 1_000;
+const BASE_RETRY_DELAY_MS = 2_000;
+const MAX_RETRY_DELAY_MS = 60_000;
+// Servers without the endpoint answer 404; asking again every few minutes is plenty
+const UNSUPPORTED_RETRY_DELAY_MS = 5 * 60_000;
+
+const PollResponseSchema = object({
+  cursor: withDefault(string(), ''),
+  // The cursor we sent is older than anything the server still buffers
+  reset: withDefault(boolean(), false),
+  events: withDefault(
+    array(
+      object({
+        type: string(),
+        data: unknown(),
+        seq: optional(number()),
+      }),
+    ),
+    [],
+  ),
+});
+
+/**
+ * Long-polling transport for networks that block websockets.
+ *
+ * Requests go through `apiClient`, so they carry the bearer token in a header
+ * and share its refresh handling. Events arrive in the same envelope and
+ * protocol (version 2, sequenced) as on the websocket. Server-sent events
+ * would save a request per batch, but React Native has no EventSource.
+ */
+class PollingTransport extends SimpleEventEmitter implements RealtimeTransport {
+  readonly kind = 'polling' as const;
+  private state: RealtimeConnectionState = 'idle';
+  private stateListeners = new Set<(state: RealtimeConnectionState) => void>();
+  private running = false;
+  // Bumped on every restart so responses to abandoned requests are ignored
+  private generation = 0;
+  private controller: AbortController | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private cursor: string | null = null;
+  private subscribedPosts = new Set<string>();
+  private sequences = new PostSequenceTracker();
+  private networkOnline = true;
+  private networkAttached = false;
+
+  connect() {
+    this.attachNetwork();
+    if (this.running) return;
+    this.running = true;
+    this.setState('connecting');
+    this.restart();
+  }
+
+  disconnect() {
+    this.running = false;
+    this.generation += 1;
+    this.abortRequest();
+    this.clearRetryTimer();
+    this.cursor = null;
+    this.failures = 0;
+    this.sequences.clear();
+    this.setState('idle');
+  }
+
+  getConnectionState(): RealtimeConnectionState {
+    return this.state;
+  }
+
+  subscribeConnectionState(listener: (state: RealtimeConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  subscribe<K extends keyof RealtimeEventMap>(type: K, handler: (payload: RealtimeEventMap[K]) => void): () => void {
+    this.on(type, handler);
+    return () => {
+      this.off(type, handler);
+    };
+  }
+
+  subscribeToPost(postId: string) {
+    if (this.subscribedPosts.has(postId)) return;
+    this.subscribedPosts.add(postId);
+    // The post list travels with each poll; re-issue so the new post is included now
+    if (this.running && this.networkOnline) this.restart();
+  }
+
+  unsubscribeFromPost(postId: string) {
+    this.subscribedPosts.delete(postId);
+    this.sequences.forget(postId);
+  }
+
+  private attachNetwork() {
+    if (this.networkAttached) return;
+    this.networkAttached = true;
+    networkStatus.subscribe((status) => {
+      const wasOnline = this.networkOnline;
+      this.networkOnline = status === 'online';
+      if (!this.running) return;
+      if (!this.networkOnline) {
+        this.generation += 1;
+        this.abortRequest();
+        this.clearRetryTimer();
+        this.setState('waiting_for_network');
+      } else if (!wasOnline) {
+        this.restart();
+      }
+    });
+  }
+
+  private setState(next: RealtimeConnectionState) {
+    if (this.state === next) return;
+    this.state = next;
+    this.stateListeners.forEach((listener) => listener(next));
+  }
+
+  private restart() {
+    this.generation += 1;
+    this.abortRequest();
+    this.clearRetryTimer();
+    if (!this.networkOnline) {
+      this.setState('waiting_for_network');
+      return;
+    }
+    void this.poll(this.generation);
+  }
+
+  private async poll(generation: number) {
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const response = await apiClient.get(POLL_ENDPOINT, {
+        params: {
+          cursor: this.cursor ?? undefined,
+          posts: this.subscribedPosts.size > 0 ? Array.from(this.subscribedPosts).join(',') : undefined,
+          wait: POLL_WAIT_SECONDS,
+        },
+        timeout: POLL_REQUEST_TIMEOUT_MS,
+        signal: controller.signal,
+      });
+      if (generation !== this.generation) return;
+
+      const { status, data } = parseApiResponse(`GET ${POLL_ENDPOINT}`, PollResponseSchema, response.data);
+      if (status !== 'success') {
+        this.retryLater(generation, false);
+        return;
+      }
+
+      this.failures = 0;
+      this.setState('connected');
+
+      if (data.reset && this.cursor !== null && this.subscribedPosts.size > 0) {
+        const outOfSync: PostsOutOfSync = { postIds: Array.from(this.subscribedPosts), reason: 'sequence_gap' };
+        this.emit('postsOutOfSync', outOfSync);
+      }
+      this.cursor = data.cursor || this.cursor;
+      data.events.forEach((message) => deliverRealtimeMessage(this, message, this.sequences));
+
+      void this.poll(generation);
+    } catch (error) {
+      if (generation !== this.generation || axios.isCancel(error)) return;
+      this.retryLater(generation, axios.isAxiosError(error) && error.response?.status === 404);
+    } finally {
+      if (this.controller === controller) this.controller = null;
+    }
+  }
+
+  private retryLater(generation: number, unsupported: boolean) {
+    if (generation !== this.generation) return;
+    this.setState('reconnecting');
+    const delay = unsupported
+      ? UNSUPPORTED_RETRY_DELAY_MS
+      : Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, this.failures));
+    this.failures += 1;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.running) this.restart();
+    }, delay);
+  }
+
+  private abortRequest() {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
+
+export const pollingTransport = new PollingTransport();
+export default pollingTransport;
@@ -0,0 +1,163 @@
+import { SimpleEventEmitter } from './simple-event-emitter';
+import websocketService, { type RealtimeConnectionState } from './websocket-service';
+import pollingTransport from './realtime-polling';
+import { REALTIME_EVENT_TYPES, type PostsOutOfSync, type RealtimeEventMap } from './realtime-events';
+
+/** What lib/realtime-context.tsx needs from a way of receiving realtime events. */
+export interface RealtimeTransport {
+  readonly kind: 'websocket' | 'polling';
+  getConnectionState(): RealtimeConnectionState;
+  subscribeConnectionState(listener: (state: RealtimeConnectionState) => void): () => void;
+  subscribe<K extends keyof RealtimeEventMap>(type: K, handler: (payload: RealtimeEventMap[K]) => void): () => void;
+  subscribeToPost(postId: string): void;
+  unsubscribeFromPost(postId: string): void;
+  disconnect(): void;
+}
+
+// Consecutive websocket attempts that never reached `connected`
+const WEBSOCKET_FAILURES_BEFORE_FALLBACK = 3;
+
+const FORWARDED_EVENTS: (keyof RealtimeEventMap)[] = [...REALTIME_EVENT_TYPES, 'postsOutOfSync'];
+
+/**
+ * Picks the transport realtime events arrive on.
+ *
+ * The websocket is preferred. When it keeps failing while the device is
+ * online (a proxy or network that blocks `/ws`), events switch to long
+ * polling. The websocket keeps retrying on its own backoff underneath, and the
+ * first time it connects again polling stops. Listeners subscribe here and
+ * never see which transport delivered an event.
+ */
+class RealtimeTransportManager extends SimpleEventEmitter {
+  private active: RealtimeTransport = websocketService;
+  private state: RealtimeConnectionState = 'idle';
+  private stateListeners = new Set<(state: RealtimeConnectionState) => void>();
+  private subscribedPosts = new Set<string>();
+
+  constructor() {
+    super();
+    [websocketService, pollingTransport].forEach((source: RealtimeTransport) => {
+      FORWARDED_EVENTS.forEach((type) => {
+        source.subscribe(type, (payload) => {
+          // A poll already in flight when the websocket comes back is not delivered twice
+          if (this.active === source) this.emit(type, payload);
+        });
+      });
+    });
+    websocketService.subscribeConnectionState((state) => this.handleWebsocketState(state));
+    websocketService.on('reconnectScheduled', (attempts: number) => this.handleWebsocketFailure(attempts));
+    pollingTransport.subscribeConnectionState(() => this.updateState());
+  }
+
+  connect(userId: string, token: string) {
+    websocketService.connect(userId, token);
+  }
+
+  disconnect() {
+    this.subscribedPosts.clear();
+    websocketService.disconnect();
+    pollingTransport.disconnect();
+  }
+
+  getActiveTransport(): RealtimeTransport['kind'] {
+    return this.active.kind;
+  }
+
+  getConnectionState(): RealtimeConnectionState {
+    return this.state;
+  }
+
+  subscribeConnectionState(listener: (state: RealtimeConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /** Typed listener for a realtime event; returns the unsubscribe function. */
+  subscribe<K extends keyof RealtimeEventMap>(type: K, handler: (payload: RealtimeEventMap[K]) => void): () => void {
+    this.on(type, handler);
+    return () => {
+      this.off(type, handler);
+    };
+  }
+
+  // Both transports track subscriptions so either can take over without a handoff
+  subscribeToPost(postId: string) {
+    this.subscribedPosts.add(postId);
+    websocketService.subscribeToPost(postId);
+    pollingTransport.subscribeToPost(postId);
+  }
+
+  unsubscribeFromPost(postId: string) {
+    this.subscribedPosts.delete(postId);
+    websocketService.unsubscribeFromPost(postId);
+    pollingTransport.unsubscribeFromPost(postId);
+  }
+
+  // Action hints only go over the websocket. The REST call already applied the
+  // action, and the server publishes the resulting events to pollers itself.
+  sendLikeAction(postId: string, isLiked: boolean) {
+    if (this.active === websocketService) websocketService.sendLikeAction(postId, isLiked);
+  }
+
+  sendCommentAction(postId: string, commentText: string) {
+    if (this.active === websocketService) websocketService.sendCommentAction(postId, commentText);
+  }
+
+  sendFollowAction(targetUserId: string, isFollowing: boolean) {
+    if (this.active === websocketService) websocketService.sendFollowAction(targetUserId, isFollowing);
+  }
+
+  private handleWebsocketState(state: RealtimeConnectionState) {
+    switch (state) {
+      case 'connected':
+        if (this.active !== websocketService) {
+          console.log('[Realtime] Websocket restored, stopping polling');
+          this.switchTo(websocketService);
+        }
+        break;
+
+      case 'idle':
+        // Signed out or the session was rejected
+        this.active = websocketService;
+        pollingTransport.disconnect();
+        break;
+    }
+    this.updateState();
+  }
+
+  // `attempts` counts consecutive failures and resets once the websocket connects
+  private handleWebsocketFailure(attempts: number) {
+    if (this.active !== websocketService || attempts < WEBSOCKET_FAILURES_BEFORE_FALLBACK) return;
+    console.log('[Realtime] Websocket unavailable, falling back to polling');
+    this.switchTo(pollingTransport);
+    this.updateState();
+  }
+
+  private switchTo(next: RealtimeTransport) {
+    this.active = next;
+    if (next === pollingTransport) {
+      pollingTransport.connect();
+    } else {
+      pollingTransport.disconnect();
+    }
+
+    // Events sent while neither transport was delivering are gone
+    if (this.subscribedPosts.size > 0) {
+      const outOfSync: PostsOutOfSync = { postIds: Array.from(this.subscribedPosts), reason: 'transport_changed' };
+      this.emit('postsOutOfSync', outOfSync);
+    }
+  }
+
+  private updateState() {
+    const next = this.active.getConnectionState();
+    if (next === this.state) return;
+    this.state = next;
+    this.stateListeners.forEach((listener) => listener(next));
+  }
+}
+
+export const realtimeTransport = new RealtimeTransportManager();
+export default realtimeTransport;
@@ -0,0 +1,170 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { feedApi, type RecommendationInteractionPayload } from './api';
+import { networkStatus } from './network-status';
+
+/**
+ * Buffered recommendation feedback for the personalized pipeline.
+ *
+ * Feed pages register which pipeline/refresh seed served each post, and the
+ * fullscreen player reports typed interactions against those posts. Events
+ * are coalesced in memory and flushed in small batches; they are best-effort
+ * and dropped for guests since the interactions route requires auth.
+ */
+
+export type RecommendationSignal =
+  | 'quick_skip'
+  | 'full_watch'
+  | 'rewatch'
+  | 'like'
+  | 'share'
+  | 'comment_open'
+  | 'profile_open';
+
+export type FeedAttribution = {
+  endpoint?: string;
+  pipeline?: string;
+  refresh?: number | null;
+};
+
+// Interaction types scored by recommendationController (INTERACTION_SCORES); skips lower the category
+const BACKEND_INTERACTION_TYPE: Record<RecommendationSignal, string> = {
+  quick_skip: 'skip',
+  full_watch: 'view',
+  rewatch: 'rewatch',
+  like: 'like',
+  share: 'share',
+  comment_open: 'comment_open',
+  profile_open: 'profile_open',
+};
+
+// Below this, leaving a video counts as a skip rather than a partial watch
+export const QUICK_SKIP_MAX_SECONDS = 2;
+
+const FLUSH_INTERVAL_MS = 10_000;
+const FLUSH_BATCH_SIZE = 8;
+const MAX_BUFFERED_EVENTS = 100;
+const MAX_ATTRIBUTIONS = 500;
+
+type BufferedSignal = { postId: string; payload: RecommendationInteractionPayload };
+
+const attributions = new Map<string, FeedAttribution>();
+let buffer: BufferedSignal[] = [];
+let flushInFlight: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let lifecycleAttached = false;
+
+function scheduleFlush(delayMs = FLUSH_INTERVAL_MS) {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void recommendationSignals.flush();
+  }, delayMs);
+}
+
+function attachLifecycle() {
+  if (lifecycleAttached) return;
+  lifecycleAttached = true;
+
+  AppState.addEventListener('change', (nextState: AppStateStatus) => {
+    if (nextState === 'background') {
+      void recommendationSignals.flush();
+    }
+  });
+
+  networkStatus.subscribe((status) => {
+    if (status === 'online' && buffer.length > 0) {
+      scheduleFlush(1_000);
+    }
+  });
+}
+
+export const recommendationSignals = {
+  /** Remember which feed pipeline served these posts so later signals can be attributed. */
+  registerFeedAttribution(postIds: string[], attribution: FeedAttribution) {
+    postIds.forEach((postId) => {
+      if (!postId) return;
+      attributions.delete(postId);
+      attributions.set(postId, attribution);
+    });
+
+    // Map preserves insertion order: trim the oldest entries
+    while (attributions.size > MAX_ATTRIBUTIONS) {
+      const oldest = attributions.keys().next().value;
+      if (oldest === undefined) break;
+      attributions.delete(oldest);
+    }
+  },
+
+  getAttribution(postId: string): FeedAttribution | undefined {
+    return attributions.get(postId);
+  },
+
+  track(
+    postId: string,
+    signal: RecommendationSignal,
+    extra: { watchSeconds?: number; watchRatio?: number } = {},
+  ) {
+    if (!postId) return;
+    attachLifecycle();
+
+    const attribution = attributions.get(postId);
+    buffer.push({
+      postId,
+      payload: {
+        interactionType: BACKEND_INTERACTION_TYPE[signal],
+        signal,
+        pipeline: attribution?.pipeline ?? null,
+        refresh: attribution?.refresh ?? null,
+        endpoint: attribution?.endpoint ?? null,
+        watchSeconds: extra.watchSeconds,
+        watchRatio: extra.watchRatio,
+        occurredAt: new Date().toISOString(),
+      },
+    });
+    if (buffer.length > MAX_BUFFERED_EVENTS) {
+      buffer = buffer.slice(-MAX_BUFFERED_EVENTS);
+    }
+
+    if (buffer.length >= FLUSH_BATCH_SIZE) {
+      void recommendationSignals.flush();
+    } else {
+      scheduleFlush();
+    }
+  },
+
+  async flush(): Promise<void> {
+    if (flushInFlight) return flushInFlight;
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+
+    flushInFlight = (async () => {
+      if (buffer.length === 0 || networkStatus.getStatus() === 'offline') return;
+
+      const token = await AsyncStorage.getItem('talynk_token').catch(() => null);
+      if (!token) {
+        buffer = [];
+        return;
+      }
+
+      while (buffer.length > 0) {
+        const batch = buffer.slice(0, FLUSH_BATCH_SIZE);
+        const results = await Promise.all(
+          batch.map((event) => feedApi.recordRecommendationInteraction(event.postId, event.payload)),
+        );
+        const retry = batch.filter((_, i) => results[i].status !== 'success' && results[i].data.retryable);
+        buffer = [...retry, ...buffer.slice(batch.length)];
+        if (retry.length > 0) {
+          scheduleFlush();
+          break;
+        }
+      }
+    })().finally(() => {
+      flushInFlight = null;
+    });
+
+    return flushInFlight;
+  },
+};
@@ -0,0 +1,237 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { challengesApi, postsApi } from './api';
+
+/**
+ * Drafts the user asked to publish at a later time.
+ *
+ * The server publishes a scheduled draft itself (`scheduled_publish_at`). Each
+ * schedule is also recorded here, which covers servers without scheduling and
+ * schedules set too close to the publish time for the server to accept: due
+ * drafts are published with `publishDraft` when the app loads or comes back
+ * to the foreground. A competition entry is sent with the schedule and the
+ * server links it when it publishes the post; the app links the ones it
+ * publishes itself.
+ */
+
+export type ScheduledPost = {
+  postId: string;
+  userId: string;
+  publishAt: string;
+  title: string;
+  challengeId: string | null;
+  challengeName: string | null;
+  /** The server accepted the schedule and publishes the post itself */
+  serverScheduled: boolean;
+  createdAt: string;
+};
+
+export type ScheduleDetails = Pick<ScheduledPost, 'title' | 'challengeId' | 'challengeName'>;
+
+type Listener = (entries: ScheduledPost[]) => void;
+
+export const MIN_SCHEDULE_LEAD_MS = 5 * 60 * 1000;
+export const MAX_SCHEDULE_AHEAD_MS = 30 * 24 * 60 * 60 * 1000;
+// The server rejects publish times closer than this; those stay with the client fallback
+const SERVER_MIN_LEAD_MS = 60 * 1000;
+
+let entries = new Map<string, ScheduledPost>();
+let currentUserId: string | null = null;
+let loadPromise: Promise<void> | null = null;
+let processing: Promise<void> | null = null;
+let lifecycleAttached = false;
+const listeners = new Set<Listener>();
+
+function storageKey(userId: string) {
+  return `@scheduled_posts:${userId}`;
+}
+
+function list(): ScheduledPost[] {
+  return [...entries.values()].sort((left, right) => left.publishAt.localeCompare(right.publishAt));
+}
+
+function notify() {
+  const snapshot = list();
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+async function persist() {
+  if (!currentUserId) return;
+  try {
+    await AsyncStorage.setItem(storageKey(currentUserId), JSON.stringify(list()));
+  } catch {
+    // Best-effort only.
+  }
+}
+
+function removeEntry(postId: string) {
+  if (!entries.delete(postId)) return;
+  notify();
+  void persist();
+}
+
+/** Why `date` cannot be used as a publish time, or null when it can. */
+export function getScheduleTimeError(date: Date, now = Date.now()): string | null {
+  const ahead = date.getTime() - now;
+  if (!Number.isFinite(ahead)) return 'Pick a date and time';
+  if (ahead < MIN_SCHEDULE_LEAD_MS) return 'Pick a time at least 5 minutes from now';
+  if (ahead > MAX_SCHEDULE_AHEAD_MS) return 'Posts can be scheduled up to 30 days ahead';
+  return null;
+}
+
+async function publishEntry(entry: ScheduledPost) {
+  const publishRes = await postsApi.publishDraft(entry.postId);
+  if (publishRes.status !== 'success') {
+    // No longer a draft: the server published it on time, entering it into
+    // its competition as well, or the post was deleted
+    const notDraft = String(publishRes.message || '').toLowerCase().includes('not found');
+    if (notDraft) {
+      removeEntry(entry.postId);
+    }
+    return;
+  }
+
+  if (entry.challengeId) {
+    const linkRes = await challengesApi.addPostToChallenge(entry.challengeId, entry.postId);
+    if (linkRes.status !== 'success') {
+      console.warn('[ScheduledPosts] Could not add scheduled post to competition:', linkRes.message);
+    }
+  }
+  removeEntry(entry.postId);
+}
+
+/**
+ * Publishes drafts that are due and retries server scheduling for the ones
+ * that do not have it yet. Failures (e.g. offline) leave the entry for the
+ * next foreground.
+ */
+async function processEntries() {
+  const now = Date.now();
+  for (const entry of list()) {
+    try {
+      if (new Date(entry.publishAt).getTime() <= now) {
+        await publishEntry(entry);
+      } else if (!entry.serverScheduled && new Date(entry.publishAt).getTime() - now > SERVER_MIN_LEAD_MS) {
+        const scheduleRes = await postsApi.schedulePost(entry.postId, entry.publishAt, entry.challengeId);
+        if (scheduleRes.status === 'success' && entries.has(entry.postId)) {
+          entries.set(entry.postId, { ...entry, serverScheduled: true });
+          notify();
+          void persist();
+        }
+      }
+    } catch (error) {
+      console.warn('[ScheduledPosts] Failed to process scheduled post:', error);
+    }
+  }
+}
+
+function runProcessing(): Promise<void> {
+  if (!processing) {
+    processing = processEntries().finally(() => {
+      processing = null;
+    });
+  }
+  return processing;
+}
+
+function attachLifecycle() {
+  if (lifecycleAttached) return;
+  lifecycleAttached = true;
+  AppState.addEventListener('change', (nextState) => {
+    if (nextState === 'active' && currentUserId) {
+      void runProcessing();
+    }
+  });
+}
+
+async function ensureLoaded(userId: string) {
+  if (currentUserId !== userId) {
+    currentUserId = userId;
+    entries = new Map();
+    loadPromise = null;
+  }
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(storageKey(userId));
+        const parsed = raw ? JSON.parse(raw) : [];
+        const stored: ScheduledPost[] = Array.isArray(parsed) ? parsed.filter((entry: any) => !!entry?.postId) : [];
+        stored.forEach((entry) => entries.set(entry.postId, entry));
+      } catch {
+        entries = new Map();
+      }
+      notify();
+    })();
+  }
+  await loadPromise;
+}
+
+export const scheduledPosts = {
+  /** Loads the user's schedules and publishes any that came due while the app was closed. */
+  async load(userId: string) {
+    await ensureLoaded(userId);
+    attachLifecycle();
+    await runProcessing();
+  },
+
+  list,
+
+  get(postId: string): ScheduledPost | null {
+    return entries.get(postId) ?? null;
+  },
+
+  /**
+   * Schedules (or reschedules) a draft. A publish time that has already
+   * passed, e.g. because the upload took longer, publishes right away.
+   */
+  async schedule(userId: string, postId: string, publishAt: string, details: ScheduleDetails): Promise<ScheduledPost> {
+    await ensureLoaded(userId);
+    attachLifecycle();
+
+    let serverScheduled = false;
+    if (new Date(publishAt).getTime() - Date.now() > SERVER_MIN_LEAD_MS) {
+      const scheduleRes = await postsApi.schedulePost(postId, publishAt, details.challengeId);
+      serverScheduled = scheduleRes.status === 'success';
+    }
+
+    const entry: ScheduledPost = {
+      ...details,
+      postId,
+      userId,
+      publishAt,
+      serverScheduled,
+      createdAt: entries.get(postId)?.createdAt ?? new Date().toISOString(),
+    };
+    entries.set(postId, entry);
+    notify();
+    await persist();
+    if (new Date(publishAt).getTime() <= Date.now()) {
+      void runProcessing();
+    }
+    return entry;
+  },
+
+  /** Cancels a schedule; the post stays a draft. */
+  async cancel(postId: string) {
+    const entry = entries.get(postId);
+    const unscheduleRes = await postsApi.unschedulePost(postId);
+    if (unscheduleRes.status !== 'success' && (!entry || entry.serverScheduled)) {
+      throw new Error(unscheduleRes.message || 'Could not cancel the schedule');
+    }
+    removeEntry(postId);
+  },
+
+  /** Publishes due drafts now; the app also does this whenever it comes to the foreground. */
+  publishDue(): Promise<void> {
+    return currentUserId ? runProcessing() : Promise.resolve();
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default scheduledPosts;
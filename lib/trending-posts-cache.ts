@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiResponse, Post } from '@/types';
+import { viewsApi } from '@/lib/api';
+import { primePostDetailsCache } from '@/lib/post-details-cache';
+import { warmFeedWindow } from '@/lib/feed-window-warmup';
+import { normalizePost } from '@/lib/utils/normalize-post';
+import { filterSecondarySurfacePosts } from '@/lib/utils/post-filter';
+
+export type TrendingPeriod = '1h' | '24h' | '7d' | '30d';
+
+export const TRENDING_PERIODS: { value: TrendingPeriod; label: string }[] = [
+  { value: '1h', label: 'Last hour' },
+  { value: '24h', label: 'Today' },
+  { value: '7d', label: 'This week' },
+  { value: '30d', label: 'This month' },
+];
+
+// Trending ranks shift slowly; serve cached ranks and refresh in the background after this
+export const TRENDING_CACHE_STALE_MS = 5 * 60 * 1000;
+
+const TRENDING_LIMIT = 30;
+
+type CachedValue<T> = {
+  data: T;
+  savedAt: number;
+};
+
+const memoryCache = new Map<string, CachedValue<Post[]>>();
+
+const trendingKey = (period: TrendingPeriod) => `@trending:posts:${period}`;
+
+export function isTrendingPeriod(value: unknown): value is TrendingPeriod {
+  return TRENDING_PERIODS.some((period) => period.value === value);
+}
+
+export async function getCachedTrendingPosts(period: TrendingPeriod): Promise<CachedValue<Post[]> | null> {
+  const key = trendingKey(period);
+  const inMemory = memoryCache.get(key);
+  if (inMemory) {
+    return inMemory;
+  }
+
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    if (!raw) {
+      return null;
+    }
+
+    const parsed = JSON.parse(raw) as CachedValue<Post[]>;
+    if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.data)) {
+      return null;
+    }
+
+    memoryCache.set(key, parsed);
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export async function setCachedTrendingPosts(period: TrendingPeriod, posts: Post[]) {
+  const payload: CachedValue<Post[]> = {
+    data: Array.isArray(posts) ? posts : [],
+    savedAt: Date.now(),
+  };
+
+  memoryCache.set(trendingKey(period), payload);
+
+  try {
+    await AsyncStorage.setItem(trendingKey(period), JSON.stringify(payload));
+  } catch {
+    // Best-effort cache only.
+  }
+}
+
+/**
+ * Fetch the ranked list for `period`, normalized and filtered the way the
+ * Trending grid shows it, and cache it. On failure the cache is left as is.
+ */
+export async function fetchTrendingPosts(period: TrendingPeriod): Promise<ApiResponse<Post[]>> {
+  const response = await viewsApi.getTrending(period, TRENDING_LIMIT);
+  if (response.status !== 'success') {
+    return { status: 'error', message: response.message || 'Could not load trending posts', data: [] };
+  }
+
+  const posts = filterSecondarySurfacePosts((response.data?.posts ?? []).map((post: any) => normalizePost(post)));
+  void setCachedTrendingPosts(period, posts);
+  return { status: 'success', message: response.message, data: posts };
+}
+
+/** Synchronous read used by the fullscreen pager when launched from the Trending grid. */
+export function getTrendingLaunchPosts(period: TrendingPeriod): Post[] {
+  return memoryCache.get(trendingKey(period))?.data ?? [];
+}
+
+export function primeTrendingLaunch(period: TrendingPeriod, startIndex: number) {
+  const posts = getTrendingLaunchPosts(period);
+  primePostDetailsCache(posts);
+  warmFeedWindow(posts, startIndex);
+}
@@ -0,0 +1,782 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { postsApi } from './api';
+import { API_BASE_URL } from './config';
+import { networkStatus } from './network-status';
+import { directUploadRecovery, type UploadRecoveryState } from './direct-upload-recovery';
+import { uploadNotificationService } from './notification-service';
+import { scheduledPosts } from './scheduled-posts';
+import {
+  getPendingDirectUploadSessions,
+  removePendingDirectUploadSession,
+  updatePendingDirectUploadSession,
+  upsertPendingDirectUploadSession,
+  type PendingDirectUploadSession,
+} from './upload-session-store';
+import {
+  CHUNKED_UPLOAD_MIN_BYTES,
+  prepareVideoForUpload,
+  uploadPreparedVideo,
+  uploadPreparedVideoInChunks,
+  type UploadPreparedVideoCallbacks,
+} from './utils/video-upload';
+import { videoReadyTracker } from './video-ready-tracker';
+
+/**
+ * Background queue for video posts.
+ *
+ * The create screen hands a recorded or edited video over and is free again
+ * right away. Each item is compressed, uploaded (directly to storage, or as a
+ * competition entry) and then followed until processing finishes, with up to
+ * MAX_CONCURRENT_UPLOADS running at once. The queue lives outside any screen,
+ * so it keeps going while the user navigates. It is persisted per user;
+ * uploads that had already created their post when the app died are shown as
+ * resuming and follow direct-upload-recovery, the rest start over.
+ */
+
+export type UploadQueueStatus =
+  | 'queued'
+  | 'preparing'
+  | 'uploading'
+  | 'finalizing'
+  /** Created its post before the app died; direct-upload-recovery finishes it */
+  | 'resuming'
+  | 'processing'
+  | 'ready'
+  | 'failed'
+  | 'cancelled';
+
+export type UploadQueueItem = {
+  id: string;
+  userId: string;
+  status: UploadQueueStatus;
+  /** Recorded or edited video, as picked in the create screen */
+  sourceUri: string;
+  /** Compressed copy once prepared; reused by retries */
+  uploadUri: string | null;
+  thumbnailUri: string | null;
+  fileName: string;
+  totalBytes: number;
+  title: string;
+  caption: string;
+  postCategory: string;
+  categoryId?: number;
+  postStatus: 'active' | 'draft';
+  challengeId: string | null;
+  challengeName: string | null;
+  captionFile: { uri: string; name: string } | null;
+  /** Uploaded as a draft and scheduled to publish at this time; a competition entry joins then */
+  scheduledPublishAt: string | null;
+  postId: string | null;
+  /** 0-100 for the current step (preparing or uploading) */
+  percent: number;
+  bytesPerSecond: number;
+  etaSeconds: number;
+  processingLabel: string | null;
+  /** Set when the server failed to transcode; retry asks it to process again */
+  processingFailed: boolean;
+  error: string | null;
+  /** The video went up but its caption track did not; `retryCaptions` tries again */
+  captionError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UploadQueueRequest = Pick<
+  UploadQueueItem,
+  | 'sourceUri'
+  | 'thumbnailUri'
+  | 'title'
+  | 'caption'
+  | 'postCategory'
+  | 'categoryId'
+  | 'postStatus'
+  | 'challengeId'
+  | 'challengeName'
+  | 'captionFile'
+> & Partial<Pick<UploadQueueItem, 'scheduledPublishAt'>>;
+
+type Listener = (items: UploadQueueItem[]) => void;
+
+export const MAX_CONCURRENT_UPLOADS = 2;
+export const MAX_PENDING_UPLOADS = 10;
+const PROCESSING_POLL_MS = 15 * 1000;
+// Largest video the backend accepts through its multipart endpoint when direct upload is unavailable
+const MAX_FALLBACK_UPLOAD_BYTES = 50 * 1024 * 1024;
+const ACTIVE_STATUSES: UploadQueueStatus[] = ['preparing', 'uploading', 'finalizing'];
+
+let items = new Map<string, UploadQueueItem>();
+let currentUserId: string | null = null;
+let loadPromise: Promise<void> | null = null;
+let processingTimer: ReturnType<typeof setInterval> | null = null;
+const controllers = new Map<string, AbortController>();
+const activeXhrs = new Map<string, XMLHttpRequest>();
+const listeners = new Set<Listener>();
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function storageKey(userId: string) {
+  return `@upload_queue:${userId}`;
+}
+
+function list(): UploadQueueItem[] {
+  return [...items.values()].sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+}
+
+function notify() {
+  const snapshot = list();
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+async function persist() {
+  if (!currentUserId) return;
+  try {
+    await AsyncStorage.setItem(storageKey(currentUserId), JSON.stringify(list()));
+  } catch {
+    // Best-effort only.
+  }
+}
+
+function update(id: string, patch: Partial<UploadQueueItem>, options: { persist?: boolean } = {}) {
+  const current = items.get(id);
+  if (!current) return;
+  items.set(id, { ...current, ...patch, updatedAt: nowIso() });
+  notify();
+  if (options.persist !== false) {
+    void persist();
+  }
+}
+
+function isActive(item: UploadQueueItem) {
+  return ACTIVE_STATUSES.includes(item.status);
+}
+
+function createCancelError() {
+  const error = new Error('Upload cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+async function fileExists(uri: string | null) {
+  if (!uri) return false;
+  try {
+    return (await FileSystem.getInfoAsync(uri)).exists;
+  } catch {
+    return false;
+  }
+}
+
+/** Deletes the compressed copy; originals picked from the library are left alone. */
+function deleteUploadCopy(item: UploadQueueItem) {
+  const { uploadUri } = item;
+  if (uploadUri && uploadUri !== item.sourceUri && FileSystem.cacheDirectory && uploadUri.startsWith(FileSystem.cacheDirectory)) {
+    FileSystem.deleteAsync(uploadUri, { idempotent: true }).catch(() => {});
+  }
+}
+
+async function ensureLoaded(userId: string) {
+  if (currentUserId !== userId) {
+    currentUserId = userId;
+    items = new Map();
+    loadPromise = null;
+  }
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(storageKey(userId));
+        const parsed = raw ? JSON.parse(raw) : [];
+        const entries: UploadQueueItem[] = Array.isArray(parsed) ? parsed.filter((entry: any) => !!entry?.id) : [];
+        const sessions = entries.some((entry) => !!entry.postId) ? await getPendingDirectUploadSessions(userId) : [];
+        entries.forEach((entry) => {
+          const uploaded = entry.status === 'processing' || entry.status === 'ready';
+          if (entry.postId && !uploaded && entry.status !== 'cancelled' && !entry.processingFailed) {
+            // A direct upload that already has its post is finished by direct-upload-recovery on launch;
+            // without a session it got as far as completing, and the processing poll takes over
+            const hasSession = sessions.some((session) => session.uploadItemId === entry.id || session.postId === entry.postId);
+            items.set(entry.id, {
+              ...entry,
+              status: hasSession ? 'resuming' : 'processing',
+              bytesPerSecond: 0,
+              etaSeconds: 0,
+              processingLabel: hasSession ? null : 'Processing',
+              error: null,
+            });
+            return;
+          }
+          if (isActive(entry)) {
+            // Anything else that was running when the app died starts over
+            items.set(entry.id, { ...entry, status: 'queued', percent: 0, bytesPerSecond: 0, etaSeconds: 0 });
+            return;
+          }
+          items.set(entry.id, entry);
+        });
+      } catch {
+        items = new Map();
+      }
+      notify();
+      void persist();
+      ensureProcessingPoll();
+      followRecovery(directUploadRecovery.get());
+    })();
+  }
+  await loadPromise;
+}
+
+function throwIfCancelled(id: string) {
+  if (controllers.get(id)?.signal.aborted) {
+    throw createCancelError();
+  }
+}
+
+function progressCallbacks(id: string): UploadPreparedVideoCallbacks {
+  return {
+    onProgress: (snapshot) => {
+      update(id, {
+        percent: snapshot.overallPercent,
+        bytesPerSecond: snapshot.bytesPerSecond,
+        etaSeconds: snapshot.etaSeconds,
+      }, { persist: false });
+    },
+  };
+}
+
+/** Multipart POST to the API with upload progress; resolves the parsed response body. */
+async function postForm(id: string, path: string, formData: FormData): Promise<any> {
+  const authToken = await AsyncStorage.getItem('talynk_token');
+  if (!authToken) {
+    throw new Error('Please log in again to upload.');
+  }
+  throwIfCancelled(id);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const startedAt = Date.now();
+    activeXhrs.set(id, xhr);
+    xhr.open('POST', `${API_BASE_URL}${path}`);
+    xhr.setRequestHeader('Accept', 'application/json');
+    xhr.setRequestHeader('Authorization', `Bearer ${authToken.trim()}`);
+    xhr.upload.onprogress = (event) => {
+      if (!event.lengthComputable || event.total <= 0) return;
+      const bytesPerSecond = event.loaded / Math.max((Date.now() - startedAt) / 1000, 0.001);
+      update(id, {
+        percent: Math.min(100, (event.loaded / event.total) * 100),
+        bytesPerSecond,
+        etaSeconds: bytesPerSecond > 0 ? Math.max(0, (event.total - event.loaded) / bytesPerSecond) : 0,
+      }, { persist: false });
+    };
+    xhr.onload = () => {
+      activeXhrs.delete(id);
+      let body: any = null;
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Non-JSON error pages fall through to the status message
+      }
+      if (xhr.status >= 200 && xhr.status < 300 && body?.status === 'success') {
+        resolve(body);
+        return;
+      }
+      if (body?.code === 'MAX_CHALLENGE_POSTS_REACHED') {
+        reject(new Error('You have reached the maximum posts for this competition.'));
+        return;
+      }
+      reject(new Error(body?.message || body?.error || `Server error (${xhr.status})`));
+    };
+    xhr.onerror = () => {
+      activeXhrs.delete(id);
+      reject(new Error('Network error. Check your connection and retry.'));
+    };
+    xhr.onabort = () => {
+      activeXhrs.delete(id);
+      reject(createCancelError());
+    };
+    xhr.send(formData);
+  });
+}
+
+function buildPostForm(item: UploadQueueItem, uploadUri: string) {
+  const formData = new FormData();
+  formData.append('title', item.title);
+  formData.append('caption', item.caption);
+  formData.append('post_category', item.postCategory);
+  if (item.categoryId) {
+    formData.append('category_id', String(item.categoryId));
+  }
+  formData.append('file', { uri: uploadUri, name: item.fileName, type: 'video/mp4' } as any);
+  return formData;
+}
+
+async function uploadToChallenge(item: UploadQueueItem, uploadUri: string): Promise<string> {
+  const response = await postForm(item.id, `/api/challenges/${item.challengeId}/posts`, buildPostForm(item, uploadUri));
+  const postId = response.data?.post?.id;
+  if (!postId) {
+    throw new Error('The competition entry was not created.');
+  }
+  return postId;
+}
+
+async function uploadThroughApi(item: UploadQueueItem, uploadUri: string): Promise<string> {
+  const formData = buildPostForm(item, uploadUri);
+  formData.append('status', item.postStatus);
+  const response = await postForm(item.id, '/api/posts', formData);
+  const postId = (response.data?.post || response.data)?.id;
+  if (!postId) {
+    throw new Error('The post was not created.');
+  }
+  return postId;
+}
+
+async function abandonPost(userId: string, postId: string) {
+  await removePendingDirectUploadSession(userId, postId);
+  postsApi.deletePost(postId).catch(() => {});
+}
+
+async function createDirectSession(item: UploadQueueItem, uploadUri: string): Promise<PendingDirectUploadSession | null> {
+  const chunked = item.totalBytes >= CHUNKED_UPLOAD_MIN_BYTES;
+  const createRes = await postsApi.createUpload({
+    title: item.title,
+    caption: item.caption,
+    post_category: item.postCategory,
+    category_id: item.categoryId,
+    status: item.postStatus,
+    ...(chunked ? { upload_mode: 'multipart' as const, file_size: item.totalBytes } : {}),
+  });
+  if (createRes.status !== 'success' || (!createRes.data?.uploadUrl && !createRes.data?.multipart)) {
+    return null;
+  }
+
+  const { postId, multipart } = createRes.data;
+  const expiresIn = Number(createRes.data.expiresIn ?? 600);
+  const now = nowIso();
+  const session: PendingDirectUploadSession = {
+    id: `${item.userId}:${postId}`,
+    userId: item.userId,
+    postId,
+    uploadUrl: createRes.data.uploadUrl ?? '',
+    videoUrl: createRes.data.videoUrl,
+    multipart: multipart
+      ? { uploadId: multipart.uploadId, partSize: multipart.partSize, totalBytes: item.totalBytes, completedParts: [] }
+      : undefined,
+    schedule: item.scheduledPublishAt
+      ? { publishAt: item.scheduledPublishAt, challengeId: item.challengeId, challengeName: item.challengeName }
+      : undefined,
+    uploadItemId: item.id,
+    captionFile: item.captionFile,
+    expiresAt: new Date(Date.now() + Math.max(1, expiresIn) * 1000).toISOString(),
+    fileUri: uploadUri,
+    fileName: item.fileName,
+    mimeType: 'video/mp4',
+    title: item.title,
+    caption: item.caption,
+    postCategory: item.postCategory,
+    categoryId: item.categoryId,
+    status: item.postStatus,
+    destination: item.postStatus === 'draft' ? 'draft' : 'post',
+    step: 'created',
+    createdAt: now,
+    updatedAt: now,
+  };
+  await upsertPendingDirectUploadSession(item.userId, session);
+  return session;
+}
+
+/**
+ * Signed-URL upload. A chunked session left by a failed attempt is resumed
+ * from its last acknowledged part; anything else starts with a fresh post.
+ */
+async function uploadDirect(item: UploadQueueItem, uploadUri: string): Promise<string> {
+  const { id, userId } = item;
+  const signal = controllers.get(id)?.signal;
+  const sessions = item.postId ? await getPendingDirectUploadSessions(userId) : [];
+  let session = sessions.find((candidate) => candidate.postId === item.postId && !!candidate.multipart) ?? null;
+  if (!session && item.postId) {
+    await abandonPost(userId, item.postId);
+    update(id, { postId: null });
+  }
+
+  if (!session) {
+    session = await createDirectSession(item, uploadUri);
+    throwIfCancelled(id);
+    if (!session) {
+      if (item.totalBytes > MAX_FALLBACK_UPLOAD_BYTES) {
+        throw new Error('Direct upload is temporarily unavailable. Retry in a moment.');
+      }
+      return uploadThroughApi(item, uploadUri);
+    }
+    update(id, { postId: session.postId });
+  }
+
+  const { postId, multipart } = session;
+  try {
+    await updatePendingDirectUploadSession(userId, postId, { step: 'putting' });
+    if (multipart) {
+      await uploadPreparedVideoInChunks(
+        uploadUri,
+        multipart,
+        {
+          getPartUrls: async (partNumbers) => {
+            const partsRes = await postsApi.getUploadParts(postId, partNumbers);
+            if (partsRes.status !== 'success') {
+              throw new Error(partsRes.message || 'Could not get an upload link');
+            }
+            return {
+              urls: Object.fromEntries(partsRes.data.parts.map((part) => [part.partNumber, part.url])),
+              uploadedParts: partsRes.data.uploadedParts,
+            };
+          },
+          onPartUploaded: (_partNumber, completedParts) =>
+            updatePendingDirectUploadSession(userId, postId, { multipart: { ...multipart, completedParts } }),
+        },
+        progressCallbacks(id),
+        signal
+      );
+    } else {
+      await uploadPreparedVideo(session.uploadUrl, uploadUri, progressCallbacks(id), signal);
+    }
+  } catch (error) {
+    // Chunked uploads keep their session so a retry only sends the missing parts
+    if (!multipart || signal?.aborted) {
+      await abandonPost(userId, postId);
+      update(id, { postId: null });
+    }
+    throw error;
+  }
+
+  update(id, { status: 'finalizing', percent: 100, bytesPerSecond: 0, etaSeconds: 0 });
+  await updatePendingDirectUploadSession(userId, postId, { step: 'complete_called' });
+  const completeRes = await postsApi.completeUpload(postId);
+  if (completeRes.status !== 'success') {
+    const message = String(completeRes.message || '');
+    if (multipart && message.toLowerCase().includes('file not found')) {
+      await updatePendingDirectUploadSession(userId, postId, { step: 'putting' });
+    } else {
+      await abandonPost(userId, postId);
+      update(id, { postId: null });
+    }
+    throw new Error(message || 'Processing could not be queued.');
+  }
+  await removePendingDirectUploadSession(userId, postId);
+  return postId;
+}
+
+async function runItem(id: string) {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  let item = items.get(id);
+  if (!item) return;
+
+  try {
+    let uploadUri = item.uploadUri;
+    if (!(await fileExists(uploadUri))) {
+      update(id, { status: 'preparing', percent: 0, bytesPerSecond: 0, etaSeconds: 0, error: null });
+      const prepared = await prepareVideoForUpload(item.sourceUri, (progress) => {
+        update(id, { percent: progress * 100 }, { persist: false });
+      });
+      uploadUri = prepared.uploadUri;
+      update(id, { uploadUri, fileName: prepared.fileName, totalBytes: prepared.uploadSizeBytes });
+      throwIfCancelled(id);
+    }
+
+    update(id, { status: 'uploading', percent: 0, bytesPerSecond: 0, etaSeconds: 0, error: null });
+    item = items.get(id)!;
+    const isChallengeEntry = !!item.challengeId && item.postStatus !== 'draft';
+    const postId = isChallengeEntry
+      ? await uploadToChallenge(item, uploadUri!)
+      : await uploadDirect(item, uploadUri!);
+    throwIfCancelled(id);
+
+    if (item.captionFile) {
+      const captionsRes = await postsApi.uploadSubtitles(postId, item.captionFile);
+      if (captionsRes.status !== 'success') {
+        update(id, { captionError: captionsRes.message || 'Captions could not be added' });
+      }
+    }
+
+    if (item.scheduledPublishAt) {
+      await scheduledPosts.schedule(item.userId, postId, item.scheduledPublishAt, {
+        title: item.title,
+        challengeId: item.challengeId,
+        challengeName: item.challengeName,
+      });
+    }
+
+    const destination = isChallengeEntry ? 'challenge' : item.postStatus === 'draft' ? 'draft' : 'post';
+    await videoReadyTracker.track(item.userId, {
+      postId,
+      destination,
+      challengeId: isChallengeEntry ? item.challengeId ?? undefined : undefined,
+      challengeName: isChallengeEntry ? item.challengeName ?? undefined : undefined,
+    });
+    deleteUploadCopy(items.get(id)!);
+    update(id, {
+      status: 'processing',
+      postId,
+      uploadUri: null,
+      percent: 100,
+      bytesPerSecond: 0,
+      etaSeconds: 0,
+      processingLabel: 'Queued for processing',
+    });
+    await uploadNotificationService.showUploadQueued(destination, item.challengeName ?? undefined);
+    ensureProcessingPoll();
+  } catch (error: any) {
+    if (controller.signal.aborted || error?.name === 'AbortError') {
+      const cancelled = items.get(id);
+      if (cancelled) {
+        deleteUploadCopy(cancelled);
+        update(id, { status: 'cancelled', uploadUri: null, percent: 0, bytesPerSecond: 0, etaSeconds: 0 });
+      }
+    } else {
+      console.warn('[UploadQueue] Upload failed:', error?.message);
+      update(id, {
+        status: 'failed',
+        bytesPerSecond: 0,
+        etaSeconds: 0,
+        error: error?.message || 'Upload failed',
+      });
+      await uploadNotificationService.showUploadError(error?.message || 'Upload failed', items.get(id)?.fileName);
+    }
+  } finally {
+    controllers.delete(id);
+    activeXhrs.delete(id);
+    void pump();
+  }
+}
+
+function pump() {
+  if (networkStatus.getStatus() === 'offline') return;
+  const running = list().filter(isActive).length;
+  const queued = list()
+    .filter((item) => item.status === 'queued')
+    .sort((left, right) => left.createdAt.localeCompare(right.createdAt))
+    .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - running));
+  queued.forEach((item) => {
+    // Claim the slot before the first await so the next pump does not start it twice
+    update(item.id, { status: 'preparing', percent: 0 }, { persist: false });
+    void runItem(item.id);
+  });
+}
+
+async function pollProcessing() {
+  const processing = list().filter((item) => item.status === 'processing' && item.postId);
+  if (processing.length === 0) {
+    if (processingTimer) {
+      clearInterval(processingTimer);
+      processingTimer = null;
+    }
+    return;
+  }
+
+  await Promise.all(processing.map(async (item) => {
+    const statusRes = await postsApi.getProcessingStatus(item.postId!).catch(() => null);
+    if (!statusRes || statusRes.status !== 'success') return;
+    const processingInfo = statusRes.data?.processing;
+    if (processingInfo?.hlsReady === true || processingInfo?.status === 'completed') {
+      update(item.id, { status: 'ready', processingLabel: null });
+    } else if (processingInfo?.status === 'failed') {
+      update(item.id, {
+        status: 'failed',
+        processingFailed: true,
+        processingLabel: null,
+        error: processingInfo.error || 'Video processing failed',
+      });
+    } else {
+      const label = processingInfo?.queue?.statusLabel || processingInfo?.statusLabel || 'Processing';
+      if (label !== item.processingLabel) {
+        update(item.id, { processingLabel: label });
+      }
+    }
+  }));
+}
+
+function ensureProcessingPoll() {
+  if (processingTimer || !list().some((item) => item.status === 'processing')) return;
+  processingTimer = setInterval(() => {
+    void pollProcessing();
+  }, PROCESSING_POLL_MS);
+  void pollProcessing();
+}
+
+/** Mirrors direct-upload-recovery's progress onto the resuming item it belongs to. */
+function followRecovery(recovery: UploadRecoveryState | null) {
+  const item = recovery?.uploadItemId ? items.get(recovery.uploadItemId) : null;
+  if (!recovery || !item || item.status !== 'resuming') return;
+
+  switch (recovery.status) {
+    case 'uploading':
+    case 'finalizing':
+      update(item.id, {
+        postId: recovery.postId,
+        percent: recovery.percent,
+        bytesPerSecond: recovery.bytesPerSecond,
+        etaSeconds: recovery.etaSeconds,
+      }, { persist: false });
+      break;
+    case 'done':
+      update(item.id, {
+        status: 'processing',
+        postId: recovery.postId,
+        uploadUri: null,
+        percent: 100,
+        bytesPerSecond: 0,
+        etaSeconds: 0,
+        processingLabel: 'Queued for processing',
+        error: null,
+        captionError: recovery.captionError,
+      });
+      ensureProcessingPoll();
+      break;
+    case 'failed':
+      update(item.id, {
+        status: 'failed',
+        postId: recovery.postId,
+        bytesPerSecond: 0,
+        etaSeconds: 0,
+        error: recovery.message || 'Upload could not be resumed',
+      });
+      break;
+  }
+}
+
+directUploadRecovery.subscribe(followRecovery);
+
+networkStatus.subscribe((status) => {
+  if (status === 'online' && currentUserId) {
+    void ensureLoaded(currentUserId).then(pump);
+  }
+});
+
+export const uploadQueue = {
+  async load(userId: string) {
+    await ensureLoaded(userId);
+    pump();
+  },
+
+  list,
+
+  get(id: string): UploadQueueItem | null {
+    return items.get(id) ?? null;
+  },
+
+  /** Items still moving towards a finished post (not ready, failed or cancelled). */
+  getPendingCount(): number {
+    return list().filter((item) => item.status === 'queued' || item.status === 'resuming' || isActive(item)).length;
+  },
+
+  async enqueue(userId: string, request: UploadQueueRequest): Promise<UploadQueueItem> {
+    await ensureLoaded(userId);
+    if (uploadQueue.getPendingCount() >= MAX_PENDING_UPLOADS) {
+      throw new Error(`You can have up to ${MAX_PENDING_UPLOADS} uploads in progress. Wait for one to finish.`);
+    }
+
+    const createdAt = nowIso();
+    const item: UploadQueueItem = {
+      ...request,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      userId,
+      status: 'queued',
+      // Scheduled posts wait on the server as drafts
+      postStatus: request.scheduledPublishAt ? 'draft' : request.postStatus,
+      scheduledPublishAt: request.scheduledPublishAt ?? null,
+      uploadUri: null,
+      fileName: request.sourceUri.split('/').pop() || 'video.mp4',
+      totalBytes: 0,
+      postId: null,
+      percent: 0,
+      bytesPerSecond: 0,
+      etaSeconds: 0,
+      processingLabel: null,
+      processingFailed: false,
+      error: null,
+      captionError: null,
+      createdAt,
+      updatedAt: createdAt,
+    };
+    items.set(item.id, item);
+    notify();
+    void persist();
+    pump();
+    return item;
+  },
+
+  async retry(id: string) {
+    const item = items.get(id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+
+    if (item.processingFailed && item.postId) {
+      const retryRes = await postsApi.retryProcessing(item.postId).catch(() => null);
+      if (retryRes?.status === 'success') {
+        update(id, { status: 'processing', processingFailed: false, error: null, processingLabel: 'Queued for processing' });
+        ensureProcessingPoll();
+      } else {
+        update(id, { error: retryRes?.message || 'Processing could not be restarted' });
+      }
+      return;
+    }
+
+    update(id, { status: 'queued', error: null, captionError: null, percent: 0 });
+    pump();
+  },
+
+  /** Attaches the caption track again to an uploaded post that is missing it. */
+  async retryCaptions(id: string) {
+    const item = items.get(id);
+    if (!item?.captionError || !item.captionFile || !item.postId) return;
+
+    const captionsRes = await postsApi.uploadSubtitles(item.postId, item.captionFile);
+    update(id, {
+      captionError: captionsRes.status === 'success' ? null : captionsRes.message || 'Captions could not be added',
+    });
+  },
+
+  /**
+   * Stops a queued or running upload; a post already created for it is deleted.
+   * Resuming items are left alone: direct-upload-recovery owns them until it
+   * finishes or fails, and the Uploads screen offers no cancel for them.
+   */
+  async cancel(id: string) {
+    const item = items.get(id);
+    if (!item || item.status === 'resuming') return;
+    if (item.status === 'queued') {
+      update(id, { status: 'cancelled' });
+      return;
+    }
+    // Once storage has the whole file the post is being created; it can be deleted from the profile instead
+    if (!isActive(item) || item.status === 'finalizing') return;
+    controllers.get(id)?.abort();
+    activeXhrs.get(id)?.abort();
+  },
+
+  /** Drops a finished, failed or cancelled item from the list. */
+  async remove(id: string) {
+    const item = items.get(id);
+    if (!item || item.status === 'queued' || item.status === 'resuming' || isActive(item)) return;
+    if (item.status !== 'ready' && item.status !== 'processing' && item.postId) {
+      // A failed chunked upload still holds a server post and a resumable session
+      await abandonPost(item.userId, item.postId);
+    }
+    deleteUploadCopy(item);
+    items.delete(id);
+    notify();
+    void persist();
+  },
+
+  async clearFinished() {
+    list()
+      .filter((item) => item.status === 'ready' || item.status === 'cancelled')
+      .forEach((item) => items.delete(item.id));
+    notify();
+    void persist();
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default uploadQueue;
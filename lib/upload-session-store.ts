@@ -7,12 +7,34 @@ export type PendingDirectUploadStep =
   | 'complete_called'
   | 'tracking_processing';
 
+/** Chunked upload state; `completedParts` only lists parts the storage acknowledged. */
+export type PendingMultipartUpload = {
+  uploadId: string;
+  partSize: number;
+  totalBytes: number;
+  completedParts: number[];
+};
+
+/** Publish time of a post uploaded as a scheduled draft, applied once the upload completes. */
+export type PendingUploadSchedule = {
+  publishAt: string;
+  challengeId: string | null;
+  challengeName: string | null;
+};
+
 export type PendingDirectUploadSession = {
   id: string;
   userId: string;
   postId: string;
+  /** Empty for chunked uploads, whose part URLs are signed on demand */
   uploadUrl: string;
   videoUrl?: string;
+  multipart?: PendingMultipartUpload;
+  schedule?: PendingUploadSchedule;
+  /** Upload queue item that created the session; follows the recovery of it */
+  uploadItemId?: string;
+  /** WebVTT track attached once the upload completes */
+  captionFile?: { uri: string; name: string } | null;
   expiresAt: string;
   fileUri: string;
   fileName: string;
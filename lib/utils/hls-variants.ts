@@ -0,0 +1,185 @@
+export type HlsVariant = {
+  url: string;
+  /** Peak bits per second, from BANDWIDTH. */
+  bandwidth: number;
+  width: number | null;
+  height: number | null;
+  codecs: string | null;
+  name: string | null;
+};
+
+const MAX_REMEMBERED_MASTERS = 200;
+
+// Parsed master playlists by URL, so the capped variant can be picked synchronously at render time
+const variantsByMaster = new Map<string, HlsVariant[]>();
+const pendingMasterLoads = new Map<string, Promise<HlsVariant[]>>();
+
+export function resolveHlsUrl(base: string, relative: string) {
+  if (/^https?:\/\//i.test(relative)) {
+    return relative;
+  }
+  const root = base.slice(0, base.lastIndexOf('/') + 1);
+  return `${root}${relative.replace(/^\//, '')}`;
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`(?:^|,)${name}=("[^"]*"|[^,]*)`));
+  return match ? match[1].replace(/^"|"$/g, '') : null;
+}
+
+/** Variants declared by a master playlist; empty for media playlists. */
+export function parseHlsMasterPlaylist(masterUrl: string, manifestText: string): HlsVariant[] {
+  const lines = manifestText.split('\n').map((line) => line.trim()).filter(Boolean);
+  const variants: HlsVariant[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.startsWith('#EXT-X-STREAM-INF:')) {
+      return;
+    }
+    const uri = lines[index + 1];
+    if (!uri || uri.startsWith('#')) {
+      return;
+    }
+
+    const attributes = line.slice('#EXT-X-STREAM-INF:'.length);
+    const [width, height] = (readAttribute(attributes, 'RESOLUTION') ?? '')
+      .split('x')
+      .map((value) => Number.parseInt(value, 10));
+    variants.push({
+      url: resolveHlsUrl(masterUrl, uri),
+      bandwidth: Number.parseInt(readAttribute(attributes, 'BANDWIDTH') ?? '', 10) || 0,
+      width: Number.isFinite(width) ? width : null,
+      height: Number.isFinite(height) ? height : null,
+      codecs: readAttribute(attributes, 'CODECS'),
+      name: readAttribute(attributes, 'NAME'),
+    });
+  });
+
+  return variants;
+}
+
+export type HlsSubtitleRendition = {
+  /** Media playlist listing the WebVTT segments */
+  url: string;
+  language: string | null;
+  name: string | null;
+  isDefault: boolean;
+};
+
+/** `#EXT-X-MEDIA:TYPE=SUBTITLES` renditions declared by a master playlist. */
+export function parseHlsSubtitleRenditions(masterUrl: string, manifestText: string): HlsSubtitleRendition[] {
+  return manifestText
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('#EXT-X-MEDIA:') && line.includes('TYPE=SUBTITLES'))
+    .map((line) => {
+      const attributes = line.slice('#EXT-X-MEDIA:'.length);
+      const uri = readAttribute(attributes, 'URI');
+      return uri
+        ? {
+          url: resolveHlsUrl(masterUrl, uri),
+          language: readAttribute(attributes, 'LANGUAGE'),
+          name: readAttribute(attributes, 'NAME'),
+          isDefault: readAttribute(attributes, 'DEFAULT') === 'YES',
+        }
+        : null;
+    })
+    .filter((rendition): rendition is HlsSubtitleRendition => rendition !== null);
+}
+
+/**
+ * Best variant that fits under `maxHeight`, or the smallest one when none do.
+ * Variants without a declared resolution are only picked as a last resort.
+ */
+export function selectHlsVariant(variants: HlsVariant[], maxHeight: number): HlsVariant | null {
+  const sized = variants.filter((variant) => variant.height !== null);
+  if (sized.length === 0) {
+    return null;
+  }
+
+  const fitting = sized.filter((variant) => (variant.height as number) <= maxHeight);
+  const pool = fitting.length > 0 ? fitting : sized;
+  const pick = fitting.length > 0 ? Math.max : Math.min;
+  const targetHeight = pick(...pool.map((variant) => variant.height as number));
+  return pool
+    .filter((variant) => variant.height === targetHeight)
+    .sort((left, right) => right.bandwidth - left.bandwidth)[0];
+}
+
+export function rememberHlsMaster(masterUrl: string, manifestText: string) {
+  const variants = parseHlsMasterPlaylist(masterUrl, manifestText);
+  if (variants.length === 0) {
+    return;
+  }
+
+  variantsByMaster.delete(masterUrl);
+  variantsByMaster.set(masterUrl, variants);
+  if (variantsByMaster.size > MAX_REMEMBERED_MASTERS) {
+    const oldest = variantsByMaster.keys().next().value;
+    if (oldest !== undefined) {
+      variantsByMaster.delete(oldest);
+    }
+  }
+}
+
+/** Variants of a master playlist this session has already fetched. */
+export function getHlsVariants(masterUrl: string): HlsVariant[] | null {
+  return variantsByMaster.get(masterUrl) ?? null;
+}
+
+/** Fetch and remember a master playlist; resolves empty for media playlists or on failure. */
+export function loadHlsVariants(masterUrl: string): Promise<HlsVariant[]> {
+  const known = variantsByMaster.get(masterUrl);
+  if (known) {
+    return Promise.resolve(known);
+  }
+
+  const pending = pendingMasterLoads.get(masterUrl);
+  if (pending) {
+    return pending;
+  }
+
+  const request = fetch(masterUrl, { method: 'GET' })
+    .then((response) => (response.ok ? response.text() : ''))
+    .then((manifestText) => {
+      rememberHlsMaster(masterUrl, manifestText);
+      return variantsByMaster.get(masterUrl) ?? [];
+    })
+    .catch(() => [] as HlsVariant[])
+    .finally(() => {
+      pendingMasterLoads.delete(masterUrl);
+    });
+  pendingMasterLoads.set(masterUrl, request);
+  return request;
+}
+
+/**
+ * Playlist to hand the player for `playbackUrl` under a height limit.
+ *
+ * expo-video has no bitrate ceiling, so limits are applied by handing the
+ * player a single variant. A cap keeps the master (and adaptive switching)
+ * when every variant already fits; `lock` always pins one variant, for a
+ * quality the user picked by hand. Only masters already fetched are known;
+ * anything else plays as given.
+ */
+export function getCappedPlaybackUrl(
+  playbackUrl: string,
+  maxHeight: number | null,
+  options?: { lock?: boolean },
+): string {
+  if (maxHeight === null) {
+    return playbackUrl;
+  }
+
+  const variants = variantsByMaster.get(playbackUrl);
+  if (!variants) {
+    return playbackUrl;
+  }
+
+  const allFit = variants.every((variant) => variant.height !== null && variant.height <= maxHeight);
+  if (allFit && !options?.lock) {
+    return playbackUrl;
+  }
+
+  return selectHlsVariant(variants, maxHeight)?.url ?? playbackUrl;
+}
@@ -1,75 +1,172 @@
-import { Image } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+
+const CACHE_DIR = `${FileSystem.cacheDirectory ?? ''}image-cache/`;
+const INDEX_FILE = `${CACHE_DIR}index.json`;
+// Metadata used to live in AsyncStorage; it is dropped on first start
+const LEGACY_METADATA_KEY = '@image_cache_metadata';
+const MB = 1024 * 1024;
+const DEFAULT_BUDGET_BYTES = 100 * MB;
+const UNUSED_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // Entries untouched this long are dropped
+const INDEX_SAVE_DEBOUNCE_MS = 2_000;
+
+export const IMAGE_CACHE_BUDGET_OPTIONS = [
+  { label: '50 MB', value: 50 * MB },
+  { label: '100 MB', value: 100 * MB },
+  { label: '250 MB', value: 250 * MB },
+  { label: '500 MB', value: 500 * MB },
+] as const;
+
+interface CacheEntry {
+  uri: string;
+  file: string;
+  size: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
 
-const CACHE_KEY_PREFIX = '@image_cache_';
-const CACHE_METADATA_KEY = '@image_cache_metadata';
-const MAX_CACHE_SIZE = 50; // Maximum number of images to cache
-const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
+interface CacheIndex {
+  budgetBytes: number;
+  entries: { [key: string]: CacheEntry };
+}
 
-interface CacheMetadata {
-  [uri: string]: {
-    timestamp: number;
-    size?: number;
-    accessCount: number;
-  };
+export interface ImageCacheStats {
+  count: number;
+  bytes: number;
+  budgetBytes: number;
+  oldestTimestamp: number | null;
 }
 
 /**
- * Image cache manager for memory optimization
- * Handles prefetching, caching, and cleanup of images
+ * 64-bit FNV-1a of the URL, as hex. Files are named after it so the same
+ * image is only ever stored once and names never collide with URL characters.
+ *
+ * Keyed by URL rather than by content: `getCachedUri` has to map a URL to a
+ * file synchronously while rendering, before any bytes are known. Uploaded
+ * media get a fresh object key (and so a fresh URL) instead of being
+ * overwritten, so a URL always names the same content.
+ */
+export function getImageCacheKey(uri: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x050c5d1f;
+  for (let index = 0; index < uri.length; index += 1) {
+    const code = uri.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 0x01000193) >>> 0;
+    h2 = Math.imul(h2 ^ code, 0x01000193) >>> 0;
+  }
+  return h1.toString(16).padStart(8, '0') + h2.toString(16).padStart(8, '0');
+}
+
+function getExtension(uri: string) {
+  const match = uri.split('?')[0].match(/\.(jpe?g|png|webp|gif|heic)$/i);
+  return match ? `.${match[1].toLowerCase()}` : '.jpg';
+}
+
+/**
+ * Disk-backed image cache.
+ * Images are downloaded into the app cache directory under names derived from
+ * their URL and served from there by `getCachedUri`. The index is a JSON file next
+ * to the images (not AsyncStorage, which slowed cold start) and the cache is
+ * kept under a byte budget by evicting the least recently used images.
  */
 class ImageCacheManager {
-  private metadata: CacheMetadata = {};
+  private index: CacheIndex = { budgetBytes: DEFAULT_BUDGET_BYTES, entries: {} };
   private prefetchQueue: string[] = [];
   private isPrefetching = false;
-  private initialized = false;
+  private initPromise: Promise<void> | null = null;
+  private inflight = new Map<string, Promise<boolean>>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped by clearAll so downloads that started before it are discarded
+  private generation = 0;
 
   /**
-   * Initialize cache manager (load metadata)
+   * Initialize cache manager (load index)
    */
-  async initialize(): Promise<void> {
-    if (this.initialized) return;
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.loadIndex();
+    }
+    return this.initPromise;
+  }
 
+  private async loadIndex(): Promise<void> {
     try {
-      const storedMetadata = await AsyncStorage.getItem(CACHE_METADATA_KEY);
-      if (storedMetadata) {
-        this.metadata = JSON.parse(storedMetadata);
-        // Clean up expired entries
-        await this.cleanupExpired();
+      await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
+      const info = await FileSystem.getInfoAsync(INDEX_FILE);
+      if (info.exists) {
+        const parsed = JSON.parse(await FileSystem.readAsStringAsync(INDEX_FILE));
+        this.index = {
+          budgetBytes: parsed?.budgetBytes > 0 ? parsed.budgetBytes : DEFAULT_BUDGET_BYTES,
+          entries: parsed?.entries && typeof parsed.entries === 'object' ? parsed.entries : {},
+        };
+
+        // The OS may purge the cache directory while the app is not running
+        const files = new Set(await FileSystem.readDirectoryAsync(CACHE_DIR));
+        Object.entries(this.index.entries).forEach(([key, entry]) => {
+          if (!files.has(entry.file.slice(CACHE_DIR.length))) {
+            delete this.index.entries[key];
+          }
+        });
       }
-      this.initialized = true;
     } catch (error) {
       console.warn('[ImageCache] Failed to initialize:', error);
-      this.metadata = {};
-      this.initialized = true;
+      this.index = { budgetBytes: DEFAULT_BUDGET_BYTES, entries: {} };
     }
+
+    AsyncStorage.removeItem(LEGACY_METADATA_KEY).catch(() => {});
+    await this.cleanupExpired();
   }
 
   /**
-   * Prefetch an image for later use
+   * Download an image into the cache for later use
    */
   async prefetch(uri: string): Promise<boolean> {
     if (!uri || !uri.startsWith('http')) return false;
 
+    await this.initialize();
+    const key = getImageCacheKey(uri);
+    if (this.index.entries[key]) {
+      this.index.entries[key].lastAccessedAt = Date.now();
+      return true;
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const request: Promise<boolean> = this.download(key, uri).finally(() => {
+      if (this.inflight.get(key) === request) {
+        this.inflight.delete(key);
+      }
+    });
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  private async download(key: string, uri: string): Promise<boolean> {
+    const file = `${CACHE_DIR}${key}${getExtension(uri)}`;
+    const generation = this.generation;
     try {
-      await this.initialize();
-      
-      // Skip if already cached and not expired
-      if (this.isCached(uri)) {
-        this.updateAccessTime(uri);
-        return true;
+      const result = await FileSystem.downloadAsync(uri, file);
+      if (result.status < 200 || result.status >= 300 || generation !== this.generation) {
+        await FileSystem.deleteAsync(file, { idempotent: true });
+        return false;
       }
 
-      // Prefetch the image
-      await Image.prefetch(uri);
-      
-      // Update metadata
-      this.metadata[uri] = {
-        timestamp: Date.now(),
-        accessCount: 1,
+      const info = await FileSystem.getInfoAsync(file);
+      if (generation !== this.generation) {
+        await FileSystem.deleteAsync(file, { idempotent: true });
+        return false;
+      }
+      const now = Date.now();
+      this.index.entries[key] = {
+        uri,
+        file,
+        size: info.exists && 'size' in info ? info.size ?? 0 : 0,
+        createdAt: now,
+        lastAccessedAt: now,
       };
-      
-      await this.saveMetadata();
+      await this.enforceCacheLimit();
+      this.scheduleSave();
       return true;
     } catch (error) {
       // Silently fail - image will load on demand
@@ -87,7 +184,7 @@ class ImageCacheManager {
 
     // Filter out already cached images
     const uncachedUris = uris.filter(uri => uri && !this.isCached(uri));
-    
+
     if (!uncachedUris.length) return;
 
     // Add to queue
@@ -117,106 +214,141 @@ class ImageCacheManager {
    * Check if image is cached
    */
   isCached(uri: string): boolean {
-    const entry = this.metadata[uri];
-    if (!entry) return false;
+    return !!this.index.entries[getImageCacheKey(uri)];
+  }
 
-    // Check if expired
-    const isExpired = Date.now() - entry.timestamp > CACHE_EXPIRY_MS;
-    return !isExpired;
+  /**
+   * Local file for a cached image, or null to load it from the network.
+   * Counts as a use for LRU eviction. Missing files are dropped when the index
+   * loads; if one disappears later, the image's onError should call `evict`.
+   */
+  getCachedUri(uri: string | null | undefined): string | null {
+    if (!uri) return null;
+    const entry = this.index.entries[getImageCacheKey(uri)];
+    if (!entry) return null;
+    entry.lastAccessedAt = Date.now();
+    return entry.file;
   }
 
   /**
-   * Update access time for LRU eviction
+   * Forget a cached image whose file could not be loaded, so the next render
+   * falls back to the network. Returns whether there was an entry to drop.
    */
-  private updateAccessTime(uri: string): void {
-    if (this.metadata[uri]) {
-      this.metadata[uri].accessCount++;
-      this.metadata[uri].timestamp = Date.now();
-    }
+  evict(uri: string | null | undefined): boolean {
+    if (!uri) return false;
+    const key = getImageCacheKey(uri);
+    if (!this.index.entries[key]) return false;
+    void this.removeEntries([key]);
+    this.scheduleSave();
+    return true;
   }
 
   /**
-   * Clear expired cache entries
+   * Clear entries that have not been used for a week
    */
   async cleanupExpired(): Promise<void> {
     const now = Date.now();
-    const expiredKeys: string[] = [];
-
-    for (const [uri, entry] of Object.entries(this.metadata)) {
-      if (now - entry.timestamp > CACHE_EXPIRY_MS) {
-        expiredKeys.push(uri);
-      }
-    }
+    const expired = Object.entries(this.index.entries)
+      .filter(([, entry]) => now - entry.lastAccessedAt > UNUSED_EXPIRY_MS);
 
-    for (const key of expiredKeys) {
-      delete this.metadata[key];
+    if (expired.length === 0) {
+      await this.saveIndex();
+      return;
     }
 
-    if (expiredKeys.length > 0) {
-      await this.saveMetadata();
-    }
+    await this.removeEntries(expired.map(([key]) => key));
+    await this.saveIndex();
   }
 
   /**
-   * Clear least recently used entries when cache is full
+   * Evict least recently used images until the cache fits its byte budget
    */
   async enforceCacheLimit(): Promise<void> {
-    const entries = Object.entries(this.metadata);
-    
-    if (entries.length <= MAX_CACHE_SIZE) return;
-
-    // Sort by access count (ascending) and timestamp (ascending)
-    entries.sort(([, a], [, b]) => {
-      if (a.accessCount !== b.accessCount) {
-        return a.accessCount - b.accessCount;
-      }
-      return a.timestamp - b.timestamp;
-    });
-
-    // Remove oldest/least used entries
-    const toRemove = entries.slice(0, entries.length - MAX_CACHE_SIZE);
-    for (const [uri] of toRemove) {
-      delete this.metadata[uri];
+    const entries = Object.entries(this.index.entries);
+    let total = entries.reduce((sum, [, entry]) => sum + entry.size, 0);
+    if (total <= this.index.budgetBytes) return;
+
+    entries.sort(([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt);
+    const toRemove: string[] = [];
+    for (const [key, entry] of entries) {
+      if (total <= this.index.budgetBytes) break;
+      toRemove.push(key);
+      total -= entry.size;
     }
 
-    await this.saveMetadata();
+    await this.removeEntries(toRemove);
+  }
+
+  private async removeEntries(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(async (key) => {
+      const entry = this.index.entries[key];
+      delete this.index.entries[key];
+      if (entry) {
+        await FileSystem.deleteAsync(entry.file, { idempotent: true }).catch(() => {});
+      }
+    }));
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      void this.saveIndex();
+    }, INDEX_SAVE_DEBOUNCE_MS);
   }
 
   /**
-   * Save metadata to storage
+   * Save index to disk
    */
-  private async saveMetadata(): Promise<void> {
+  private async saveIndex(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
     try {
-      await this.enforceCacheLimit();
-      await AsyncStorage.setItem(CACHE_METADATA_KEY, JSON.stringify(this.metadata));
+      await FileSystem.writeAsStringAsync(INDEX_FILE, JSON.stringify(this.index));
     } catch (error) {
-      console.warn('[ImageCache] Failed to save metadata:', error);
+      console.warn('[ImageCache] Failed to save index:', error);
     }
   }
 
+  async setBudget(budgetBytes: number): Promise<void> {
+    await this.initialize();
+    this.index.budgetBytes = budgetBytes;
+    await this.enforceCacheLimit();
+    await this.saveIndex();
+  }
+
   /**
    * Clear all cached images
    */
   async clearAll(): Promise<void> {
-    this.metadata = {};
+    await this.initialize();
+    this.generation += 1;
+    this.index = { budgetBytes: this.index.budgetBytes, entries: {} };
     this.prefetchQueue = [];
-    
+    this.inflight.clear();
+
     try {
-      await AsyncStorage.removeItem(CACHE_METADATA_KEY);
+      await FileSystem.deleteAsync(CACHE_DIR, { idempotent: true });
+      await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
     } catch (error) {
       console.warn('[ImageCache] Failed to clear cache:', error);
     }
+    await this.saveIndex();
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): { count: number; oldestTimestamp: number | null } {
-    const entries = Object.values(this.metadata);
+  getStats(): ImageCacheStats {
+    const entries = Object.values(this.index.entries);
     return {
       count: entries.length,
-      oldestTimestamp: entries.length > 0 
-        ? Math.min(...entries.map(e => e.timestamp))
+      bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      budgetBytes: this.index.budgetBytes,
+      oldestTimestamp: entries.length > 0
+        ? Math.min(...entries.map(e => e.lastAccessedAt))
         : null,
     };
   }
@@ -230,7 +362,7 @@ export const imageCache = new ImageCacheManager();
  */
 export const usePrefetchImages = () => {
   const prefetch = async (uris: (string | undefined | null)[]) => {
-    const validUris = uris.filter((uri): uri is string => 
+    const validUris = uris.filter((uri): uri is string =>
       typeof uri === 'string' && uri.startsWith('http')
     );
     await imageCache.prefetchBatch(validUris);
@@ -240,22 +372,3 @@ export const usePrefetchImages = () => {
 };
 
 export default imageCache;
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
@@ -1,4 +1,5 @@
 import { Post } from '@/types';
+import { readLegacyCount } from '../api-contracts/legacy-fields';
 
 function isLikelyVideoUrl(value: unknown): boolean {
   if (typeof value !== 'string') return false;
@@ -182,6 +183,9 @@ function inferPostType(post: any, playbackUrl: string, videoUrl: string, imageUr
 }
 
 export function normalizePost(post: any): Post {
+  const likeCount = readLegacyCount(post, 'likes') ?? 0;
+  const commentCount = readLegacyCount(post, 'comments') ?? 0;
+  const viewCount = readLegacyCount(post, 'views') ?? 0;
   const challengeEntries = getChallengeEntries(post);
   const primaryChallenge =
     post?.challenge ||
@@ -317,14 +321,15 @@ export function normalizePost(post: any): Post {
     thumbnail: post?.thumbnail || post?.thumbnail_url || post?.thumbnailUrl || '',
     createdAt: post?.createdAt || post?.created_at || post?.uploadDate || new Date(0).toISOString(),
     updatedAt: post?.updatedAt || post?.updated_at || post?.createdAt || post?.created_at || new Date(0).toISOString(),
-    likes: post?.likes ?? post?.like_count ?? post?.likesCount ?? 0,
-    likesCount: post?.likesCount ?? post?.likes ?? post?.like_count ?? 0,
-    like_count: post?.like_count ?? post?.likes ?? post?.likesCount ?? 0,
-    comments_count: post?.comments_count ?? post?.commentsCount ?? post?.comment_count ?? 0,
-    commentsCount: post?.commentsCount ?? post?.comments_count ?? post?.comment_count ?? 0,
-    comment_count: post?.comment_count ?? post?.comments_count ?? post?.commentsCount ?? 0,
-    views: post?.views ?? post?.view_count ?? 0,
-    view_count: post?.view_count ?? post?.views ?? 0,
+    // Every alias carries the same value; screens still read all of them
+    likes: likeCount,
+    likesCount: likeCount,
+    like_count: likeCount,
+    comments_count: commentCount,
+    commentsCount: commentCount,
+    comment_count: commentCount,
+    views: viewCount,
+    view_count: viewCount,
     is_featured: post?.is_featured ?? post?.isFeatured ?? false,
     isAd: post?.isAd === true || post?.is_ad === true,
     category: normalizedCategory,
@@ -1,4 +1,5 @@
 import { Platform } from 'react-native';
+import { deviceProfile } from '@/lib/device-profile';
 
 const ANDROID_API_LEVEL = typeof Platform.Version === 'number'
   ? Platform.Version
@@ -7,9 +8,8 @@ export const IS_OLDER_ANDROID = Platform.OS === 'android' &&
   Number.isFinite(ANDROID_API_LEVEL) &&
   ANDROID_API_LEVEL <= 28;
 
-export const VIDEO_FEED_WINDOW_SIZE = IS_OLDER_ANDROID ? 7 : 9;
-export const VIDEO_FEED_INITIAL_NUM_TO_RENDER = IS_OLDER_ANDROID ? 3 : 5;
-export const VIDEO_FEED_MAX_TO_RENDER_PER_BATCH = IS_OLDER_ANDROID ? 4 : 6;
+// windowSize / initialNumToRender / maxToRenderPerBatch come from
+// useDeviceProfile().videoFeedList so they follow the device tier.
 export const VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS = false;
 
 /**
@@ -18,12 +18,16 @@ export const VIDEO_FEED_REMOVE_CLIPPED_SUBVIEWS = false;
  * is not attached to a visible VideoView, so when the user scrolls onto it the
  * video starts instantly with no cold-start buffering.
  *
- * Modern devices preload one neighbour in each direction (active +/- 1).
- *
- * Low-end Android (API <= 28) preloads ONLY the next video (forward +1). This
- * keeps at most two decoders alive in steady state (active + next) — enough for
- * instant forward scrolling without overloading the device with extra ExoPlayer
- * instances.
+ * Every preloaded post mounts its own player, so the device profile's
+ * `poolSize` caps how many are alive at once, the active one included.
+ * Neighbours are filled nearest first, forward before backward
+ * (+1, -1, +2, -2, ...):
+ *   - low tier (low RAM, Android API <= 28, repeated unclean exits or a recent
+ *     memory warning): active + next only, so two decoders in steady state;
+ *   - mid tier: one neighbour in each direction;
+ *   - high tier: as mid, plus the second next post on iOS.
+ * A memory warning steps the tier down and the screens re-render through
+ * useDeviceProfile, which unmounts the players that no longer fit.
  */
 export function shouldPreloadFeedVideo(
   index: number,
@@ -34,24 +38,19 @@ export function shouldPreloadFeedVideo(
     return false;
   }
 
-  if (activeIndex < 0) {
+  if (activeIndex < 0 || index === activeIndex) {
     return false;
   }
 
-  if (IS_OLDER_ANDROID) {
-    return index === activeIndex + 1;
-  }
-
-  if (index === activeIndex + 1 || index === activeIndex - 1) {
-    return true;
-  }
-
-  return false;
+  const distance = Math.abs(index - activeIndex);
+  // Position of this neighbour in the +1, -1, +2, -2, ... fill order
+  const slot = (distance - 1) * 2 + (index > activeIndex ? 1 : 2);
+  return slot <= deviceProfile.get().poolSize - 1;
 }
 
 export function getFeedWarmRadius(activeIndex: number, itemCount: number) {
-  const forwardSlots = IS_OLDER_ANDROID ? 3 : 2;
-  const forward = Math.min(forwardSlots, Math.max(0, itemCount - activeIndex - 1));
-  const backward = Math.min(IS_OLDER_ANDROID ? 1 : 1, activeIndex);
+  const { warmRadius } = deviceProfile.get();
+  const forward = Math.min(warmRadius.forward, Math.max(0, itemCount - activeIndex - 1));
+  const backward = Math.min(warmRadius.backward, Math.max(0, activeIndex));
   return { forward, backward };
 }
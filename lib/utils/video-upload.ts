@@ -1,3 +1,4 @@
+import { File } from 'expo-file-system';
 import * as FileSystem from 'expo-file-system/legacy';
 import {
   Video as CompressorVideo,
@@ -8,12 +9,18 @@ import {
   UploadType,
 } from 'react-native-compressor';
 import { runSerializedAndroidMediaCodecTask } from './android-media-codec-guard';
+import { dataSaver } from '../data-saver';
 
 const COMPRESS_IF_LARGER_THAN_BYTES = 4 * 1024 * 1024;
 const COMPRESS_IF_LONGER_THAN_SECONDS = 15;
 const MAX_VIDEO_DIMENSION = 1280;
 const MAX_UPLOAD_ATTEMPTS = 3;
 const RETRY_DELAY_MS = 1250;
+// Files at least this big go up in parts so a dropped connection only costs the current part
+export const CHUNKED_UPLOAD_MIN_BYTES = 8 * 1024 * 1024;
+// Part URLs are short-lived, so only a few are signed ahead of time
+const PART_URL_BATCH_SIZE = 4;
+const PART_URL_MAX_AGE_MS = 8 * 60 * 1000;
 
 function createUploadAbortError(): Error {
   const e = new Error('Upload cancelled');
@@ -136,7 +143,8 @@ async function getSafeVideoMetaData(uri: string) {
 function shouldCompressVideo(
   uri: string,
   fileInfo: FileInfoWithSize,
-  metaData: Awaited<ReturnType<typeof getSafeVideoMetaData>>
+  metaData: Awaited<ReturnType<typeof getSafeVideoMetaData>>,
+  compressAboveDimension: number
 ): boolean {
   const extension = uri.split('.').pop()?.toLowerCase() || '';
   const fileSize = fileInfo.size || 0;
@@ -147,7 +155,7 @@ function shouldCompressVideo(
     extension !== 'mp4' ||
     fileSize >= COMPRESS_IF_LARGER_THAN_BYTES ||
     duration >= COMPRESS_IF_LONGER_THAN_SECONDS ||
-    largestDimension > MAX_VIDEO_DIMENSION
+    largestDimension > compressAboveDimension
   );
 }
 
@@ -182,7 +190,10 @@ export async function prepareVideoForUpload(
     throw new Error('Video file not found on device');
   }
 
-  const shouldCompress = shouldCompressVideo(originalUri, originalFileInfo, originalMeta);
+  const { level, uploadMaxDimension } = dataSaver.getPolicy();
+  // Data saver also re-encodes small clips that are merely above its resolution cap
+  const compressAboveDimension = level === 'low' ? uploadMaxDimension : MAX_VIDEO_DIMENSION;
+  const shouldCompress = shouldCompressVideo(originalUri, originalFileInfo, originalMeta, compressAboveDimension);
 
   let uploadUri = originalUri;
   let didCompress = false;
@@ -201,7 +212,7 @@ export async function prepareVideoForUpload(
             originalUri,
             {
               compressionMethod: 'auto',
-              maxSize: 720,
+              maxSize: uploadMaxDimension,
               minimumFileSizeForCompress: 0,
             },
             (progress) => onCompressionProgress?.(progress)
@@ -409,6 +420,228 @@ export async function uploadPreparedVideo(
   throw lastError instanceof Error ? lastError : new Error('Upload failed');
 }
 
+export type ChunkedUploadPlan = {
+  /** Bytes per part; every part but the last is exactly this size */
+  partSize: number;
+  totalBytes: number;
+  /** Part numbers (1-based) already acknowledged, e.g. restored from the upload session store */
+  completedParts: number[];
+};
+
+export type ChunkedUploadTransport = {
+  /** Signs PUT URLs for the parts, and reports which parts the storage already holds. */
+  getPartUrls: (partNumbers: number[]) => Promise<{ urls: Record<number, string>; uploadedParts: number[] }>;
+  /** Called after each acknowledged part, so callers can persist progress before the next one starts. */
+  onPartUploaded?: (partNumber: number, completedParts: number[]) => void | Promise<void>;
+};
+
+function putPart(
+  url: string,
+  body: Uint8Array,
+  onProgress: (loadedBytes: number) => void,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open('PUT', url);
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      reject(new Error('Network error while uploading'));
+    };
+    xhr.onabort = () => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      reject(createUploadAbortError());
+    };
+    abortSignal?.addEventListener('abort', onAbort);
+    xhr.send(body);
+  });
+}
+
+/**
+ * Uploads a file part by part to presigned part URLs, skipping the parts in
+ * `plan.completedParts` and any the storage reports as already uploaded. A
+ * failed part is retried on its own (with a freshly signed URL) up to
+ * MAX_UPLOAD_ATTEMPTS times, so a dropped connection never restarts the
+ * upload from zero. Progress is reported through the same snapshot shape as
+ * `uploadPreparedVideo`, counting acknowledged parts plus the part in flight.
+ */
+export async function uploadPreparedVideoInChunks(
+  fileUri: string,
+  plan: ChunkedUploadPlan,
+  transport: ChunkedUploadTransport,
+  callbacks?: UploadPreparedVideoCallbacks,
+  abortSignal?: AbortSignal
+): Promise<number[]> {
+  const { partSize, totalBytes } = plan;
+  const partCount = Math.max(1, Math.ceil(totalBytes / partSize));
+  const partBytes = (partNumber: number) =>
+    partNumber === partCount ? totalBytes - partSize * (partCount - 1) : partSize;
+
+  const completed = new Set(plan.completedParts.filter((partNumber) => partNumber >= 1 && partNumber <= partCount));
+  const urls = new Map<number, { url: string; signedAt: number }>();
+  const startedAt = Date.now();
+  let completedBytesAtStart = 0;
+  let smoothedBytesPerSecond = 0;
+
+  const completedBytes = () => [...completed].reduce((sum, partNumber) => sum + partBytes(partNumber), 0);
+
+  const emitSnapshot = (attempt: number, inFlightBytes: number) => {
+    const doneBytes = Math.min(totalBytes, completedBytes() + inFlightBytes);
+    const elapsedMs = Date.now() - startedAt;
+    // Speed only counts bytes sent by this call, not parts finished before a restart
+    const { bps, isEstimated } = blendedBytesPerSecond({
+      smoothedInstant: smoothedBytesPerSecond,
+      bestWrittenBytes: Math.max(0, doneBytes - completedBytesAtStart),
+      elapsedMs,
+      totalBytes,
+    });
+    const overallPercent = totalBytes > 0 ? (doneBytes / totalBytes) * 100 : 0;
+    callbacks?.onProgress?.({
+      attempt,
+      maxAttempts: MAX_UPLOAD_ATTEMPTS,
+      writtenBytes: doneBytes,
+      bestWrittenBytes: doneBytes,
+      totalBytes,
+      currentAttemptPercent: overallPercent,
+      overallPercent,
+      bytesPerSecond: bps,
+      etaSeconds: bps > 0 ? Math.max(0, (totalBytes - doneBytes) / bps) : 0,
+      elapsedMs,
+      speedIsEstimated: isEstimated,
+    });
+  };
+
+  const signParts = async (fromPart: number) => {
+    const wanted: number[] = [];
+    for (let partNumber = fromPart; partNumber <= partCount && wanted.length < PART_URL_BATCH_SIZE; partNumber += 1) {
+      if (!completed.has(partNumber)) {
+        wanted.push(partNumber);
+      }
+    }
+    const { urls: signed, uploadedParts } = await transport.getPartUrls(wanted);
+    uploadedParts.forEach((partNumber) => {
+      if (partNumber >= 1 && partNumber <= partCount) {
+        completed.add(partNumber);
+      }
+    });
+    const signedAt = Date.now();
+    Object.entries(signed).forEach(([partNumber, url]) => {
+      urls.set(Number(partNumber), { url, signedAt });
+    });
+  };
+
+  const getPartUrl = async (partNumber: number) => {
+    const cached = urls.get(partNumber);
+    if (cached && Date.now() - cached.signedAt < PART_URL_MAX_AGE_MS) {
+      return cached.url;
+    }
+    await signParts(partNumber);
+    if (completed.has(partNumber)) {
+      return null;
+    }
+    const signed = urls.get(partNumber);
+    if (!signed) {
+      throw new Error('Could not get an upload link for the next part');
+    }
+    return signed.url;
+  };
+
+  const handle = new File(fileUri).open();
+  try {
+    completedBytesAtStart = completedBytes();
+    emitSnapshot(1, 0);
+
+    for (let partNumber = 1; partNumber <= partCount; partNumber += 1) {
+      if (completed.has(partNumber)) {
+        continue;
+      }
+
+      let lastError: unknown;
+      for (let attempt = 1; attempt <= MAX_UPLOAD_ATTEMPTS; attempt += 1) {
+        if (abortSignal?.aborted) {
+          throw createUploadAbortError();
+        }
+
+        try {
+          const url = await getPartUrl(partNumber);
+          if (!url) {
+            // The storage already had this part (uploaded before a restart)
+            lastError = undefined;
+            break;
+          }
+
+          handle.offset = (partNumber - 1) * partSize;
+          const body = handle.readBytes(partBytes(partNumber));
+          let lastLoaded = 0;
+          let lastTickAt = Date.now();
+          await putPart(
+            url,
+            body,
+            (loaded) => {
+              const now = Date.now();
+              const deltaBytes = Math.max(0, loaded - lastLoaded);
+              if (deltaBytes > 0) {
+                const instantaneous = deltaBytes / (Math.max(1, now - lastTickAt) / 1000);
+                smoothedBytesPerSecond =
+                  smoothedBytesPerSecond > 0 ? smoothedBytesPerSecond * 0.75 + instantaneous * 0.25 : instantaneous;
+              }
+              lastLoaded = loaded;
+              lastTickAt = now;
+              emitSnapshot(attempt, Math.min(loaded, body.length));
+            },
+            abortSignal
+          );
+
+          completed.add(partNumber);
+          urls.delete(partNumber);
+          await transport.onPartUploaded?.(partNumber, [...completed].sort((left, right) => left - right));
+          emitSnapshot(attempt, 0);
+          lastError = undefined;
+          break;
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            throw error;
+          }
+          lastError = error;
+          // The URL may have expired; sign a new one for the retry
+          urls.delete(partNumber);
+          if (attempt < MAX_UPLOAD_ATTEMPTS) {
+            const retryDelayMs = RETRY_DELAY_MS * attempt;
+            callbacks?.onRetry?.({
+              attempt,
+              maxAttempts: MAX_UPLOAD_ATTEMPTS,
+              retryDelayMs,
+              uploadedBytes: completedBytes(),
+              totalBytes,
+              errorMessage: error instanceof Error ? error.message : 'Upload interrupted',
+            });
+            await wait(retryDelayMs);
+          }
+        }
+      }
+
+      if (lastError !== undefined) {
+        throw lastError instanceof Error ? lastError : new Error('Upload failed');
+      }
+    }
+  } finally {
+    handle.close();
+  }
+
+  return [...completed].sort((left, right) => left - right);
+}
+
 export async function cleanupPreparedVideo(preparedVideo: PreparedVideoAsset | null) {
   if (!preparedVideo) return;
 
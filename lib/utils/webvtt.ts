@@ -0,0 +1,90 @@
+export type CaptionCue = {
+  /** Seconds from the start of the video */
+  start: number;
+  end: number;
+  text: string;
+};
+
+const TIMING_LINE = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})/;
+
+function parseTimestamp(value: string): number {
+  const parts = value.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/** Strips cue markup (<b>, <i>, <v Speaker>, <00:01.000>) and decodes the basic entities. */
+function cleanCueText(text: string) {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Cues of a WebVTT document, sorted by start time. Regions, styles, notes and
+ * HLS `X-TIMESTAMP-MAP` headers are skipped (segmented tracks already carry
+ * times relative to the start of the video); returns an empty list for
+ * anything that is not WebVTT.
+ */
+export function parseWebVtt(text: string): CaptionCue[] {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  if (!lines[0]?.startsWith('WEBVTT')) {
+    return [];
+  }
+
+  const cues: CaptionCue[] = [];
+  let index = 1;
+  while (index < lines.length) {
+    const line = lines[index].trim();
+    const timing = line.match(TIMING_LINE);
+    if (!timing) {
+      index += 1;
+      continue;
+    }
+
+    const textLines: string[] = [];
+    index += 1;
+    while (index < lines.length && lines[index].trim() !== '') {
+      textLines.push(lines[index]);
+      index += 1;
+    }
+
+    const cueText = cleanCueText(textLines.join('\n'));
+    if (cueText) {
+      cues.push({
+        start: parseTimestamp(timing[1]),
+        end: parseTimestamp(timing[2]),
+        text: cueText,
+      });
+    }
+  }
+
+  return cues.sort((left, right) => left.start - right.start);
+}
+
+/** Cue showing at `time`, or null. Cues are sorted, so this is a binary search. */
+export function findActiveCue(cues: CaptionCue[], time: number): CaptionCue | null {
+  let low = 0;
+  let high = cues.length - 1;
+  let candidate = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].start <= time) {
+      candidate = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  // Overlapping cues: walk back to the latest one still running
+  for (let index = candidate; index >= 0 && index > candidate - 4; index -= 1) {
+    if (cues[index].end > time) {
+      return cues[index];
+    }
+  }
+  return null;
+}
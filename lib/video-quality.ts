@@ -0,0 +1,71 @@
+/**
+ * Video quality the user picked by hand in the player's quality menu.
+ *
+ * The choice is persisted as `preferences.videoQuality` in
+ * lib/cache-context.tsx and pushed here, like the data usage preference in
+ * lib/data-saver.ts. `auto` leaves quality to the data policy; any other
+ * choice pins that rendition (or the nearest one below it), even above the
+ * data saver cap, so creators can check their upload at full quality.
+ */
+import { dataSaver } from './data-saver';
+
+export type VideoQualityPreference = 'auto' | '360p' | '720p' | '1080p';
+
+export const VIDEO_QUALITY_OPTIONS: { value: VideoQualityPreference; label: string; height: number | null }[] = [
+  { value: 'auto', label: 'Auto', height: null },
+  { value: '360p', label: '360p', height: 360 },
+  { value: '720p', label: '720p', height: 720 },
+  { value: '1080p', label: '1080p', height: 1080 },
+];
+
+export type PlaybackSelection = {
+  /** Tallest rendition to play, or null to let the player adapt freely. */
+  maxHeight: number | null;
+  /** Pin a single rendition instead of capping adaptive playback. */
+  lock: boolean;
+};
+
+type Listener = (preference: VideoQualityPreference) => void;
+
+let preference: VideoQualityPreference = 'auto';
+const listeners = new Set<Listener>();
+
+export function getPlaybackSelection(
+  choice: VideoQualityPreference = preference,
+  maxVideoHeight: number | null = dataSaver.getPolicy().maxVideoHeight,
+): PlaybackSelection {
+  const option = VIDEO_QUALITY_OPTIONS.find((candidate) => candidate.value === choice);
+  if (!option || option.height === null) {
+    return { maxHeight: maxVideoHeight, lock: false };
+  }
+  return { maxHeight: option.height, lock: true };
+}
+
+export const videoQuality = {
+  getPreference(): VideoQualityPreference {
+    return preference;
+  },
+  setPreference(next: VideoQualityPreference) {
+    if (next === preference) {
+      return;
+    }
+
+    preference = next;
+    listeners.forEach((fn) => {
+      try {
+        fn(preference);
+      } catch {
+        // ignore listener errors
+      }
+    });
+  },
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    listener(preference);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default videoQuality;
@@ -0,0 +1,215 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { viewsApi, type ViewSubmission } from './api';
+import { networkStatus } from './network-status';
+
+/**
+ * Client-side view qualification and batched submission.
+ *
+ * Screens report watch samples per post; once a post crosses the backend's
+ * qualification threshold (3s watched while at least 60% visible) it is queued
+ * exactly once per app session and flushed periodically, one request per view
+ * (the backend has no public batch route). The queue is persisted so views
+ * collected offline survive until connectivity returns.
+ */
+
+// Mirrors viewController.recordView's server-side qualification check
+export const VIEW_MIN_WATCH_SECONDS = 3;
+export const VIEW_MIN_VISIBILITY_PERCENT = 60;
+
+const PENDING_VIEWS_KEY = 'talynk_pending_views';
+const FLUSH_INTERVAL_MS = 15_000;
+const FLUSH_BATCH_SIZE = 10;
+const MAX_PENDING_VIEWS = 200;
+// Samples further apart than this are treated as a stall/background gap, not watch time
+const MAX_SAMPLE_GAP_SECONDS = 2;
+
+type ImpressionState = {
+  watchSeconds: number;
+  visibleWeightedSeconds: number;
+  lastSampleAt: number | null;
+};
+
+const sessionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+const impressions = new Map<string, ImpressionState>();
+const qualifiedThisSession = new Set<string>();
+let pendingViews: ViewSubmission[] = [];
+let hydrated = false;
+let hydratePromise: Promise<void> | null = null;
+let flushInFlight: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let lifecycleAttached = false;
+
+async function hydrate() {
+  if (hydrated) return;
+  if (!hydratePromise) {
+    hydratePromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(PENDING_VIEWS_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        if (Array.isArray(parsed)) {
+          // Keep anything queued in-memory before hydration finished
+          pendingViews = [...parsed, ...pendingViews].slice(-MAX_PENDING_VIEWS);
+        }
+      } catch {
+        // Corrupt queue: start fresh
+      } finally {
+        hydrated = true;
+      }
+    })();
+  }
+  await hydratePromise;
+}
+
+async function persist() {
+  try {
+    if (pendingViews.length === 0) {
+      await AsyncStorage.removeItem(PENDING_VIEWS_KEY);
+    } else {
+      await AsyncStorage.setItem(PENDING_VIEWS_KEY, JSON.stringify(pendingViews));
+    }
+  } catch {
+    // Best-effort only; views stay in memory for this session
+  }
+}
+
+function scheduleFlush(delayMs = FLUSH_INTERVAL_MS) {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void viewTracker.flush();
+  }, delayMs);
+}
+
+function attachLifecycle() {
+  if (lifecycleAttached) return;
+  lifecycleAttached = true;
+
+  AppState.addEventListener('change', (nextState: AppStateStatus) => {
+    if (nextState === 'background') {
+      void viewTracker.flush();
+    }
+  });
+
+  networkStatus.subscribe((status) => {
+    if (status === 'online' && pendingViews.length > 0) {
+      scheduleFlush(1_000);
+    }
+  });
+
+  // Drain anything left over from a previous launch
+  void hydrate().then(() => {
+    if (pendingViews.length > 0) scheduleFlush(5_000);
+  });
+}
+
+function getImpression(postId: string): ImpressionState {
+  let state = impressions.get(postId);
+  if (!state) {
+    state = { watchSeconds: 0, visibleWeightedSeconds: 0, lastSampleAt: null };
+    impressions.set(postId, state);
+  }
+  return state;
+}
+
+function enqueueQualifiedView(postId: string, state: ImpressionState) {
+  qualifiedThisSession.add(postId);
+  const visibilityPercent = state.watchSeconds > 0
+    ? Math.round(state.visibleWeightedSeconds / state.watchSeconds)
+    : 0;
+
+  pendingViews.push({
+    postId,
+    watchTime: Math.round(state.watchSeconds * 10) / 10,
+    visibilityPercent,
+    sessionId,
+    viewedAt: new Date().toISOString(),
+  });
+  if (pendingViews.length > MAX_PENDING_VIEWS) {
+    pendingViews = pendingViews.slice(-MAX_PENDING_VIEWS);
+  }
+
+  void hydrate().then(persist);
+  if (pendingViews.length >= FLUSH_BATCH_SIZE) {
+    void viewTracker.flush();
+  } else {
+    scheduleFlush();
+  }
+}
+
+/** Non-retryable rejections (post removed, duplicate) count as delivered and are dropped. */
+async function submitView(view: ViewSubmission): Promise<boolean> {
+  const result = await viewsApi.recordView(view.postId, view.watchTime, view.visibilityPercent, view.sessionId);
+  return result.status === 'success' || !result.data?.retryable;
+}
+
+export const viewTracker = {
+  getSessionId() {
+    return sessionId;
+  },
+
+  /**
+   * Report a playback sample for a post. Call periodically while the post is
+   * the active pager item; `watching` is false while paused or buffering.
+   */
+  sample(postId: string, args: { watching: boolean; visibilityPercent: number }) {
+    if (!postId || qualifiedThisSession.has(postId)) return;
+    attachLifecycle();
+
+    const state = getImpression(postId);
+    const now = Date.now();
+    const previous = state.lastSampleAt;
+    state.lastSampleAt = args.watching ? now : null;
+    if (!args.watching || previous === null) return;
+
+    const deltaSeconds = (now - previous) / 1000;
+    if (deltaSeconds <= 0 || deltaSeconds > MAX_SAMPLE_GAP_SECONDS) return;
+
+    const visibility = Math.max(0, Math.min(100, args.visibilityPercent));
+    state.watchSeconds += deltaSeconds;
+    state.visibleWeightedSeconds += deltaSeconds * visibility;
+
+    const averageVisibility = state.visibleWeightedSeconds / state.watchSeconds;
+    if (state.watchSeconds >= VIEW_MIN_WATCH_SECONDS && averageVisibility >= VIEW_MIN_VISIBILITY_PERCENT) {
+      enqueueQualifiedView(postId, state);
+      impressions.delete(postId);
+    }
+  },
+
+  /** Post left the screen: drop partial progress so the next impression starts fresh. */
+  endImpression(postId: string) {
+    impressions.delete(postId);
+  },
+
+  hasQualified(postId: string) {
+    return qualifiedThisSession.has(postId);
+  },
+
+  async flush(): Promise<void> {
+    if (flushInFlight) return flushInFlight;
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+
+    flushInFlight = (async () => {
+      await hydrate();
+      if (pendingViews.length === 0 || networkStatus.getStatus() === 'offline') return;
+
+      while (pendingViews.length > 0) {
+        const view = pendingViews[0];
+        const delivered = await submitView(view).catch(() => false);
+        if (!delivered) {
+          scheduleFlush();
+          break;
+        }
+        pendingViews = pendingViews.filter((pending) => pending !== view);
+        await persist();
+      }
+    })().finally(() => {
+      flushInFlight = null;
+    });
+
+    return flushInFlight;
+  },
+};
@@ -0,0 +1,241 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+
+/**
+ * Local, per-user watch history.
+ *
+ * The feed pager and the post detail screen report how far a video got when
+ * it stops being watched; entries keep a small snapshot (thumbnail, title,
+ * author) so the history screen can render without refetching each post.
+ * Reads are served from memory once a user's history is loaded, so players
+ * can ask for a resume position synchronously. Writes are debounced and
+ * flushed when the app goes to the background.
+ */
+
+export type WatchHistoryEntry = {
+  postId: string;
+  /** Seconds into the video when it was last left */
+  positionSec: number;
+  durationSec: number;
+  /** Furthest fraction of the video seen, 0..1 */
+  watchFraction: number;
+  watchedAt: string;
+  thumbnailUrl?: string | null;
+  title?: string | null;
+  username?: string | null;
+};
+
+export type WatchHistoryState = {
+  /** While paused nothing new is recorded; existing entries stay */
+  paused: boolean;
+  entries: WatchHistoryEntry[];
+};
+
+export type WatchProgress = {
+  postId: string;
+  positionSec: number;
+  durationSec: number;
+  thumbnailUrl?: string | null;
+  title?: string | null;
+  username?: string | null;
+};
+
+type Listener = (userId: string, state: WatchHistoryState) => void;
+
+const MAX_ENTRIES = 200;
+const PERSIST_DEBOUNCE_MS = 2_000;
+// Only videos at least this long resume; short clips always restart
+const RESUME_MIN_DURATION_SEC = 60;
+const RESUME_MIN_POSITION_SEC = 5;
+// Close enough to the end counts as finished
+const RESUME_MAX_FRACTION = 0.95;
+
+const loaded = new Map<string, WatchHistoryState>();
+const loading = new Map<string, Promise<WatchHistoryState>>();
+const dirty = new Set<string>();
+const listeners = new Set<Listener>();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+let lifecycleAttached = false;
+
+function getStorageKey(userId: string) {
+  return `@watch_history:${userId}`;
+}
+
+function emptyState(): WatchHistoryState {
+  return { paused: false, entries: [] };
+}
+
+function isEntry(value: any): value is WatchHistoryEntry {
+  return !!value?.postId &&
+    Number.isFinite(value.positionSec) &&
+    Number.isFinite(value.durationSec) &&
+    typeof value.watchedAt === 'string';
+}
+
+async function readState(userId: string): Promise<WatchHistoryState> {
+  try {
+    const raw = await AsyncStorage.getItem(getStorageKey(userId));
+    if (!raw) {
+      return emptyState();
+    }
+    const parsed = JSON.parse(raw);
+    return {
+      paused: parsed?.paused === true,
+      entries: Array.isArray(parsed?.entries) ? parsed.entries.filter(isEntry).slice(0, MAX_ENTRIES) : [],
+    };
+  } catch {
+    return emptyState();
+  }
+}
+
+async function persistDirty() {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+
+  const userIds = [...dirty];
+  dirty.clear();
+  await Promise.all(userIds.map(async (userId) => {
+    const state = loaded.get(userId);
+    if (!state) return;
+    try {
+      await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(state));
+    } catch {
+      // Best-effort only.
+    }
+  }));
+}
+
+function attachLifecycle() {
+  if (lifecycleAttached) return;
+  lifecycleAttached = true;
+  AppState.addEventListener('change', (nextState) => {
+    if (nextState === 'background') {
+      void persistDirty();
+    }
+  });
+}
+
+function commit(userId: string, state: WatchHistoryState, immediate = false) {
+  loaded.set(userId, state);
+  dirty.add(userId);
+  listeners.forEach((listener) => listener(userId, state));
+
+  attachLifecycle();
+  if (immediate) {
+    void persistDirty();
+  } else if (!persistTimer) {
+    persistTimer = setTimeout(() => void persistDirty(), PERSIST_DEBOUNCE_MS);
+  }
+}
+
+export const watchHistory = {
+  /** Loads a user's history into memory. Safe to call repeatedly. */
+  load(userId: string): Promise<WatchHistoryState> {
+    const cached = loaded.get(userId);
+    if (cached) {
+      return Promise.resolve(cached);
+    }
+
+    const pending = loading.get(userId);
+    if (pending) {
+      return pending;
+    }
+
+    const request = readState(userId)
+      .then((state) => {
+        // A recording that raced the read is kept
+        const current = loaded.get(userId) ?? state;
+        loaded.set(userId, current);
+        return current;
+      })
+      .finally(() => {
+        loading.delete(userId);
+      });
+    loading.set(userId, request);
+    return request;
+  },
+
+  /** Synchronous read; null until `load` has resolved for this user. */
+  peek(userId: string): WatchHistoryState | null {
+    return loaded.get(userId) ?? null;
+  },
+
+  async record(userId: string, progress: WatchProgress) {
+    const state = await watchHistory.load(userId);
+    if (state.paused || !progress.postId || !(progress.durationSec > 0)) {
+      return;
+    }
+
+    const positionSec = Math.max(0, Math.min(progress.positionSec, progress.durationSec));
+    const previous = state.entries.find((entry) => entry.postId === progress.postId);
+    const fraction = positionSec / progress.durationSec;
+    const entry: WatchHistoryEntry = {
+      postId: progress.postId,
+      positionSec,
+      durationSec: progress.durationSec,
+      watchFraction: Number(Math.max(fraction, previous?.watchFraction ?? 0).toFixed(3)),
+      watchedAt: new Date().toISOString(),
+      thumbnailUrl: progress.thumbnailUrl ?? previous?.thumbnailUrl ?? null,
+      title: progress.title ?? previous?.title ?? null,
+      username: progress.username ?? previous?.username ?? null,
+    };
+
+    commit(userId, {
+      ...state,
+      entries: [entry, ...state.entries.filter((item) => item.postId !== progress.postId)].slice(0, MAX_ENTRIES),
+    });
+  },
+
+  /**
+   * Where to pick a video back up, or null to start from the beginning.
+   * `durationSec` overrides the stored duration once the player knows it.
+   */
+  getResumePosition(userId: string, postId: string, durationSec?: number): number | null {
+    const entry = loaded.get(userId)?.entries.find((item) => item.postId === postId);
+    if (!entry) {
+      return null;
+    }
+
+    const duration = durationSec && durationSec > 0 ? durationSec : entry.durationSec;
+    if (
+      duration < RESUME_MIN_DURATION_SEC ||
+      entry.positionSec < RESUME_MIN_POSITION_SEC ||
+      entry.positionSec / duration >= RESUME_MAX_FRACTION
+    ) {
+      return null;
+    }
+
+    return entry.positionSec;
+  },
+
+  async remove(userId: string, postId: string) {
+    const state = await watchHistory.load(userId);
+    commit(userId, { ...state, entries: state.entries.filter((entry) => entry.postId !== postId) }, true);
+  },
+
+  async clear(userId: string) {
+    const state = await watchHistory.load(userId);
+    commit(userId, { ...state, entries: [] }, true);
+  },
+
+  async setPaused(userId: string, paused: boolean) {
+    const state = await watchHistory.load(userId);
+    commit(userId, { ...state, paused }, true);
+  },
+
+  /** Writes pending changes now (tests, sign-out). */
+  flush(): Promise<void> {
+    return persistDirty();
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default watchHistory;
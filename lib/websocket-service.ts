@@ -1,214 +1,416 @@
+import { AppState, AppStateStatus } from 'react-native';
 import { SimpleEventEmitter } from './simple-event-emitter';
 import { API_BASE_URL } from './config';
+import { networkStatus } from './network-status';
+import { authEventEmitter } from './auth-event-emitter';
+import { refreshAccessToken } from './api-client';
+import {
+  PostSequenceTracker,
+  REALTIME_PROTOCOL_VERSION,
+  deliverRealtimeMessage,
+  type RealtimeEventMap,
+} from './realtime-events';
+import type { RealtimeTransport } from './realtime-transport';
+
+export type {
+  AccountSuspended,
+  ChallengeLikesUpdate,
+  ChallengeUpdatedEvent,
+  ChallengeWinnersConfirmed,
+  CommentUpdate,
+  FollowUpdate,
+  LikeUpdate,
+  NotificationUpdate,
+  PostUpdate,
+  PostsOutOfSync,
+  RealtimeEventMap,
+  RealtimeEventType,
+} from './realtime-events';
 
 export interface WebSocketMessage {
   type: string;
-  data: any;
+  data: unknown;
   timestamp: number;
+  /** Per-post sequence number on post-scoped events (protocol version 2). */
+  seq?: number;
 }
 
-export interface PostUpdate {
-  postId: string;
-  likes: number;
-  comments: number;
-  isLiked: boolean;
-}
-
-export interface CommentUpdate {
-  postId: string;
-  comment: {
-    id: string;
-    text: string;
-    content?: string;
-    user: {
-      id: string;
-      name: string;
-      username: string;
-      avatar?: string;
-      profile_picture?: string;
-    };
-    createdAt: string;
-  };
-}
-
-export interface NotificationUpdate {
-  notification: {
-    id: number | string;
-    userID?: string;
-    type?: string;
-    message?: string; // Backend sends 'message'
-    text?: string; // Legacy support
-    isRead?: boolean;
-    is_read?: boolean; // Legacy support
-    createdAt?: string;
-    created_at?: string; // Legacy support
-  };
-}
-
-export interface LikeUpdate {
-  postId: string;
-  userId: string;
-  isLiked: boolean;
-  likeCount: number;
-}
-
-export interface ChallengeLikesUpdate {
-  challengeId: string;
-  postId: string;
-  userIdOwner: string;
-  likeCount: number;
-}
-
-export interface ChallengeUpdatedEvent {
-  challengeId: string;
-  action?: 'start_now' | 'dates_updated' | string;
-  status?: string;
-  start_date?: string;
-  end_date?: string;
-}
-
-class WebSocketService extends SimpleEventEmitter {
+/**
+ * Connection lifecycle:
+ *
+ *   idle ──connect()──▶ connecting ──open──▶ authenticating ──auth:ok──▶ connected
+ *                          ▲   │                    │                       │ close / heartbeat timeout
+ *                          │   ▼                    ▼                       ▼
+ *                       reconnecting ◀──────────────┴───────────────────────┘   (backoff with jitter)
+ *                          │  ▲
+ *                offline   ▼  │ online / foreground
+ *                     waiting_for_network
+ *
+ * There is no retry limit: the backoff caps at MAX_RECONNECT_DELAY_MS and is
+ * skipped entirely when the network comes back or the app is foregrounded.
+ *
+ * The access token never goes in the URL, where proxies and access logs would
+ * keep it. It is sent as the first message on the socket, and again on the
+ * same socket whenever the token rotates.
+ */
+export type RealtimeConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'authenticating'
+  | 'connected'
+  | 'reconnecting'
+  | 'waiting_for_network';
+
+type ConnectionStateListener = (state: RealtimeConnectionState) => void;
+
+const CONNECT_TIMEOUT_MS = 10_000;
+const HEARTBEAT_INTERVAL_MS = 25_000;
+// No traffic (not even a pong) for this long means the socket is dead even if it never closed
+const HEARTBEAT_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 2 + 5_000;
+const BASE_RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+const MAX_QUEUED_MESSAGES = 100;
+// Subscriptions are replayed from `subscribedPosts` on open, and pings and auth are per-socket
+const UNQUEUED_MESSAGE_TYPES = new Set(['subscribe', 'unsubscribe', 'ping', 'auth']);
+
+class WebSocketService extends SimpleEventEmitter implements RealtimeTransport {
+  readonly kind = 'websocket' as const;
   private ws: WebSocket | null = null;
+  private state: RealtimeConnectionState = 'idle';
+  private stateListeners = new Set<ConnectionStateListener>();
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 2; // Reduced - fail fast if backend doesn't support WS
-  private reconnectDelay = 2000;
-  private isConnecting = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
   private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private lastMessageAt = 0;
   private userId: string | null = null;
   private token: string | null = null;
   private messageQueue: Array<{ type: string; data: any }> = [];
   private subscribedPosts = new Set<string>();
-  private connectionEnabled = true;
-  private hasConnectedOnce = false; // Track if we've ever successfully connected
-  private silentMode = false; // Suppress logs after initial failure
+  private hasConnectedOnce = false;
+  private lifecycleAttached = false;
+  private networkOnline = true;
+  // Set when the server rejected our token, so the close that follows refreshes instead of retrying it
+  private authRejected = false;
+  // Negotiated in the auth handshake; servers that do not answer with one speak version 1
+  private protocolVersion = 1;
+  private sequences = new PostSequenceTracker();
 
   constructor() {
     super();
   }
 
   connect(userId: string, token: string) {
-    // Don't connect if disabled or already connecting
-    if (!this.connectionEnabled || this.isConnecting) {
+    const sameUser = userId === this.userId;
+    const tokenChanged = token !== this.token;
+    this.userId = userId;
+    this.token = token;
+    this.attachLifecycle();
+
+    const live = this.state === 'connecting' || this.state === 'authenticating' || this.state === 'connected';
+    if (sameUser && live) {
+      if (tokenChanged) this.authenticate();
       return;
     }
 
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    this.openSocket();
+  }
+
+  /** Adopt a rotated access token without dropping the connection. */
+  updateToken(token: string) {
+    if (!this.userId || token === this.token) return;
+    this.token = token;
+
+    if (this.state === 'authenticating' || this.state === 'connected') {
+      this.authenticate();
+    } else if (this.state !== 'connecting') {
+      this.reconnectNow();
+    }
+  }
+
+  private authenticate() {
+    if (this.ws?.readyState !== WebSocket.OPEN || !this.token) return;
+    this.send({ type: 'auth', data: { token: this.token, protocolVersion: REALTIME_PROTOCOL_VERSION } });
+  }
+
+  getProtocolVersion(): number {
+    return this.protocolVersion;
+  }
+
+  /** Typed listener for a realtime event; returns the unsubscribe function. */
+  subscribe<K extends keyof RealtimeEventMap>(type: K, handler: (payload: RealtimeEventMap[K]) => void): () => void {
+    this.on(type, handler);
+    return () => {
+      this.off(type, handler);
+    };
+  }
+
+  getConnectionState(): RealtimeConnectionState {
+    return this.state;
+  }
+
+  /** Calls `listener` with the current state immediately, then on every change. */
+  subscribeConnectionState(listener: ConnectionStateListener): () => void {
+    this.stateListeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private setState(next: RealtimeConnectionState) {
+    if (this.state === next) return;
+    const previous = this.state;
+    this.state = next;
+
+    if (next === 'connected') {
+      this.emit('connected');
+    } else if (previous === 'connected') {
+      this.emit('disconnected');
+    }
+    this.emit('stateChange', next);
+    this.stateListeners.forEach((listener) => {
+      try {
+        listener(next);
+      } catch {
+        // ignore listener errors
+      }
+    });
+  }
+
+  private attachLifecycle() {
+    if (this.lifecycleAttached) return;
+    this.lifecycleAttached = true;
+
+    networkStatus.subscribe((status) => {
+      this.networkOnline = status === 'online';
+      if (!this.userId || !this.token) return;
+
+      if (!this.networkOnline) {
+        // An open socket is left alone; if the link is really gone it closes or misses a heartbeat
+        if (this.state === 'reconnecting' || this.state === 'connecting') {
+          this.clearReconnectTimer();
+          this.teardownSocket();
+          this.setState('waiting_for_network');
+        }
+        return;
+      }
+
+      if (this.state === 'waiting_for_network' || this.state === 'reconnecting') {
+        this.reconnectNow();
+      }
+    });
+
+    authEventEmitter.onTokenRefreshed((accessToken) => {
+      this.updateToken(accessToken);
+    });
+
+    AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState !== 'active' || !this.userId || !this.token) return;
+      if (this.state === 'connected') {
+        // Timers are paused in the background, so check the socket did not die meanwhile
+        if (Date.now() - this.lastMessageAt > HEARTBEAT_TIMEOUT_MS) {
+          this.handleSocketLost();
+        }
+        return;
+      }
+      if (this.state === 'reconnecting' || this.state === 'waiting_for_network') {
+        this.reconnectNow();
+      }
+    });
+  }
+
+  private openSocket() {
+    if (!this.userId || !this.token) return;
+
+    this.clearReconnectTimer();
+    this.teardownSocket();
+    this.authRejected = false;
+
+    if (!this.networkOnline) {
+      this.setState('waiting_for_network');
       return;
     }
 
-    this.isConnecting = true;
-    this.userId = userId;
-    this.token = token;
+    this.setState(this.hasConnectedOnce || this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
 
+    let socket: WebSocket;
     try {
       const wsProtocol = API_BASE_URL.startsWith('https') ? 'wss' : 'ws';
       const wsHost = API_BASE_URL.replace(/^https?:\/\//, '');
-      const fullUrl = `${wsProtocol}://${wsHost}/ws?userId=${userId}&token=${token}`;
-      
-      if (!this.silentMode) {
-        console.log('[WS] Attempting to connect to real-time server...');
+      socket = new WebSocket(`${wsProtocol}://${wsHost}/ws`);
+    } catch {
+      this.scheduleReconnect();
+      return;
+    }
+    this.ws = socket;
+
+    // Covers both the TCP/TLS open and the auth acknowledgement
+    this.connectTimer = setTimeout(() => {
+      if (this.ws === socket && this.state !== 'connected') {
+        this.handleSocketLost();
       }
-      
-      this.ws = new WebSocket(fullUrl);
+    }, CONNECT_TIMEOUT_MS);
 
-      // Set a short connection timeout - fail fast
-      const connectionTimeout = setTimeout(() => {
-        if (this.ws?.readyState !== WebSocket.OPEN) {
-          this.handleConnectionFailure();
-        }
-      }, 3000);
-
-      this.ws.onopen = () => {
-        clearTimeout(connectionTimeout);
-        console.log('[WS] ✓ Real-time connection established');
-        this.isConnecting = false;
-        this.reconnectAttempts = 0;
-        this.reconnectDelay = 2000;
-        this.hasConnectedOnce = true;
-        this.silentMode = false;
-        this.emit('connected');
-        
-        this.startHeartbeat();
-        this.processMessageQueue();
-        this.resubscribeToPosts();
-      };
+    socket.onopen = () => {
+      if (this.ws !== socket) return;
+      this.lastMessageAt = Date.now();
+      this.setState('authenticating');
+      this.authenticate();
+    };
 
-      this.ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          this.handleMessage(message);
-        } catch (error) {
-          // Silently ignore parse errors
-        }
-      };
+    socket.onmessage = (event) => {
+      if (this.ws !== socket) return;
+      this.lastMessageAt = Date.now();
+      try {
+        const message = JSON.parse(event.data);
+        this.handleMessage(message);
+      } catch (error) {
+        // Silently ignore parse errors
+      }
+    };
 
-      this.ws.onerror = () => {
-        clearTimeout(connectionTimeout);
-        this.isConnecting = false;
-        // Only log on first attempt
-        if (this.reconnectAttempts === 0 && !this.silentMode) {
-          console.log('[WS] Real-time server not available');
-        }
-      };
+    socket.onerror = () => {
+      // onclose always follows and drives the retry
+    };
 
-      this.ws.onclose = () => {
-        clearTimeout(connectionTimeout);
-        this.isConnecting = false;
-        this.stopHeartbeat();
-        
-        // Only emit disconnected if we were previously connected
-        if (this.hasConnectedOnce) {
-          this.emit('disconnected');
-        }
-        
-        // Only reconnect if we've successfully connected before
-        if (this.hasConnectedOnce && this.connectionEnabled && this.reconnectAttempts < this.maxReconnectAttempts) {
-          this.handleReconnect();
-        } else if (!this.hasConnectedOnce) {
-          // Never connected - backend doesn't support WebSocket
-          this.handleConnectionFailure();
-        }
-      };
+    socket.onclose = () => {
+      if (this.ws !== socket) return;
+      this.handleSocketLost();
+    };
+  }
+
+  private handleAuthenticated(data: unknown) {
+    if (this.state === 'connected') {
+      // Acknowledgement of a re-auth on a live socket
+      return;
+    }
+    this.clearConnectTimer();
+    if (!this.hasConnectedOnce || this.reconnectAttempts > 0) {
+      console.log('[WS] ✓ Real-time connection established');
+    }
+    const isReconnect = this.hasConnectedOnce;
+    const offered = Number((data as { protocolVersion?: unknown } | null)?.protocolVersion);
+    this.protocolVersion = Number.isInteger(offered) && offered > 0 ? Math.min(offered, REALTIME_PROTOCOL_VERSION) : 1;
+    this.reconnectAttempts = 0;
+    this.hasConnectedOnce = true;
+    this.setState('connected');
+
+    this.startHeartbeat();
+    // The server forgets subscriptions with the old socket; restore them before queued actions
+    this.resubscribeToPosts();
+    this.processMessageQueue();
 
-    } catch (error) {
-      this.isConnecting = false;
-      this.handleConnectionFailure();
+    // Version 2 servers report missed events per post in their `subscribed` replies
+    if (isReconnect && this.protocolVersion < 2 && this.subscribedPosts.size > 0) {
+      this.emitOutOfSync(Array.from(this.subscribedPosts), 'reconnected');
     }
   }
 
-  private handleConnectionFailure() {
-    this.reconnectAttempts++;
-    
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      if (!this.silentMode) {
-        console.log('[WS] Real-time features unavailable - using standard updates');
-      }
-      this.disableConnection();
-    } else {
-      // Try one more time silently
-      this.silentMode = true;
-      setTimeout(() => {
-        if (this.connectionEnabled && this.userId && this.token) {
-          this.connect(this.userId, this.token);
-        }
-      }, this.reconnectDelay);
+  private emitOutOfSync(postIds: string[], reason: RealtimeEventMap['postsOutOfSync']['reason']) {
+    this.emit('postsOutOfSync', { postIds, reason });
+  }
+
+  private handleSocketLost() {
+    this.clearConnectTimer();
+    this.stopHeartbeat();
+    this.teardownSocket();
+    if (!this.userId || !this.token) {
+      this.setState('idle');
+      return;
+    }
+    if (this.authRejected) {
+      this.authRejected = false;
+      void this.recoverFromAuthRejection();
+      return;
     }
+    this.scheduleReconnect();
   }
 
-  private disableConnection() {
-    this.connectionEnabled = false;
-    this.isConnecting = false;
-    this.silentMode = true;
+  /** The server refused our token: retrying it is pointless, so get a fresh one first. */
+  private async recoverFromAuthRejection() {
+    const rejectedToken = this.token;
+    this.setState('reconnecting');
+    let refreshed: string | null;
+    try {
+      refreshed = await refreshAccessToken();
+    } catch {
+      // Could not reach the refresh endpoint; the normal backoff will try again
+      if (this.token === rejectedToken) this.scheduleReconnect();
+      return;
+    }
+
+    // tokenRefreshed has usually reconnected us already via updateToken
+    if (this.token !== rejectedToken) return;
+    if (refreshed) {
+      this.updateToken(refreshed);
+      return;
+    }
+    // The session is gone; REST calls will surface the sign-out
+    console.log('[WS] Real-time authentication rejected');
+    this.setState('idle');
+  }
+
+  private scheduleReconnect() {
+    this.clearReconnectTimer();
+    if (!this.networkOnline) {
+      this.setState('waiting_for_network');
+      return;
+    }
+
+    // Full jitter over the upper half, so clients dropped together do not reconnect together
+    const ceiling = Math.min(MAX_RECONNECT_DELAY_MS, BASE_RECONNECT_DELAY_MS * 2 ** this.reconnectAttempts);
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+    this.reconnectAttempts += 1;
+
+    if (this.reconnectAttempts === 1 || this.reconnectAttempts % 5 === 0) {
+      console.log(`[WS] Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempts})`);
+    }
+
+    this.setState('reconnecting');
+    this.emit('reconnectScheduled', this.reconnectAttempts);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  /** Skip the remaining backoff, e.g. when the network returns. */
+  reconnectNow() {
+    if (!this.userId || !this.token) return;
+    this.reconnectAttempts = 0;
+    this.openSocket();
+  }
+
+  private teardownSocket() {
+    this.clearConnectTimer();
     this.stopHeartbeat();
-    if (this.ws) {
-      try {
-        this.ws.close();
-      } catch (e) {
-        // Ignore close errors
-      }
-      this.ws = null;
+    const socket = this.ws;
+    this.ws = null;
+    if (!socket) return;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+    try {
+      socket.close();
+    } catch {
+      // Ignore close errors
+    }
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private clearConnectTimer() {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
     }
-    this.emit('disabled');
   }
 
   private handleMessage(message: WebSocketMessage) {
@@ -216,92 +418,40 @@ class WebSocketService extends SimpleEventEmitter {
 
     switch (type) {
       case 'pong':
-        break;
-
-      case 'like':
-      case 'likeUpdate':
-      case 'post:likeToggled': // Per NOTIFICATIONS&REPORTING.md
-        this.emit('likeUpdate', data as LikeUpdate);
-        this.emit('postUpdate', {
-          postId: data.postId,
-          likes: data.likeCount,
-          isLiked: data.isLiked,
-        } as PostUpdate);
-        break;
-
-      case 'challenge:likesUpdated':
-        this.emit('challengeLikesUpdated', data as ChallengeLikesUpdate);
-        break;
-
-      case 'challenge:updated':
-        this.emit('challengeUpdated', data as ChallengeUpdatedEvent);
-        break;
-
-      case 'challenge:winnersConfirmed':
-        this.emit('challengeWinnersConfirmed', data);
-        break;
-
-      case 'comment':
-      case 'newComment':
-        this.emit('newComment', data as CommentUpdate);
-        break;
-
-      case 'postUpdate':
-        this.emit('postUpdate', data as PostUpdate);
-        break;
-
-      case 'notification':
-      case 'newNotification':
-      case 'notification:created': // Per NOTIFICATIONS&REPORTING.md
-        console.log('[WebSocket] 🔔 Received notification event:', {
-          eventType: type,
-          hasData: !!data,
-          dataKeys: data ? Object.keys(data) : [],
-          rawData: data,
-        });
-        
-        // Handle both formats from NOTIFICATIONS.md:
-        // Format 1: { type: "notification:created", data: { notification: {...} } }
-        // Format 2: { type: "notification", data: { notification: {...} } }
-        const notificationData = (data as any).notification || data;
-        
-        console.log('[WebSocket] 📋 Extracted notification data:', {
-          id: notificationData?.id,
-          type: notificationData?.type,
-          message: notificationData?.message?.substring(0, 50),
-          hasMetadata: !!notificationData?.metadata,
-          metadata: notificationData?.metadata,
-        });
-        
-        this.emit('newNotification', { notification: notificationData } as NotificationUpdate);
-        console.log('[WebSocket] ✅ Emitted newNotification event');
-        break;
-
-      case 'follow':
-      case 'followUpdate':
-        this.emit('followUpdate', data);
-        break;
-
-      case 'user:account_suspended':
-        console.log('[WS] ⚠️ Account suspended event received');
-        this.emit('accountSuspended', {
-          userId: data?.userId,
-          reason: data?.reason,
-        });
-        break;
-
-      default:
-        break;
+        return;
+
+      case 'auth:ok':
+        this.handleAuthenticated(data);
+        return;
+
+      case 'auth:error':
+        // The server closes the socket after this; handleSocketLost picks it up
+        this.authRejected = true;
+        return;
+
+      case 'subscribed': {
+        const { postId, seq } = (data ?? {}) as { postId?: unknown; seq?: unknown };
+        if (typeof postId === 'string' && typeof seq === 'number' && this.sequences.sync(postId, seq)) {
+          this.emitOutOfSync([postId], 'sequence_gap');
+        }
+        return;
+      }
     }
+
+    deliverRealtimeMessage(this, message, this.protocolVersion >= 2 ? this.sequences : null);
   }
 
   private startHeartbeat() {
     this.stopHeartbeat();
     this.heartbeatInterval = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        this.send({ type: 'ping', data: { timestamp: Date.now() } });
+      if (this.ws?.readyState !== WebSocket.OPEN) return;
+      if (Date.now() - this.lastMessageAt > HEARTBEAT_TIMEOUT_MS) {
+        console.log('[WS] Heartbeat timed out');
+        this.handleSocketLost();
+        return;
       }
-    }, 30000);
+      this.send({ type: 'ping', data: { timestamp: Date.now() } });
+    }, HEARTBEAT_INTERVAL_MS);
   }
 
   private stopHeartbeat() {
@@ -312,12 +462,9 @@ class WebSocketService extends SimpleEventEmitter {
   }
 
   private processMessageQueue() {
-    while (this.messageQueue.length > 0) {
-      const message = this.messageQueue.shift();
-      if (message) {
-        this.send(message);
-      }
-    }
+    const queued = this.messageQueue;
+    this.messageQueue = [];
+    queued.forEach((message) => this.send(message));
   }
 
   private resubscribeToPosts() {
@@ -330,30 +477,25 @@ class WebSocketService extends SimpleEventEmitter {
   }
 
   disconnect() {
-    this.stopHeartbeat();
-    this.connectionEnabled = false;
+    this.clearReconnectTimer();
+    this.teardownSocket();
 
-    if (this.ws) {
-      try {
-        this.ws.close(1000, 'User disconnected');
-      } catch (e) {
-        // Ignore
-      }
-      this.ws = null;
-    }
-
-    this.isConnecting = false;
     this.userId = null;
     this.token = null;
+    this.authRejected = false;
+    this.protocolVersion = 1;
+    this.sequences.clear();
+    this.reconnectAttempts = 0;
+    this.hasConnectedOnce = false;
     this.messageQueue = [];
     this.subscribedPosts.clear();
-    if (this.hasConnectedOnce) {
-      this.emit('disconnected');
-    }
+    this.setState('idle');
   }
 
   send(message: { type: string; data: any }) {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    // Until the server accepts our token only the auth message itself may go out
+    const canSend = this.state === 'connected' || message.type === 'auth';
+    if (canSend && this.ws?.readyState === WebSocket.OPEN) {
       const fullMessage: WebSocketMessage = {
         type: message.type,
         data: message.data,
@@ -361,49 +503,29 @@ class WebSocketService extends SimpleEventEmitter {
       };
       try {
         this.ws.send(JSON.stringify(fullMessage));
+        return;
       } catch (e) {
-        // Queue on failure
-        this.messageQueue.push(message);
+        // Fall through and queue
       }
-    } else if (this.connectionEnabled) {
-      // Queue message for when connection is established
-      this.messageQueue.push(message);
     }
-    // If connection disabled, silently drop the message - REST API will handle it
-  }
-
-  private handleReconnect() {
-    if (!this.connectionEnabled) return;
-    
-    this.reconnectAttempts++;
-    const delay = Math.min(this.reconnectDelay * this.reconnectAttempts, 10000);
 
-    if (!this.silentMode) {
-      console.log(`[WS] Reconnecting in ${delay / 1000}s...`);
+    if (this.state === 'idle' || UNQUEUED_MESSAGE_TYPES.has(message.type)) {
+      return;
+    }
+    // Flushed once the next socket is authenticated; the oldest actions are dropped first since REST already applied them
+    this.messageQueue.push(message);
+    if (this.messageQueue.length > MAX_QUEUED_MESSAGES) {
+      this.messageQueue.splice(0, this.messageQueue.length - MAX_QUEUED_MESSAGES);
     }
-
-    setTimeout(() => {
-      if (this.connectionEnabled && this.userId && this.token) {
-        this.connect(this.userId, this.token);
-      }
-    }, delay);
   }
 
   isConnectedNow(): boolean {
     return this.ws?.readyState === WebSocket.OPEN;
   }
 
-  // Check if real-time is available
+  // Real-time is available whenever we hold credentials; drops are retried indefinitely
   isAvailable(): boolean {
-    return this.connectionEnabled && this.hasConnectedOnce;
-  }
-
-  // Enable connection (call this to re-enable after being disabled)
-  enableConnection() {
-    this.connectionEnabled = true;
-    this.reconnectAttempts = 0;
-    this.silentMode = false;
-    this.hasConnectedOnce = false;
+    return this.state !== 'idle';
   }
 
   subscribeToPost(postId: string) {
@@ -418,6 +540,7 @@ class WebSocketService extends SimpleEventEmitter {
 
   unsubscribeFromPost(postId: string) {
     this.subscribedPosts.delete(postId);
+    this.sequences.forget(postId);
     if (this.isConnectedNow()) {
       this.send({
         type: 'unsubscribe',
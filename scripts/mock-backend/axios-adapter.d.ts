@@ -0,0 +1,5 @@
+import type { AxiosAdapter, AxiosInstance, AxiosStatic } from 'axios';
+import type { MockBackend } from './backend';
+
+export function createMockAdapter(backend: MockBackend): AxiosAdapter;
+export function installMockBackend(backend: MockBackend, ...instances: Array<AxiosInstance | AxiosStatic>): () => void;
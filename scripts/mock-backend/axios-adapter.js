@@ -0,0 +1,87 @@
+/**
+ * axios adapter that serves requests from an in-process mock backend, so Jest
+ * can run lib/api.ts (interceptors included) without a network.
+ *
+ *   const backend = createMockBackend();
+ *   const restore = installMockBackend(backend, apiClient, axios);
+ *
+ * Install on the global `axios` too: the token refresh in lib/api-client.ts
+ * deliberately bypasses `apiClient`.
+ */
+
+const { AxiosError } = require('axios');
+const { MockTransportError } = require('./backend');
+
+function resolveUrl(config) {
+  const url = config.url || '';
+  if (/^https?:\/\//i.test(url)) return url;
+  const base = (config.baseURL || 'http://mock.local').replace(/\/+$/, '');
+  return `${base}/${url.replace(/^\/+/, '')}`;
+}
+
+function plainHeaders(headers) {
+  if (!headers) return {};
+  return typeof headers.toJSON === 'function' ? headers.toJSON() : { ...headers };
+}
+
+function createMockAdapter(backend) {
+  return async function mockBackendAdapter(config) {
+    const request = { mock: true };
+    let result;
+
+    try {
+      result = await backend.handle({
+        method: config.method || 'get',
+        url: resolveUrl(config),
+        headers: plainHeaders(config.headers),
+        body: config.data,
+      });
+    } catch (error) {
+      if (error instanceof MockTransportError && error.kind === 'timeout') {
+        throw new AxiosError(`timeout of ${config.timeout || 0}ms exceeded`, 'ECONNABORTED', config, request);
+      }
+      if (error instanceof MockTransportError) {
+        throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, request);
+      }
+      throw error;
+    }
+
+    const response = {
+      data: result.data,
+      status: result.status,
+      statusText: String(result.status),
+      headers: { 'content-type': 'application/json' },
+      config,
+      request,
+    };
+
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) {
+      return response;
+    }
+
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      request,
+      response,
+    );
+  };
+}
+
+/** Point each axios instance at the mock backend. Returns a function that restores the previous adapters. */
+function installMockBackend(backend, ...instances) {
+  const adapter = createMockAdapter(backend);
+  const previous = instances.map((instance) => instance.defaults.adapter);
+  instances.forEach((instance) => {
+    instance.defaults.adapter = adapter;
+  });
+  return () => {
+    instances.forEach((instance, i) => {
+      instance.defaults.adapter = previous[i];
+    });
+  };
+}
+
+module.exports = { createMockAdapter, installMockBackend };
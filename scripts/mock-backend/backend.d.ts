@@ -0,0 +1,45 @@
+export type MockFailureMode = 'timeout' | 'network' | 'unauthorized' | 'suspended' | 'server-error';
+
+export interface MockRealtimeMessage {
+  type: string;
+  data: any;
+  timestamp: number;
+}
+
+export interface MockRequest {
+  method?: string;
+  url: string;
+  headers?: Record<string, unknown>;
+  body?: unknown;
+}
+
+export interface MockResult {
+  status: number;
+  data: any;
+}
+
+export interface MockBackend {
+  handle(request: MockRequest): Promise<MockResult>;
+  failNext(failure: { path?: string | RegExp; method?: string; mode: MockFailureMode; times?: number; reason?: string }): void;
+  clearFailures(): void;
+  expireAccessTokens(): void;
+  suspendUser(userId: string, reason?: string): void;
+  signIn(userId?: string): { accessToken: string; refreshToken: string; user: any };
+  userIdForToken(token: string): string | null;
+  onEvent(listener: (userId: string | null, message: MockRealtimeMessage) => void): () => boolean;
+  pushEvent(userId: string | null, type: string, data: unknown): void;
+  readonly requests: Array<{ method: string; path: string; query: Record<string, string> }>;
+  readonly db: any;
+  reset(): void;
+}
+
+export class MockTransportError extends Error {
+  kind: 'timeout' | 'network';
+  constructor(kind: 'timeout' | 'network');
+}
+
+export const FAILURE_MODES: MockFailureMode[];
+export const SEED_PASSWORD: string;
+export const SEED_OTP: string;
+
+export function createMockBackend(options?: { latencyMs?: number; fixtures?: { postCount?: number } }): MockBackend;
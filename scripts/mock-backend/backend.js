@@ -0,0 +1,675 @@
+/**
+ * In-memory stand-in for the Talentix API.
+ *
+ * Transport-agnostic: `handle()` takes a method/url/headers/body and resolves
+ * to `{ status, data }`. scripts/mock-backend/server.js puts it behind HTTP +
+ * `/ws`, and axios-adapter.js plugs it straight into axios for Jest.
+ *
+ * Failure modes are scripted with `failNext()` so tests and local runs can
+ * exercise timeouts, expired tokens and suspended accounts on demand.
+ */
+
+const { createFixtures, SEED_PASSWORD, SEED_OTP } = require('./fixtures');
+
+const FAILURE_MODES = ['timeout', 'network', 'unauthorized', 'suspended', 'server-error'];
+
+class MockTransportError extends Error {
+  /** @param {'timeout' | 'network'} kind */
+  constructor(kind) {
+    super(kind === 'timeout' ? 'Mock backend timed out' : 'Mock backend unreachable');
+    this.name = 'MockTransportError';
+    this.kind = kind;
+  }
+}
+
+const ok = (data, extra = {}) => ({ status: 200, data: { status: 'success', message: extra.message || 'OK', data, ...extra.body } });
+const created = (data, message = 'Created') => ({ status: 201, data: { status: 'success', message, data } });
+const fail = (status, message, extra = {}) => ({ status, data: { status: 'error', message, ...extra } });
+
+function encodeCursor(offset) {
+  return Buffer.from(`offset:${offset}`).toString('base64');
+}
+
+function decodeCursor(cursor) {
+  if (!cursor) return 0;
+  const match = /^offset:(\d+)$/.exec(Buffer.from(String(cursor), 'base64').toString('utf8'));
+  return match ? Number(match[1]) : 0;
+}
+
+function paginate(items, query, defaultLimit = 10) {
+  const page = Math.max(1, Number(query.page) || 1);
+  const limit = Math.max(1, Math.min(100, Number(query.limit) || defaultLimit));
+  const start = (page - 1) * limit;
+  const totalCount = items.length;
+  const totalPages = Math.max(1, Math.ceil(totalCount / limit));
+  return {
+    items: items.slice(start, start + limit),
+    pagination: {
+      currentPage: page,
+      page,
+      limit,
+      totalPages,
+      totalCount,
+      total: totalCount,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+  };
+}
+
+/** Compile '/api/posts/:postId/like' into a matcher that returns params or null. */
+function compilePath(pattern) {
+  const keys = [];
+  const source = pattern.replace(/:([A-Za-z]+)/g, (_, key) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  const regex = new RegExp(`^${source}/?$`);
+  return (path) => {
+    const match = regex.exec(path);
+    if (!match) return null;
+    return keys.reduce((params, key, i) => ({ ...params, [key]: decodeURIComponent(match[i + 1]) }), {});
+  };
+}
+
+function createMockBackend(options = {}) {
+  const latencyMs = options.latencyMs ?? 0;
+  let db = createFixtures(options.fixtures);
+  let failures = [];
+  let tokenCounter = 0;
+  const accessTokens = new Map();
+  const refreshTokens = new Map();
+  const suspended = new Map();
+  const pendingVerifications = new Map();
+  const eventListeners = new Set();
+  const requestLog = [];
+  const routes = [];
+
+  const route = (method, pattern, handler, { auth = false } = {}) => {
+    routes.push({ method, match: compilePath(pattern), handler, auth });
+  };
+
+  const findUser = (id) => db.users.find((user) => user.id === id || user.username === id);
+  const findPost = (id) => db.posts.find((post) => post.id === id);
+  const likeCount = (postId) => [...db.likes].filter((key) => key.endsWith(`:${postId}`)).length + (findPost(postId)?.likes ?? 0);
+  const isLiked = (userId, postId) => !!userId && db.likes.has(`${userId}:${postId}`);
+  const isFollowing = (userId, targetId) => !!userId && db.follows.has(`${userId}:${targetId}`);
+  const commentsFor = (postId) => db.comments.filter((comment) => comment.post_id === postId);
+
+  const publicUser = (user) => {
+    if (!user) return null;
+    const { email, ...rest } = user;
+    const followers = [...db.follows].filter((key) => key.endsWith(`:${user.id}`)).length;
+    const following = [...db.follows].filter((key) => key.startsWith(`${user.id}:`)).length;
+    return {
+      ...rest,
+      followers_count: followers,
+      following_count: following,
+      posts_count: db.posts.filter((post) => post.user_id === user.id).length,
+    };
+  };
+
+  const presentPost = (post, viewerId) => {
+    const author = findUser(post.user_id);
+    const count = likeCount(post.id);
+    const comments = commentsFor(post.id).length;
+    return {
+      ...post,
+      likes: count,
+      like_count: count,
+      comment_count: comments,
+      comments_count: comments,
+      is_liked: isLiked(viewerId, post.id),
+      is_following_author: isFollowing(viewerId, post.user_id),
+      user: author ? { id: author.id, username: author.username, name: author.name, profile_picture: author.profile_picture } : undefined,
+    };
+  };
+
+  const issueTokens = (userId) => {
+    tokenCounter += 1;
+    const accessToken = `mock-access-${userId}-${tokenCounter}`;
+    const refreshToken = `mock-refresh-${userId}-${tokenCounter}`;
+    accessTokens.set(accessToken, userId);
+    refreshTokens.set(refreshToken, userId);
+    return { accessToken, refreshToken };
+  };
+
+  const emitEvent = (userId, type, data) => {
+    const message = { type, data, timestamp: Date.now() };
+    eventListeners.forEach((listener) => {
+      try {
+        listener(userId, message);
+      } catch {
+        // ignore listener errors
+      }
+    });
+  };
+
+  const notify = (recipientId, type, message, metadata = {}) => {
+    const recipient = findUser(recipientId);
+    if (!recipient) return;
+    const notification = {
+      id: db.notifications.reduce((max, item) => Math.max(max, item.id), 0) + 1,
+      userID: recipient.username,
+      type,
+      message,
+      metadata,
+      isRead: false,
+      createdAt: new Date().toISOString(),
+    };
+    db.notifications.unshift(notification);
+    emitEvent(recipient.id, 'notification:created', { notification });
+  };
+
+  const cursorFeed = (ctx, pipeline) => {
+    const limit = Math.max(1, Math.min(50, Number(ctx.query.limit) || 10));
+    const offset = ctx.query.cursor ? decodeCursor(ctx.query.cursor) : (Math.max(1, Number(ctx.query.page) || 1) - 1) * limit;
+    const items = db.posts.filter((post) => post.status === 'active');
+    const slice = items.slice(offset, offset + limit);
+    const nextOffset = offset + slice.length;
+    const hasNext = nextOffset < items.length;
+    return {
+      status: 200,
+      data: {
+        status: 'success',
+        message: 'Feed fetched',
+        data: {
+          posts: slice.map((post) => presentPost(post, ctx.userId)),
+          nextCursor: hasNext ? encodeCursor(nextOffset) : null,
+          refresh: ctx.query.refresh !== undefined ? Number(ctx.query.refresh) : null,
+          feed_meta: { pipeline },
+          ...(pipeline === 'mock-personalized' ? { userPreferences: [{ category: 'Music', score: 0.8 }] } : {}),
+        },
+        pagination: {
+          currentPage: Math.floor(offset / limit) + 1,
+          totalPages: Math.ceil(items.length / limit),
+          totalCount: items.length,
+          hasNext,
+          hasPrev: offset > 0,
+        },
+      },
+    };
+  };
+
+  // ---------------------------------------------------------------------------
+  // Auth / OTP
+  // ---------------------------------------------------------------------------
+  route('POST', '/api/auth/login', ({ body }) => {
+    // lib/api.ts sends both email and username (derived from whichever the user typed)
+    const email = String(body.email || '').toLowerCase();
+    const username = String(body.username || '').toLowerCase();
+    const user = db.users.find(
+      (candidate) => candidate.email.toLowerCase() === email || candidate.username.toLowerCase() === username,
+    );
+    if (!user || body.password !== SEED_PASSWORD) {
+      return fail(401, 'Invalid credentials');
+    }
+    if (suspended.has(user.id)) {
+      return fail(403, suspended.get(user.id), { code: 'account_suspended', reason: suspended.get(user.id) });
+    }
+    return ok({ ...issueTokens(user.id), user: publicUser(user) }, { message: 'Login successful' });
+  });
+
+  const requestOtp = () => ok({
+    detected_country: { id: 1, code: 'RW', name: 'Rwanda', phone_code: '+250', flag_emoji: '🇷🇼' },
+    detection_source: null,
+    remainingSeconds: 60,
+  }, { message: 'OTP sent' });
+  route('POST', '/api/auth/request-otp', requestOtp);
+  route('POST', '/api/auth/register/request-otp', requestOtp);
+  route('POST', '/api/auth/password-reset/request-otp', requestOtp);
+
+  const verifyRegistrationOtp = ({ body }) => {
+    if (String(body.otpCode) !== SEED_OTP) return fail(400, 'Invalid or expired OTP');
+    const verificationToken = `mock-verify-${Date.now()}`;
+    pendingVerifications.set(verificationToken, body.email);
+    return ok({ verificationToken, email: body.email }, { message: 'OTP verified' });
+  };
+  route('POST', '/api/auth/verify-otp', verifyRegistrationOtp);
+  route('POST', '/api/auth/register/verify-otp', verifyRegistrationOtp);
+
+  const completeRegistration = ({ body }) => {
+    const email = pendingVerifications.get(body.verificationToken);
+    if (!email) return fail(400, 'Verification token is invalid or expired');
+    if (db.users.some((user) => user.username === body.username)) return fail(409, 'Username already taken');
+    pendingVerifications.delete(body.verificationToken);
+    const user = {
+      id: `user-${db.users.length + 1}`,
+      username: body.username,
+      display_name: body.display_name || body.username,
+      name: body.display_name || body.username,
+      email,
+      bio: '',
+      role: 'user',
+      status: 'active',
+      country_id: body.country_id,
+      profile_picture: `https://i.pravatar.cc/150?u=${body.username}`,
+      createdAt: new Date().toISOString(),
+    };
+    db.users.push(user);
+    return created({ ...issueTokens(user.id), user: publicUser(user) }, 'Registration complete');
+  };
+  route('POST', '/api/auth/complete', completeRegistration);
+  route('POST', '/api/auth/register/complete', completeRegistration);
+
+  route('POST', '/api/auth/password-reset/verify-otp', ({ body }) =>
+    String(body.otpCode ?? body.otp) === SEED_OTP
+      ? ok({ resetToken: `mock-reset-${Date.now()}`, email: body.email })
+      : fail(400, 'Invalid or expired OTP'));
+  route('POST', '/api/auth/password-reset/reset', () => ok({}, { message: 'Password reset' }));
+
+  route('POST', '/api/auth/refresh-token', ({ headers }) => {
+    const token = String(headers.authorization || '').replace(/^Bearer\s+/i, '');
+    const userId = refreshTokens.get(token);
+    if (!userId) return fail(401, 'Invalid refresh token');
+    refreshTokens.delete(token);
+    return ok(issueTokens(userId), { message: 'Token refreshed' });
+  });
+
+  route('POST', '/api/auth/logout', () => ok({}, { message: 'Logged out' }));
+  route('POST', '/api/auth/logout/all', () => ok({}, { message: 'Logged out everywhere' }));
+  route('GET', '/api/auth/profile', ({ userId }) => ok(publicUser(findUser(userId))), { auth: true });
+  route('GET', '/api/user/profile', ({ userId }) => ok(publicUser(findUser(userId))), { auth: true });
+
+  // ---------------------------------------------------------------------------
+  // Reference data
+  // ---------------------------------------------------------------------------
+  route('GET', '/api/categories', () => ok(db.categories));
+  route('GET', '/api/countries', () => ok({ countries: db.countries }));
+  route('GET', '/api/countries/search', ({ query }) =>
+    ok({ countries: db.countries.filter((country) => country.name.toLowerCase().includes(String(query.q || '').toLowerCase())) }));
+
+  // ---------------------------------------------------------------------------
+  // Feed
+  // ---------------------------------------------------------------------------
+  route('GET', '/api/feed/public', (ctx) => cursorFeed(ctx, 'mock-public'));
+  route('GET', '/api/feed/personalized', (ctx) => cursorFeed(ctx, 'mock-personalized'), { auth: true });
+  route('GET', '/api/recommendations/feed', (ctx) => cursorFeed(ctx, 'mock-recommendations'), { auth: true });
+  route('POST', '/api/recommendations/interactions/:postId', () => ok({}), { auth: true });
+  route('POST', '/api/feed/seen/reset', () => ok({}), { auth: true });
+  route('POST', '/api/feed/seen/reset-guest', () => ok({}));
+
+  // ---------------------------------------------------------------------------
+  // Posts, likes, comments
+  // ---------------------------------------------------------------------------
+  route('GET', '/api/posts/all', ({ query, userId }) => {
+    const { items, pagination } = paginate(db.posts.filter((post) => post.status === 'active'), query);
+    return ok({ posts: items.map((post) => presentPost(post, userId)), pagination, filters: {} });
+  });
+  route('GET', '/api/featured', ({ query, userId }) => {
+    const { items, pagination } = paginate(db.posts.filter((post) => post.is_featured), query);
+    return ok({ posts: items.map((post) => presentPost(post, userId)), pagination });
+  });
+  route('GET', '/api/posts/search', ({ query, userId }) => {
+    const q = String(query.q || '').toLowerCase();
+    return ok(db.posts.filter((post) => post.title.toLowerCase().includes(q)).map((post) => presentPost(post, userId)));
+  });
+  route('GET', '/api/posts/liked', ({ userId }) =>
+    ok({ posts: db.posts.filter((post) => isLiked(userId, post.id)).map((post) => presentPost(post, userId)) }), { auth: true });
+  route('GET', '/api/posts/user', ({ userId }) =>
+    ok({ posts: db.posts.filter((post) => post.user_id === userId).map((post) => presentPost(post, userId)) }), { auth: true });
+  route('GET', '/api/posts/drafts', ({ query }) => ok({ posts: [], pagination: paginate([], query).pagination }), { auth: true });
+
+  route('GET', '/api/posts/:postId', ({ params, userId }) => {
+    const post = findPost(params.postId);
+    return post ? ok({ post: presentPost(post, userId) }) : fail(404, 'Post not found');
+  });
+
+  const toggleLike = ({ params, userId }) => {
+    const post = findPost(params.postId);
+    if (!post) return fail(404, 'Post not found');
+    const key = `${userId}:${post.id}`;
+    const liked = !db.likes.has(key);
+    liked ? db.likes.add(key) : db.likes.delete(key);
+    const count = likeCount(post.id);
+    emitEvent(null, 'post:likeToggled', { postId: post.id, userId, isLiked: liked, likeCount: count });
+    if (liked && post.user_id !== userId) {
+      notify(post.user_id, 'like', `${findUser(userId)?.username} liked your post`, { postId: post.id });
+    }
+    return ok({ isLiked: liked, likeCount: count });
+  };
+  route('POST', '/api/posts/:postId/like', toggleLike, { auth: true });
+  route('POST', '/api/likes/posts/:postId/toggle', toggleLike, { auth: true });
+
+  route('GET', '/api/likes/posts/:postId/status', ({ params, userId }) =>
+    findPost(params.postId)
+      ? ok({ isLiked: isLiked(userId, params.postId), likeCount: likeCount(params.postId) })
+      : fail(404, 'Post not found'), { auth: true });
+  route('POST', '/api/likes/posts/batch-status', ({ body, userId }) => {
+    const statuses = {};
+    (Array.isArray(body.postIds) ? body.postIds : []).forEach((postId) => {
+      statuses[postId] = { isLiked: isLiked(userId, postId), likeCount: likeCount(postId) };
+    });
+    return ok(statuses);
+  }, { auth: true });
+
+  route('GET', '/api/posts/:postId/comments', ({ params, query }) => {
+    const { items, pagination } = paginate(commentsFor(params.postId), query, 20);
+    return ok({ comments: items, pagination });
+  });
+  route('POST', '/api/posts/:postId/comments', ({ params, body, userId }) => {
+    const post = findPost(params.postId);
+    if (!post) return fail(404, 'Post not found');
+    const text = String(body.comment_text || '').trim();
+    if (!text) return fail(400, 'Comment text is required');
+    const author = findUser(userId);
+    const comment = {
+      id: `comment-${db.comments.length + 1}`,
+      comment_id: `comment-${db.comments.length + 1}`,
+      post_id: post.id,
+      commentor_id: userId,
+      comment_text: text,
+      content: text,
+      comment_date: new Date().toISOString(),
+      user: { id: author.id, username: author.username, profile_picture: author.profile_picture },
+    };
+    db.comments.unshift(comment);
+    emitEvent(null, 'newComment', { postId: post.id, comment: { ...comment, text, createdAt: comment.comment_date } });
+    return created({ comment }, 'Comment added');
+  }, { auth: true });
+  route('DELETE', '/api/posts/comments/:commentId', ({ params, userId }) => {
+    const comment = db.comments.find((item) => item.id === params.commentId);
+    if (!comment) return fail(404, 'Comment not found');
+    if (comment.commentor_id !== userId) return fail(403, 'Not allowed to delete this comment');
+    db.comments = db.comments.filter((item) => item !== comment);
+    return ok(null, { message: 'Comment deleted' });
+  }, { auth: true });
+  route('POST', '/api/posts/:postId/share', ({ params }) => {
+    const post = findPost(params.postId);
+    if (!post) return fail(404, 'Post not found');
+    post.shares = (post.shares || 0) + 1;
+    return ok({ shares: post.shares });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Views
+  // ---------------------------------------------------------------------------
+  route('POST', '/api/views/posts/:postId', ({ params }) => {
+    const post = findPost(params.postId);
+    if (!post) return fail(404, 'Post not found');
+    post.views += 1;
+    post.view_count = post.views;
+    return ok({ viewRecorded: true, viewCount: post.views });
+  });
+  route('GET', '/api/views/trending', ({ query, userId }) => {
+    const limit = Math.max(1, Number(query.limit) || 20);
+    const posts = [...db.posts].sort((a, b) => b.views - a.views).slice(0, limit);
+    return ok({ posts: posts.map((post) => presentPost(post, userId)), period: query.period || '24h', generatedAt: new Date().toISOString() });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Notifications
+  // ---------------------------------------------------------------------------
+  const notificationsFor = (userId) => db.notifications.filter((item) => item.userID === findUser(userId)?.username);
+  route('GET', '/api/users/notifications', ({ userId }) => ok({ notifications: notificationsFor(userId) }), { auth: true });
+  route('PUT', '/api/users/notifications', ({ body }) => ok({ enabled: body.enabled !== false }), { auth: true });
+  route('PUT', '/api/users/notifications/read-all', ({ userId }) => {
+    notificationsFor(userId).forEach((item) => {
+      item.isRead = true;
+    });
+    return ok({}, { message: 'All notifications marked as read' });
+  }, { auth: true });
+  route('PUT', '/api/users/notifications/:notificationId/read', ({ params, userId }) => {
+    const notification = notificationsFor(userId).find((item) => String(item.id) === params.notificationId);
+    if (!notification) return fail(404, 'Notification not found');
+    notification.isRead = true;
+    return ok(notification);
+  }, { auth: true });
+  route('DELETE', '/api/users/notifications/:notificationId', ({ params }) => {
+    db.notifications = db.notifications.filter((item) => String(item.id) !== params.notificationId);
+    return ok(null, { message: 'Notification deleted' });
+  }, { auth: true });
+  route('DELETE', '/api/users/notifications', ({ userId }) => {
+    const username = findUser(userId)?.username;
+    db.notifications = db.notifications.filter((item) => item.userID !== username);
+    return ok(null, { message: 'Notifications cleared' });
+  }, { auth: true });
+
+  // ---------------------------------------------------------------------------
+  // Users and follows
+  // ---------------------------------------------------------------------------
+  route('GET', '/api/users/search', ({ query }) => {
+    const q = String(query.q || '').toLowerCase();
+    return ok({ users: db.users.filter((user) => user.username.includes(q)).map(publicUser) });
+  });
+  route('GET', '/api/users/suggestions', ({ userId }) =>
+    ok({ suggestions: db.users.filter((user) => user.id !== userId && !isFollowing(userId, user.id)).map(publicUser) }));
+  route('GET', '/api/users/:userId', ({ params, userId }) => {
+    const user = findUser(params.userId);
+    return user ? ok({ ...publicUser(user), is_following: isFollowing(userId, user.id) }) : fail(404, 'User not found');
+  });
+  route('GET', '/api/users/:userId/posts/approved', ({ params, query, userId }) => {
+    const { items, pagination } = paginate(db.posts.filter((post) => post.user_id === params.userId), query);
+    return ok({ posts: items.map((post) => presentPost(post, userId)), pagination });
+  });
+
+  route('POST', '/api/follows', ({ body, userId }) => {
+    const target = findUser(body.userId);
+    if (!target) return fail(404, 'User not found');
+    if (target.id === userId) return fail(400, 'You cannot follow yourself');
+    const key = `${userId}:${target.id}`;
+    if (db.follows.has(key)) return fail(400, 'Already following this user');
+    db.follows.add(key);
+    notify(target.id, 'follow', `${findUser(userId)?.username} started following you`);
+    return created({ followingId: target.id }, 'Followed');
+  }, { auth: true });
+  route('DELETE', '/api/follows/:userId', ({ params, userId }) => {
+    const key = `${userId}:${params.userId}`;
+    if (!db.follows.has(key)) return fail(400, 'Not following this user');
+    db.follows.delete(key);
+    return ok({}, { message: 'Unfollowed' });
+  }, { auth: true });
+  route('GET', '/api/follows/check/:userId', ({ params, userId }) => ok({ isFollowing: isFollowing(userId, params.userId) }), { auth: true });
+  route('GET', '/api/follows/users/:userId/followers', ({ params, query }) => {
+    const followers = [...db.follows]
+      .filter((key) => key.endsWith(`:${params.userId}`))
+      .map((key) => ({ follower: publicUser(findUser(key.split(':')[0])) }));
+    const { items, pagination } = paginate(followers, query, 20);
+    return ok({ followers: items, hasMore: pagination.hasNext, totalCount: pagination.totalCount });
+  });
+  route('GET', '/api/follows/users/:userId/following', ({ params, query }) => {
+    const following = [...db.follows]
+      .filter((key) => key.startsWith(`${params.userId}:`))
+      .map((key) => ({ following: publicUser(findUser(key.split(':')[1])) }));
+    const { items, pagination } = paginate(following, query, 20);
+    return ok({ following: items, hasMore: pagination.hasNext, totalCount: pagination.totalCount });
+  });
+  route('GET', '/api/follows/posts', ({ query, userId }) => {
+    const posts = db.posts.filter((post) => isFollowing(userId, post.user_id));
+    const { items, pagination } = paginate(posts, query, 20);
+    return ok({ posts: items.map((post) => presentPost(post, userId)), pagination, filters: {} });
+  }, { auth: true });
+
+  // ---------------------------------------------------------------------------
+  // Challenges
+  // ---------------------------------------------------------------------------
+  const challengeList = (predicate, query) => {
+    const { items, pagination } = paginate(db.challenges.filter(predicate), query, 20);
+    return { status: 200, data: { status: 'success', message: 'Challenges fetched', data: items, pagination } };
+  };
+  route('GET', '/api/challenges', ({ query }) =>
+    challengeList((challenge) => !query.status || query.status === 'all' || challenge.status === query.status, query));
+  route('GET', '/api/challenges/ended', ({ query }) => challengeList((challenge) => challenge.status === 'ended', query));
+  route('GET', '/api/challenges/my-challenges', ({ query, userId }) =>
+    challengeList((challenge) => challenge.organizer_id === userId, query), { auth: true });
+  route('GET', '/api/challenges/joined', ({ query, userId }) => {
+    const joined = new Set(db.challengeEntries
+      .filter((entry) => findPost(entry.postId)?.user_id === userId || entry.userId === userId)
+      .map((entry) => entry.challengeId));
+    return challengeList((challenge) => joined.has(challenge.id), query);
+  }, { auth: true });
+  route('GET', '/api/challenges/:challengeId', ({ params }) => {
+    const challenge = db.challenges.find((item) => item.id === params.challengeId);
+    return challenge ? ok(challenge) : fail(404, 'Challenge not found');
+  });
+  route('GET', '/api/challenges/:challengeId/participants', ({ params }) => {
+    const userIds = new Set(db.challengeEntries
+      .filter((entry) => entry.challengeId === params.challengeId)
+      .map((entry) => entry.userId || findPost(entry.postId)?.user_id));
+    return ok([...userIds].map((id) => publicUser(findUser(id))).filter(Boolean));
+  });
+  route('GET', '/api/challenges/:challengeId/posts', ({ params, query, userId }) => {
+    const entries = db.challengeEntries
+      .filter((entry) => entry.challengeId === params.challengeId && entry.postId)
+      .map((entry) => {
+        const post = presentPost(findPost(entry.postId), userId);
+        return { post, likes_during_challenge: post.likes, total_likes: post.likes, submitted_at: post.createdAt };
+      });
+    const { items, pagination } = paginate(entries, query, 20);
+    return { status: 200, data: { status: 'success', message: 'Challenge posts fetched', data: items, pagination } };
+  });
+  route('POST', '/api/challenges/:challengeId/join', ({ params, userId }) => {
+    const challenge = db.challenges.find((item) => item.id === params.challengeId);
+    if (!challenge) return fail(404, 'Challenge not found');
+    db.challengeEntries.push({ challengeId: challenge.id, userId });
+    challenge.participants_count += 1;
+    return ok({ joined: true }, { message: 'Joined challenge' });
+  }, { auth: true });
+
+  // ---------------------------------------------------------------------------
+  // Dispatch
+  // ---------------------------------------------------------------------------
+  const takeFailure = (method, path) => {
+    const index = failures.findIndex((failure) =>
+      (!failure.method || failure.method === method)
+      && (typeof failure.path === 'string' ? path.startsWith(failure.path) : failure.path.test(path)));
+    if (index === -1) return null;
+    const failure = failures[index];
+    failure.times -= 1;
+    if (failure.times <= 0) failures.splice(index, 1);
+    return failure;
+  };
+
+  const backend = {
+    /**
+     * Serve one request. Resolves to `{ status, data }` for every HTTP outcome;
+     * rejects with MockTransportError for scripted timeouts/network drops.
+     */
+    async handle({ method = 'GET', url, headers = {}, body }) {
+      const upperMethod = method.toUpperCase();
+      const parsed = new URL(url, 'http://mock.local');
+      const path = parsed.pathname;
+      const query = Object.fromEntries(parsed.searchParams.entries());
+      const normalizedHeaders = Object.fromEntries(
+        Object.entries(headers || {}).map(([key, value]) => [key.toLowerCase(), value]),
+      );
+      let parsedBody = body;
+      if (typeof body === 'string') {
+        try {
+          parsedBody = JSON.parse(body);
+        } catch {
+          parsedBody = {};
+        }
+      }
+      requestLog.push({ method: upperMethod, path, query });
+
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs));
+      }
+
+      const failure = takeFailure(upperMethod, path);
+      if (failure?.mode === 'timeout' || failure?.mode === 'network') {
+        throw new MockTransportError(failure.mode);
+      }
+      if (failure?.mode === 'server-error') {
+        return fail(500, 'Internal server error');
+      }
+      if (failure?.mode === 'unauthorized') {
+        return fail(401, 'Token expired');
+      }
+      if (failure?.mode === 'suspended') {
+        const reason = failure.reason || 'Your account has been suspended';
+        return fail(403, reason, { code: 'account_suspended', reason });
+      }
+
+      for (const candidate of routes) {
+        if (candidate.method !== upperMethod) continue;
+        const params = candidate.match(path);
+        if (!params) continue;
+
+        const token = String(normalizedHeaders.authorization || '').replace(/^Bearer\s+/i, '');
+        const userId = accessTokens.get(token) ?? null;
+        if (candidate.auth && !userId) {
+          return fail(401, token ? 'Invalid or expired token' : 'Authentication required');
+        }
+        if (userId && suspended.has(userId)) {
+          const reason = suspended.get(userId);
+          return fail(403, reason, { code: 'account_suspended', reason });
+        }
+
+        return candidate.handler({ params, query, body: parsedBody || {}, headers: normalizedHeaders, userId });
+      }
+
+      return fail(404, `Mock backend has no route for ${upperMethod} ${path}`);
+    },
+
+    /**
+     * Script the next matching request(s) to fail.
+     * `path` is a prefix string or RegExp; `times` defaults to 1.
+     */
+    failNext({ path, method, mode, times = 1, reason }) {
+      if (!FAILURE_MODES.includes(mode)) {
+        throw new Error(`Unknown mock failure mode "${mode}" (expected one of ${FAILURE_MODES.join(', ')})`);
+      }
+      failures.push({ path: path ?? '/', method: method?.toUpperCase(), mode, times, reason });
+    },
+
+    clearFailures() {
+      failures = [];
+    },
+
+    /** Invalidate every issued access token so the next authed request gets a 401 (refresh tokens still work). */
+    expireAccessTokens() {
+      accessTokens.clear();
+    },
+
+    /** Suspend a user: authed requests return 403 account_suspended and `/ws` clients get `user:account_suspended`. */
+    suspendUser(userId, reason = 'Your account has been suspended') {
+      suspended.set(userId, reason);
+      emitEvent(userId, 'user:account_suspended', { userId, reason });
+    },
+
+    /** Mint tokens for a seeded user without going through login. */
+    signIn(userId = 'user-1') {
+      const user = findUser(userId);
+      if (!user) throw new Error(`Unknown mock user "${userId}"`);
+      return { ...issueTokens(user.id), user: publicUser(user) };
+    },
+
+    userIdForToken(token) {
+      return accessTokens.get(token) ?? null;
+    },
+
+    /** Listen for realtime events; `userId` is null for broadcasts. */
+    onEvent(listener) {
+      eventListeners.add(listener);
+      return () => eventListeners.delete(listener);
+    },
+
+    pushEvent(userId, type, data) {
+      emitEvent(userId, type, data);
+    },
+
+    get requests() {
+      return requestLog;
+    },
+
+    get db() {
+      return db;
+    },
+
+    reset() {
+      db = createFixtures(options.fixtures);
+      failures = [];
+      accessTokens.clear();
+      refreshTokens.clear();
+      suspended.clear();
+      pendingVerifications.clear();
+      requestLog.length = 0;
+    },
+  };
+
+  return backend;
+}
+
+module.exports = { createMockBackend, MockTransportError, FAILURE_MODES, SEED_PASSWORD, SEED_OTP };
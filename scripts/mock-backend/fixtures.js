@@ -0,0 +1,136 @@
+/**
+ * Seeded data for the local mock backend. Shapes follow what lib/api.ts reads
+ * from the real API (see Talentix.postman_collection.json), not the database
+ * models, so screens render the same way they do against production.
+ */
+
+const SAMPLE_HLS = 'https://test-streams.mux.dev/x36xhzz/x36xhzz.m3u8';
+const SAMPLE_MP4 = 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4';
+const SAMPLE_IMAGE = (seed) => `https://picsum.photos/seed/talentix-${seed}/720/1280`;
+
+const SEED_PASSWORD = 'password123';
+const SEED_OTP = '123456';
+
+const categories = [
+  { id: 1, name: 'Music', children: [{ id: 11, name: 'Singing' }, { id: 12, name: 'Instruments' }] },
+  { id: 2, name: 'Dance', children: [{ id: 21, name: 'Hip Hop' }, { id: 22, name: 'Traditional' }] },
+  { id: 3, name: 'Comedy', children: [{ id: 31, name: 'Skits' }] },
+  { id: 4, name: 'Sports', children: [{ id: 41, name: 'Football' }] },
+];
+
+const countries = [
+  { id: 1, name: 'Rwanda', code: 'RW', dial_code: '+250', flag_emoji: '🇷🇼' },
+  { id: 2, name: 'Kenya', code: 'KE', dial_code: '+254', flag_emoji: '🇰🇪' },
+  { id: 3, name: 'Uganda', code: 'UG', dial_code: '+256', flag_emoji: '🇺🇬' },
+  { id: 4, name: 'Nigeria', code: 'NG', dial_code: '+234', flag_emoji: '🇳🇬' },
+];
+
+function createUsers() {
+  return [
+    { id: 'user-1', username: 'demo', display_name: 'Demo User', email: 'demo@talynk.com', bio: 'Seeded mock account', country_id: 1 },
+    { id: 'user-2', username: 'amani', display_name: 'Amani K.', email: 'amani@talynk.com', bio: 'Dancer', country_id: 2 },
+    { id: 'user-3', username: 'keza', display_name: 'Keza M.', email: 'keza@talynk.com', bio: 'Singer', country_id: 1 },
+    { id: 'user-4', username: 'tunde', display_name: 'Tunde O.', email: 'tunde@talynk.com', bio: 'Comedian', country_id: 4 },
+  ].map((user) => ({
+    ...user,
+    name: user.display_name,
+    role: 'user',
+    status: 'active',
+    profile_picture: `https://i.pravatar.cc/150?u=${user.id}`,
+    createdAt: '2025-01-01T00:00:00.000Z',
+  }));
+}
+
+function createPosts(users, count = 40) {
+  const now = Date.parse('2026-01-15T12:00:00.000Z');
+  return Array.from({ length: count }, (_, i) => {
+    const author = users[(i % (users.length - 1)) + 1];
+    const category = categories[i % categories.length];
+    const isVideo = i % 5 !== 4;
+    const hlsReady = isVideo && i % 3 !== 2;
+    const createdAt = new Date(now - i * 3_600_000).toISOString();
+    const mediaUrl = isVideo ? SAMPLE_MP4 : SAMPLE_IMAGE(i);
+
+    return {
+      id: `post-${i + 1}`,
+      title: `Mock post ${i + 1}`,
+      description: `Seeded ${category.name.toLowerCase()} post #${i + 1}`,
+      caption: `Seeded ${category.name.toLowerCase()} post #${i + 1}`,
+      type: isVideo ? 'video' : 'image',
+      mediaType: isVideo ? 'video' : 'image',
+      status: 'active',
+      video_url: isVideo ? SAMPLE_MP4 : undefined,
+      image: isVideo ? undefined : mediaUrl,
+      fullUrl: hlsReady ? SAMPLE_HLS : mediaUrl,
+      streamType: hlsReady ? 'hls' : 'raw',
+      hlsReady,
+      hls_url: hlsReady ? SAMPLE_HLS : undefined,
+      processing_status: 'completed',
+      thumbnail_url: SAMPLE_IMAGE(`thumb-${i}`),
+      video_duration: isVideo ? 15 : undefined,
+      user_id: author.id,
+      category_id: category.id,
+      category: { id: category.id, name: category.name },
+      likes: (i * 7) % 50,
+      like_count: (i * 7) % 50,
+      comment_count: 0,
+      comments_count: 0,
+      shares: i % 4,
+      views: 100 + i * 13,
+      view_count: 100 + i * 13,
+      is_featured: i < 2,
+      createdAt,
+      updatedAt: createdAt,
+      uploadDate: createdAt,
+    };
+  });
+}
+
+function createChallenges(users) {
+  const start = '2026-01-01T00:00:00.000Z';
+  return [
+    { id: 'challenge-1', name: 'Dance Off', status: 'active', organizer_id: users[1].id, start_date: start, end_date: '2026-12-31T00:00:00.000Z' },
+    { id: 'challenge-2', name: 'Sing Along', status: 'approved', organizer_id: users[2].id, start_date: start, end_date: '2026-12-31T00:00:00.000Z' },
+    { id: 'challenge-3', name: 'Winter Jokes', status: 'ended', organizer_id: users[3].id, start_date: '2025-11-01T00:00:00.000Z', end_date: '2025-12-01T00:00:00.000Z' },
+  ].map((challenge) => ({
+    ...challenge,
+    description: `${challenge.name} — seeded mock challenge`,
+    organizer_name: users.find((user) => user.id === challenge.organizer_id)?.username,
+    participants_count: 0,
+    posts_count: 0,
+    createdAt: start,
+  }));
+}
+
+function createNotifications(users) {
+  const viewer = users[0];
+  return [
+    { id: 1, type: 'like', message: 'amani liked your post', metadata: { postId: 'post-1' } },
+    { id: 2, type: 'follow', message: 'keza started following you', metadata: {} },
+    { id: 3, type: 'challenge_approved', message: 'Your challenge was approved', metadata: { challengeId: 'challenge-1', challengeName: 'Dance Off' } },
+  ].map((notification, i) => ({
+    ...notification,
+    userID: viewer.username,
+    isRead: i > 0,
+    createdAt: new Date(Date.parse('2026-01-15T12:00:00.000Z') - i * 600_000).toISOString(),
+  }));
+}
+
+/** Fresh, mutable copy of the seed data. Every backend instance owns its own. */
+function createFixtures(options = {}) {
+  const users = createUsers();
+  return {
+    users,
+    posts: createPosts(users, options.postCount),
+    comments: [],
+    likes: new Set(['user-1:post-2', 'user-2:post-1']),
+    follows: new Set(['user-1:user-2']),
+    challenges: createChallenges(users),
+    challengeEntries: [{ challengeId: 'challenge-1', postId: 'post-3' }],
+    notifications: createNotifications(users),
+    categories,
+    countries,
+  };
+}
+
+module.exports = { createFixtures, SEED_PASSWORD, SEED_OTP };
@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Talentix API, for developing without the live backend.
+ *
+ *   npm run mock:api                      # http://0.0.0.0:4000, realtime on /ws
+ *   EXPO_PUBLIC_API_URL=http://<lan-ip>:4000 npx expo start
+ *
+ * Sign in as demo / password123 (OTP codes are always 123456). Failure modes
+ * and realtime events are scripted over HTTP while the app is running:
+ *
+ *   curl -XPOST localhost:4000/__mock/fail -d '{"path":"/api/feed","mode":"timeout","times":2}'
+ *   curl -XPOST localhost:4000/__mock/suspend -d '{"userId":"user-1"}'
+ *   curl -XPOST localhost:4000/__mock/expire-tokens
+ *   curl -XPOST localhost:4000/__mock/event -d '{"type":"notification:created","data":{...}}'
+ *   curl -XPOST localhost:4000/__mock/reset
+ */
+
+const http = require('node:http');
+const { WebSocketServer } = require('ws');
+const { createMockBackend } = require('./backend');
+
+const PORT = Number(process.env.PORT) || 4000;
+const HOST = process.env.HOST || '0.0.0.0';
+// Stall long enough for the app's request timeouts to fire
+const TIMEOUT_STALL_MS = Number(process.env.MOCK_TIMEOUT_STALL_MS) || 65_000;
+
+const backend = createMockBackend({ latencyMs: Number(process.env.MOCK_LATENCY_MS) || 0 });
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    // Multipart uploads are not parsed; the body is only used by JSON routes
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      resolve(raw ? tryParse(raw) : {});
+    });
+  });
+}
+
+function tryParse(raw) {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+  });
+  res.end(JSON.stringify(body));
+}
+
+async function handleControl(path, body, res) {
+  switch (path) {
+    case '/__mock/fail':
+      backend.failNext(body);
+      return sendJson(res, 200, { ok: true });
+    case '/__mock/suspend':
+      backend.suspendUser(body.userId || 'user-1', body.reason);
+      return sendJson(res, 200, { ok: true });
+    case '/__mock/expire-tokens':
+      backend.expireAccessTokens();
+      return sendJson(res, 200, { ok: true });
+    case '/__mock/event':
+      backend.pushEvent(body.userId ?? null, body.type, body.data ?? {});
+      return sendJson(res, 200, { ok: true });
+    case '/__mock/reset':
+      backend.reset();
+      return sendJson(res, 200, { ok: true });
+    case '/__mock/requests':
+      return sendJson(res, 200, backend.requests.slice(-100));
+    default:
+      return sendJson(res, 404, { ok: false, message: `Unknown control endpoint ${path}` });
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    sendJson(res, 204, {});
+    return;
+  }
+
+  const path = new URL(req.url || '/', 'http://mock.local').pathname;
+  const body = await readBody(req);
+
+  if (path.startsWith('/__mock/')) {
+    try {
+      await handleControl(path, body, res);
+    } catch (error) {
+      sendJson(res, 400, { ok: false, message: error.message });
+    }
+    return;
+  }
+
+  try {
+    const result = await backend.handle({ method: req.method, url: req.url, headers: req.headers, body });
+    console.log(`${req.method} ${req.url} -> ${result.status}`);
+    sendJson(res, result.status, result.data);
+  } catch (error) {
+    if (error.kind === 'timeout') {
+      console.log(`${req.method} ${req.url} -> (stalled)`);
+      setTimeout(() => res.destroy(), TIMEOUT_STALL_MS);
+      return;
+    }
+    console.log(`${req.method} ${req.url} -> (dropped)`);
+    res.destroy();
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Realtime: same message envelope as lib/websocket-service.ts ({ type, data, timestamp })
+// ---------------------------------------------------------------------------
+const wss = new WebSocketServer({ noServer: true });
+const clients = new Map();
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url || '/', 'http://mock.local');
+  if (url.pathname !== '/ws') {
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    // Unauthenticated until the client's { type: 'auth' } message; events go to authenticated sockets only
+    clients.set(ws, { userId: null });
+
+    ws.on('message', (raw) => {
+      // Post events are broadcast, so subscribe/unsubscribe need no bookkeeping here
+      const message = tryParse(String(raw));
+      const client = clients.get(ws);
+      if (message.type === 'auth') {
+        const userId = backend.userIdForToken(message.data?.token || '');
+        if (!userId || (client.userId && client.userId !== userId)) {
+          ws.send(JSON.stringify({ type: 'auth:error', data: { code: userId ? 'user_mismatch' : 'invalid_token' }, timestamp: Date.now() }));
+          ws.close(4001, 'Authentication failed');
+          return;
+        }
+        if (!client.userId) console.log(`[ws] connected ${userId}`);
+        client.userId = userId;
+        // Protocol version 1: no per-post sequence numbers, so the app resyncs subscribed posts after reconnecting
+        ws.send(JSON.stringify({ type: 'auth:ok', data: { userId, protocolVersion: 1 }, timestamp: Date.now() }));
+      } else if (message.type === 'ping' && client.userId) {
+        ws.send(JSON.stringify({ type: 'pong', data: {}, timestamp: Date.now() }));
+      }
+    });
+
+    ws.on('close', () => {
+      clients.delete(ws);
+    });
+  });
+});
+
+backend.onEvent((userId, message) => {
+  const payload = JSON.stringify(message);
+  clients.forEach((client, ws) => {
+    if (!client.userId || (userId && client.userId !== userId)) return;
+    if (ws.readyState === ws.OPEN) ws.send(payload);
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Talentix mock API listening on http://${HOST}:${PORT} (realtime on /ws)`);
+  console.log('Sign in as demo / password123; OTP codes are 123456');
+});
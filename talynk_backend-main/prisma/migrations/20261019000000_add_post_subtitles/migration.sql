@@ -0,0 +1,3 @@
+-- AlterTable: add sidecar WebVTT caption track columns to posts
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "subtitle_url" VARCHAR(500);
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "subtitle_language" VARCHAR(16);
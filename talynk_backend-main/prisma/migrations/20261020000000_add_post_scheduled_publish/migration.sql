@@ -0,0 +1,5 @@
+-- AlterTable: drafts can be scheduled to publish automatically
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "scheduled_publish_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "posts_status_scheduled_publish_at_idx" ON "posts"("status", "scheduled_publish_at");
@@ -0,0 +1,23 @@
+-- CreateTable: recommendation feedback with the feed pipeline that served the post
+CREATE TABLE IF NOT EXISTS "recommendation_interactions" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "post_id" UUID NOT NULL,
+    "interaction_type" VARCHAR(32) NOT NULL,
+    "signal" VARCHAR(32),
+    "pipeline" VARCHAR(64),
+    "refresh" INTEGER,
+    "endpoint" VARCHAR(64),
+    "watch_seconds" DOUBLE PRECISION,
+    "watch_ratio" DOUBLE PRECISION,
+    "occurred_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recommendation_interactions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "recommendation_interactions_user_id_createdAt_idx" ON "recommendation_interactions"("user_id", "createdAt" DESC);
+CREATE INDEX IF NOT EXISTS "recommendation_interactions_pipeline_interaction_type_idx" ON "recommendation_interactions"("pipeline", "interaction_type");
+
+ALTER TABLE "recommendation_interactions" ADD CONSTRAINT "recommendation_interactions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "recommendation_interactions" ADD CONSTRAINT "recommendation_interactions_post_id_fkey" FOREIGN KEY ("post_id") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable: a scheduled draft can carry the challenge it enters once published
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "scheduled_challenge_id" UUID;
@@ -9,6 +9,7 @@ const path = require('path');
 const fs = require('fs').promises;
 const http = require('http');
 const { initRealtime } = require('./lib/realtime');
+const { startScheduledPublishing } = require('./jobs/publishScheduledPosts');
 
 // Import routes
 const routes = require('./routes');
@@ -239,6 +240,8 @@ const startServer = async () => {
             console.log(`Server running on port ${PORT}`);
         });
 
+        if (process.env.DISABLE_SCHEDULED_PUBLISHING !== 'true') { startScheduledPublishing(); }
+
         server.on('error', (error) => {
             if (error.code === 'EADDRINUSE') {
                 console.log(`Port ${PORT} is busy, trying ${PORT + 1}`);
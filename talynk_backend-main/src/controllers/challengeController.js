@@ -1878,6 +1878,52 @@ exports.getJoinedChallenges = async (req, res) => {
     }
 };
 
+/**
+ * Enter a just-published scheduled post into the challenge it was scheduled for.
+ * Applies the same rules as linkPostToChallenge at publish time; entries that no
+ * longer qualify (challenge closed, user left, per-account cap reached) are skipped.
+ * @param {string} challengeId
+ * @param {string} postId
+ * @param {string} userId
+ * @returns {Promise<boolean>} whether the post was linked
+ */
+async function linkScheduledPostToChallenge(challengeId, postId, userId) {
+    const challenge = await prisma.challenge.findUnique({
+        where: { id: challengeId },
+        select: { id: true, status: true, start_date: true, end_date: true, max_content_per_account: true }
+    });
+    if (!isChallengeParticipationOpen(challenge)) return false;
+
+    const participant = await prisma.challengeParticipant.findUnique({
+        where: {
+            unique_challenge_participant: {
+                challenge_id: challengeId,
+                user_id: userId
+            }
+        },
+        select: { id: true }
+    });
+    if (!participant) return false;
+
+    const maxPerAccount = challenge.max_content_per_account != null
+        ? challenge.max_content_per_account
+        : DEFAULT_MAX_CONTENT_PER_ACCOUNT;
+    const currentCount = await prisma.challengePost.count({
+        where: {
+            challenge_id: challengeId,
+            user_id: userId
+        }
+    });
+    if (currentCount >= maxPerAccount) return false;
+
+    const { count } = await prisma.challengePost.createMany({
+        data: [{ challenge_id: challengeId, post_id: postId, user_id: userId }],
+        skipDuplicates: true
+    });
+    return count > 0;
+}
+exports.linkScheduledPostToChallenge = linkScheduledPostToChallenge;
+
 // Link a post to a challenge
 exports.linkPostToChallenge = async (req, res) => {
     try {
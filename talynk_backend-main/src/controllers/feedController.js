@@ -48,6 +48,8 @@ function toPublicDTO(post) {
         playback_url: p.fullUrl || null,
         stream_type: p.streamType || null,
         thumbnail_url: p.thumbnail_url || null,
+        subtitle_url: p.subtitle_url || null,
+        subtitle_language: p.subtitle_language || null,
         like_count: p.likes ?? 0,
         comment_count: p.comment_count ?? 0,
         view_count: p.views ?? 0,
@@ -164,6 +166,8 @@ exports.getPublicFeed = async (req, res) => {
                 video_url: true,
                 hls_url: true,
                 thumbnail_url: true,
+                subtitle_url: true,
+                subtitle_language: true,
                 processing_status: true,
                 type: true,
                 likes: true,
@@ -233,6 +237,8 @@ exports.getPersonalizedFeed = async (req, res) => {
                 video_url: true,
                 hls_url: true,
                 thumbnail_url: true,
+                subtitle_url: true,
+                subtitle_language: true,
                 processing_status: true,
                 type: true,
                 likes: true,
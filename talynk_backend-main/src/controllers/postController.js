@@ -19,13 +19,31 @@ const {
 const { emitEvent } = require('../lib/realtime');
 const { addVideoJob, getJobStatus, getQueueStats } = require('../queues/videoQueue');
 const { withVideoPlaybackUrl } = require('../utils/postVideoUtils');
-const { getSignedUploadUrl, fileExistsInR2, isR2Configured } = require('../services/r2Storage');
+const {
+    getSignedUploadUrl,
+    fileExistsInR2,
+    isR2Configured,
+    createMultipartUpload,
+    getSignedPartUrl,
+    listUploadedParts,
+    completeMultipartUpload,
+    R2_PUBLIC_DOMAIN,
+} = require('../services/r2Storage');
 const { getClient: getRedisClient } = require('../lib/redis');
 const { applyFeedReadyFilter, getProcessingStatusLabel } = require('../utils/postFilters');
 const { invalidatePostCaches } = require('../utils/postCacheInvalidation');
 
 const UPLOAD_SESSION_TTL = 600; // 10 minutes
 const UPLOAD_SESSION_PREFIX = 'upload:';
+// Chunked uploads may be resumed after an app restart, so their session lives longer
+const MULTIPART_SESSION_TTL = 24 * 60 * 60; // 24 hours
+const MULTIPART_SESSION_PREFIX = 'upload:multipart:';
+const MULTIPART_MIN_PART_SIZE = 5 * 1024 * 1024; // S3/R2 minimum for every part but the last
+const MULTIPART_MAX_PARTS = 10000;
+const MULTIPART_MAX_URLS_PER_REQUEST = 50;
+// Scheduled publishing window
+const SCHEDULE_MIN_LEAD_MS = 60 * 1000;
+const SCHEDULE_MAX_AHEAD_MS = 30 * 24 * 60 * 60 * 1000;
 
 // Ads interleave pattern: 5 posts, 1 ad, 8 posts, 1 ad, repeat
 const AD_INTERLEAVE_PATTERN = [5, 8];
@@ -95,7 +113,7 @@ function totalInterleavedSize(contentCount) {
  */
 exports.createVideoUpload = async (req, res) => {
     try {
-        const { title, caption, post_category, status } = req.body;
+        const { title, caption, post_category, status, upload_mode, file_size } = req.body;
         const userId = req.user.id;
 
         if (!title || !post_category) {
@@ -164,6 +182,31 @@ exports.createVideoUpload = async (req, res) => {
         const fileName = `${Date.now()}-${uuidv4()}${fileExt}`;
         const r2Key = `media/${fileName}`;
 
+        const fileSize = Number(file_size);
+        if (upload_mode === 'multipart' && Number.isFinite(fileSize) && fileSize > 0) {
+            const partSize = Math.max(MULTIPART_MIN_PART_SIZE, Math.ceil(fileSize / MULTIPART_MAX_PARTS));
+            const partCount = Math.ceil(fileSize / partSize);
+            const uploadId = await createMultipartUpload(r2Key, 'video/mp4');
+
+            await redis.setex(`${UPLOAD_SESSION_PREFIX}${post.id}`, MULTIPART_SESSION_TTL, r2Key);
+            await redis.setex(
+                `${MULTIPART_SESSION_PREFIX}${post.id}`,
+                MULTIPART_SESSION_TTL,
+                JSON.stringify({ key: r2Key, uploadId, partSize, partCount }),
+            );
+
+            return res.json({
+                status: 'success',
+                data: {
+                    postId: post.id,
+                    uploadUrl: null,
+                    videoUrl: `${R2_PUBLIC_DOMAIN}/${r2Key}`,
+                    expiresIn: MULTIPART_SESSION_TTL,
+                    multipart: { uploadId, partSize, partCount },
+                },
+            });
+        }
+
         const { uploadUrl, publicUrl } = await getSignedUploadUrl(r2Key, 'video/mp4', UPLOAD_SESSION_TTL);
 
         await redis.setex(`${UPLOAD_SESSION_PREFIX}${post.id}`, UPLOAD_SESSION_TTL, r2Key);
@@ -187,6 +230,78 @@ exports.createVideoUpload = async (req, res) => {
     }
 };
 
+/**
+ * Presigned URLs for parts of a chunked upload, plus the parts R2 already has
+ * so a resuming client can skip them.
+ * POST /api/posts/:postId/upload-parts
+ * Body: { partNumbers: number[] }
+ */
+exports.getVideoUploadParts = async (req, res) => {
+    try {
+        const { postId } = req.params;
+        const userId = req.user.id;
+        const requested = Array.isArray(req.body.partNumbers) ? req.body.partNumbers : [];
+
+        const redis = getRedisClient();
+        if (!redis) {
+            return res.status(503).json({
+                status: 'error',
+                message: 'Redis not configured',
+            });
+        }
+
+        const post = await prisma.post.findUnique({
+            where: { id: postId },
+            select: { id: true, user_id: true, processing_status: true },
+        });
+        if (!post) {
+            return res.status(404).json({ status: 'error', message: 'Post not found' });
+        }
+        if (post.user_id !== userId) {
+            return res.status(403).json({ status: 'error', message: 'Not authorized' });
+        }
+
+        const rawSession = await redis.get(`${MULTIPART_SESSION_PREFIX}${postId}`);
+        if (!rawSession || post.processing_status !== 'uploading') {
+            return res.status(400).json({
+                status: 'error',
+                message: 'Upload session expired or invalid. Please start a new upload.',
+            });
+        }
+
+        const session = JSON.parse(rawSession);
+        const partNumbers = [...new Set(requested.map(Number))]
+            .filter((partNumber) => Number.isInteger(partNumber) && partNumber >= 1 && partNumber <= session.partCount)
+            .slice(0, MULTIPART_MAX_URLS_PER_REQUEST);
+
+        const [parts, uploaded] = await Promise.all([
+            Promise.all(partNumbers.map(async (partNumber) => ({
+                partNumber,
+                url: await getSignedPartUrl(session.key, session.uploadId, partNumber, UPLOAD_SESSION_TTL),
+            }))),
+            listUploadedParts(session.key, session.uploadId),
+        ]);
+
+        res.json({
+            status: 'success',
+            data: {
+                parts,
+                uploadedParts: uploaded.map((part) => part.PartNumber),
+                partSize: session.partSize,
+                partCount: session.partCount,
+                expiresIn: UPLOAD_SESSION_TTL,
+            },
+        });
+    } catch (error) {
+        console.error('[getVideoUploadParts] Error:', error);
+        res.status(500).json({
+            status: 'error',
+            message: 'Failed to prepare upload parts',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+        });
+    }
+};
+
 /**
  * Complete video upload - verify file in R2, update post, queue processing.
  * POST /api/posts/upload-complete
@@ -227,6 +342,23 @@ exports.completeVideoUpload = async (req, res) => {
             });
         }
 
+        const rawMultipart = await redis.get(`${MULTIPART_SESSION_PREFIX}${postId}`);
+        if (rawMultipart) {
+            // Chunked upload: assemble the parts first. The session is kept until
+            // that succeeds so a client still sending parts can finish and retry.
+            const multipart = JSON.parse(rawMultipart);
+            const uploaded = await listUploadedParts(multipart.key, multipart.uploadId);
+            if (uploaded.length < multipart.partCount) {
+                return res.status(400).json({
+                    status: 'error',
+                    message: 'Video file not found in storage. Please complete the upload first.',
+                    uploadedParts: uploaded.map((part) => part.PartNumber),
+                });
+            }
+            await completeMultipartUpload(multipart.key, multipart.uploadId, uploaded);
+            await redis.del(`${MULTIPART_SESSION_PREFIX}${postId}`);
+        }
+
         const r2Key = await redis.get(`${UPLOAD_SESSION_PREFIX}${postId}`);
         await redis.del(`${UPLOAD_SESSION_PREFIX}${postId}`);
 
@@ -2454,6 +2586,8 @@ exports.publishDraftPost = async (req, res) => {
             where: { id: postId },
             data: {
                 status: 'active',
+                scheduled_publish_at: null,
+                scheduled_challenge_id: null,
                 updatedAt: new Date()
             },
             include: {
@@ -2499,6 +2633,250 @@ exports.publishDraftPost = async (req, res) => {
     }
 };
 
+// Schedule a draft post to be published automatically (see jobs/publishScheduledPosts)
+exports.scheduleDraftPost = async (req, res) => {
+    try {
+        const postId = req.params.postId;
+        const userId = req.user.id;
+        const publishAt = new Date(req.body?.publish_at);
+        const challengeId = req.body?.challenge_id || null;
+
+        if (Number.isNaN(publishAt.getTime())) {
+            return res.status(400).json({
+                status: 'error',
+                message: 'publish_at must be a valid date'
+            });
+        }
+
+        const now = Date.now();
+        if (publishAt.getTime() < now + SCHEDULE_MIN_LEAD_MS) {
+            return res.status(400).json({
+                status: 'error',
+                message: 'Publish time must be at least a minute from now'
+            });
+        }
+        if (publishAt.getTime() > now + SCHEDULE_MAX_AHEAD_MS) {
+            return res.status(400).json({
+                status: 'error',
+                message: 'Posts can be scheduled up to 30 days ahead'
+            });
+        }
+
+        const existingPost = await prisma.post.findFirst({
+            where: {
+                id: postId,
+                user_id: userId,
+                status: 'draft'
+            },
+            select: { id: true }
+        });
+
+        if (!existingPost) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Draft post not found or you do not have permission to schedule it'
+            });
+        }
+
+        // The entry itself is made by the publishing job, which re-checks the challenge rules then
+        if (challengeId) {
+            const participant = await prisma.challengeParticipant.findUnique({
+                where: {
+                    unique_challenge_participant: {
+                        challenge_id: challengeId,
+                        user_id: userId
+                    }
+                },
+                select: { id: true }
+            });
+            if (!participant) {
+                return res.status(403).json({
+                    status: 'error',
+                    message: 'You must join the challenge before scheduling an entry'
+                });
+            }
+        }
+
+        const updatedPost = await prisma.post.update({
+            where: { id: postId },
+            data: {
+                scheduled_publish_at: publishAt,
+                scheduled_challenge_id: challengeId,
+                updatedAt: new Date()
+            }
+        });
+
+        res.json({
+            status: 'success',
+            message: 'Post scheduled',
+            data: { post: updatedPost }
+        });
+    } catch (error) {
+        console.error('Error scheduling draft post:', error);
+        res.status(500).json({
+            status: 'error',
+            message: 'Error scheduling post',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+// Cancel a scheduled publish; the post stays a draft
+exports.unscheduleDraftPost = async (req, res) => {
+    try {
+        const postId = req.params.postId;
+        const userId = req.user.id;
+
+        const { count } = await prisma.post.updateMany({
+            where: {
+                id: postId,
+                user_id: userId,
+                status: 'draft'
+            },
+            data: {
+                scheduled_publish_at: null,
+                scheduled_challenge_id: null,
+                updatedAt: new Date()
+            }
+        });
+
+        if (count === 0) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Draft post not found or you do not have permission to edit it'
+            });
+        }
+
+        res.json({
+            status: 'success',
+            message: 'Schedule cancelled'
+        });
+    } catch (error) {
+        console.error('Error cancelling scheduled post:', error);
+        res.status(500).json({
+            status: 'error',
+            message: 'Error cancelling schedule',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+// Attach (or replace) the WebVTT caption track of a video post
+exports.uploadPostSubtitles = async (req, res) => {
+    try {
+        const postId = req.params.postId;
+        const userId = req.user.id;
+
+        if (!req.file) {
+            return res.status(400).json({
+                status: 'error',
+                message: 'A .vtt caption file is required'
+            });
+        }
+
+        const existingPost = await prisma.post.findFirst({
+            where: {
+                id: postId,
+                user_id: userId
+            },
+            select: { id: true, type: true }
+        });
+
+        if (!existingPost) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Post not found or you do not have permission to edit it'
+            });
+        }
+
+        if (existingPost.type !== 'video') {
+            return res.status(400).json({
+                status: 'error',
+                message: 'Captions can only be added to video posts'
+            });
+        }
+
+        const language = typeof req.body.language === 'string' && /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(req.body.language)
+            ? req.body.language
+            : null;
+
+        const updatedPost = await prisma.post.update({
+            where: { id: postId },
+            data: {
+                subtitle_url: req.file.r2Url || req.file.localUrl,
+                subtitle_language: language,
+                updatedAt: new Date()
+            },
+            select: {
+                id: true,
+                subtitle_url: true,
+                subtitle_language: true
+            }
+        });
+
+        await invalidatePostCaches();
+
+        res.json({
+            status: 'success',
+            message: 'Captions added to post',
+            data: { post: updatedPost }
+        });
+    } catch (error) {
+        console.error('Error uploading post subtitles:', error);
+        res.status(500).json({
+            status: 'error',
+            message: 'Error uploading captions',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
+// Remove the caption track of a post
+exports.removePostSubtitles = async (req, res) => {
+    try {
+        const postId = req.params.postId;
+        const userId = req.user.id;
+
+        const existingPost = await prisma.post.findFirst({
+            where: {
+                id: postId,
+                user_id: userId
+            },
+            select: { id: true }
+        });
+
+        if (!existingPost) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Post not found or you do not have permission to edit it'
+            });
+        }
+
+        await prisma.post.update({
+            where: { id: postId },
+            data: {
+                subtitle_url: null,
+                subtitle_language: null,
+                updatedAt: new Date()
+            }
+        });
+
+        await invalidatePostCaches();
+
+        res.json({
+            status: 'success',
+            message: 'Captions removed from post'
+        });
+    } catch (error) {
+        console.error('Error removing post subtitles:', error);
+        res.status(500).json({
+            status: 'error',
+            message: 'Error removing captions',
+            error: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+};
+
 // Get video processing status for a post
 exports.getVideoProcessingStatus = async (req, res) => {
     try {
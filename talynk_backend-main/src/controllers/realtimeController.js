@@ -0,0 +1,55 @@
+const realtimePoll = require('../lib/realtime-poll');
+
+const MAX_WAIT_SECONDS = 30;
+const MAX_POLLED_POSTS = 100;
+
+/**
+ * Long-poll for realtime events: the fallback for clients that cannot open
+ * the /ws websocket. Query: cursor (from the previous response), posts
+ * (comma-separated post IDs to follow), wait (seconds to hold the request).
+ */
+const poll = async (req, res) => {
+  try {
+    const userId = req.user.id || req.user.userId;
+    const rawCursor = req.query.cursor;
+    const cursor = rawCursor !== undefined && rawCursor !== '' && Number.isFinite(Number(rawCursor))
+      ? Number(rawCursor)
+      : null;
+    const postIds = new Set(
+      String(req.query.posts || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+        .slice(0, MAX_POLLED_POSTS)
+    );
+    const waitSeconds = Math.min(Math.max(Number(req.query.wait) || 0, 0), MAX_WAIT_SECONDS);
+
+    const result = await realtimePoll.wait({
+      userId,
+      postIds,
+      cursor,
+      waitMs: waitSeconds * 1000,
+      onClose: (callback) => req.on('close', callback)
+    });
+
+    if (res.headersSent || req.destroyed) return;
+    res.status(200).json({
+      status: 'success',
+      data: {
+        cursor: String(result.cursor),
+        reset: result.reset,
+        events: result.events
+      }
+    });
+  } catch (error) {
+    console.error('Error polling realtime events:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Server error while polling realtime events'
+    });
+  }
+};
+
+module.exports = {
+  poll
+};
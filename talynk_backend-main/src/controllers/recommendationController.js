@@ -339,9 +339,16 @@ async function updateUserPreferences(userId, posts) {
 exports.recordInteraction = async (req, res) => {
     try {
         const { postId } = req.params;
-        const { interactionType } = req.body; // 'view', 'like', 'comment', 'share'
+        const { interactionType } = req.body; // see INTERACTION_SCORES
         const userId = req.user.id;
 
+        if (!Object.prototype.hasOwnProperty.call(INTERACTION_SCORES, interactionType)) {
+            return res.status(400).json({
+                status: 'error',
+                message: 'Unknown interaction type'
+            });
+        }
+
         // Get post to find category
         const post = await prisma.post.findUnique({
             where: { id: postId },
@@ -355,6 +362,10 @@ exports.recordInteraction = async (req, res) => {
             });
         }
 
+        await prisma.recommendationInteraction.create({
+            data: buildInteractionRecord(userId, postId, interactionType, req.body)
+        });
+
         if (post.category_id) {
             const existingPreference = await prisma.userPreference.findUnique({
                 where: {
@@ -413,14 +424,47 @@ exports.recordInteraction = async (req, res) => {
     }
 };
 
+// Category preference change per interaction. A quick skip counts against the
+// category; opening comments or the author's profile is weaker than posting.
+const INTERACTION_SCORES = {
+    view: 0.1,
+    rewatch: 0.2,
+    like: 0.3,
+    comment: 0.5,
+    share: 0.7,
+    comment_open: 0.05,
+    profile_open: 0.05,
+    skip: -0.2
+};
+
 // Helper function to get score increment based on interaction type
 function getScoreIncrement(interactionType) {
-    switch (interactionType) {
-        case 'view': return 0.1;
-        case 'like': return 0.3;
-        case 'comment': return 0.5;
-        case 'share': return 0.7;
-        default: return 0.1;
-    }
+    return INTERACTION_SCORES[interactionType] ?? 0;
+}
+
+const optionalString = (value, maxLength) =>
+    typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null;
+
+const optionalNumber = (value) => {
+    const number = Number(value);
+    return value !== null && value !== undefined && value !== '' && Number.isFinite(number) ? number : null;
+};
+
+// Attribution the app sends with each interaction (which pipeline/refresh seed served the post)
+function buildInteractionRecord(userId, postId, interactionType, body) {
+    const refresh = optionalNumber(body.refresh);
+    const occurredAt = body.occurredAt ? new Date(body.occurredAt) : null;
+    return {
+        user_id: userId,
+        post_id: postId,
+        interaction_type: interactionType,
+        signal: optionalString(body.signal, 32),
+        pipeline: optionalString(body.pipeline, 64),
+        refresh: refresh !== null ? Math.trunc(refresh) : null,
+        endpoint: optionalString(body.endpoint, 64),
+        watch_seconds: optionalNumber(body.watchSeconds),
+        watch_ratio: optionalNumber(body.watchRatio),
+        occurred_at: occurredAt && !Number.isNaN(occurredAt.getTime()) ? occurredAt : null
+    };
 }
 
@@ -0,0 +1,69 @@
+const prisma = require('../lib/prisma');
+const { emitEvent } = require('../lib/realtime');
+const { invalidatePostCaches } = require('../utils/postCacheInvalidation');
+const { linkScheduledPostToChallenge } = require('../controllers/challengeController');
+
+/**
+ * Publishes drafts whose scheduled_publish_at has passed, and enters those
+ * scheduled as competition entries into their challenge once they are live.
+ * Started from app.js and runs every minute; each post is flipped with a
+ * conditional update, so several server instances can run it side by side.
+ */
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 100;
+
+async function publishScheduledPosts() {
+  const now = new Date();
+  const duePosts = await prisma.post.findMany({
+    where: {
+      status: 'draft',
+      scheduled_publish_at: { lte: now }
+    },
+    select: { id: true, user_id: true, scheduled_challenge_id: true },
+    orderBy: { scheduled_publish_at: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let published = 0;
+  for (const post of duePosts) {
+    const { count } = await prisma.post.updateMany({
+      where: { id: post.id, status: 'draft', scheduled_publish_at: { lte: now } },
+      data: { status: 'active', scheduled_publish_at: null, scheduled_challenge_id: null, updatedAt: now }
+    });
+    if (count > 0) {
+      published += 1;
+      emitEvent('post:published', { postId: post.id, userId: post.user_id });
+      if (post.scheduled_challenge_id && post.user_id) {
+        try {
+          await linkScheduledPostToChallenge(post.scheduled_challenge_id, post.id, post.user_id);
+        } catch (error) {
+          console.error(`Error entering scheduled post ${post.id} into its challenge:`, error);
+        }
+      }
+    }
+  }
+
+  if (published > 0) {
+    await invalidatePostCaches();
+    console.log(`Published ${published} scheduled post(s)`);
+  }
+  return published;
+}
+
+function startScheduledPublishing() {
+  const run = () => {
+    publishScheduledPosts().catch((error) => {
+      console.error('Error in scheduled publishing job:', error);
+    });
+  };
+  run();
+  const timer = setInterval(run, CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
+
+module.exports = {
+  publishScheduledPosts,
+  startScheduledPublishing
+};
@@ -0,0 +1,118 @@
+/**
+ * Event buffer behind GET /api/realtime/poll, the long-polling fallback for
+ * mobile clients whose network blocks the /ws websocket.
+ *
+ * Messages are recorded in the same envelope the websocket sends (protocol
+ * version 2, with per-post `seq`) and scoped to a user, a post, or everyone.
+ * Each poll returns what the caller can see after its cursor, or waits until
+ * something arrives.
+ */
+
+const MAX_BUFFERED_EVENTS = 2000;
+const MAX_EVENT_AGE_MS = 5 * 60 * 1000;
+
+class RealtimePollBuffer {
+  constructor() {
+    this.events = []; // { cursor, userId, postId, envelope, recordedAt }
+    this.lastCursor = 0;
+    this.waiters = new Set(); // { matches, wake }
+  }
+
+  /**
+   * @param {{ userId?: string, postId?: string }} scope - neither means broadcast
+   * @param {{ type: string, data: any, seq?: number }} message
+   */
+  record(scope, message) {
+    this.lastCursor += 1;
+    const entry = {
+      cursor: this.lastCursor,
+      userId: scope.userId || null,
+      postId: scope.postId || null,
+      envelope: {
+        type: message.type,
+        data: message.data,
+        timestamp: Date.now(),
+        ...(message.seq !== undefined && { seq: message.seq })
+      },
+      recordedAt: Date.now()
+    };
+    this.events.push(entry);
+    this.prune();
+
+    this.waiters.forEach((waiter) => {
+      if (waiter.matches(entry)) waiter.wake();
+    });
+  }
+
+  prune() {
+    const cutoff = Date.now() - MAX_EVENT_AGE_MS;
+    let drop = Math.max(0, this.events.length - MAX_BUFFERED_EVENTS);
+    while (drop < this.events.length && this.events[drop].recordedAt < cutoff) {
+      drop += 1;
+    }
+    if (drop > 0) this.events.splice(0, drop);
+  }
+
+  /**
+   * Events visible to `userId` after `cursor`. `reset` means the cursor is
+   * older than the buffer (or from before a restart) and the client must
+   * refetch its state over REST.
+   */
+  read({ userId, postIds, cursor }) {
+    const matches = (entry) =>
+      (!entry.userId && !entry.postId) ||
+      entry.userId === userId ||
+      (entry.postId !== null && postIds.has(entry.postId));
+
+    if (cursor === null) {
+      return { cursor: this.lastCursor, reset: false, events: [], matches };
+    }
+
+    const oldest = this.events.length > 0 ? this.events[0].cursor : this.lastCursor + 1;
+    const reset = cursor > this.lastCursor || cursor < oldest - 1;
+    const events = this.events
+      .filter((entry) => entry.cursor > cursor && matches(entry))
+      .map((entry) => entry.envelope);
+    return { cursor: this.lastCursor, reset, events, matches };
+  }
+
+  /**
+   * Resolve with the caller's events, waiting up to `waitMs` for the first
+   * one. `onClose` registers a callback for when the request goes away, so
+   * abandoned polls do not keep their waiter.
+   */
+  wait({ userId, postIds, cursor, waitMs, onClose }) {
+    const initial = this.read({ userId, postIds, cursor });
+    if (initial.events.length > 0 || initial.reset || cursor === null || waitMs <= 0) {
+      const { matches, ...result } = initial;
+      return Promise.resolve(result);
+    }
+
+    return new Promise((resolve) => {
+      let timer = null;
+      const waiter = {
+        matches: initial.matches,
+        wake: () => finish()
+      };
+      const finish = () => {
+        if (!this.waiters.has(waiter)) return;
+        this.waiters.delete(waiter);
+        clearTimeout(timer);
+        const { matches, ...result } = this.read({ userId, postIds, cursor });
+        resolve(result);
+      };
+      this.waiters.add(waiter);
+      timer = setTimeout(finish, waitMs);
+      onClose(finish);
+    });
+  }
+
+  clear() {
+    this.events = [];
+    this.waiters.forEach((waiter) => waiter.wake());
+  }
+}
+
+const realtimePoll = new RealtimePollBuffer();
+
+module.exports = realtimePoll;
@@ -1,6 +1,16 @@
 const WebSocket = require('ws');
 const jwt = require('jsonwebtoken');
 const prisma = require('./prisma');
+const realtimePoll = require('./realtime-poll');
+
+const AUTH_TIMEOUT_MS = 10000;
+// Application close code: the client should refresh its token before reconnecting
+const AUTH_CLOSE_CODE = 4001;
+// 1: legacy envelopes and compatibility duplicates.
+// 2: per-post `seq` on post-scoped events and `subscribed` acknowledgements.
+const PROTOCOL_VERSION = 2;
+// Posts whose last seq is remembered; the least recently numbered are dropped past this
+const MAX_TRACKED_POST_SEQUENCES = 10000;
 
 class WebSocketServer {
   constructor() {
@@ -8,6 +18,8 @@ class WebSocketServer {
     this.clients = new Map(); // userId -> Set of WebSocket connections
     this.postSubscriptions = new Map(); // postId -> Set of userIds
     this.userSubscriptions = new Map(); // userId -> Set of postIds
+    this.postSequences = new Map(); // postId -> last seq sent for that post, least recently numbered first
+    this.evictedSequenceFloor = 0; // highest seq among dropped posts
   }
 
   initialize(server) {
@@ -27,48 +39,10 @@ class WebSocketServer {
     console.log('[WebSocket] Server initialized at /ws');
   }
 
-  async handleConnection(ws, req) {
+  handleConnection(ws, req) {
     try {
-      // Parse query parameters
-      const url = new URL(req.url, `http://${req.headers.host}`);
-      const userId = url.searchParams.get('userId');
-      const token = url.searchParams.get('token');
-
-      // Authenticate user
-      if (!userId || !token) {
-        console.log('[WebSocket] Connection rejected: missing userId or token');
-        ws.close(1008, 'Missing userId or token');
-        return;
-      }
-
-      let decoded;
-      try {
-        decoded = jwt.verify(token, process.env.JWT_SECRET);
-      } catch (error) {
-        console.log('[WebSocket] Connection rejected: invalid token');
-        ws.close(1008, 'Invalid token');
-        return;
-      }
-
-      // Verify userId matches token
-      if (decoded.id !== userId && decoded.userId !== userId) {
-        console.log('[WebSocket] Connection rejected: userId mismatch');
-        ws.close(1008, 'UserId mismatch');
-        return;
-      }
-
-      // Store connection info
-      ws.userId = userId;
       ws.isAlive = true;
 
-      // Add to clients map
-      if (!this.clients.has(userId)) {
-        this.clients.set(userId, new Set());
-      }
-      this.clients.get(userId).add(ws);
-
-      console.log(`[WebSocket] Client connected: ${userId} (${this.clients.get(userId).size} connections)`);
-
       // Setup heartbeat
       ws.on('pong', () => {
         ws.isAlive = true;
@@ -86,29 +60,103 @@ class WebSocketServer {
 
       // Handle close
       ws.on('close', () => {
+        clearTimeout(ws.authTimer);
         this.handleDisconnection(ws);
       });
 
       // Handle errors
       ws.on('error', (error) => {
-        console.error(`[WebSocket] Error for user ${userId}:`, error);
+        console.error(`[WebSocket] Error for user ${ws.userId || 'unauthenticated'}:`, error);
       });
 
-      // Send connection confirmation
-      this.send(ws, {
-        type: 'connected',
-        data: { userId, timestamp: Date.now() }
-      });
+      // Deprecated: app builds before the auth handshake put credentials in the URL.
+      // Remove once they have aged out.
+      const url = new URL(req.url, `http://${req.headers.host}`);
+      const legacyToken = url.searchParams.get('token');
+      if (legacyToken) {
+        ws.protocolVersion = 1;
+        this.authenticate(ws, legacyToken, url.searchParams.get('userId'));
+        return;
+      }
 
+      // Clients send { type: 'auth', data: { token } } as their first message
+      ws.authTimer = setTimeout(() => {
+        if (!ws.userId) {
+          ws.close(AUTH_CLOSE_CODE, 'Authentication timeout');
+        }
+      }, AUTH_TIMEOUT_MS);
     } catch (error) {
       console.error('[WebSocket] Connection error:', error);
       ws.close(1011, 'Server error');
     }
   }
 
+  verifyToken(token) {
+    try {
+      const decoded = jwt.verify(token, process.env.JWT_SECRET);
+      const userId = decoded.id || decoded.userId;
+      return userId ? { userId } : { error: 'invalid_token' };
+    } catch (error) {
+      return { error: error.name === 'TokenExpiredError' ? 'token_expired' : 'invalid_token' };
+    }
+  }
+
+  // Handles the first auth message and later re-auth after the client rotates its token
+  authenticate(ws, token, expectedUserId) {
+    const result = token ? this.verifyToken(token) : { error: 'invalid_token' };
+    const claimedUserId = expectedUserId || ws.userId;
+
+    if (result.error || (claimedUserId && claimedUserId !== result.userId)) {
+      const code = result.error || 'user_mismatch';
+      console.log(`[WebSocket] Authentication rejected: ${code}`);
+      this.send(ws, { type: 'auth:error', data: { code } });
+      ws.close(AUTH_CLOSE_CODE, 'Authentication failed');
+      return;
+    }
+
+    if (ws.userId) {
+      this.send(ws, { type: 'auth:ok', data: { userId: ws.userId, protocolVersion: ws.protocolVersion } });
+      return;
+    }
+
+    clearTimeout(ws.authTimer);
+    const userId = result.userId;
+    ws.userId = userId;
+
+    // Add to clients map
+    if (!this.clients.has(userId)) {
+      this.clients.set(userId, new Set());
+    }
+    this.clients.get(userId).add(ws);
+
+    console.log(`[WebSocket] Client connected: ${userId} (${this.clients.get(userId).size} connections)`);
+
+    this.send(ws, { type: 'auth:ok', data: { userId, protocolVersion: ws.protocolVersion } });
+    // Send connection confirmation
+    this.send(ws, {
+      type: 'connected',
+      data: { userId, timestamp: Date.now() }
+    });
+  }
+
   handleMessage(ws, message) {
     const { type, data } = message;
 
+    if (type === 'auth') {
+      if (!ws.userId) {
+        // Clients that predate versioning send none and get version 1
+        const requested = Number(data && data.protocolVersion) || 1;
+        ws.protocolVersion = Math.max(1, Math.min(requested, PROTOCOL_VERSION));
+      }
+      this.authenticate(ws, data && data.token);
+      return;
+    }
+
+    // Nothing else is accepted before the handshake
+    if (!ws.userId) {
+      return;
+    }
+
     switch (type) {
       case 'ping':
         this.send(ws, {
@@ -120,6 +168,13 @@ class WebSocketServer {
       case 'subscribe':
         if (data.postId && ws.userId) {
           this.subscribeToPost(ws.userId, data.postId);
+          if (ws.protocolVersion >= 2) {
+            // Lets the client tell whether it missed events while it was away
+            this.send(ws, {
+              type: 'subscribed',
+              data: { postId: data.postId, seq: this.currentPostSequence(data.postId) }
+            });
+          }
         }
         break;
 
@@ -197,15 +252,22 @@ class WebSocketServer {
     console.log(`[WebSocket] Client disconnected: ${userId}`);
   }
 
-  // Send message to a specific WebSocket connection
+  // Send message to a specific WebSocket connection.
+  // `legacyOnly` marks compatibility duplicates that version 2 clients do not need.
   send(ws, message) {
+    const version = ws.protocolVersion || 1;
+    if (message.legacyOnly && version >= 2) return;
     if (ws.readyState === WebSocket.OPEN) {
       try {
-        ws.send(JSON.stringify({
+        const envelope = {
           type: message.type,
           data: message.data,
           timestamp: Date.now()
-        }));
+        };
+        if (message.seq !== undefined && version >= 2) {
+          envelope.seq = message.seq;
+        }
+        ws.send(JSON.stringify(envelope));
       } catch (error) {
         console.error('[WebSocket] Send error:', error);
       }
@@ -221,29 +283,55 @@ class WebSocketServer {
     }
   }
 
-  // Broadcast to all users subscribed to a post
+  // Broadcast to all users subscribed to a post, and to pollers following it
   async broadcastToPostSubscribers(postId, message) {
-    if (this.postSubscriptions.has(postId)) {
-      const subscribers = Array.from(this.postSubscriptions.get(postId));
-      
-      // Also include post owner
+    const subscribers = Array.from(this.postSubscriptions.get(postId) || []);
+
+    // Also include post owner
+    if (subscribers.length > 0) {
       try {
         const post = await prisma.post.findUnique({
           where: { id: postId },
           select: { user_id: true }
         });
-        
+
         if (post && !subscribers.includes(post.user_id)) {
           subscribers.push(post.user_id);
         }
       } catch (error) {
         console.error('[WebSocket] Error fetching post owner:', error);
       }
+    }
 
-      subscribers.forEach(userId => {
-        this.broadcastToUser(userId, message);
-      });
+    // Numbered after the await so seq order matches send order. Numbered even
+    // with no subscribers, so a client subscribing later can tell it missed this.
+    const sequenced = message.legacyOnly ? message : { ...message, seq: this.nextPostSequence(postId) };
+    if (!message.legacyOnly) {
+      realtimePoll.record({ postId }, sequenced);
+    }
+    subscribers.forEach(userId => {
+      this.broadcastToUser(userId, sequenced);
+    });
+  }
+
+  // A post that has been dropped carries on from above every seq handed out
+  // before, so clients that remember it see a gap and resync instead of
+  // discarding the new events as duplicates.
+  currentPostSequence(postId) {
+    return this.postSequences.get(postId) ?? this.evictedSequenceFloor;
+  }
+
+  nextPostSequence(postId) {
+    const seq = this.currentPostSequence(postId) + 1;
+    this.postSequences.delete(postId);
+    this.postSequences.set(postId, seq);
+
+    if (this.postSequences.size > MAX_TRACKED_POST_SEQUENCES) {
+      const [oldestPostId, oldestSeq] = this.postSequences.entries().next().value;
+      this.postSequences.delete(oldestPostId);
+      this.evictedSequenceFloor = Math.max(this.evictedSequenceFloor, oldestSeq);
     }
+    return seq;
   }
 
   // Broadcast like update
@@ -267,6 +355,7 @@ class WebSocketServer {
       // Also send as 'like' for compatibility
       const likeMessage = {
         type: 'like',
+        legacyOnly: true,
         data: {
           postId,
           userId,
@@ -338,6 +427,7 @@ class WebSocketServer {
       // Also send as 'comment' for compatibility
       const commentMessage = {
         type: 'comment',
+        legacyOnly: true,
         data: message.data
       };
 
@@ -376,10 +466,12 @@ class WebSocketServer {
     // Also send as 'follow' for compatibility
     const followMessage = {
       type: 'follow',
+      legacyOnly: true,
       data: message.data
     };
 
     // Notify the target user
+    realtimePoll.record({ userId: targetUserId }, message);
     this.broadcastToUser(targetUserId, message);
     this.broadcastToUser(targetUserId, followMessage);
   }
@@ -393,6 +485,7 @@ class WebSocketServer {
       type: 'challenge:updated',
       data: payload,
     };
+    realtimePoll.record({}, message);
     this.clients.forEach((wsSet) => {
       wsSet.forEach((ws) => this.send(ws, message));
     });
@@ -440,11 +533,13 @@ class WebSocketServer {
     // Also send as 'notification' for compatibility
     const notificationMessage = {
       type: 'notification',
+      legacyOnly: true,
       data: message.data
     };
 
     // Try to broadcast by userId (UUID)
     if (targetUserId) {
+      realtimePoll.record({ userId: targetUserId }, message);
       this.broadcastToUser(targetUserId, message);
       this.broadcastToUser(targetUserId, notificationMessage);
     }
@@ -458,6 +553,7 @@ class WebSocketServer {
           select: { id: true }
         });
         if (user && user.id !== targetUserId) {
+          realtimePoll.record({ userId: user.id }, message);
           this.broadcastToUser(user.id, message);
           this.broadcastToUser(user.id, notificationMessage);
         }
@@ -513,6 +609,7 @@ class WebSocketServer {
     this.clients.clear();
     this.postSubscriptions.clear();
     this.userSubscriptions.clear();
+    this.postSequences.clear();
   }
 }
 
@@ -69,6 +69,24 @@ const upload = multer({
   fileFilter: fileFilter
 });
 
+// WebVTT caption tracks attached to a post; some pickers report them as text/plain
+const subtitleFileFilter = (req, file, cb) => {
+  const isVtt = path.extname(file.originalname).toLowerCase() === '.vtt';
+  if (isVtt && ['text/vtt', 'text/plain', 'application/octet-stream'].includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only WebVTT (.vtt) caption files are allowed!'), false);
+  }
+};
+
+const subtitleUpload = multer({
+  storage: storage,
+  limits: {
+    fileSize: 1 * 1024 * 1024, // 1MB max caption file size
+  },
+  fileFilter: subtitleFileFilter
+});
+
 // Middleware to handle file upload (R2 or local)
 const handleFileUpload = async (req, res, next) => {
   try {
@@ -170,7 +188,8 @@ const handleFileUpload = async (req, res, next) => {
 const uploadMiddleware = {
   single: (fieldName) => [upload.single(fieldName), handleFileUpload],
   array: (fieldName, maxCount) => [upload.array(fieldName, maxCount), handleFileUpload],
-  fields: (fields) => [upload.fields(fields), handleFileUpload]
+  fields: (fields) => [upload.fields(fields), handleFileUpload],
+  subtitles: (fieldName) => [subtitleUpload.single(fieldName), handleFileUpload]
 };
 
 module.exports = uploadMiddleware; 
\ No newline at end of file
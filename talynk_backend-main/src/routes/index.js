@@ -26,6 +26,7 @@ const internalRoutes = require('./internal.routes');
 const webhookRoutes = require('./webhook.routes');
 const feedRoutes = require('./feed.routes');
 const logsRoutes = require('./logs.routes');
+const realtimeRoutes = require('./realtime.routes');
 
 // Test route
 router.get('/test', (req, res) => {
@@ -57,6 +58,7 @@ router.use('/search', searchRoutes);
 router.use('/internal', internalRoutes);
 router.use('/feed', feedRoutes);
 router.use('/logs', logsRoutes);
+router.use('/realtime', realtimeRoutes);
 router.use('/webhooks', webhookRoutes);
 
 module.exports = router; 
\ No newline at end of file
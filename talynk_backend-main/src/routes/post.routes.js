@@ -25,6 +25,11 @@ router.get('/search', postController.searchPosts);
 
 // PARAMETERIZED ROUTES LAST - to avoid conflicts
 router.put('/:postId/publish', authenticate, postController.publishDraftPost);
+router.put('/:postId/schedule', authenticate, postController.scheduleDraftPost);
+router.delete('/:postId/schedule', authenticate, postController.unscheduleDraftPost);
+router.post('/:postId/upload-parts', authenticate, postController.getVideoUploadParts);
+router.put('/:postId/subtitles', authenticate, ...upload.subtitles('file'), postController.uploadPostSubtitles);
+router.delete('/:postId/subtitles', authenticate, postController.removePostSubtitles);
 router.get('/:postId', postController.getPostById);
 router.post('/:postId/like', authenticate, likeController.toggleLike);
 router.delete('/:postId', authenticate, postController.deletePost);
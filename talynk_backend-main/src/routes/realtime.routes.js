@@ -0,0 +1,13 @@
+const express = require('express');
+const router = express.Router();
+
+// Import middleware
+const { authenticate } = require('../middleware/auth');
+
+// Import controllers
+const realtimeController = require('../controllers/realtimeController');
+
+// Long-polling fallback for clients that cannot use the /ws websocket
+router.get('/poll', authenticate, realtimeController.poll);
+
+module.exports = router;
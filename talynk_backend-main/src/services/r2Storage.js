@@ -1,4 +1,14 @@
-const { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand, HeadObjectCommand } = require('@aws-sdk/client-s3');
+const {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+} = require('@aws-sdk/client-s3');
 const { getSignedUrl } = require('@aws-sdk/s3-request-presigner');
 const { Upload } = require('@aws-sdk/lib-storage');
 const { v4: uuidv4 } = require('uuid');
@@ -277,6 +287,98 @@ async function fileExistsInR2(key) {
   }
 }
 
+/**
+ * Start a multipart upload so a client can send a large file in parts and
+ * resume after losing its connection.
+ * @param {string} key - R2 object key
+ * @param {string} contentType - MIME type (e.g. 'video/mp4')
+ * @returns {Promise<string>} Upload id
+ */
+async function createMultipartUpload(key, contentType = 'video/mp4') {
+  if (!USE_R2 || !s3Client) {
+    throw new Error('R2 storage is not configured.');
+  }
+
+  const result = await s3Client.send(new CreateMultipartUploadCommand({
+    Bucket: R2_BUCKET_NAME,
+    Key: key,
+    ContentType: contentType,
+  }));
+  return result.UploadId;
+}
+
+/**
+ * Generate a presigned PUT URL for one part of a multipart upload.
+ * @param {string} key - R2 object key
+ * @param {string} uploadId - Multipart upload id
+ * @param {number} partNumber - 1-based part number
+ * @param {number} expiresIn - URL expiry in seconds (default 600 = 10 min)
+ * @returns {Promise<string>}
+ */
+async function getSignedPartUrl(key, uploadId, partNumber, expiresIn = 600) {
+  if (!USE_R2 || !s3Client) {
+    throw new Error('R2 storage is not configured.');
+  }
+
+  const command = new UploadPartCommand({
+    Bucket: R2_BUCKET_NAME,
+    Key: key,
+    UploadId: uploadId,
+    PartNumber: partNumber,
+  });
+  return getSignedUrl(s3Client, command, { expiresIn });
+}
+
+/**
+ * Parts R2 has received for a multipart upload.
+ * @param {string} key - R2 object key
+ * @param {string} uploadId - Multipart upload id
+ * @returns {Promise<Array<{PartNumber: number, ETag: string, Size: number}>>}
+ */
+async function listUploadedParts(key, uploadId) {
+  if (!USE_R2 || !s3Client) {
+    throw new Error('R2 storage is not configured.');
+  }
+
+  const parts = [];
+  let marker;
+  do {
+    const page = await s3Client.send(new ListPartsCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      PartNumberMarker: marker,
+    }));
+    (page.Parts || []).forEach((part) => {
+      parts.push({ PartNumber: part.PartNumber, ETag: part.ETag, Size: part.Size });
+    });
+    marker = page.IsTruncated ? page.NextPartNumberMarker : undefined;
+  } while (marker);
+
+  return parts.sort((a, b) => a.PartNumber - b.PartNumber);
+}
+
+/**
+ * Assemble the uploaded parts into the final object.
+ * @param {string} key - R2 object key
+ * @param {string} uploadId - Multipart upload id
+ * @param {Array<{PartNumber: number, ETag: string}>} parts - Parts in order
+ */
+async function completeMultipartUpload(key, uploadId, parts) {
+  if (!USE_R2 || !s3Client) {
+    throw new Error('R2 storage is not configured.');
+  }
+
+  await s3Client.send(new CompleteMultipartUploadCommand({
+    Bucket: R2_BUCKET_NAME,
+    Key: key,
+    UploadId: uploadId,
+    MultipartUpload: {
+      Parts: parts.map((part) => ({ PartNumber: part.PartNumber, ETag: part.ETag })),
+    },
+  }));
+}
+
 module.exports = {
   uploadToR2,
   uploadFileToR2,
@@ -286,6 +388,10 @@ module.exports = {
   isR2Configured,
   getSignedUploadUrl,
   fileExistsInR2,
+  createMultipartUpload,
+  getSignedPartUrl,
+  listUploadedParts,
+  completeMultipartUpload,
   R2_PUBLIC_DOMAIN,
   R2_BUCKET_NAME,
 };
@@ -95,6 +95,10 @@ export interface Post {
   video_duration?: number; // Duration in seconds
   processing_status?: 'pending' | 'processing' | 'completed' | 'failed';
   // END HLS STREAMING FIELDS
+  subtitle_url?: string | null; // Sidecar WebVTT caption track
+  subtitleUrl?: string | null;
+  subtitle_language?: string | null; // BCP 47 tag of the caption track, e.g. "en"
+  scheduled_publish_at?: string | null; // Drafts only: when the server publishes it
   createdAt: string;
   updatedAt: string;
   uploadDate?: string;